@@ -2,22 +2,55 @@
  * Cloudflare Pages Function for dynamic blog post routes
  * This serves the 404-placeholder.html for any /blog/:slug route
  * The client-side React code will handle fetching the actual post data
+ *
+ * Slugs a post used to have get a 301 to its current slug, so old links
+ * and search results keep working after a rename
  */
 
+const DEFAULT_POSTS_API_URL = 'https://travel-blog-posts.andreas-e-ludviksen.workers.dev';
+
+/**
+ * Ask the posts API whether the slug has moved
+ * @returns The current slug, or null if the slug is live, unknown or the lookup failed
+ */
+async function findMovedSlug(apiUrl: string, slug: string): Promise<string | null> {
+  try {
+    const response = await fetch(`${apiUrl}/api/posts/slug/${encodeURIComponent(slug)}`);
+    if (!response.ok) {
+      return null;
+    }
+
+    const data: any = await response.json();
+    return typeof data?.redirect?.slug === 'string' ? data.redirect.slug : null;
+  } catch {
+    return null;
+  }
+}
+
 export async function onRequest(context: any) {
-  const { request } = context;
+  const { request, params, env } = context;
   const url = new URL(request.url);
-  
+
+  const slug = typeof params?.slug === 'string' ? params.slug : null;
+  if (slug) {
+    const movedTo = await findMovedSlug(env?.POSTS_API_URL || DEFAULT_POSTS_API_URL, slug);
+    if (movedTo && movedTo !== slug) {
+      const target = new URL(`/blog/${encodeURIComponent(movedTo)}`, url.origin);
+      target.search = url.search;
+      return Response.redirect(target.toString(), 301);
+    }
+  }
+
   // Construct URL to the placeholder file
   const placeholderUrl = new URL('/blog/404-placeholder.html', url.origin);
-  
+
   // Fetch the static HTML file
   const response = await fetch(placeholderUrl.toString());
-  
+
   if (!response.ok) {
     return new Response('Page not found', { status: 404 });
   }
-  
+
   // Return the HTML with 200 status
   return new Response(await response.text(), {
     status: 200,
@@ -0,0 +1,345 @@
+/**
+ * Manage Users Page
+ * Feature: user-management
+ *
+ * Lets contributors add readers and contributors, rename them, change their
+ * role, and disable or re-enable their accounts
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/hooks/useAuth';
+import { createUser, fetchUsers, setUserDisabled, updateUser } from '@/lib/auth-api';
+import type { ManagedUser, UserRole } from '@/types/user-admin';
+
+interface UserDraft {
+  displayName: string;
+  email: string;
+  role: UserRole;
+}
+
+const EMPTY_NEW_USER = { username: '', password: '', displayName: '', email: '', role: 'reader' as UserRole };
+
+// Helper function to get session token
+const getSessionToken = (): string | null => {
+  if (typeof window === 'undefined') return null;
+
+  const storedToken = localStorage.getItem('session_token');
+  if (storedToken) return storedToken;
+
+  const cookies = document.cookie.split(';');
+  const sessionCookie = cookies.find(c => c.trim().startsWith('session='));
+  return sessionCookie ? sessionCookie.split('=')[1] : null;
+};
+
+export default function ManageUsersPage() {
+  const router = useRouter();
+  const { isAuthenticated, user, isLoading: authLoading } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, UserDraft>>({});
+  const [newUser, setNewUser] = useState(EMPTY_NEW_USER);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | 'new' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login?redirect=/admin/users');
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  // Check contributor role
+  useEffect(() => {
+    if (!authLoading && isAuthenticated && user?.role !== 'contributor') {
+      router.push('/blog');
+    }
+  }, [user, isAuthenticated, authLoading, router]);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const token = getSessionToken();
+      if (!token) {
+        throw new Error('No session token found');
+      }
+
+      const data = await fetchUsers(token);
+      setUsers(data.users);
+      setDrafts({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Load users
+  useEffect(() => {
+    if (isAuthenticated && user?.role === 'contributor') {
+      loadUsers();
+    }
+  }, [isAuthenticated, user, loadUsers]);
+
+  const replaceUser = (updated: ManagedUser) => {
+    setUsers(prev => prev.map(u => (u.id === updated.id ? updated : u)));
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[updated.id];
+      return next;
+    });
+  };
+
+  const getDraft = (u: ManagedUser): UserDraft =>
+    drafts[u.id] || { displayName: u.displayName || '', email: u.email || '', role: u.role };
+
+  const isChanged = (u: ManagedUser): boolean => {
+    const draft = drafts[u.id];
+    return !!draft && (
+      draft.displayName.trim() !== (u.displayName || '') ||
+      draft.email.trim() !== (u.email || '') ||
+      draft.role !== u.role
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const token = getSessionToken();
+    if (!token) return;
+
+    setBusyId('new');
+    setError(null);
+    try {
+      const { user: created } = await createUser({
+        username: newUser.username,
+        password: newUser.password,
+        role: newUser.role,
+        displayName: newUser.displayName || null,
+        email: newUser.email || null,
+      }, token);
+      setUsers(prev => [created, ...prev]);
+      setNewUser(EMPTY_NEW_USER);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create user');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSave = async (u: ManagedUser) => {
+    const token = getSessionToken();
+    if (!token) return;
+
+    const draft = getDraft(u);
+    setBusyId(u.id);
+    setError(null);
+    try {
+      const { user: updated } = await updateUser(u.id, {
+        displayName: draft.displayName.trim() || null,
+        email: draft.email.trim() || null,
+        role: draft.role,
+      }, token);
+      replaceUser(updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update user');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggleDisabled = async (u: ManagedUser) => {
+    const disable = !u.disabledAt;
+    if (disable && !confirm(`Disable ${u.username}? They will no longer be able to sign in.`)) {
+      return;
+    }
+
+    const token = getSessionToken();
+    if (!token) return;
+
+    setBusyId(u.id);
+    setError(null);
+    try {
+      const { user: updated } = await setUserDisabled(u.id, disable, token);
+      replaceUser(updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change user status');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString.replace(' ', 'T') + 'Z').toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  if (authLoading || (loading && users.length === 0 && !error)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Users</h1>
+          <p className="mt-2 text-gray-600">
+            Readers can view the blog; contributors can also write posts and manage users
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        {/* New user */}
+        <form onSubmit={handleCreate} className="mb-10 bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Add a user</h2>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <input
+              type="text"
+              required
+              placeholder="Username"
+              value={newUser.username}
+              onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <input
+              type="password"
+              required
+              minLength={8}
+              maxLength={72}
+              placeholder="Password (8-72 characters)"
+              value={newUser.password}
+              onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <input
+              type="text"
+              placeholder="Display name (optional)"
+              value={newUser.displayName}
+              onChange={(e) => setNewUser({ ...newUser, displayName: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <input
+              type="email"
+              placeholder="Email (for password resets)"
+              value={newUser.email}
+              onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <select
+              value={newUser.role}
+              onChange={(e) => setNewUser({ ...newUser, role: e.target.value as UserRole })}
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="reader">Reader</option>
+              <option value="contributor">Contributor</option>
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={busyId === 'new'}
+            className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {busyId === 'new' ? 'Adding...' : 'Add user'}
+          </button>
+        </form>
+
+        {/* Existing users */}
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">User</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Display name</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Email</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Role</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {users.map((u) => {
+                const draft = getDraft(u);
+                const isSelf = u.username === user?.username;
+                return (
+                  <tr key={u.id} className={u.disabledAt ? 'bg-gray-50 text-gray-400' : ''}>
+                    <td className="px-4 py-3">
+                      <div className="font-medium">{u.username}{isSelf && ' (you)'}</div>
+                      <div className="text-xs text-gray-500">
+                        Added {formatDate(u.createdAt)}
+                        {u.disabledAt && ` · disabled ${formatDate(u.disabledAt)}`}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="text"
+                        value={draft.displayName}
+                        onChange={(e) => setDrafts({ ...drafts, [u.id]: { ...draft, displayName: e.target.value } })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="email"
+                        value={draft.email}
+                        onChange={(e) => setDrafts({ ...drafts, [u.id]: { ...draft, email: e.target.value } })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        value={draft.role}
+                        disabled={isSelf}
+                        onChange={(e) => setDrafts({ ...drafts, [u.id]: { ...draft, role: e.target.value as UserRole } })}
+                        className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      >
+                        <option value="reader">Reader</option>
+                        <option value="contributor">Contributor</option>
+                      </select>
+                    </td>
+                    <td className="px-4 py-3 text-right space-x-3 whitespace-nowrap">
+                      <button
+                        onClick={() => handleSave(u)}
+                        disabled={!isChanged(u) || busyId === u.id}
+                        className="text-sm text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                      {!isSelf && (
+                        <button
+                          onClick={() => handleToggleDisabled(u)}
+                          disabled={busyId === u.id}
+                          className={`text-sm disabled:opacity-50 ${
+                            u.disabledAt ? 'text-green-600 hover:text-green-900' : 'text-red-600 hover:text-red-900'
+                          }`}
+                        >
+                          {u.disabledAt ? 'Enable' : 'Disable'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
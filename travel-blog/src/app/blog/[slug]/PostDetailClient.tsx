@@ -9,10 +9,11 @@
 
 import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { fetchPostBySlug, type PostDetailResponse } from '@/lib/posts-api';
+import { fetchPostBySlug, PostMovedError, type PostDetailResponse } from '@/lib/posts-api';
 import PostRenderer from '@/components/blog/PostRenderer';
 import BackToList from '@/components/blog/BackToList';
 import PostNavigation from '@/components/blog/PostNavigation';
+import RelatedPosts from '@/components/blog/RelatedPosts';
 import { formatPostDate } from '@/utils/date-format';
 
 export default function PostDetailClient() {
@@ -39,6 +40,10 @@ export default function PostDetailClient() {
         
         setPostData(data);
       } catch (err) {
+        if (err instanceof PostMovedError) {
+          router.replace(`/blog/${err.slug}`);
+          return;
+        }
         console.error('Error fetching post:', err);
         setError('Failed to load blog post');
       } finally {
@@ -113,8 +118,15 @@ export default function PostDetailClient() {
           <PostRenderer post={post} content={content} />
         </div>
 
-        {/* Post navigation (prev/next) - TODO: implement in future iteration */}
-        <PostNavigation />
+        {/* "You might also like" */}
+        <RelatedPosts postId={post.id} />
+
+        {/* Post navigation (prev/next within the trip, if any, otherwise by publish date) */}
+        <PostNavigation
+          trip={post.trip}
+          previousPost={post.neighbors?.previous}
+          nextPost={post.neighbors?.next}
+        />
       </article>
     </div>
   );
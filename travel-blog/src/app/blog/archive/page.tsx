@@ -0,0 +1,178 @@
+/**
+ * Blog Archive Page
+ * Feature: post-archive
+ *
+ * Browse published posts by year, then month, then the posts of that month
+ * (/blog/archive?year=2024&month=5), optionally within one country (?country=IT)
+ */
+
+'use client';
+
+import { useEffect, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams, useRouter } from 'next/navigation';
+import PostGrid from '@/components/blog/PostGrid';
+import Pagination from '@/components/blog/Pagination';
+import ArchiveIndex from '@/components/blog/ArchiveIndex';
+import { fetchPostArchive, fetchPublishedPosts } from '@/lib/posts-api';
+import type { PaginationInfo } from '@/types/pagination';
+import type { PostCardData } from '@/types/post-card';
+import type { PostArchive } from '@/types/post-archive';
+import { getMonthName, parseArchiveSelection } from '@/utils/blog-archive';
+import { useAuth } from '@/hooks/useAuth';
+
+const POSTS_PER_PAGE = 12;
+
+function LoadingArchive() {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 animate-pulse">
+      {[1, 2, 3, 4].map((i) => (
+        <div key={i} className="h-20 bg-gray-200 rounded-lg" />
+      ))}
+    </div>
+  );
+}
+
+function ArchiveContent() {
+  const searchParams = useSearchParams();
+  const selection = parseArchiveSelection(searchParams);
+  const { year, month, country } = selection;
+  const currentPage = parseInt(searchParams.get('page') || '1', 10);
+
+  const [archive, setArchive] = useState<PostArchive | null>(null);
+  const [posts, setPosts] = useState<PostCardData[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Year and month counts (for the selected country, if any)
+  useEffect(() => {
+    const loadArchive = async () => {
+      setError(null);
+      try {
+        setArchive(await fetchPostArchive(country));
+      } catch (err) {
+        console.error('Error loading archive:', err);
+        setError('Failed to load the archive. Please try again later.');
+      }
+    };
+
+    loadArchive();
+  }, [country]);
+
+  // Posts of the selected month
+  useEffect(() => {
+    if (year === null || month === null) {
+      setPosts([]);
+      setPagination(null);
+      return;
+    }
+
+    const loadPosts = async () => {
+      setError(null);
+      try {
+        const postList = await fetchPublishedPosts(
+          POSTS_PER_PAGE,
+          (currentPage - 1) * POSTS_PER_PAGE,
+          country ? { country, tags: [], companions: [] } : undefined,
+          { period: { year, month } }
+        );
+        const total = postList.pagination.total ?? 0;
+
+        setPosts(postList.posts);
+        setPagination({
+          total,
+          limit: postList.pagination.limit,
+          offset: postList.pagination.offset,
+          hasMore: postList.pagination.hasMore,
+          currentPage,
+          totalPages: Math.ceil(total / POSTS_PER_PAGE),
+        });
+      } catch (err) {
+        console.error('Error loading posts:', err);
+        setError('Failed to load blog posts. Please try again later.');
+      }
+    };
+
+    loadPosts();
+  }, [country, year, month, currentPage]);
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  if (!archive) {
+    return <LoadingArchive />;
+  }
+
+  return (
+    <>
+      <ArchiveIndex archive={archive} selection={selection} />
+      {year !== null && month !== null && (
+        <>
+          <h2 className="text-2xl font-bold text-gray-900 mb-6">
+            {getMonthName(month)} {year}
+          </h2>
+          {pagination && pagination.total === 0 ? (
+            <p className="text-gray-600">No stories were published this month.</p>
+          ) : (
+            <PostGrid posts={posts} priorityCount={3} />
+          )}
+          {pagination && <Pagination pagination={pagination} />}
+        </>
+      )}
+    </>
+  );
+}
+
+export default function BlogArchivePage() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/login?redirect=/blog/archive');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null; // Will redirect in useEffect
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-4xl md:text-5xl font-bold text-gray-900 mb-4">
+            Archive
+          </h1>
+          <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+            Every story by when it was published and where it took place
+          </p>
+          <Link href="/blog" className="inline-block mt-4 text-blue-600 hover:text-blue-800">
+            ← Back to blog
+          </Link>
+        </div>
+
+        <Suspense fallback={<LoadingArchive />}>
+          <ArchiveContent />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
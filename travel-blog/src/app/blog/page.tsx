@@ -3,19 +3,42 @@
  * Feature: 005-public-blog-viewing
  * 
  * Main page displaying list of all published blog posts
+ * (/blog?preview=<token> shows an unpublished post to anyone holding the link,
+ * /blog?q=<terms> shows full-text search results, ?country=, ?tag= and ?with= filter the list,
+ * /blog?trip=<slug> shows a trip and its parts)
  */
 
 'use client';
 
-import { useEffect, useState, Suspense } from 'react';
+import { useCallback, useEffect, useMemo, useState, Suspense } from 'react';
+import Link from 'next/link';
 import { useSearchParams, useRouter } from 'next/navigation';
 import PostGrid from '@/components/blog/PostGrid';
 import Pagination from '@/components/blog/Pagination';
 import EmptyPostList from '@/components/blog/EmptyPostList';
-import { fetchPublishedPosts, fetchPostBySlug, PostDetailResponse } from '@/lib/posts-api';
+import {
+  fetchPublishedPosts,
+  fetchPostBySlug,
+  fetchPostPreview,
+  searchPosts,
+  fetchTrip,
+  PostMovedError,
+  PostDetailResponse,
+  PostPreviewResponse,
+} from '@/lib/posts-api';
 import type { PaginationInfo } from '@/types/pagination';
-import type { PostCardData } from '@/types/post-card';
+import { getPostUrl } from '@/utils/post-url';
+import type { PostCardData, PostSearchData } from '@/types/post-card';
 import PostRenderer from '@/components/blog/PostRenderer';
+import SearchBox from '@/components/blog/SearchBox';
+import SearchResults from '@/components/blog/SearchResults';
+import FacetFilters from '@/components/blog/FacetFilters';
+import TripOverview from '@/components/blog/TripOverview';
+import PostNavigation from '@/components/blog/PostNavigation';
+import RelatedPosts from '@/components/blog/RelatedPosts';
+import type { TripDetailResponse } from '@/types/trip';
+import type { PostFacets } from '@/types/post-taxonomy';
+import { hasPostFilters, parsePostFilters } from '@/utils/blog-filters';
 import { useAuth } from '@/hooks/useAuth';
 
 const POSTS_PER_PAGE = 12;
@@ -43,11 +66,20 @@ function BlogContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const currentPage = parseInt(searchParams.get('page') || '1', 10);
+  const cursor = searchParams.get('cursor');
   const slug = searchParams.get('slug');
+  const previewToken = searchParams.get('preview');
+  const tripSlug = searchParams.get('trip');
+  const query = searchParams.get('q')?.trim() || '';
+  const filters = useMemo(() => parsePostFilters(searchParams), [searchParams]);
   
   const [posts, setPosts] = useState<PostCardData[]>([]);
   const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [facets, setFacets] = useState<PostFacets | null>(null);
   const [post, setPost] = useState<PostDetailResponse | null>(null);
+  const [preview, setPreview] = useState<PostPreviewResponse | null>(null);
+  const [searchResults, setSearchResults] = useState<PostSearchData | null>(null);
+  const [trip, setTrip] = useState<TripDetailResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -66,6 +98,10 @@ function BlogContent() {
         const postData = await fetchPostBySlug(slug);
         setPost(postData);
       } catch (err) {
+        if (err instanceof PostMovedError) {
+          router.replace(getPostUrl(err.slug));
+          return;
+        }
         console.error('Error loading post:', err);
         setError('Post not found');
       } finally {
@@ -74,46 +110,136 @@ function BlogContent() {
     };
 
     loadPost();
-  }, [slug]);
+  }, [slug, router]);
 
-  // Load post list if no slug
+  // Load preview if a preview token is present
   useEffect(() => {
-    if (slug) return; // Don't load list if viewing individual post
+    if (!previewToken) {
+      setPreview(null);
+      return;
+    }
 
-    const loadPosts = async () => {
+    const loadPreview = async () => {
       setLoading(true);
       setError(null);
-      
+
+      try {
+        setPreview(await fetchPostPreview(previewToken));
+      } catch (err) {
+        console.error('Error loading preview:', err);
+        setError('This preview link is invalid or has expired');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPreview();
+  }, [previewToken]);
+
+  // Load trip if a trip slug is present
+  useEffect(() => {
+    if (!tripSlug || slug || previewToken) {
+      setTrip(null);
+      return;
+    }
+
+    const loadTrip = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        setTrip(await fetchTrip(tripSlug, localStorage.getItem('session_token')));
+      } catch (err) {
+        console.error('Error loading trip:', err);
+        setError('Trip not found');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTrip();
+  }, [tripSlug, slug, previewToken]);
+
+  // Load search results if a query is present
+  useEffect(() => {
+    if (!query || slug || previewToken || tripSlug) {
+      setSearchResults(null);
+      return;
+    }
+
+    const loadResults = async () => {
+      setLoading(true);
+      setError(null);
+
       try {
         const offset = (currentPage - 1) * POSTS_PER_PAGE;
-        const postList = await fetchPublishedPosts(POSTS_PER_PAGE, offset);
-        
-        setPosts(postList.posts);
-        setPagination({
-          ...postList.pagination,
-          currentPage,
-          totalPages: Math.ceil(postList.pagination.total / POSTS_PER_PAGE),
-        });
+        const token = localStorage.getItem('session_token');
+        setSearchResults(await searchPosts(query, POSTS_PER_PAGE, offset, token));
       } catch (err) {
-        console.error('Error loading posts:', err);
-        setError('Failed to load blog posts. Please try again later.');
+        console.error('Error searching posts:', err);
+        setError(err instanceof Error ? err.message : 'Search failed. Please try again.');
       } finally {
         setLoading(false);
       }
     };
 
+    loadResults();
+  }, [query, currentPage, slug, previewToken, tripSlug]);
+
+  const loadPosts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Pages after the first are reached with the cursor from the previous response
+      const offset = cursor ? 0 : (currentPage - 1) * POSTS_PER_PAGE;
+      const postList = await fetchPublishedPosts(POSTS_PER_PAGE, offset, filters, {
+        cursor: cursor || undefined,
+      });
+
+      setPosts(postList.posts);
+      setFacets(postList.facets ?? null);
+      // Cursor pages are not counted; keep the total from the page we came from
+      setPagination(prev => {
+        const total = postList.pagination.total ?? prev?.total;
+        return {
+          ...postList.pagination,
+          total,
+          currentPage,
+          totalPages: total !== undefined ? Math.ceil(total / POSTS_PER_PAGE) : undefined,
+        };
+      });
+    } catch (err) {
+      console.error('Error loading posts:', err);
+      setError('Failed to load blog posts. Please try again later.');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentPage, cursor, filters]);
+
+  // Load post list if no slug
+  useEffect(() => {
+    if (slug || previewToken || query || tripSlug) return; // Don't load list if viewing a post or trip, or searching
+
     loadPosts();
-  }, [currentPage, slug]);
+  }, [slug, previewToken, query, tripSlug, loadPosts]);
+
+  const showSearchBox = !slug && !previewToken && !tripSlug;
 
   if (loading) {
-    return <LoadingPostList />;
+    return (
+      <>
+        {showSearchBox && <SearchBox initialQuery={query} />}
+        <LoadingPostList />
+      </>
+    );
   }
 
   if (error) {
     return (
       <div className="text-center py-16">
         <p className="text-red-600 mb-4">{error}</p>
-        {slug && (
+        {(slug || tripSlug) && (
           <button
             onClick={() => router.push('/blog')}
             className="text-blue-600 hover:text-blue-800 underline"
@@ -125,6 +251,19 @@ function BlogContent() {
     );
   }
 
+  // Show preview if a preview token is present
+  if (previewToken && preview) {
+    return (
+      <div>
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          Preview — this post is not published yet. This link expires{' '}
+          {new Date(preview.preview.expiresAt).toLocaleString()}.
+        </div>
+        <PostRenderer post={preview.post} content={preview.content} />
+      </div>
+    );
+  }
+
   // Show individual post if slug is present
   if (slug && post) {
     return (
@@ -136,34 +275,99 @@ function BlogContent() {
           ← Back to blog
         </button>
         <PostRenderer post={post.post} content={post.content} />
+        <RelatedPosts postId={post.post.id} />
+        <PostNavigation
+          trip={post.post.trip}
+          previousPost={post.post.neighbors?.previous}
+          nextPost={post.post.neighbors?.next}
+        />
       </div>
     );
   }
 
+  // Show trip landing page if a trip slug is present
+  if (tripSlug && trip) {
+    return (
+      <div>
+        <button
+          onClick={() => router.push('/blog')}
+          className="mb-6 text-blue-600 hover:text-blue-800 flex items-center gap-2"
+        >
+          ← Back to blog
+        </button>
+        <TripOverview data={trip} />
+      </div>
+    );
+  }
+
+  // Show search results if a query is present
+  if (query && searchResults) {
+    const { pagination: searchPagination } = searchResults;
+    return (
+      <>
+        <SearchBox initialQuery={query} />
+        <SearchResults data={searchResults} />
+        <Pagination
+          pagination={{
+            ...searchPagination,
+            currentPage,
+            totalPages: Math.ceil(searchPagination.total / POSTS_PER_PAGE),
+          }}
+        />
+      </>
+    );
+  }
+
+  const facetFilters = facets && <FacetFilters facets={facets} filters={filters} />;
+
   // Show post list
   if (posts.length === 0) {
-    return <EmptyPostList />;
+    return (
+      <>
+        <SearchBox />
+        {facetFilters}
+        {hasPostFilters(filters) ? (
+          <div className="text-center py-16">
+            <p className="text-gray-600">No stories match these filters yet.</p>
+          </div>
+        ) : (
+          <EmptyPostList />
+        )}
+      </>
+    );
   }
 
   return (
     <>
+      <SearchBox />
+      {facetFilters}
       <PostGrid posts={posts} priorityCount={3} />
       {pagination && <Pagination pagination={pagination} />}
     </>
   );
 }
 
+// Preview links are meant for people without an account
+function isPreviewLink(): boolean {
+  return typeof window !== 'undefined' && new URLSearchParams(window.location.search).has('preview');
+}
+
 export default function BlogPage() {
   const { isAuthenticated, isLoading } = useAuth();
   const router = useRouter();
+  const [isPreview, setIsPreview] = useState(false);
+
+  useEffect(() => {
+    setIsPreview(isPreviewLink());
+  }, []);
 
   useEffect(() => {
-    if (!isLoading && !isAuthenticated) {
+    if (!isLoading && !isAuthenticated && !isPreviewLink()) {
       router.push('/login?redirect=/blog');
     }
   }, [isAuthenticated, isLoading, router]);
 
-  if (isLoading) {
+  if (isLoading && !isPreview) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -174,7 +378,7 @@ export default function BlogPage() {
     );
   }
 
-  if (!isAuthenticated) {
+  if (!isAuthenticated && !isPreview) {
     return null; // Will redirect in useEffect
   }
 
@@ -189,6 +393,9 @@ export default function BlogPage() {
           <p className="text-xl text-gray-600 max-w-2xl mx-auto">
             Discover amazing travel stories, tips, and inspiration for your next adventure
           </p>
+          <Link href="/blog/archive" className="inline-block mt-4 text-blue-600 hover:text-blue-800">
+            Browse the archive →
+          </Link>
         </div>
 
         {/* Post List */}
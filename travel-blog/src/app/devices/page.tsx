@@ -0,0 +1,172 @@
+/**
+ * Your Devices Page
+ * Feature: sessions
+ *
+ * Lists the devices the signed-in user is signed in on and lets them sign
+ * any of them out, including this one
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/hooks/useAuth';
+import { fetchSessions, revokeSession } from '@/lib/auth-api';
+import { describeUserAgent } from '@/utils/user-agent';
+import type { ActiveSession } from '@/types/session';
+
+// Helper function to get session token
+const getSessionToken = (): string | null => {
+  if (typeof window === 'undefined') return null;
+
+  const storedToken = localStorage.getItem('session_token');
+  if (storedToken) return storedToken;
+
+  const cookies = document.cookie.split(';');
+  const sessionCookie = cookies.find(c => c.trim().startsWith('session='));
+  return sessionCookie ? sessionCookie.split('=')[1] : null;
+};
+
+export default function DevicesPage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login?redirect=/devices');
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const token = getSessionToken();
+      if (!token) {
+        throw new Error('No session token found');
+      }
+
+      const data = await fetchSessions(token);
+      setSessions(data.sessions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load devices');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Load sessions
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadSessions();
+    }
+  }, [isAuthenticated, loadSessions]);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    if (session.current && !confirm('Sign out of this device?')) {
+      return;
+    }
+
+    const token = getSessionToken();
+    if (!token) return;
+
+    setBusyId(session.id);
+    setError(null);
+    try {
+      const { current } = await revokeSession(session.id, token);
+
+      if (current) {
+        // Force full page reload to clear auth state
+        localStorage.removeItem('session_token');
+        window.location.href = '/login';
+        return;
+      }
+
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out device');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  if (authLoading || (loading && sessions.length === 0 && !error)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Your devices</h1>
+          <p className="mt-2 text-gray-600">
+            Devices where you are signed in. Sign out any you don&apos;t recognise, then change your password.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        <ul className="bg-white shadow-sm rounded-lg border border-gray-200 divide-y divide-gray-200">
+          {sessions.map((session) => (
+            <li key={session.id} className="px-6 py-4 flex items-center justify-between gap-4">
+              <div>
+                <div className="font-medium text-gray-900">
+                  {describeUserAgent(session.userAgent)}
+                  {session.current && (
+                    <span className="ml-2 text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
+                      This device
+                    </span>
+                  )}
+                </div>
+                <div className="text-sm text-gray-500">
+                  {session.ipAddress || 'Unknown IP address'}
+                  {' · '}last seen {formatDateTime(session.lastSeenAt)}
+                </div>
+                <div className="text-xs text-gray-400">
+                  Signed in {formatDateTime(session.createdAt)}
+                </div>
+              </div>
+              <button
+                onClick={() => handleRevoke(session)}
+                disabled={busyId === session.id}
+                className="text-sm text-red-600 hover:text-red-900 disabled:opacity-50 whitespace-nowrap"
+              >
+                {busyId === session.id ? 'Signing out...' : session.current ? 'Sign out' : 'Revoke'}
+              </button>
+            </li>
+          ))}
+          {sessions.length === 0 && !error && (
+            <li className="px-6 py-4 text-gray-500">No active sessions</li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+}
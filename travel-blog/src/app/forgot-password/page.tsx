@@ -0,0 +1,97 @@
+/**
+ * Forgot password page
+ * Sends a password reset link to the account's email address
+ */
+
+'use client';
+
+import { useState, FormEvent } from 'react';
+import Link from 'next/link';
+import { requestPasswordReset } from '@/lib/auth-api';
+
+export default function ForgotPasswordPage() {
+  const [username, setUsername] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+
+    if (!username.trim()) {
+      setError('Username is required');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await requestPasswordReset(username);
+      setMessage(result.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h1 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Forgot your password?
+          </h1>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Enter your username and we will send a reset link to the email address on your account
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6 w-full max-w-md">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded" role="alert" aria-live="polite">
+              {error}
+            </div>
+          )}
+          {message && (
+            <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded" role="status" aria-live="polite">
+              {message}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
+              Username
+            </label>
+            <input
+              id="username"
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Enter your username"
+              disabled={isLoading}
+              autoComplete="username"
+              required
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isLoading ? 'Sending...' : 'Send reset link'}
+          </button>
+
+          <p className="text-center text-sm">
+            <Link href="/login" className="text-blue-600 hover:text-blue-800">
+              Back to sign in
+            </Link>
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+}
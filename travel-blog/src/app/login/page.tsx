@@ -12,6 +12,7 @@ import LoginForm from '@/components/LoginForm';
 function LoginContent() {
   const searchParams = useSearchParams();
   const isExpired = searchParams.get('expired') === 'true';
+  const isReset = searchParams.get('reset') === 'true';
   const redirectPath = searchParams.get('redirect') || undefined;
 
   return (
@@ -35,6 +36,17 @@ function LoginContent() {
               </p>
             </div>
           )}
+
+          {isReset && (
+            <div 
+              className="mt-4 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded relative"
+              role="status"
+            >
+              <p className="text-sm text-center">
+                Your password has been reset. Please log in with your new password.
+              </p>
+            </div>
+          )}
         </div>
         
         <LoginForm redirectPath={redirectPath} />
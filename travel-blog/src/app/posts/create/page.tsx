@@ -7,13 +7,22 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import MediaUploader from '@/components/blog/MediaUploader';
 import PhotoList, { type Photo } from '@/components/blog/PhotoList';
 import VideoList, { type Video } from '@/components/blog/VideoList';
 import TextEditor, { type TextBlock } from '@/components/blog/TextEditor';
 import UploadProgress from '@/components/blog/UploadProgress';
+import RevisionHistory from '@/components/blog/RevisionHistory';
+import ConflictDialog from '@/components/blog/ConflictDialog';
+import TemplateSwitcher from '@/components/blog/TemplateSwitcher';
+import TaxonomyEditor from '@/components/blog/TaxonomyEditor';
+import { PostVersionConflictError } from '@/lib/posts-api';
+import { fetchWithRefresh } from '@/lib/auth-api';
+import type { PostTaxonomy, PostTaxonomyUpdateRequest } from '@/types/post-taxonomy';
+
+const EMPTY_TAXONOMY: PostTaxonomy = { countryCode: null, destination: null, tags: [], companions: [] };
 
 interface UploadItem {
   id: string;
@@ -29,63 +38,111 @@ interface Template {
   description: string;
 }
 
+// Helper function to get API URL based on environment
+const getPostsApiUrl = (): string => {
+  if (typeof window !== 'undefined' && window.location.hostname.includes('pages.dev')) {
+    return 'https://travel-blog-posts.andreas-e-ludviksen.workers.dev';
+  }
+  return process.env.NEXT_PUBLIC_POSTS_API_URL || 'http://localhost:8788';
+};
+
+// Helper function to get media API URL based on environment
+const getMediaApiUrl = (): string => {
+  if (typeof window !== 'undefined' && window.location.hostname.includes('pages.dev')) {
+    return 'https://travel-blog-media.andreas-e-ludviksen.workers.dev';
+  }
+  return process.env.NEXT_PUBLIC_MEDIA_API_URL || 'http://localhost:8789';
+};
+
+// Helper function to get session token from localStorage or cookie
+const getSessionToken = (): string | null => {
+  if (typeof window === 'undefined') return null;
+
+  // Try localStorage first (for production cross-domain)
+  const storedToken = localStorage.getItem('session_token');
+  if (storedToken) return storedToken;
+
+  // Fallback to cookie (for local development)
+  const cookies = document.cookie.split(';');
+  const sessionCookie = cookies.find(c => c.trim().startsWith('session='));
+  return sessionCookie ? sessionCookie.split('=')[1] : null;
+};
+
 export default function CreatePostPage() {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
-  // Helper function to get API URL based on environment
-  const getPostsApiUrl = (): string => {
-    if (typeof window !== 'undefined' && window.location.hostname.includes('pages.dev')) {
-      return 'https://travel-blog-posts.andreas-e-ludviksen.workers.dev';
-    }
-    return process.env.NEXT_PUBLIC_POSTS_API_URL || 'http://localhost:8788';
-  };
-  
-  // Helper function to get media API URL based on environment
-  const getMediaApiUrl = (): string => {
-    if (typeof window !== 'undefined' && window.location.hostname.includes('pages.dev')) {
-      return 'https://travel-blog-media.andreas-e-ludviksen.workers.dev';
-    }
-    return process.env.NEXT_PUBLIC_MEDIA_API_URL || 'http://localhost:8789';
-  };
-  
-  // Helper function to get session token from localStorage or cookie
-  const getSessionToken = (): string | null => {
-    if (typeof window === 'undefined') return null;
-    
-    // Try localStorage first (for production cross-domain)
-    const storedToken = localStorage.getItem('session_token');
-    if (storedToken) return storedToken;
-    
-    // Fallback to cookie (for local development)
-    const cookies = document.cookie.split(';');
-    const sessionCookie = cookies.find(c => c.trim().startsWith('session='));
-    return sessionCookie ? sessionCookie.split('=')[1] : null;
-  };
-  
   // Post metadata
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
   const [templates, setTemplates] = useState<Template[]>([]);
   const [postId, setPostId] = useState<string | null>(null);
+
+  // Post version the editor is based on, sent with every change (optimistic concurrency)
+  const versionRef = useRef<number | null>(null);
+  const [conflict, setConflict] = useState<{
+    error: PostVersionConflictError;
+    retry: () => Promise<void>;
+  } | null>(null);
   
   // Content
   const [photos, setPhotos] = useState<Photo[]>([]);
   const [videos, setVideos] = useState<Video[]>([]);
   const [textBlocks, setTextBlocks] = useState<TextBlock[]>([]);
+  const [taxonomy, setTaxonomy] = useState<PostTaxonomy>(EMPTY_TAXONOMY);
   
   // Upload tracking
   const [uploads, setUploads] = useState<UploadItem[]>([]);
   const [activeTab, setActiveTab] = useState<'photos' | 'videos' | 'text'>('photos');
 
-  // Load templates on mount
-  useEffect(() => {
-    loadTemplates();
+  const loadExistingPost = useCallback(async (id: string) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const token = getSessionToken();
+      if (!token) {
+        throw new Error('Please log in to edit posts');
+      }
+
+      const response = await fetchWithRefresh(`${getPostsApiUrl()}/api/posts/${id}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+        cache: 'no-store',
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({ message: `HTTP ${response.status}` }));
+        throw new Error(data.message || 'Failed to load post');
+      }
+
+      const data = await response.json();
+
+      setPostId(data.post.id);
+      versionRef.current = data.post.version;
+      setTitle(data.post.title);
+      setDescription(data.post.description || '');
+      setSelectedTemplate(data.post.templateId);
+      setPhotos(data.content.photos);
+      setVideos(data.content.videos);
+      setTextBlocks(data.content.textBlocks);
+      setTaxonomy({
+        countryCode: data.post.countryCode ?? null,
+        destination: data.post.destination ?? null,
+        tags: data.post.tags ?? [],
+        companions: data.post.companions ?? [],
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load post');
+    } finally {
+      setLoading(false);
+    }
   }, []);
 
-  const loadTemplates = async () => {
+  const loadTemplates = useCallback(async () => {
     try {
       // For now, use hardcoded templates - will fetch from API later
       setTemplates([
@@ -99,7 +156,17 @@ export default function CreatePostPage() {
     } catch (err) {
       console.error('Failed to load templates:', err);
     }
-  };
+  }, []);
+
+  // Load templates on mount, and the existing post when editing (/posts/create?id=...)
+  useEffect(() => {
+    loadTemplates();
+
+    const existingId = new URLSearchParams(window.location.search).get('id');
+    if (existingId) {
+      loadExistingPost(existingId);
+    }
+  }, [loadTemplates, loadExistingPost]);
 
   const handleCreatePost = async () => {
     if (!title.trim()) {
@@ -120,7 +187,7 @@ export default function CreatePostPage() {
         throw new Error('Please log in to create posts');
       }
       
-      const response = await fetch(`${getPostsApiUrl()}/api/posts/create`, {
+      const response = await fetchWithRefresh(`${getPostsApiUrl()}/api/posts/create`, {
         method: 'POST',
         headers: { 
           'Content-Type': 'application/json',
@@ -139,6 +206,7 @@ export default function CreatePostPage() {
 
       const data = await response.json();
       setPostId(data.postId);
+      versionRef.current = data.version;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create post');
     } finally {
@@ -173,7 +241,7 @@ export default function CreatePostPage() {
         formData.append('altText', file.name.replace(/\.[^/.]+$/, '')); // Remove extension
         formData.append('displayOrder', photos.length.toString());
 
-        const response = await fetch(`${getMediaApiUrl()}/api/media/upload-photo`, {
+        const response = await fetchWithRefresh(`${getMediaApiUrl()}/api/media/upload-photo`, {
           method: 'POST',
           credentials: 'include',
           headers: {
@@ -238,7 +306,7 @@ export default function CreatePostPage() {
         formData.append('postId', postId);
         formData.append('displayOrder', videos.length.toString());
 
-        const response = await fetch(`${getMediaApiUrl()}/api/media/upload-video-stream`, {
+        const response = await fetchWithRefresh(`${getMediaApiUrl()}/api/media/upload-video-stream`, {
           method: 'POST',
           credentials: 'include',
           headers: {
@@ -274,50 +342,88 @@ export default function CreatePostPage() {
     }
   };
 
-  const handlePhotoUpdate = async (photoId: string, updates: { caption?: string; altText?: string }) => {
-    try {
-      const token = getSessionToken();
-      if (!token) {
-        throw new Error('Please log in to update photos');
-      }
+  // Send a change to the posts API, guarded by the post version we last loaded (If-Match)
+  const sendVersioned = async (path: string, method: string, body?: unknown) => {
+    const token = getSessionToken();
+    if (!token) {
+      throw new Error('Please log in to edit posts');
+    }
 
-      const response = await fetch(`${getPostsApiUrl()}/api/posts/${postId}/photos/${photoId}`, {
-        method: 'PUT',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(updates),
-      });
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${token}`,
+    };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (versionRef.current !== null) {
+      headers['If-Match'] = `"${versionRef.current}"`;
+    }
+
+    const response = await fetchWithRefresh(`${getPostsApiUrl()}/api/posts/${postId}${path}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    const data = await response.json().catch(() => ({ message: `HTTP ${response.status}` }));
+
+    if (response.status === 409) {
+      throw new PostVersionConflictError(
+        data.message || 'This post was changed by someone else',
+        data.details?.currentVersion,
+        data.details?.current ?? null
+      );
+    }
+
+    if (!response.ok) {
+      throw new Error(data.message || `HTTP ${response.status}`);
+    }
 
-      if (!response.ok) throw new Error('Failed to update photo');
+    if (typeof data.version === 'number') {
+      versionRef.current = data.version;
+    }
+
+    return data;
+  };
+
+  // Version conflicts open the merge/reload dialog; anything else is shown as an error
+  const handleMutationError = (err: unknown, fallback: string, retry: () => Promise<void>) => {
+    if (err instanceof PostVersionConflictError) {
+      setConflict({ error: err, retry });
+      return;
+    }
+    setError(err instanceof Error ? err.message : fallback);
+  };
+
+  const handleConflictReload = async () => {
+    setConflict(null);
+    if (postId) {
+      await loadExistingPost(postId);
+    }
+  };
+
+  const handleConflictOverwrite = async () => {
+    if (!conflict) return;
+    versionRef.current = conflict.error.currentVersion;
+    setConflict(null);
+    await conflict.retry();
+  };
 
-      await response.json();
+  const handlePhotoUpdate = async (photoId: string, updates: { caption?: string; altText?: string }) => {
+    try {
+      await sendVersioned(`/photos/${photoId}`, 'PUT', updates);
       setPhotos(prev => prev.map(p => p.id === photoId ? { ...p, ...updates } : p));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update photo');
+      handleMutationError(err, 'Failed to update photo', () => handlePhotoUpdate(photoId, updates));
     }
   };
 
   const handlePhotoDelete = async (photoId: string) => {
     try {
-      const token = getSessionToken();
-      if (!token) {
-        throw new Error('Please log in to delete photos');
-      }
-
-      const response = await fetch(`${getPostsApiUrl()}/api/posts/${postId}/photos/${photoId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) throw new Error('Failed to delete photo');
-
+      await sendVersioned(`/photos/${photoId}`, 'DELETE');
       setPhotos(prev => prev.filter(p => p.id !== photoId));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete photo');
+      handleMutationError(err, 'Failed to delete photo', () => handlePhotoDelete(photoId));
     }
   };
 
@@ -331,73 +437,28 @@ export default function CreatePostPage() {
     });
 
     try {
-      const token = getSessionToken();
-      if (!token) {
-        throw new Error('Please log in to reorder content');
-      }
-      
-      const response = await fetch(`${getPostsApiUrl()}/api/posts/${postId}/reorder`, {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({ contentType: 'photo', contentIds: photoIds }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ message: `HTTP ${response.status}` }));
-        throw new Error(errorData.message || `Failed to reorder photos: ${response.status}`);
-      }
+      await sendVersioned('/reorder', 'POST', { contentType: 'photo', contentIds: photoIds });
     } catch (err) {
       console.error('Failed to reorder photos:', err);
-      setError(err instanceof Error ? err.message : 'Failed to reorder photos');
+      handleMutationError(err, 'Failed to reorder photos', () => handlePhotoReorder(photoIds));
     }
   };
 
   const handleVideoUpdate = async (videoId: string, updates: { caption?: string; thumbnailUrl?: string }) => {
     try {
-      const token = getSessionToken();
-      if (!token) {
-        throw new Error('Please log in to update videos');
-      }
-
-      const response = await fetch(`${getPostsApiUrl()}/api/posts/${postId}/videos/${videoId}`, {
-        method: 'PUT',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(updates),
-      });
-
-      if (!response.ok) throw new Error('Failed to update video');
-
+      await sendVersioned(`/videos/${videoId}`, 'PUT', updates);
       setVideos(prev => prev.map(v => v.id === videoId ? { ...v, ...updates } : v));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update video');
+      handleMutationError(err, 'Failed to update video', () => handleVideoUpdate(videoId, updates));
     }
   };
 
   const handleVideoDelete = async (videoId: string) => {
     try {
-      const token = getSessionToken();
-      if (!token) {
-        throw new Error('Please log in to delete videos');
-      }
-
-      const response = await fetch(`${getPostsApiUrl()}/api/posts/${postId}/videos/${videoId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) throw new Error('Failed to delete video');
-
+      await sendVersioned(`/videos/${videoId}`, 'DELETE');
       setVideos(prev => prev.filter(v => v.id !== videoId));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete video');
+      handleMutationError(err, 'Failed to delete video', () => handleVideoDelete(videoId));
     }
   };
 
@@ -411,22 +472,10 @@ export default function CreatePostPage() {
     });
 
     try {
-      const token = getSessionToken();
-      if (!token) {
-        throw new Error('Please log in to reorder content');
-      }
-      
-      await fetch(`${getPostsApiUrl()}/api/posts/${postId}/reorder`, {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({ contentType: 'video', contentIds: videoIds }),
-      });
+      await sendVersioned('/reorder', 'POST', { contentType: 'video', contentIds: videoIds });
     } catch (err) {
       console.error('Failed to reorder videos:', err);
-      setError(err instanceof Error ? err.message : 'Failed to reorder videos');
+      handleMutationError(err, 'Failed to reorder videos', () => handleVideoReorder(videoIds));
     }
   };
 
@@ -434,75 +483,36 @@ export default function CreatePostPage() {
     if (!postId) return;
 
     try {
-      const token = getSessionToken();
-      if (!token) {
-        throw new Error('Please log in to add text blocks');
-      }
-
-      const response = await fetch(`${getPostsApiUrl()}/api/posts/${postId}/text`, {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({ 
-          content,
-          displayOrder: textBlocks.length 
-        }),
+      const data = await sendVersioned('/text', 'POST', {
+        content,
+        displayOrder: textBlocks.length,
       });
 
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.message || 'Failed to add text block');
-      }
-
-      const data = await response.json();
-      
       setTextBlocks(prev => [...prev, {
         id: data.textId,
         content: data.content,
         displayOrder: data.displayOrder,
       }]);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to add text block');
+      handleMutationError(err, 'Failed to add text block', () => handleTextAdd(content));
     }
   };
 
   const handleTextUpdate = async (textId: string, content: string) => {
     try {
-      const token = getSessionToken();
-      if (!token) {
-        throw new Error('Please log in to update text blocks');
-      }
-
-      const response = await fetch(`${getPostsApiUrl()}/api/posts/${postId}/text/${textId}`, {
-        method: 'PUT',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({ content }),
-      });
-
-      if (!response.ok) throw new Error('Failed to update text');
-
+      await sendVersioned(`/text/${textId}`, 'PUT', { content });
       setTextBlocks(prev => prev.map(t => t.id === textId ? { ...t, content } : t));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update text');
+      handleMutationError(err, 'Failed to update text', () => handleTextUpdate(textId, content));
     }
   };
 
   const handleTextDelete = async (textId: string) => {
     try {
-      const response = await fetch(`${getPostsApiUrl()}/api/posts/${postId}/text/${textId}`, {
-        method: 'DELETE',
-      });
-
-      if (!response.ok) throw new Error('Failed to delete text');
-
+      await sendVersioned(`/text/${textId}`, 'DELETE');
       setTextBlocks(prev => prev.filter(t => t.id !== textId));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete text');
+      handleMutationError(err, 'Failed to delete text', () => handleTextDelete(textId));
     }
   };
 
@@ -516,52 +526,62 @@ export default function CreatePostPage() {
     });
 
     try {
-      const token = getSessionToken();
-      if (!token) {
-        throw new Error('Please log in to reorder content');
-      }
-      
-      await fetch(`${getPostsApiUrl()}/api/posts/${postId}/reorder`, {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({ contentType: 'text', contentIds: textIds }),
-      });
+      await sendVersioned('/reorder', 'POST', { contentType: 'text', contentIds: textIds });
     } catch (err) {
       console.error('Failed to reorder text blocks:', err);
-      setError(err instanceof Error ? err.message : 'Failed to reorder text blocks');
+      handleMutationError(err, 'Failed to reorder text blocks', () => handleTextReorder(textIds));
     }
   };
 
-  const handlePublish = async () => {
-    if (!postId) return;
+  // Dry run: ask the server how much content the template would hide
+  const handleTemplatePreview = async (templateId: string) => {
+    const data = await sendVersioned('/template', 'POST', { newTemplateId: templateId, dryRun: true });
+    return data.contentPreservation;
+  };
 
-    setLoading(true);
+  const handleTemplateChange = async (templateId: string, reason: string): Promise<boolean> => {
     try {
-      const token = getSessionToken();
-      if (!token) {
-        throw new Error('Please log in to publish posts');
-      }
+      await sendVersioned('/template', 'POST', { newTemplateId: templateId, reason: reason || undefined });
+      setSelectedTemplate(templateId);
+      return true;
+    } catch (err) {
+      handleMutationError(err, 'Failed to change template', async () => {
+        await handleTemplateChange(templateId, reason);
+      });
+      return false;
+    }
+  };
 
-      const response = await fetch(`${getPostsApiUrl()}/api/posts/${postId}`, {
-        method: 'PATCH',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        credentials: 'include',
-        body: JSON.stringify({ status: 'published' }),
+  const handleTaxonomySave = async (update: PostTaxonomyUpdateRequest): Promise<boolean> => {
+    try {
+      const data = await sendVersioned('/taxonomy', 'PUT', update);
+      setTaxonomy({
+        countryCode: data.countryCode,
+        destination: data.destination,
+        tags: data.tags,
+        companions: data.companions,
+      });
+      return true;
+    } catch (err) {
+      handleMutationError(err, 'Failed to save tags and places', async () => {
+        await handleTaxonomySave(update);
       });
+      return false;
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!postId) return;
 
-      if (!response.ok) throw new Error('Failed to publish post');
+    setLoading(true);
+    try {
+      await sendVersioned('', 'PATCH', { status: 'published' });
 
       // Redirect to home page (post detail page not available in static export)
       alert('Post published successfully!');
       router.push('/');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to publish post');
+      handleMutationError(err, 'Failed to publish post', handlePublish);
     } finally {
       setLoading(false);
     }
@@ -750,10 +770,40 @@ export default function CreatePostPage() {
                 />
               )}
             </div>
+
+            {/* Country, destination, companions and tags */}
+            <TaxonomyEditor taxonomy={taxonomy} onSave={handleTaxonomySave} />
+
+            {/* Template Switcher */}
+            <TemplateSwitcher
+              postId={postId}
+              currentTemplateId={selectedTemplate}
+              templates={templates}
+              getToken={getSessionToken}
+              onPreview={handleTemplatePreview}
+              onApply={handleTemplateChange}
+            />
+
+            {/* Revision History */}
+            <RevisionHistory
+              postId={postId}
+              getToken={getSessionToken}
+              onRestored={() => loadExistingPost(postId)}
+            />
           </>
         )}
       </div>
 
+      {/* Version Conflict */}
+      {conflict && (
+        <ConflictDialog
+          conflict={conflict.error}
+          onReload={handleConflictReload}
+          onOverwrite={handleConflictOverwrite}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
       {/* Upload Progress */}
       <UploadProgress 
         uploads={uploads}
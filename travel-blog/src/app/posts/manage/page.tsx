@@ -2,7 +2,9 @@
  * Manage Posts Page
  * Feature: Blog Post Management
  * 
- * List and delete contributor's blog posts
+ * List, schedule, duplicate and delete contributor's blog posts (one at a
+ * time or several at once), group them into trips, and restore deleted posts
+ * from the trash
  */
 
 'use client';
@@ -11,12 +13,19 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/hooks/useAuth';
 import Link from 'next/link';
+import TripManager from '@/components/blog/TripManager';
+import TrashBin from '@/components/blog/TrashBin';
+import BulkActionBar from '@/components/blog/BulkActionBar';
+import { duplicatePost } from '@/lib/posts-api';
+import { fetchWithRefresh } from '@/lib/auth-api';
+import type { BulkActionResponse } from '@/types/post-bulk';
 
 interface BlogPost {
   id: string;
   slug: string;
   title: string;
-  status: 'draft' | 'published';
+  status: 'draft' | 'published' | 'scheduled';
+  scheduledFor?: string | null;
   created_at: string;
   updated_at: string;
   published_at?: string;
@@ -25,6 +34,26 @@ interface BlogPost {
   text_count?: number;
 }
 
+// Helper function to get API URL based on environment
+const getPostsApiUrl = (): string => {
+  if (typeof window !== 'undefined' && window.location.hostname.includes('pages.dev')) {
+    return 'https://travel-blog-posts.andreas-e-ludviksen.workers.dev';
+  }
+  return process.env.NEXT_PUBLIC_POSTS_API_URL || 'http://localhost:8788';
+};
+
+// Helper function to get session token
+const getSessionToken = (): string | null => {
+  if (typeof window === 'undefined') return null;
+
+  const storedToken = localStorage.getItem('session_token');
+  if (storedToken) return storedToken;
+
+  const cookies = document.cookie.split(';');
+  const sessionCookie = cookies.find(c => c.trim().startsWith('session='));
+  return sessionCookie ? sessionCookie.split('=')[1] : null;
+};
+
 export default function ManagePostsPage() {
   const router = useRouter();
   const { isAuthenticated, user, isLoading: authLoading } = useAuth();
@@ -32,26 +61,12 @@ export default function ManagePostsPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [deleteLoading, setDeleteLoading] = useState<string | null>(null);
-
-  // Helper function to get API URL based on environment
-  const getPostsApiUrl = (): string => {
-    if (typeof window !== 'undefined' && window.location.hostname.includes('pages.dev')) {
-      return 'https://travel-blog-posts.andreas-e-ludviksen.workers.dev';
-    }
-    return process.env.NEXT_PUBLIC_POSTS_API_URL || 'http://localhost:8788';
-  };
-
-  // Helper function to get session token
-  const getSessionToken = (): string | null => {
-    if (typeof window === 'undefined') return null;
-    
-    const storedToken = localStorage.getItem('session_token');
-    if (storedToken) return storedToken;
-    
-    const cookies = document.cookie.split(';');
-    const sessionCookie = cookies.find(c => c.trim().startsWith('session='));
-    return sessionCookie ? sessionCookie.split('=')[1] : null;
-  };
+  const [schedulingId, setSchedulingId] = useState<string | null>(null);
+  const [scheduleInput, setScheduleInput] = useState('');
+  const [scheduleLoading, setScheduleLoading] = useState<string | null>(null);
+  const [trashKey, setTrashKey] = useState(0);
+  const [duplicateLoading, setDuplicateLoading] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -85,7 +100,7 @@ export default function ManagePostsPage() {
       }
 
       const apiUrl = getPostsApiUrl();
-      const response = await fetch(`${apiUrl}/api/posts?status=all`, {
+      const response = await fetchWithRefresh(`${apiUrl}/api/posts?status=all`, {
         headers: {
           'Authorization': `Bearer ${token}`,
         },
@@ -96,7 +111,10 @@ export default function ManagePostsPage() {
       }
 
       const data = await response.json();
-      setPosts(data.posts || []);
+      const loaded: BlogPost[] = data.posts || [];
+      setPosts(loaded);
+      // Drop selections of posts that are gone
+      setSelectedIds(prev => prev.filter(id => loaded.some(p => p.id === id)));
     } catch (err) {
       console.error('Failed to load posts:', err);
       setError(err instanceof Error ? err.message : 'Failed to load posts');
@@ -106,7 +124,7 @@ export default function ManagePostsPage() {
   };
 
   const handleDelete = async (postId: string, postTitle: string) => {
-    if (!confirm(`Are you sure you want to delete "${postTitle}"? This will permanently delete all photos, videos, and text content.`)) {
+    if (!confirm(`Move "${postTitle}" to the trash? You can restore it from the trash until it is removed for good.`)) {
       return;
     }
 
@@ -120,7 +138,7 @@ export default function ManagePostsPage() {
       }
 
       const apiUrl = getPostsApiUrl();
-      const response = await fetch(`${apiUrl}/api/posts/${postId}`, {
+      const response = await fetchWithRefresh(`${apiUrl}/api/posts/${postId}`, {
         method: 'DELETE',
         headers: {
           'Authorization': `Bearer ${token}`,
@@ -134,6 +152,8 @@ export default function ManagePostsPage() {
 
       // Remove from list
       setPosts(posts.filter(p => p.id !== postId));
+      setSelectedIds(prev => prev.filter(id => id !== postId));
+      setTrashKey(prev => prev + 1);
     } catch (err) {
       console.error('Failed to delete post:', err);
       setError(err instanceof Error ? err.message : 'Failed to delete post');
@@ -142,6 +162,134 @@ export default function ManagePostsPage() {
     }
   };
 
+  // Copy a post into a new draft and open it in the editor
+  const handleDuplicate = async (post: BlogPost) => {
+    if (!confirm(`Duplicate "${post.title}" as a new draft?`)) {
+      return;
+    }
+    const includeMedia = confirm('Also copy its photos and videos? (Cancel copies only the text and layout.)');
+
+    try {
+      setDuplicateLoading(post.id);
+      setError(null);
+
+      const token = getSessionToken();
+      if (!token) {
+        throw new Error('No session token found');
+      }
+
+      const copy = await duplicatePost(post.id, { includeMedia }, token);
+      router.push(`/posts/create?id=${copy.postId}`);
+    } catch (err) {
+      console.error('Failed to duplicate post:', err);
+      setError(err instanceof Error ? err.message : 'Failed to duplicate post');
+    } finally {
+      setDuplicateLoading(null);
+    }
+  };
+
+  const toggleSelected = (postId: string) => {
+    setSelectedIds(prev => prev.includes(postId)
+      ? prev.filter(id => id !== postId)
+      : [...prev, postId]
+    );
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(selectedIds.length === posts.length ? [] : posts.map(p => p.id));
+  };
+
+  // Keep the posts that were not changed selected so they can be retried
+  const handleBulkApplied = (result: BulkActionResponse) => {
+    setSelectedIds(result.results.filter(item => !item.ok).map(item => item.postId));
+    if (result.action === 'delete' && result.succeeded > 0) {
+      setTrashKey(prev => prev + 1);
+    }
+    loadPosts();
+  };
+
+  // Format a date for a datetime-local input (local time, minute precision)
+  const toDateTimeLocal = (date: Date) => {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  };
+
+  const openSchedulePicker = (post: BlogPost) => {
+    let initial: Date;
+    if (post.scheduledFor) {
+      initial = new Date(post.scheduledFor);
+    } else {
+      // Default to tomorrow morning
+      initial = new Date();
+      initial.setDate(initial.getDate() + 1);
+      initial.setHours(9, 0, 0, 0);
+    }
+    setScheduleInput(toDateTimeLocal(initial));
+    setSchedulingId(post.id);
+  };
+
+  // PATCH the post status; used for scheduling and unscheduling
+  const updateSchedule = async (postId: string, body: { status: 'scheduled' | 'draft'; scheduledFor?: string }) => {
+    try {
+      setScheduleLoading(postId);
+      setError(null);
+
+      const token = getSessionToken();
+      if (!token) {
+        throw new Error('No session token found');
+      }
+
+      const apiUrl = getPostsApiUrl();
+      const response = await fetchWithRefresh(`${apiUrl}/api/posts/${postId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ message: `HTTP ${response.status}` }));
+        throw new Error(errorData.message || `Failed to update schedule: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setPosts(prev => prev.map(p => p.id === postId
+        ? { ...p, status: data.post.status, scheduledFor: data.post.scheduledFor }
+        : p
+      ));
+      setSchedulingId(null);
+    } catch (err) {
+      console.error('Failed to update schedule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update schedule');
+    } finally {
+      setScheduleLoading(null);
+    }
+  };
+
+  const handleSchedule = (postId: string) => {
+    if (!scheduleInput) {
+      setError('Please pick a date and time');
+      return;
+    }
+    updateSchedule(postId, { status: 'scheduled', scheduledFor: new Date(scheduleInput).toISOString() });
+  };
+
+  const handleUnschedule = (postId: string) => {
+    updateSchedule(postId, { status: 'draft' });
+  };
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -209,10 +357,26 @@ export default function ManagePostsPage() {
             </Link>
           </div>
         ) : (
+          <>
+          <BulkActionBar
+            selectedIds={selectedIds}
+            postTitle={(postId) => posts.find(p => p.id === postId)?.title || postId}
+            getToken={getSessionToken}
+            onApplied={handleBulkApplied}
+            onClear={() => setSelectedIds([])}
+          />
           <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
                 <tr>
+                  <th scope="col" className="pl-6 py-3 w-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.length === posts.length}
+                      onChange={toggleSelectAll}
+                      aria-label="Select all posts"
+                    />
+                  </th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Title
                   </th>
@@ -235,7 +399,15 @@ export default function ManagePostsPage() {
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {posts.map((post) => (
-                  <tr key={post.id} className="hover:bg-gray-50">
+                  <tr key={post.id} className={selectedIds.includes(post.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                    <td className="pl-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(post.id)}
+                        onChange={() => toggleSelected(post.id)}
+                        aria-label={`Select ${post.title}`}
+                      />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex flex-col">
                         <div className="text-sm font-medium text-gray-900">{post.title}</div>
@@ -246,10 +418,41 @@ export default function ManagePostsPage() {
                       <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
                         post.status === 'published' 
                           ? 'bg-green-100 text-green-800' 
-                          : 'bg-yellow-100 text-yellow-800'
+                          : post.status === 'scheduled'
+                            ? 'bg-blue-100 text-blue-800'
+                            : 'bg-yellow-100 text-yellow-800'
                       }`}>
                         {post.status}
                       </span>
+                      {post.status === 'scheduled' && post.scheduledFor && (
+                        <div className="mt-1 text-xs text-gray-500">
+                          {formatDateTime(post.scheduledFor)}
+                        </div>
+                      )}
+                      {schedulingId === post.id && (
+                        <div className="mt-2 flex items-center gap-2">
+                          <input
+                            type="datetime-local"
+                            value={scheduleInput}
+                            min={toDateTimeLocal(new Date())}
+                            onChange={(e) => setScheduleInput(e.target.value)}
+                            className="px-2 py-1 text-sm border border-gray-300 rounded text-gray-900 bg-white"
+                          />
+                          <button
+                            onClick={() => handleSchedule(post.id)}
+                            disabled={scheduleLoading === post.id}
+                            className="text-sm text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                          >
+                            {scheduleLoading === post.id ? 'Saving...' : 'Save'}
+                          </button>
+                          <button
+                            onClick={() => setSchedulingId(null)}
+                            className="text-sm text-gray-500 hover:text-gray-700"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       <div className="flex gap-3">
@@ -281,6 +484,25 @@ export default function ManagePostsPage() {
                             View
                           </Link>
                         )}
+                        {post.status !== 'published' && (
+                          <button
+                            onClick={() => openSchedulePicker(post)}
+                            className="text-blue-600 hover:text-blue-900"
+                            title="Publish automatically at a later time"
+                          >
+                            {post.status === 'scheduled' ? 'Reschedule' : 'Schedule'}
+                          </button>
+                        )}
+                        {post.status === 'scheduled' && (
+                          <button
+                            onClick={() => handleUnschedule(post.id)}
+                            disabled={scheduleLoading === post.id}
+                            className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                            title="Keep as draft"
+                          >
+                            Unschedule
+                          </button>
+                        )}
                         <Link
                           href={`/posts/create?id=${post.id}`}
                           className="text-indigo-600 hover:text-indigo-900"
@@ -288,6 +510,14 @@ export default function ManagePostsPage() {
                         >
                           Edit
                         </Link>
+                        <button
+                          onClick={() => handleDuplicate(post)}
+                          disabled={duplicateLoading === post.id}
+                          className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                          title="Start a new draft from this post"
+                        >
+                          {duplicateLoading === post.id ? 'Duplicating...' : 'Duplicate'}
+                        </button>
                         <button
                           onClick={() => handleDelete(post.id, post.title)}
                           disabled={deleteLoading === post.id}
@@ -303,7 +533,14 @@ export default function ManagePostsPage() {
               </tbody>
             </table>
           </div>
+          </>
         )}
+
+        {/* Trips */}
+        <TripManager posts={posts} getToken={getSessionToken} />
+
+        {/* Trash */}
+        <TrashBin getToken={getSessionToken} refreshKey={trashKey} onRestored={loadPosts} />
       </div>
     </div>
   );
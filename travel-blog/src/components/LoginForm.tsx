@@ -5,6 +5,7 @@
  */
 
 import { useState, FormEvent } from 'react';
+import Link from 'next/link';
 import { login } from '@/lib/auth-api';
 
 interface LoginFormProps {
@@ -126,6 +127,12 @@ export default function LoginForm({ redirectPath }: LoginFormProps) {
         >
           Remember me for 7 days
         </label>
+        <Link
+          href="/forgot-password"
+          className="ml-auto text-sm text-blue-600 hover:text-blue-800"
+        >
+          Forgot your password?
+        </Link>
       </div>
 
       <button
@@ -40,7 +40,7 @@ export default function Navigation() {
                     </Link>
                   );
                 })}
-              {/* Show Create Blog and Manage Posts links for contributors */}
+              {/* Show Create Blog, Manage Posts and Users links for contributors */}
               {isAuthenticated && user?.role === 'contributor' && (
                 <>
                   <Link
@@ -63,6 +63,16 @@ export default function Navigation() {
                   >
                     Create Blog
                   </Link>
+                  <Link
+                    href="/admin/users"
+                    className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                      pathname === '/admin/users'
+                        ? 'bg-green-600 text-white'
+                        : 'text-green-700 hover:bg-green-100 hover:text-green-800'
+                    }`}
+                  >
+                    Users
+                  </Link>
                 </>
               )}
             </div>
@@ -80,6 +90,18 @@ export default function Navigation() {
                         </span>
                       )}
                     </span>
+                    <Link
+                      href="/devices"
+                      className="text-sm text-gray-600 hover:text-blue-600"
+                    >
+                      Your devices
+                    </Link>
+                    <Link
+                      href="/change-password"
+                      className="text-sm text-gray-600 hover:text-blue-600"
+                    >
+                      Change password
+                    </Link>
                     <LogoutButton />
                   </>
                 ) : (
@@ -0,0 +1,120 @@
+/**
+ * Archive Index Component
+ * Feature: post-archive
+ *
+ * Breadcrumbs, year and month links with post counts, and country chips
+ * for /blog/archive
+ */
+
+'use client';
+
+import Link from 'next/link';
+import type { ArchiveSelection, PostArchive } from '@/types/post-archive';
+import { getArchiveUrl, getMonthName } from '@/utils/blog-archive';
+import { getCountryName } from '@/utils/blog-filters';
+
+interface ArchiveIndexProps {
+  archive: PostArchive;
+  selection: ArchiveSelection;
+}
+
+function plural(count: number): string {
+  return `${count} post${count === 1 ? '' : 's'}`;
+}
+
+export default function ArchiveIndex({ archive, selection }: ArchiveIndexProps) {
+  const { country, year, month } = selection;
+  const selectedYear = year !== null ? archive.years.find(y => y.year === year) : undefined;
+
+  const crumbs = [
+    { label: 'Archive', href: getArchiveUrl() },
+    ...(country ? [{ label: getCountryName(country), href: getArchiveUrl({ country }) }] : []),
+    ...(year !== null ? [{ label: year.toString(), href: getArchiveUrl({ country, year }) }] : []),
+    ...(year !== null && month !== null ? [{ label: getMonthName(month), href: getArchiveUrl({ country, year, month }) }] : []),
+  ];
+
+  return (
+    <div className="mb-10 space-y-6">
+      {/* Breadcrumbs */}
+      <nav aria-label="Archive" className="text-sm text-gray-600">
+        {crumbs.map((crumb, index) => (
+          <span key={crumb.href}>
+            {index > 0 && <span className="mx-2 text-gray-400">›</span>}
+            {index === crumbs.length - 1 ? (
+              <span className="font-medium text-gray-900">{crumb.label}</span>
+            ) : (
+              <Link href={crumb.href} className="text-blue-600 hover:text-blue-800">
+                {crumb.label}
+              </Link>
+            )}
+          </span>
+        ))}
+      </nav>
+
+      {/* Countries */}
+      {archive.countries.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-gray-700 w-24">Country</span>
+          {archive.countries.map(c => {
+            const selected = country === c.countryCode;
+            return (
+              <Link
+                key={c.countryCode}
+                href={getArchiveUrl(selected ? {} : { country: c.countryCode })}
+                aria-pressed={selected}
+                className={`px-3 py-1 rounded-full text-sm border ${
+                  selected
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                }`}
+              >
+                {getCountryName(c.countryCode)} <span className={selected ? 'text-blue-100' : 'text-gray-400'}>{c.count}</span>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Years, or the months of the selected year */}
+      {year === null && (
+        archive.years.length > 0 ? (
+          <ul className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {archive.years.map(y => (
+              <li key={y.year}>
+                <Link
+                  href={getArchiveUrl({ country, year: y.year })}
+                  className="block p-4 bg-white rounded-lg border border-gray-200 hover:border-blue-600 hover:shadow-md transition-all"
+                >
+                  <div className="text-2xl font-bold text-gray-900">{y.year}</div>
+                  <div className="text-sm text-gray-500">{plural(y.count)}</div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-600">No stories have been published yet.</p>
+        )
+      )}
+
+      {year !== null && month === null && (
+        selectedYear ? (
+          <ul className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {selectedYear.months.map(m => (
+              <li key={m.month}>
+                <Link
+                  href={getArchiveUrl({ country, year, month: m.month })}
+                  className="block p-4 bg-white rounded-lg border border-gray-200 hover:border-blue-600 hover:shadow-md transition-all"
+                >
+                  <div className="text-lg font-semibold text-gray-900">{getMonthName(m.month)}</div>
+                  <div className="text-sm text-gray-500">{plural(m.count)}</div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-600">No stories were published in {year}.</p>
+        )
+      )}
+    </div>
+  );
+}
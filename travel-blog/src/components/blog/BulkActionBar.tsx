@@ -0,0 +1,179 @@
+/**
+ * Bulk Action Bar Component
+ * Feature: post-bulk-actions
+ *
+ * Shown on the manage page while posts are selected. Applies one action to
+ * all of them and lists the posts that could not be changed.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { bulkUpdatePosts } from '@/lib/posts-api';
+import type { BulkActionRequest, BulkActionResponse } from '@/types/post-bulk';
+
+// Same list as the create page until templates are fetched from the API
+const TEMPLATE_OPTIONS = [
+  { id: 'template-01', name: 'Classic Grid' },
+  { id: 'template-02', name: 'Story Layout' },
+  { id: 'template-03', name: 'Photo Grid Showcase' },
+  { id: 'template-04', name: 'Video-First Layout' },
+  { id: 'template-05', name: 'Masonry Layout' },
+];
+
+interface BulkActionBarProps {
+  selectedIds: string[];
+  postTitle: (postId: string) => string;
+  getToken: () => string | null;
+  onApplied: (result: BulkActionResponse) => void;
+  onClear: () => void;
+}
+
+export default function BulkActionBar({ selectedIds, postTitle, getToken, onApplied, onClear }: BulkActionBarProps) {
+  const [templateId, setTemplateId] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [failures, setFailures] = useState<{ postId: string; error?: string }[]>([]);
+
+  const count = selectedIds.length;
+
+  const runAction = async (request: Omit<BulkActionRequest, 'postIds'>) => {
+    const token = getToken();
+    if (!token) return;
+
+    setRunning(true);
+    setError(null);
+    setFailures([]);
+    try {
+      const result = await bulkUpdatePosts({ ...request, postIds: selectedIds }, token);
+      setFailures(result.results.filter(item => !item.ok));
+      if (request.action === 'add-tags') {
+        setTagInput('');
+      }
+      onApplied(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply bulk action');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Move ${count} post${count === 1 ? '' : 's'} to the trash? You can restore them from the trash until they are removed for good.`)) {
+      return;
+    }
+    runAction({ action: 'delete' });
+  };
+
+  const handleAddTags = () => {
+    const tags = tagInput.split(',').map(tag => tag.trim()).filter(Boolean);
+    if (tags.length > 0) {
+      runAction({ action: 'add-tags', tags });
+    }
+  };
+
+  if (count === 0 && failures.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="font-medium text-gray-900">
+          {count} selected
+        </span>
+        <button
+          onClick={() => runAction({ action: 'publish' })}
+          disabled={running || count === 0}
+          className="px-3 py-1 text-white bg-green-600 rounded hover:bg-green-700 disabled:bg-gray-300"
+        >
+          Publish
+        </button>
+        <button
+          onClick={() => runAction({ action: 'unpublish' })}
+          disabled={running || count === 0}
+          className="px-3 py-1 text-gray-800 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+          title="Turn back into drafts (cancels any schedule)"
+        >
+          Unpublish
+        </button>
+        <div className="flex items-center gap-1">
+          <select
+            value={templateId}
+            onChange={(e) => setTemplateId(e.target.value)}
+            disabled={running || count === 0}
+            className="px-2 py-1 border border-gray-300 rounded text-gray-900 bg-white"
+          >
+            <option value="">Template...</option>
+            {TEMPLATE_OPTIONS.map((template) => (
+              <option key={template.id} value={template.id}>{template.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => runAction({ action: 'change-template', templateId })}
+            disabled={running || count === 0 || !templateId}
+            className="px-3 py-1 text-indigo-700 hover:text-indigo-900 disabled:text-gray-400"
+          >
+            Apply
+          </button>
+        </div>
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            disabled={running || count === 0}
+            placeholder="Tags, comma separated"
+            className="px-2 py-1 border border-gray-300 rounded text-gray-900 bg-white"
+          />
+          <button
+            onClick={handleAddTags}
+            disabled={running || count === 0 || !tagInput.trim()}
+            className="px-3 py-1 text-indigo-700 hover:text-indigo-900 disabled:text-gray-400"
+          >
+            Add tags
+          </button>
+        </div>
+        <button
+          onClick={handleDelete}
+          disabled={running || count === 0}
+          className="px-3 py-1 text-red-600 hover:text-red-900 disabled:opacity-50"
+        >
+          Delete
+        </button>
+        <button
+          onClick={() => {
+            setFailures([]);
+            setError(null);
+            onClear();
+          }}
+          className="ml-auto text-gray-500 hover:text-gray-700"
+        >
+          Clear selection
+        </button>
+      </div>
+
+      {running && (
+        <p className="mt-2 text-sm text-gray-600">Applying...</p>
+      )}
+
+      {error && (
+        <p className="mt-2 text-sm text-red-700">{error}</p>
+      )}
+
+      {failures.length > 0 && (
+        <div className="mt-3 text-sm text-red-700">
+          <p>{failures.length} post{failures.length === 1 ? ' was' : 's were'} not changed:</p>
+          <ul className="mt-1 list-disc list-inside">
+            {failures.map((failure) => (
+              <li key={failure.postId}>
+                {postTitle(failure.postId)}: {failure.error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * Conflict Dialog Component
+ * Feature: post-optimistic-concurrency
+ *
+ * Shown when a save is rejected because someone else changed the post first.
+ * Lets the contributor reload the latest copy or re-apply their own change on top of it
+ */
+
+'use client';
+
+import type { PostVersionConflictError } from '@/lib/posts-api';
+
+interface ConflictDialogProps {
+  conflict: PostVersionConflictError;
+  onReload: () => void;
+  onOverwrite: () => void;
+  onCancel: () => void;
+}
+
+export default function ConflictDialog({ conflict, onReload, onOverwrite, onCancel }: ConflictDialogProps) {
+  const current = conflict.current;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">This post was changed elsewhere</h2>
+        <p className="text-sm text-gray-600 mb-4">{conflict.message}</p>
+
+        {current && (
+          <div className="mb-6 bg-gray-50 border rounded-lg p-4 max-h-64 overflow-y-auto">
+            <div className="text-xs uppercase tracking-wide text-gray-500 mb-1">
+              Latest saved version (#{conflict.currentVersion})
+            </div>
+            <div className="font-medium text-gray-900">{current.post.title}</div>
+            <div className="text-sm text-gray-600 mb-3">
+              {current.photos.length} photo(s) · {current.videos.length} video(s) · {current.textBlocks.length} text block(s)
+            </div>
+            {current.textBlocks.length > 0 && (
+              <ul className="space-y-2 text-sm text-gray-700">
+                {current.textBlocks.map((block) => (
+                  <li key={block.id} className="border-l-2 border-gray-300 pl-2 break-words">
+                    {block.content}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-3 sm:justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onOverwrite}
+            className="px-4 py-2 text-white bg-orange-600 rounded-lg hover:bg-orange-700"
+          >
+            Save mine anyway
+          </button>
+          <button
+            onClick={onReload}
+            className="px-4 py-2 text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+          >
+            Reload latest
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+/**
+ * Facet Filters Component
+ * Feature: post-taxonomy
+ *
+ * Filter chips for browsing the blog by country, companions and tags,
+ * each showing how many posts it would match
+ */
+
+'use client';
+
+import Link from 'next/link';
+import type { FacetCount, PostFacets, PostFilters } from '@/types/post-taxonomy';
+import { COMPANION_LABELS, type Companion } from '@/types/post-taxonomy';
+import {
+  getCountryName,
+  getFilteredBlogUrl,
+  hasPostFilters,
+  togglePostFilter,
+} from '@/utils/blog-filters';
+
+interface FacetFiltersProps {
+  facets: PostFacets;
+  filters: PostFilters;
+}
+
+interface ChipGroupProps {
+  label: string;
+  counts: FacetCount[];
+  isSelected: (value: string) => boolean;
+  hrefFor: (value: string) => string;
+  labelFor: (count: FacetCount) => string;
+}
+
+function ChipGroup({ label, counts, isSelected, hrefFor, labelFor }: ChipGroupProps) {
+  if (counts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium text-gray-700 w-24">{label}</span>
+      {counts.map((count) => {
+        const selected = isSelected(count.value);
+        return (
+          <Link
+            key={count.value}
+            href={hrefFor(count.value)}
+            aria-pressed={selected}
+            className={`px-3 py-1 rounded-full text-sm border ${
+              selected
+                ? 'bg-blue-600 border-blue-600 text-white'
+                : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+            }`}
+          >
+            {labelFor(count)} <span className={selected ? 'text-blue-100' : 'text-gray-400'}>{count.count}</span>
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function FacetFilters({ facets, filters }: FacetFiltersProps) {
+  const active = hasPostFilters(filters);
+
+  if (!active && facets.countries.length === 0 && facets.companions.length === 0 && facets.tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-10 space-y-3">
+      <ChipGroup
+        label="Country"
+        counts={facets.countries}
+        isSelected={(value) => filters.country === value}
+        hrefFor={(value) => getFilteredBlogUrl(togglePostFilter(filters, 'country', value))}
+        labelFor={(count) => getCountryName(count.value)}
+      />
+      <ChipGroup
+        label="Travelled with"
+        counts={facets.companions}
+        isSelected={(value) => filters.companions.includes(value)}
+        hrefFor={(value) => getFilteredBlogUrl(togglePostFilter(filters, 'companions', value))}
+        labelFor={(count) => COMPANION_LABELS[count.value as Companion] || count.value}
+      />
+      <ChipGroup
+        label="Tags"
+        counts={facets.tags}
+        isSelected={(value) => filters.tags.includes(value)}
+        hrefFor={(value) => getFilteredBlogUrl(togglePostFilter(filters, 'tags', value))}
+        labelFor={(count) => count.label}
+      />
+      {active && (
+        <Link href="/blog" className="inline-block text-sm text-blue-600 hover:text-blue-800 underline">
+          Clear filters
+        </Link>
+      )}
+    </div>
+  );
+}
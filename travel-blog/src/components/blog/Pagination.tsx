@@ -3,6 +3,8 @@
  * Feature: 005-public-blog-viewing
  * 
  * Displays pagination controls for blog post list
+ * Lists paged with cursors only get Previous and Next, since a page can only
+ * be reached from its neighbours
  */
 
 'use client';
@@ -18,24 +20,62 @@ interface PaginationProps {
 export default function Pagination({ pagination }: PaginationProps) {
   const pathname = usePathname();
   const searchParams = useSearchParams();
-  const { currentPage, totalPages, hasMore } = pagination;
+  const { currentPage, hasMore } = pagination;
+  const totalPages = pagination.totalPages ?? currentPage;
+  const cursorMode = pagination.nextCursor !== undefined;
 
   // Don't show pagination if only one page
-  if (totalPages <= 1) {
+  if (cursorMode ? !hasMore && !pagination.prevCursor : totalPages <= 1) {
     return null;
   }
 
-  const createPageUrl = (page: number) => {
+  const createPageUrl = (page: number, cursor?: string | null) => {
     const params = new URLSearchParams(searchParams.toString());
     if (page === 1) {
       params.delete('page');
     } else {
       params.set('page', page.toString());
     }
+    // The first page needs no cursor
+    if (cursor && page > 1) {
+      params.set('cursor', cursor);
+    } else {
+      params.delete('cursor');
+    }
     const queryString = params.toString();
     return queryString ? `${pathname}?${queryString}` : pathname;
   };
 
+  const linkClass = 'px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors';
+  const disabledClass = 'px-4 py-2 text-sm font-medium text-gray-400 bg-gray-100 border border-gray-200 rounded-md cursor-not-allowed';
+
+  if (cursorMode) {
+    return (
+      <nav className="flex items-center justify-center gap-2 mt-12" aria-label="Pagination">
+        {currentPage > 1 ? (
+          <Link href={createPageUrl(currentPage - 1, pagination.prevCursor)} className={linkClass}>
+            ← Previous
+          </Link>
+        ) : (
+          <span className={disabledClass}>← Previous</span>
+        )}
+
+        <span className="px-4 py-2 text-sm text-gray-600" aria-current="page">
+          Page {currentPage}
+          {pagination.totalPages !== undefined && ` of ${pagination.totalPages}`}
+        </span>
+
+        {hasMore && pagination.nextCursor ? (
+          <Link href={createPageUrl(currentPage + 1, pagination.nextCursor)} className={linkClass}>
+            Next →
+          </Link>
+        ) : (
+          <span className={disabledClass}>Next →</span>
+        )}
+      </nav>
+    );
+  }
+
   const pageNumbers: (number | 'ellipsis')[] = [];
   
   // Always show first page
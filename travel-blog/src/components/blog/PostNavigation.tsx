@@ -3,10 +3,12 @@
  * Feature: 005-public-blog-viewing
  * 
  * Previous/Next navigation for blog posts
+ * (for posts in a trip: "Part 2 of 5", with previous/next scoped to the trip)
  */
 
 import Link from 'next/link';
-import { getPostUrl } from '@/utils/post-url';
+import { getPostUrl, getTripUrl } from '@/utils/post-url';
+import type { TripNavigation } from '@/types/trip';
 
 interface PostNavItem {
   id: string;
@@ -17,16 +19,34 @@ interface PostNavItem {
 interface PostNavigationProps {
   previousPost?: PostNavItem | null;
   nextPost?: PostNavItem | null;
+  trip?: TripNavigation | null;
 }
 
-export default function PostNavigation({ previousPost, nextPost }: PostNavigationProps) {
+export default function PostNavigation({ previousPost, nextPost, trip }: PostNavigationProps) {
+  // Trip parts take precedence over the given neighbours
+  if (trip) {
+    previousPost = trip.previous;
+    nextPost = trip.next;
+  }
+
   // Don't render if no navigation available
-  if (!previousPost && !nextPost) {
+  if (!previousPost && !nextPost && !trip) {
     return null;
   }
 
+  const previousLabel = trip ? `← Part ${trip.part - 1}` : '← Previous';
+  const nextLabel = trip ? `Part ${trip.part + 1} →` : 'Next →';
+
   return (
     <nav className="border-t border-gray-200 pt-8 mt-12">
+      {trip && (
+        <div className="mb-4 text-sm text-gray-600">
+          Part {trip.part} of {trip.totalParts} ·{' '}
+          <Link href={getTripUrl(trip.tripSlug)} className="font-medium text-blue-600 hover:text-blue-800">
+            {trip.tripTitle}
+          </Link>
+        </div>
+      )}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Previous Post */}
         <div>
@@ -35,7 +55,7 @@ export default function PostNavigation({ previousPost, nextPost }: PostNavigatio
               href={getPostUrl(previousPost.slug)}
               className="group block p-4 rounded-lg border border-gray-200 hover:border-blue-600 hover:shadow-md transition-all"
             >
-              <div className="text-sm text-gray-500 mb-1">← Previous</div>
+              <div className="text-sm text-gray-500 mb-1">{previousLabel}</div>
               <div className="font-semibold text-gray-900 group-hover:text-blue-600">
                 {previousPost.title}
               </div>
@@ -54,7 +74,7 @@ export default function PostNavigation({ previousPost, nextPost }: PostNavigatio
               href={getPostUrl(nextPost.slug)}
               className="group block p-4 rounded-lg border border-gray-200 hover:border-blue-600 hover:shadow-md transition-all text-right"
             >
-              <div className="text-sm text-gray-500 mb-1">Next →</div>
+              <div className="text-sm text-gray-500 mb-1">{nextLabel}</div>
               <div className="font-semibold text-gray-900 group-hover:text-blue-600">
                 {nextPost.title}
               </div>
@@ -0,0 +1,58 @@
+/**
+ * Related Posts Component
+ * Feature: related-posts
+ *
+ * "You might also like" strip at the end of a post: published posts that
+ * share its tags, country or subject, as post cards. Renders nothing when
+ * there are none or they could not be loaded.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { fetchRelatedPosts } from '@/lib/posts-api';
+import type { PostCardData } from '@/types/post-card';
+import PostCard from './PostCard';
+
+interface RelatedPostsProps {
+  postId: string;
+  limit?: number;
+}
+
+export default function RelatedPosts({ postId, limit = 3 }: RelatedPostsProps) {
+  const [posts, setPosts] = useState<PostCardData[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPosts([]);
+
+    fetchRelatedPosts(postId, limit)
+      .then(data => {
+        if (!cancelled) setPosts(data.posts);
+      })
+      .catch(() => {
+        // Recommendations are optional; the post itself has loaded
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [postId, limit]);
+
+  if (posts.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mt-12" aria-labelledby="related-posts-heading">
+      <h2 id="related-posts-heading" className="text-2xl font-bold text-gray-900 mb-6">
+        You might also like
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+        {posts.map(post => (
+          <PostCard key={post.id} post={post} />
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,203 @@
+/**
+ * Revision History Component
+ * Feature: post-revision-history
+ *
+ * Lists saved revisions of a post, shows what restoring one would change,
+ * and lets the contributor roll back with one click
+ */
+
+'use client';
+
+import { useState } from 'react';
+import {
+  fetchPostRevisions,
+  fetchPostRevision,
+  restorePostRevision,
+  type PostRevisionSummary,
+  type PostRevisionDetailResponse,
+} from '@/lib/posts-api';
+
+interface RevisionHistoryProps {
+  postId: string;
+  getToken: () => string | null;
+  onRestored: () => Promise<void> | void;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  'update-metadata': 'Details edited',
+  'create-text': 'Text added',
+  'update-text': 'Text edited',
+  'delete-text': 'Text deleted',
+  'update-photo': 'Photo edited',
+  'update-video': 'Video edited',
+  reorder: 'Content reordered',
+  'change-template': 'Template changed',
+  'update-taxonomy': 'Tags and places edited',
+  restore: 'Revision restored',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'object') {
+    const block = value as { content?: string; caption?: string | null };
+    return block.content ?? block.caption ?? JSON.stringify(value);
+  }
+  return String(value);
+}
+
+export default function RevisionHistory({ postId, getToken, onRestored }: RevisionHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<PostRevisionSummary[]>([]);
+  const [selected, setSelected] = useState<PostRevisionDetailResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = async () => {
+    const token = getToken();
+    if (!token) {
+      setError('Please log in to view revision history');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      setRevisions(await fetchPostRevisions(postId, token));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load revisions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = async () => {
+    const next = !isOpen;
+    setIsOpen(next);
+    setSelected(null);
+    if (next) {
+      await loadRevisions();
+    }
+  };
+
+  const handleSelect = async (revisionId: string) => {
+    const token = getToken();
+    if (!token) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setSelected(await fetchPostRevision(postId, revisionId, token));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load revision');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (revision: PostRevisionSummary) => {
+    if (!confirm(`Restore revision #${revision.revisionNumber}? Your current version will be kept in the history.`)) {
+      return;
+    }
+
+    const token = getToken();
+    if (!token) return;
+
+    setRestoring(true);
+    setError(null);
+    try {
+      const result = await restorePostRevision(postId, revision.id, token);
+      if (result.warnings && result.warnings.length > 0) {
+        alert(result.warnings.join('\n'));
+      }
+      setSelected(null);
+      await onRestored();
+      await loadRevisions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Revision History</h2>
+        <button
+          onClick={handleToggle}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4">
+          {error && (
+            <p className="mb-4 text-sm text-red-700">{error}</p>
+          )}
+
+          {loading && revisions.length === 0 ? (
+            <p className="text-sm text-gray-500">Loading revisions...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-gray-500">No earlier versions yet. A revision is saved every time you edit this post.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border rounded-lg">
+              {revisions.map((revision) => (
+                <li key={revision.id} className="p-3">
+                  <div className="flex items-center justify-between">
+                    <button
+                      onClick={() => handleSelect(revision.id)}
+                      className="text-left"
+                    >
+                      <div className="text-sm font-medium text-gray-900">
+                        #{revision.revisionNumber} · {ACTION_LABELS[revision.action] || revision.action}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(revision.createdAt).toLocaleString()} by {revision.createdBy}
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => handleRestore(revision)}
+                      disabled={restoring}
+                      className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 disabled:bg-gray-300"
+                    >
+                      {restoring ? 'Restoring...' : 'Restore'}
+                    </button>
+                  </div>
+
+                  {selected?.revision.id === revision.id && (
+                    <div className="mt-3 bg-gray-50 rounded p-3">
+                      {selected.diff.length === 0 ? (
+                        <p className="text-sm text-gray-500">Identical to the current version.</p>
+                      ) : (
+                        <ul className="space-y-2 text-sm">
+                          {selected.diff.map((change) => (
+                            <li key={`${change.field}-${change.change}`}>
+                              <div className="font-mono text-xs text-gray-500">{change.field}</div>
+                              {change.change !== 'added' && (
+                                <div className="text-red-700 line-through break-words">
+                                  {formatValue(change.before)}
+                                </div>
+                              )}
+                              {change.change !== 'removed' && (
+                                <div className="text-green-700 break-words">
+                                  {formatValue(change.after)}
+                                </div>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
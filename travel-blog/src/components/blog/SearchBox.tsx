@@ -0,0 +1,52 @@
+/**
+ * Search Box Component
+ * Feature: post-search
+ *
+ * Search input for the blog; submitting navigates to /blog?q=...
+ */
+
+'use client';
+
+import { useState, useEffect, type FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface SearchBoxProps {
+  initialQuery?: string;
+}
+
+export default function SearchBox({ initialQuery = '' }: SearchBoxProps) {
+  const router = useRouter();
+  const [query, setQuery] = useState(initialQuery);
+
+  // Follow back/forward navigation
+  useEffect(() => {
+    setQuery(initialQuery);
+  }, [initialQuery]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = query.trim();
+    router.push(trimmed ? `/blog?q=${encodeURIComponent(trimmed)}` : '/blog');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} role="search" className="max-w-xl mx-auto mb-10 flex gap-2">
+      <label htmlFor="blog-search" className="sr-only">Search posts</label>
+      <input
+        id="blog-search"
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        maxLength={200}
+        placeholder="Search stories, e.g. gelato workshop"
+        className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 bg-white"
+      />
+      <button
+        type="submit"
+        className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+      >
+        Search
+      </button>
+    </form>
+  );
+}
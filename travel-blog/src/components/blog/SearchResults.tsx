@@ -0,0 +1,97 @@
+/**
+ * Search Results Component
+ * Feature: post-search
+ *
+ * Ranked search results with matched terms highlighted
+ */
+
+import Link from 'next/link';
+import type { PostSearchData } from '@/types/post-card';
+
+interface SearchResultsProps {
+  data: PostSearchData;
+}
+
+/**
+ * Render text containing highlight markers as React nodes with <mark> around matches
+ * (never as HTML, since post content is user-written)
+ */
+function Highlighted({ text, start, end }: { text: string; start: string; end: string }) {
+  const parts: { text: string; match: boolean }[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    const open = rest.indexOf(start);
+    if (open === -1) {
+      parts.push({ text: rest, match: false });
+      break;
+    }
+    const close = rest.indexOf(end, open + start.length);
+    if (close === -1) {
+      parts.push({ text: rest.replace(start, ''), match: false });
+      break;
+    }
+    if (open > 0) {
+      parts.push({ text: rest.slice(0, open), match: false });
+    }
+    parts.push({ text: rest.slice(open + start.length, close), match: true });
+    rest = rest.slice(close + end.length);
+  }
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-yellow-200 rounded px-0.5">{part.text}</mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function SearchResults({ data }: SearchResultsProps) {
+  const { start, end } = data.highlight;
+
+  if (data.results.length === 0) {
+    return (
+      <div className="text-center py-16">
+        <p className="text-gray-600">No posts match &ldquo;{data.query}&rdquo;.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <p className="text-sm text-gray-500 mb-4">
+        {data.pagination.total} result{data.pagination.total === 1 ? '' : 's'} for &ldquo;{data.query}&rdquo;
+      </p>
+      <ul className="space-y-4">
+        {data.results.map((result) => (
+          <li key={result.id} className="bg-white rounded-lg shadow-sm border p-5">
+            <Link
+              href={`/blog?slug=${result.slug}`}
+              className="text-xl font-semibold text-gray-900 hover:text-blue-600"
+            >
+              <Highlighted text={result.titleHighlight} start={start} end={end} />
+            </Link>
+            {result.status !== 'published' && (
+              <span className="ml-2 px-2 text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                {result.status}
+              </span>
+            )}
+            {result.snippet && (
+              <p className="mt-2 text-gray-700">
+                <Highlighted text={result.snippet} start={start} end={end} />
+              </p>
+            )}
+            {!result.snippet && result.description && (
+              <p className="mt-2 text-gray-600">{result.description}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * Taxonomy Editor Component
+ * Feature: post-taxonomy
+ *
+ * Edits where a trip went (country, destination), who came along and its tags,
+ * which readers use to filter the blog
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  COMPANIONS,
+  COMPANION_LABELS,
+  type Companion,
+  type PostTaxonomy,
+  type PostTaxonomyUpdateRequest,
+} from '@/types/post-taxonomy';
+import { getCountryName } from '@/utils/blog-filters';
+
+interface TaxonomyEditorProps {
+  taxonomy: PostTaxonomy;
+  onSave: (update: PostTaxonomyUpdateRequest) => Promise<boolean>;
+}
+
+export default function TaxonomyEditor({ taxonomy, onSave }: TaxonomyEditorProps) {
+  const [countryCode, setCountryCode] = useState(taxonomy.countryCode || '');
+  const [destination, setDestination] = useState(taxonomy.destination || '');
+  const [tags, setTags] = useState(taxonomy.tags.map(tag => tag.name).join(', '));
+  const [companions, setCompanions] = useState<Companion[]>(taxonomy.companions);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  // Pick up changes after a reload or revision restore
+  useEffect(() => {
+    setCountryCode(taxonomy.countryCode || '');
+    setDestination(taxonomy.destination || '');
+    setTags(taxonomy.tags.map(tag => tag.name).join(', '));
+    setCompanions(taxonomy.companions);
+  }, [taxonomy]);
+
+  const validCountry = /^[A-Za-z]{2}$/.test(countryCode);
+
+  const toggleCompanion = (companion: Companion) => {
+    setSaved(false);
+    setCompanions(prev =>
+      prev.includes(companion) ? prev.filter(c => c !== companion) : [...prev, companion]
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaved(false);
+    try {
+      const ok = await onSave({
+        countryCode: countryCode.trim() || null,
+        destination: destination.trim() || null,
+        tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+        companions,
+      });
+      setSaved(ok);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-4">Places, people & tags</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label htmlFor="taxonomy-country" className="block text-sm font-medium text-gray-700 mb-2">
+            Country code
+          </label>
+          <div className="flex items-center gap-3">
+            <input
+              id="taxonomy-country"
+              type="text"
+              value={countryCode}
+              onChange={(e) => { setCountryCode(e.target.value.toUpperCase()); setSaved(false); }}
+              maxLength={2}
+              placeholder="IT"
+              className="w-20 px-4 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white uppercase"
+            />
+            {validCountry && (
+              <span className="text-sm text-gray-600">{getCountryName(countryCode)}</span>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="taxonomy-destination" className="block text-sm font-medium text-gray-700 mb-2">
+            Destination
+          </label>
+          <input
+            id="taxonomy-destination"
+            type="text"
+            value={destination}
+            onChange={(e) => { setDestination(e.target.value); setSaved(false); }}
+            maxLength={100}
+            placeholder="e.g. Rome"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+          />
+        </div>
+      </div>
+
+      <fieldset className="mb-4">
+        <legend className="block text-sm font-medium text-gray-700 mb-2">Travelled with</legend>
+        <div className="flex flex-wrap gap-2">
+          {COMPANIONS.map((companion) => (
+            <label
+              key={companion}
+              className={`px-3 py-1 rounded-full text-sm border cursor-pointer ${
+                companions.includes(companion)
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-700'
+              }`}
+            >
+              <input
+                type="checkbox"
+                className="sr-only"
+                checked={companions.includes(companion)}
+                onChange={() => toggleCompanion(companion)}
+              />
+              {COMPANION_LABELS[companion]}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="mb-4">
+        <label htmlFor="taxonomy-tags" className="block text-sm font-medium text-gray-700 mb-2">
+          Tags (comma-separated)
+        </label>
+        <input
+          id="taxonomy-tags"
+          type="text"
+          value={tags}
+          onChange={(e) => { setTags(e.target.value); setSaved(false); }}
+          placeholder="e.g. food, beaches, museums"
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving || (countryCode !== '' && !validCountry)}
+          className="px-4 py-2 text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        {saved && <span className="text-sm text-green-700">Saved</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+/**
+ * Template Switcher Component
+ * Feature: template-switching
+ *
+ * Switches an existing post to another template. Shows how much content the
+ * new template will hide before applying, the history of earlier switches, and
+ * mints shareable preview links so others can approve a layout first
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { fetchTemplateHistory, createPostPreviewLink } from '@/lib/posts-api';
+import type { TemplateChangeResponse, PostTemplateHistory } from '@/types/design-template';
+
+type ContentPreservation = TemplateChangeResponse['contentPreservation'];
+
+interface TemplateOption {
+  id: string;
+  name: string;
+  description: string;
+}
+
+interface TemplateSwitcherProps {
+  postId: string;
+  currentTemplateId: string | null;
+  templates: TemplateOption[];
+  getToken: () => string | null;
+  onPreview: (templateId: string) => Promise<ContentPreservation>;
+  onApply: (templateId: string, reason: string) => Promise<boolean>;
+}
+
+export default function TemplateSwitcher({
+  postId,
+  currentTemplateId,
+  templates,
+  getToken,
+  onPreview,
+  onApply,
+}: TemplateSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [targetId, setTargetId] = useState('');
+  const [reason, setReason] = useState('');
+  const [preview, setPreview] = useState<ContentPreservation | null>(null);
+  const [history, setHistory] = useState<PostTemplateHistory[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [previewLink, setPreviewLink] = useState<{ url: string; expiresAt: string } | null>(null);
+  const [sharing, setSharing] = useState(false);
+
+  const templateName = (id: string | null | undefined) =>
+    templates.find(t => t.id === id)?.name || id || 'Unknown';
+
+  const loadHistory = async () => {
+    const token = getToken();
+    if (!token) return;
+
+    try {
+      const data = await fetchTemplateHistory(postId, token);
+      setHistory(data.history);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load template history');
+    }
+  };
+
+  const handleToggle = async () => {
+    const next = !isOpen;
+    setIsOpen(next);
+    if (next) {
+      await loadHistory();
+    }
+  };
+
+  const handleSelect = async (templateId: string) => {
+    setTargetId(templateId);
+    setPreview(null);
+    setPreviewLink(null);
+    setError(null);
+    if (!templateId) return;
+
+    setLoading(true);
+    try {
+      setPreview(await onPreview(templateId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check template');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Preview link for the chosen template (or the current one)
+  const handleShare = async () => {
+    const token = getToken();
+    if (!token) return;
+
+    setSharing(true);
+    setError(null);
+    try {
+      const result = await createPostPreviewLink(postId, targetId || undefined, token);
+      const url = result.previewUrl.startsWith('/')
+        ? `${window.location.origin}${result.previewUrl}`
+        : result.previewUrl;
+      setPreviewLink({ url, expiresAt: result.expiresAt });
+      await navigator.clipboard?.writeText(url).catch(() => undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create preview link');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!targetId) return;
+
+    setApplying(true);
+    setError(null);
+    try {
+      if (await onApply(targetId, reason.trim())) {
+        setTargetId('');
+        setReason('');
+        setPreview(null);
+        await loadHistory();
+      }
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold">Template</h2>
+          <p className="text-sm text-gray-600">Currently using {templateName(currentTemplateId)}</p>
+        </div>
+        <button
+          onClick={handleToggle}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          {isOpen ? 'Hide' : 'Change'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          {error && (
+            <p className="text-sm text-red-700">{error}</p>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              New template
+            </label>
+            <select
+              value={targetId}
+              onChange={(e) => handleSelect(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+            >
+              <option value="">Choose a template...</option>
+              {templates
+                .filter(t => t.id !== currentTemplateId)
+                .map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name} — {template.description}
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          {loading && (
+            <p className="text-sm text-gray-500">Checking how your content fits...</p>
+          )}
+
+          {preview && (
+            <div className={`rounded-lg p-4 text-sm ${
+              preview.warnings?.length ? 'bg-yellow-50 border border-yellow-200' : 'bg-green-50 border border-green-200'
+            }`}>
+              <p className="text-gray-800">
+                Shows {preview.displayedPhotos} of {preview.photosCount} photo(s) and{' '}
+                {preview.displayedVideos} of {preview.videosCount} video(s).
+              </p>
+              {preview.warnings?.map((warning) => (
+                <p key={warning} className="mt-1 text-yellow-800">⚠️ {warning}</p>
+              ))}
+              {preview.warnings?.length ? (
+                <p className="mt-1 text-gray-600">Hidden items are kept and reappear if you switch back.</p>
+              ) : null}
+            </div>
+          )}
+
+          {targetId && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Reason (optional)
+                </label>
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  maxLength={500}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+                  placeholder="e.g. More room for photos"
+                />
+              </div>
+              <button
+                onClick={handleApply}
+                disabled={applying || loading}
+                className="px-4 py-2 text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-300"
+              >
+                {applying ? 'Switching...' : `Switch to ${templateName(targetId)}`}
+              </button>
+            </>
+          )}
+
+          <div>
+            <button
+              onClick={handleShare}
+              disabled={sharing}
+              className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+            >
+              {sharing
+                ? 'Creating link...'
+                : `Share a preview with ${targetId ? templateName(targetId) : 'the current template'}`}
+            </button>
+            {previewLink && (
+              <div className="mt-2 p-3 bg-gray-50 border rounded-lg text-sm">
+                <input
+                  type="text"
+                  readOnly
+                  value={previewLink.url}
+                  onFocus={(e) => e.target.select()}
+                  className="w-full px-2 py-1 border border-gray-300 rounded text-gray-900 bg-white"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Copied to clipboard. Anyone with this link can view the post until{' '}
+                  {new Date(previewLink.expiresAt).toLocaleString()}.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {history.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">History</h3>
+              <ul className="divide-y divide-gray-200 border rounded-lg text-sm">
+                {history.map((entry) => (
+                  <li key={entry.id} className="p-3">
+                    <div className="text-gray-900">
+                      {templateName(entry.previousTemplateId)} → {entry.templateName}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(entry.changedAt).toLocaleString()} by {entry.changedByName || entry.changedBy}
+                      {entry.reason && ` · ${entry.reason}`}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * Trash Bin Component
+ * Feature: post-trash
+ *
+ * Lists deleted posts on the manage page and restores them. Posts stay here
+ * until the retention period ends; then they and their media are purged.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { fetchTrash, restorePost } from '@/lib/posts-api';
+import type { TrashedPost } from '@/types/post-trash';
+
+interface TrashBinProps {
+  getToken: () => string | null;
+  refreshKey: number; // Changes whenever a post is moved to the trash
+  onRestored: () => void;
+}
+
+export default function TrashBin({ getToken, refreshKey, onRestored }: TrashBinProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [posts, setPosts] = useState<TrashedPost[]>([]);
+  const [total, setTotal] = useState(0);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    const token = getToken();
+    if (!token) return;
+
+    try {
+      const data = await fetchTrash(token);
+      setPosts(data.posts);
+      setTotal(data.pagination.total);
+      setRetentionDays(data.retentionDays);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load trash');
+    }
+  }, [getToken]);
+
+  // Reload whenever refreshKey changes
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash, refreshKey]);
+
+  const handleRestore = async (post: TrashedPost) => {
+    const token = getToken();
+    if (!token) return;
+
+    setRestoringId(post.id);
+    setError(null);
+    try {
+      await restorePost(post.id, token);
+      setPosts(prev => prev.filter(p => p.id !== post.id));
+      setTotal(prev => prev - 1);
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore post');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className="mt-10 bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Trash ({total})</h2>
+          <p className="text-sm text-gray-600">
+            Deleted posts can be restored
+            {retentionDays !== null && ` for ${retentionDays} day${retentionDays === 1 ? '' : 's'}`}
+            , then they are removed for good with their photos and videos
+          </p>
+        </div>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="mt-4 text-sm text-red-700">{error}</p>
+      )}
+
+      {isOpen && (
+        posts.length === 0 ? (
+          <p className="mt-4 text-sm text-gray-500">The trash is empty</p>
+        ) : (
+          <ul className="mt-4 divide-y divide-gray-200 border rounded-lg">
+            {posts.map((post) => (
+              <li key={post.id} className="p-4 flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-medium text-gray-900">{post.title}</div>
+                  <div className="text-xs text-gray-500">
+                    {post.status} · 📷 {post.photoCount} · 🎥 {post.videoCount}
+                    {' · '}deleted {formatDate(post.deletedAt)}
+                    {post.deletedBy && ` by ${post.deletedBy}`}
+                    {' · '}removed for good on {formatDate(post.purgeAfter)}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRestore(post)}
+                  disabled={restoringId === post.id}
+                  className="text-sm text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                >
+                  {restoringId === post.id ? 'Restoring...' : 'Restore'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+/**
+ * Trip Manager Component
+ * Feature: trips
+ *
+ * Lets a contributor group posts from one journey into a trip and put the
+ * parts in order. Readers see the parts on the trip landing page and as
+ * "Part n of m" at the end of each post.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import {
+  fetchMyTrips,
+  fetchTrip,
+  createTrip,
+  setTripPosts,
+  deleteTrip,
+} from '@/lib/posts-api';
+import type { Trip } from '@/types/trip';
+import { getTripUrl } from '@/utils/post-url';
+
+interface TripPostOption {
+  id: string;
+  title: string;
+  status: string;
+}
+
+interface TripManagerProps {
+  posts: TripPostOption[];
+  getToken: () => string | null;
+}
+
+export default function TripManager({ posts, getToken }: TripManagerProps) {
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [newTitle, setNewTitle] = useState('');
+  const [newStart, setNewStart] = useState('');
+  const [newEnd, setNewEnd] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [partIds, setPartIds] = useState<string[]>([]);
+  const [addPostId, setAddPostId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const postTitle = (id: string) => posts.find(p => p.id === id)?.title || id;
+
+  const loadTrips = useCallback(async () => {
+    const token = getToken();
+    if (!token) return;
+
+    try {
+      const data = await fetchMyTrips(token);
+      setTrips(data.trips);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load trips');
+    }
+  }, [getToken]);
+
+  useEffect(() => {
+    loadTrips();
+  }, [loadTrips]);
+
+  const handleCreate = async () => {
+    const token = getToken();
+    if (!token || !newTitle.trim()) return;
+
+    setCreating(true);
+    setError(null);
+    try {
+      await createTrip({
+        title: newTitle.trim(),
+        startDate: newStart || null,
+        endDate: newEnd || null,
+      }, token);
+      setNewTitle('');
+      setNewStart('');
+      setNewEnd('');
+      await loadTrips();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create trip');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleEdit = async (trip: Trip) => {
+    if (editingId === trip.id) {
+      setEditingId(null);
+      return;
+    }
+
+    const token = getToken();
+    if (!token) return;
+
+    setError(null);
+    try {
+      const data = await fetchTrip(trip.id, token);
+      setPartIds(data.parts.map(part => part.id));
+      setAddPostId('');
+      setEditingId(trip.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load trip');
+    }
+  };
+
+  const movePart = (index: number, offset: number) => {
+    setPartIds(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const handleSaveParts = async (tripId: string) => {
+    const token = getToken();
+    if (!token) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await setTripPosts(tripId, partIds, token);
+      setEditingId(null);
+      await loadTrips();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save trip parts');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (trip: Trip) => {
+    if (!confirm(`Delete the trip "${trip.title}"? Its posts are kept.`)) {
+      return;
+    }
+
+    const token = getToken();
+    if (!token) return;
+
+    setError(null);
+    try {
+      await deleteTrip(trip.id, token);
+      setTrips(prev => prev.filter(t => t.id !== trip.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete trip');
+    }
+  };
+
+  return (
+    <div className="mt-10 bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+      <h2 className="text-xl font-semibold text-gray-900">Trips</h2>
+      <p className="text-sm text-gray-600 mb-4">Group posts from one journey into an ordered series</p>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-700">{error}</p>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3 mb-6">
+        <div className="flex-1 min-w-[12rem]">
+          <label htmlFor="trip-title" className="block text-sm font-medium text-gray-700 mb-1">New trip</label>
+          <input
+            id="trip-title"
+            type="text"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            maxLength={200}
+            placeholder="e.g. Italy, summer 2024"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+          />
+        </div>
+        <div>
+          <label htmlFor="trip-start" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            id="trip-start"
+            type="date"
+            value={newStart}
+            onChange={(e) => setNewStart(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+          />
+        </div>
+        <div>
+          <label htmlFor="trip-end" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            id="trip-end"
+            type="date"
+            value={newEnd}
+            min={newStart || undefined}
+            onChange={(e) => setNewEnd(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+          />
+        </div>
+        <button
+          onClick={handleCreate}
+          disabled={creating || !newTitle.trim()}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          {creating ? 'Creating...' : 'Create trip'}
+        </button>
+      </div>
+
+      {trips.length === 0 ? (
+        <p className="text-sm text-gray-500">No trips yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border rounded-lg">
+          {trips.map((trip) => (
+            <li key={trip.id} className="p-4">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-medium text-gray-900">{trip.title}</div>
+                  <div className="text-xs text-gray-500">
+                    {trip.partCount} part{trip.partCount === 1 ? '' : 's'}
+                    {trip.startDate && ` · ${trip.startDate}`}
+                    {trip.endDate && ` – ${trip.endDate}`}
+                  </div>
+                </div>
+                <div className="flex gap-3 text-sm">
+                  <Link href={getTripUrl(trip.slug)} className="text-blue-600 hover:text-blue-900">
+                    View
+                  </Link>
+                  <button onClick={() => handleEdit(trip)} className="text-indigo-600 hover:text-indigo-900">
+                    {editingId === trip.id ? 'Close' : 'Edit parts'}
+                  </button>
+                  <button onClick={() => handleDelete(trip)} className="text-red-600 hover:text-red-900">
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {editingId === trip.id && (
+                <div className="mt-4 space-y-3">
+                  <ol className="space-y-2">
+                    {partIds.map((id, index) => (
+                      <li key={id} className="flex items-center gap-3 text-sm">
+                        <span className="w-14 text-gray-500">Part {index + 1}</span>
+                        <span className="flex-1 text-gray-900">{postTitle(id)}</span>
+                        <button
+                          onClick={() => movePart(index, -1)}
+                          disabled={index === 0}
+                          className="text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                          aria-label="Move up"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          onClick={() => movePart(index, 1)}
+                          disabled={index === partIds.length - 1}
+                          className="text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                          aria-label="Move down"
+                        >
+                          ↓
+                        </button>
+                        <button
+                          onClick={() => setPartIds(prev => prev.filter(p => p !== id))}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          Remove
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={addPostId}
+                      onChange={(e) => setAddPostId(e.target.value)}
+                      className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-900 bg-white"
+                    >
+                      <option value="">Add a post...</option>
+                      {posts
+                        .filter(p => !partIds.includes(p.id))
+                        .map((p) => (
+                          <option key={p.id} value={p.id}>
+                            {p.title} ({p.status})
+                          </option>
+                        ))}
+                    </select>
+                    <button
+                      onClick={() => {
+                        if (addPostId) {
+                          setPartIds(prev => [...prev, addPostId]);
+                          setAddPostId('');
+                        }
+                      }}
+                      disabled={!addPostId}
+                      className="px-3 py-2 text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                    >
+                      Add
+                    </button>
+                  </div>
+
+                  <button
+                    onClick={() => handleSaveParts(trip.id)}
+                    disabled={saving}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-300"
+                  >
+                    {saving ? 'Saving...' : 'Save order'}
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
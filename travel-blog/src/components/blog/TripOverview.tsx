@@ -0,0 +1,87 @@
+/**
+ * Trip Overview Component
+ * Feature: trips
+ *
+ * Landing page for a trip: its dates and description followed by its parts in order
+ */
+
+import Image from 'next/image';
+import Link from 'next/link';
+import type { TripDetailResponse } from '@/types/trip';
+import { getPostUrl } from '@/utils/post-url';
+import { formatPostDate } from '@/utils/date-format';
+import { generateExcerpt } from '@/utils/excerpt';
+
+interface TripOverviewProps {
+  data: TripDetailResponse;
+}
+
+export default function TripOverview({ data }: TripOverviewProps) {
+  const { trip, parts } = data;
+  // Noon avoids the date shifting a day in timezones west of UTC
+  const startDate = trip.startDate ? formatPostDate(`${trip.startDate}T12:00:00`, 'long') : '';
+  const endDate = trip.endDate ? formatPostDate(`${trip.endDate}T12:00:00`, 'long') : '';
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <header className="mb-10">
+        {trip.coverImage && (
+          <div className="relative h-64 w-full mb-6 rounded-lg overflow-hidden bg-gray-200">
+            <Image
+              src={trip.coverImage}
+              alt={trip.title}
+              fill
+              sizes="(max-width: 1024px) 100vw, 896px"
+              className="object-cover"
+              priority
+            />
+          </div>
+        )}
+        <h2 className="text-3xl md:text-4xl font-bold text-gray-900 mb-2">{trip.title}</h2>
+        {(startDate || endDate) && (
+          <p className="text-sm text-gray-500 mb-3">
+            {startDate && endDate && startDate !== endDate ? `${startDate} – ${endDate}` : startDate || endDate}
+          </p>
+        )}
+        {trip.description && (
+          <p className="text-lg text-gray-700">{trip.description}</p>
+        )}
+        <p className="mt-3 text-sm text-gray-500">
+          {parts.length} part{parts.length === 1 ? '' : 's'}
+        </p>
+      </header>
+
+      <ol className="space-y-4">
+        {parts.map((part) => (
+          <li key={part.id}>
+            <Link
+              href={getPostUrl(part.slug)}
+              className="group flex gap-4 p-4 bg-white rounded-lg border border-gray-200 hover:border-blue-600 hover:shadow-md transition-all"
+            >
+              <div className="flex-shrink-0 w-16 text-center">
+                <div className="text-xs uppercase tracking-wide text-gray-500">Part</div>
+                <div className="text-2xl font-bold text-gray-900">{part.part}</div>
+              </div>
+              <div className="min-w-0">
+                <div className="font-semibold text-gray-900 group-hover:text-blue-600">
+                  {part.title}
+                  {part.status !== 'published' && (
+                    <span className="ml-2 px-2 text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                      {part.status}
+                    </span>
+                  )}
+                </div>
+                {part.description && (
+                  <p className="text-sm text-gray-600 mt-1">{generateExcerpt(part.description, 160)}</p>
+                )}
+                {part.publishedAt && (
+                  <p className="text-xs text-gray-400 mt-1">{formatPostDate(part.publishedAt, 'medium')}</p>
+                )}
+              </div>
+            </Link>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
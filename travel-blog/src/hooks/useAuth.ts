@@ -1,5 +1,6 @@
 /**
  * Custom hook to check authentication status
+ * An expired access token is refreshed on the way (see verifySession)
  */
 
 'use client';
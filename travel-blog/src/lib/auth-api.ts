@@ -3,6 +3,9 @@
  * Communicates with Cloudflare Workers auth endpoints
  */
 
+import type { CreateUserRequest, UpdateUserRequest, UserListResponse, UserResponse } from '@/types/user-admin';
+import type { RevokeSessionResponse, SessionListResponse } from '@/types/session';
+
 export interface LoginRequest {
   username: string;
   password: string;
@@ -104,8 +107,85 @@ export async function login(credentials: LoginRequest): Promise<LoginResponse> {
   }
 }
 
+/**
+ * Errors meaning the access token expired and can be refreshed:
+ * SESSION_EXPIRED from /api/auth/verify, EXPIRED from the other workers
+ */
+const ACCESS_TOKEN_EXPIRED_ERRORS = ['EXPIRED', 'SESSION_EXPIRED'];
+
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Get a new access token with the refresh token cookie
+ * Concurrent callers share one request: refresh tokens work once, and using
+ * one twice signs the session out.
+ * @returns The new access token (also stored in localStorage), or null if
+ * the session is over
+ */
+export function refreshSession(): Promise<string | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      try {
+        const response = await fetch(`${getAuthApiUrl()}/api/auth/refresh`, {
+          method: 'POST',
+          credentials: 'include', // The refresh token is an HttpOnly cookie
+        });
+
+        const data = await response.json();
+
+        if (!response.ok || !data.success || !data.token) {
+          if (typeof window !== 'undefined') {
+            localStorage.removeItem('session_token');
+          }
+          return null;
+        }
+
+        if (typeof window !== 'undefined') {
+          localStorage.setItem('session_token', data.token);
+        }
+        return data.token as string;
+      } catch (error) {
+        console.error('Session refresh failed:', error);
+        return null;
+      } finally {
+        refreshInFlight = null;
+      }
+    })();
+  }
+
+  return refreshInFlight;
+}
+
+/**
+ * fetch for requests carrying an access token: when the token has expired,
+ * refresh the session once and retry with the new token
+ */
+export async function fetchWithRefresh(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(input, init);
+
+  if (response.status !== 401) {
+    return response;
+  }
+
+  const data = await response.clone().json().catch(() => null);
+  if (!data || !ACCESS_TOKEN_EXPIRED_ERRORS.includes(data.error)) {
+    return response;
+  }
+
+  const token = await refreshSession();
+  if (!token) {
+    return response;
+  }
+
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+
+  return fetch(input, { ...init, headers });
+}
+
 /**
  * Verify current session
+ * Refreshes an expired access token
  * @returns Session verification response with user info or error
  */
 export async function verifySession(): Promise<VerifyResponse | ErrorResponse> {
@@ -124,7 +204,7 @@ export async function verifySession(): Promise<VerifyResponse | ErrorResponse> {
       }
     }
     
-    const response = await fetch(`${getAuthApiUrl()}/api/auth/verify`, {
+    const response = await fetchWithRefresh(`${getAuthApiUrl()}/api/auth/verify`, {
       method: 'GET',
       credentials: 'include', // Include cookies in request (for desktop browsers)
       headers,
@@ -148,13 +228,20 @@ export async function verifySession(): Promise<VerifyResponse | ErrorResponse> {
  */
 export async function logout(): Promise<LogoutResponse | ErrorResponse> {
   try {
-    // Clear localStorage token
+    const headers: HeadersInit = {};
+
+    // Clear localStorage token, sending it along so the server can end the session
     if (typeof window !== 'undefined') {
+      const token = localStorage.getItem('session_token');
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
       localStorage.removeItem('session_token');
     }
     
     const response = await fetch(`${getAuthApiUrl()}/api/auth/logout`, {
       method: 'POST',
+      headers,
       credentials: 'include', // Include cookies in request
     });
 
@@ -170,3 +257,246 @@ export async function logout(): Promise<LogoutResponse | ErrorResponse> {
     };
   }
 }
+
+/**
+ * List all user accounts (contributors only)
+ */
+export async function fetchUsers(token: string): Promise<UserListResponse> {
+  try {
+    const response = await fetchWithRefresh(`${getAuthApiUrl()}/api/auth/users`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to load users: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a user account (contributors only)
+ */
+export async function createUser(request: CreateUserRequest, token: string): Promise<UserResponse> {
+  try {
+    const response = await fetchWithRefresh(`${getAuthApiUrl()}/api/auth/users`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(request),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to create user: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error creating user:', error);
+    throw error;
+  }
+}
+
+/**
+ * Change a user's display name and/or role (contributors only)
+ */
+export async function updateUser(userId: number, request: UpdateUserRequest, token: string): Promise<UserResponse> {
+  try {
+    const response = await fetchWithRefresh(`${getAuthApiUrl()}/api/auth/users/${userId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(request),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to update user: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error updating user:', error);
+    throw error;
+  }
+}
+
+/**
+ * Disable or re-enable a user account (contributors only)
+ */
+export async function setUserDisabled(userId: number, disabled: boolean, token: string): Promise<UserResponse> {
+  try {
+    const action = disabled ? 'disable' : 'enable';
+    const response = await fetchWithRefresh(`${getAuthApiUrl()}/api/auth/users/${userId}/${action}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to ${action} user: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error changing user status:', error);
+    throw error;
+  }
+}
+
+/**
+ * Change the signed-in user's password
+ * Other sessions are signed out; this one continues with the returned token
+ */
+export async function changePassword(
+  currentPassword: string,
+  newPassword: string,
+  token: string
+): Promise<{ success: true; expiresAt: string; token: string }> {
+  try {
+    const response = await fetchWithRefresh(`${getAuthApiUrl()}/api/auth/change-password`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+      body: JSON.stringify({ currentPassword, newPassword }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to change password: ${response.status}`);
+    }
+
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('session_token', data.token);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error changing password:', error);
+    throw error;
+  }
+}
+
+/**
+ * Ask for a password reset link to be sent to the account's email
+ */
+export async function requestPasswordReset(username: string): Promise<{ success: true; message: string }> {
+  try {
+    const response = await fetch(`${getAuthApiUrl()}/api/auth/password-reset/request`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ username }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to request a reset link: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error requesting password reset:', error);
+    throw error;
+  }
+}
+
+/**
+ * Set a new password with the token from a reset link
+ */
+export async function resetPassword(resetToken: string, password: string): Promise<{ success: true; message: string }> {
+  try {
+    const response = await fetch(`${getAuthApiUrl()}/api/auth/password-reset/confirm`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token: resetToken, password }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to reset password: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    throw error;
+  }
+}
+
+/**
+ * List the signed-in user's active sessions ("Your devices")
+ */
+export async function fetchSessions(token: string): Promise<SessionListResponse> {
+  try {
+    const response = await fetchWithRefresh(`${getAuthApiUrl()}/api/auth/sessions`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to load devices: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Sign one of the signed-in user's devices out
+ */
+export async function revokeSession(sessionId: string, token: string): Promise<RevokeSessionResponse> {
+  try {
+    const response = await fetchWithRefresh(`${getAuthApiUrl()}/api/auth/sessions/${encodeURIComponent(sessionId)}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include', // Lets the server clear this device's cookie
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to sign out device: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    throw error;
+  }
+}
@@ -5,7 +5,16 @@
  * Client-side functions to fetch blog posts from the API
  */
 
-import type { PostListData } from '@/types/post-card';
+import type { PostListData, PostSearchData, RelatedPostsData } from '@/types/post-card';
+import type { TemplateHistoryResponse, TemplatePreviewResponse } from '@/types/design-template';
+import type { Companion, PostFilters, PostTag } from '@/types/post-taxonomy';
+import type { Trip, TripDetailResponse, TripListResponse, TripNavigation, TripSaveRequest } from '@/types/trip';
+import type { RestorePostResponse, TrashListResponse } from '@/types/post-trash';
+import type { BulkActionRequest, BulkActionResponse } from '@/types/post-bulk';
+import type { NeighborScope, PostNeighbors, PostNeighborsResponse } from '@/types/post-neighbors';
+import type { PaginationParams } from '@/types/pagination';
+import type { ArchivePeriod, PostArchive } from '@/types/post-archive';
+import { fetchWithRefresh } from '@/lib/auth-api';
 
 function getPostsApiUrl(): string {
   if (typeof window !== 'undefined' && window.location.hostname.includes('pages.dev')) {
@@ -28,9 +37,17 @@ export interface PostDetailResponse {
     templateName: string;
     authorId: string;
     status: string;
+    scheduledFor: string | null;
     publishedAt: string | null;
     createdAt: string;
     updatedAt: string;
+    version: number;
+    countryCode: string | null;
+    destination: string | null;
+    tags: PostTag[];
+    companions: Companion[];
+    trip: TripNavigation | null;
+    neighbors?: PostNeighbors; // Only in responses by slug
   };
   content: {
     photos: Array<{
@@ -61,17 +78,41 @@ export interface PostDetailResponse {
 }
 
 /**
- * Fetch list of published blog posts
+ * Fetch list of published blog posts, most recently published first by default
+ * Pass a cursor from pagination.nextCursor or prevCursor to page without an offset,
+ * and a period to list only the posts published in that year or month
  */
 export async function fetchPublishedPosts(
   limit: number = 20,
-  offset: number = 0
+  offset: number = 0,
+  filters?: PostFilters,
+  options: Pick<PaginationParams, 'cursor' | 'sort' | 'direction'> & { period?: ArchivePeriod } = {}
 ): Promise<PostListData> {
   try {
     const url = new URL(`${POSTS_API_URL}/api/posts`);
     url.searchParams.set('status', 'published');
     url.searchParams.set('limit', limit.toString());
-    url.searchParams.set('offset', offset.toString());
+    url.searchParams.set('sort', options.sort || 'published_at');
+    if (options.direction) {
+      url.searchParams.set('direction', options.direction);
+    }
+    if (options.cursor) {
+      url.searchParams.set('cursor', options.cursor);
+    } else {
+      url.searchParams.set('offset', offset.toString());
+    }
+    if (options.period) {
+      url.searchParams.set('year', options.period.year.toString());
+      if (options.period.month) url.searchParams.set('month', options.period.month.toString());
+    }
+
+    // Taxonomy filters, with facet counts for the filter chips
+    if (filters) {
+      url.searchParams.set('facets', 'true');
+      if (filters.country) url.searchParams.set('country', filters.country);
+      filters.tags.forEach(tag => url.searchParams.append('tag', tag));
+      filters.companions.forEach(companion => url.searchParams.append('with', companion));
+    }
 
     const response = await fetch(url.toString(), {
       method: 'GET',
@@ -99,6 +140,44 @@ export async function fetchPublishedPosts(
   }
 }
 
+/**
+ * Full-text search across posts, best matches first
+ * With a session token the author's own drafts are included
+ */
+export async function searchPosts(
+  query: string,
+  limit: number = 20,
+  offset: number = 0,
+  token?: string | null
+): Promise<PostSearchData> {
+  try {
+    const url = new URL(`${POSTS_API_URL}/api/posts/search`);
+    url.searchParams.set('q', query);
+    url.searchParams.set('limit', limit.toString());
+    url.searchParams.set('offset', offset.toString());
+
+    const response = await fetchWithRefresh(url.toString(), {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      cache: 'no-store',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to search posts: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error searching posts:', error);
+    throw error;
+  }
+}
+
 /**
  * Fetch a single blog post by ID with full content
  */
@@ -164,9 +243,621 @@ export async function fetchPostBySlug(slug: string): Promise<PostDetailResponse>
       throw new Error(data.message || 'Failed to fetch post');
     }
 
+    // The slug used to belong to a post that has since been renamed
+    if (data.redirect) {
+      throw new PostMovedError(data.redirect.slug);
+    }
+
     return data;
   } catch (error) {
+    if (error instanceof PostMovedError) {
+      throw error;
+    }
     console.error('Error fetching post by slug:', error);
     throw error;
   }
 }
+
+/**
+ * Fetch the published posts before and after a post, optionally within its country or a tag
+ */
+export async function fetchPostNeighbors(
+  postId: string,
+  scope: NeighborScope = { by: 'all' }
+): Promise<PostNeighborsResponse> {
+  try {
+    const params = new URLSearchParams({ scope: scope.by });
+    if (scope.by === 'tag') {
+      params.set('tag', scope.tag);
+    }
+
+    const response = await fetch(`${POSTS_API_URL}/api/posts/${postId}/neighbors?${params.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to fetch post neighbors: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching post neighbors:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch post counts by year, month and country
+ * @param country - Limit the year and month counts to one country
+ */
+export async function fetchPostArchive(country?: string | null): Promise<PostArchive> {
+  try {
+    const url = new URL(`${POSTS_API_URL}/api/posts/archive`);
+    if (country) {
+      url.searchParams.set('country', country);
+    }
+
+    const response = await fetch(url.toString(), {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to fetch archive: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching archive:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch published posts related to a post ("You might also like")
+ */
+export async function fetchRelatedPosts(postId: string, limit: number = 3): Promise<RelatedPostsData> {
+  try {
+    const response = await fetch(`${POSTS_API_URL}/api/posts/${postId}/related?limit=${limit}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to fetch related posts: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching related posts:', error);
+    throw error;
+  }
+}
+
+// Revision history types matching worker responses
+export interface PostRevisionSummary {
+  id: string;
+  postId: string;
+  revisionNumber: number;
+  action: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+export interface PostRevisionFieldChange {
+  field: string;
+  change: 'added' | 'removed' | 'modified';
+  before: unknown;
+  after: unknown;
+}
+
+export interface PostRevisionDetailResponse {
+  revision: PostRevisionSummary & {
+    snapshot: {
+      post: {
+        title: string;
+        slug: string;
+        description: string | null;
+        coverImage: string | null;
+        templateId: string;
+        status: string;
+        publishedAt: string | null;
+      };
+      photos: Array<{ id: string; caption: string | null; altText: string; displayOrder: number }>;
+      videos: Array<{ id: string; caption: string | null; displayOrder: number }>;
+      textBlocks: Array<{ id: string; content: string; displayOrder: number }>;
+    };
+  };
+  diff: PostRevisionFieldChange[];
+}
+
+export interface RestoreRevisionResponse {
+  message: string;
+  postId: string;
+  revisionId: string;
+  restoredAt: string;
+  skipped: {
+    photos: string[];
+    videos: string[];
+  };
+  warnings?: string[];
+}
+
+/**
+ * Fetch the revision history of a post (newest first)
+ */
+export async function fetchPostRevisions(
+  postId: string,
+  token: string
+): Promise<PostRevisionSummary[]> {
+  try {
+    const response = await fetchWithRefresh(`${POSTS_API_URL}/api/posts/${postId}/revisions`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      cache: 'no-store',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to fetch revisions: ${response.status}`);
+    }
+
+    return data.revisions;
+  } catch (error) {
+    console.error('Error fetching post revisions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch a single revision with its diff against the current post
+ */
+export async function fetchPostRevision(
+  postId: string,
+  revisionId: string,
+  token: string
+): Promise<PostRevisionDetailResponse> {
+  try {
+    const response = await fetchWithRefresh(`${POSTS_API_URL}/api/posts/${postId}/revisions/${revisionId}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      cache: 'no-store',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to fetch revision: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching post revision:', error);
+    throw error;
+  }
+}
+
+/**
+ * Restore a post to a previous revision
+ */
+export async function restorePostRevision(
+  postId: string,
+  revisionId: string,
+  token: string
+): Promise<RestoreRevisionResponse> {
+  try {
+    const response = await fetchWithRefresh(
+      `${POSTS_API_URL}/api/posts/${postId}/revisions/${revisionId}/restore`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+      }
+    );
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to restore revision: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error restoring post revision:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch the template change history of a post (author only)
+ */
+export async function fetchTemplateHistory(
+  postId: string,
+  token: string
+): Promise<TemplateHistoryResponse> {
+  try {
+    const response = await fetchWithRefresh(`${POSTS_API_URL}/api/posts/${postId}/template-history`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      cache: 'no-store',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to fetch template history: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching template history:', error);
+    throw error;
+  }
+}
+
+export interface PostPreviewResponse {
+  post: Omit<PostDetailResponse['post'], 'version' | 'trip' | 'neighbors' | 'countryCode' | 'destination' | 'tags' | 'companions'>;
+  content: PostDetailResponse['content'];
+  preview: {
+    templateId: string;
+    expiresAt: string;
+  };
+}
+
+/**
+ * Create a shareable preview link for a post, optionally with another template
+ */
+export async function createPostPreviewLink(
+  postId: string,
+  templateId: string | undefined,
+  token: string
+): Promise<TemplatePreviewResponse> {
+  try {
+    const response = await fetchWithRefresh(`${POSTS_API_URL}/api/posts/${postId}/preview`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ templateId }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to create preview link: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error creating preview link:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch a post through a preview link token (no login required)
+ */
+export async function fetchPostPreview(previewToken: string): Promise<PostPreviewResponse> {
+  try {
+    const response = await fetch(
+      `${POSTS_API_URL}/api/posts/preview/${encodeURIComponent(previewToken)}`,
+      { cache: 'no-store' }
+    );
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to load preview: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching post preview:', error);
+    throw error;
+  }
+}
+
+/**
+ * Server copy of a post returned with a 409 version conflict
+ */
+export interface PostConflictSnapshot {
+  post: {
+    title: string;
+    slug: string;
+    description: string | null;
+    coverImage: string | null;
+    templateId: string;
+    status: string;
+    publishedAt: string | null;
+  };
+  photos: Array<{ id: string; caption: string | null; altText: string; displayOrder: number }>;
+  videos: Array<{ id: string; caption: string | null; displayOrder: number }>;
+  textBlocks: Array<{ id: string; content: string; displayOrder: number }>;
+}
+
+/**
+ * Thrown when a save is rejected because the post was changed by someone else
+ */
+export class PostVersionConflictError extends Error {
+  constructor(
+    message: string,
+    public currentVersion: number,
+    public current: PostConflictSnapshot | null
+  ) {
+    super(message);
+    this.name = 'PostVersionConflictError';
+  }
+}
+
+/**
+ * Thrown when a post is requested by a slug it no longer uses
+ */
+export class PostMovedError extends Error {
+  constructor(public slug: string) {
+    super('Post has moved');
+    this.name = 'PostMovedError';
+  }
+}
+
+/**
+ * Fetch a trip and its parts by ID or slug
+ * With a session token the author also sees unpublished parts
+ */
+export async function fetchTrip(tripIdOrSlug: string, token?: string | null): Promise<TripDetailResponse> {
+  try {
+    const response = await fetchWithRefresh(`${POSTS_API_URL}/api/posts/trips/${encodeURIComponent(tripIdOrSlug)}`, {
+      headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+      cache: 'no-store',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to fetch trip: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching trip:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch the signed-in author's trips
+ */
+export async function fetchMyTrips(token: string): Promise<TripListResponse> {
+  try {
+    const response = await fetchWithRefresh(`${POSTS_API_URL}/api/posts/trips?mine=true&limit=100`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      cache: 'no-store',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to fetch trips: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching trips:', error);
+    throw error;
+  }
+}
+
+/**
+ * Send an authenticated trip change to the posts API
+ */
+async function sendTripRequest(path: string, method: string, token: string, body?: unknown) {
+  const response = await fetchWithRefresh(`${POSTS_API_URL}/api/posts/trips${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || data.error) {
+    throw new Error(data.message || `Trip request failed: ${response.status}`);
+  }
+
+  return data;
+}
+
+/**
+ * Create a trip, optionally with its posts in order
+ */
+export async function createTrip(
+  trip: TripSaveRequest & { title: string; postIds?: string[] },
+  token: string
+): Promise<{ trip: Trip; postIds: string[] }> {
+  try {
+    return await sendTripRequest('', 'POST', token, trip);
+  } catch (error) {
+    console.error('Error creating trip:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a trip's title, description, cover image or dates
+ */
+export async function updateTrip(tripId: string, updates: TripSaveRequest, token: string): Promise<{ trip: Trip }> {
+  try {
+    return await sendTripRequest(`/${tripId}`, 'PATCH', token, updates);
+  } catch (error) {
+    console.error('Error updating trip:', error);
+    throw error;
+  }
+}
+
+/**
+ * Replace a trip's parts with the given posts, in order
+ */
+export async function setTripPosts(
+  tripId: string,
+  postIds: string[],
+  token: string
+): Promise<{ tripId: string; postIds: string[] }> {
+  try {
+    return await sendTripRequest(`/${tripId}/posts`, 'PUT', token, { postIds });
+  } catch (error) {
+    console.error('Error updating trip posts:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a trip (its posts are kept)
+ */
+export async function deleteTrip(tripId: string, token: string): Promise<void> {
+  try {
+    await sendTripRequest(`/${tripId}`, 'DELETE', token);
+  } catch (error) {
+    console.error('Error deleting trip:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch posts in the trash, most recently deleted first
+ */
+export async function fetchTrash(token: string): Promise<TrashListResponse> {
+  try {
+    const response = await fetchWithRefresh(`${POSTS_API_URL}/api/posts/trash?limit=100`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      cache: 'no-store',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to fetch trash: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    throw error;
+  }
+}
+
+/**
+ * Take a post back out of the trash
+ */
+export async function restorePost(postId: string, token: string): Promise<RestorePostResponse> {
+  try {
+    const response = await fetchWithRefresh(`${POSTS_API_URL}/api/posts/${postId}/restore`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to restore post: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error restoring post:', error);
+    throw error;
+  }
+}
+
+/**
+ * Start a new draft from an existing post
+ * With includeMedia the copy shares the original's photos and videos
+ */
+export async function duplicatePost(
+  postId: string,
+  options: { title?: string; includeMedia?: boolean },
+  token: string
+): Promise<{ postId: string; slug: string; title: string }> {
+  try {
+    const response = await fetchWithRefresh(`${POSTS_API_URL}/api/posts/${postId}/duplicate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(options),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to duplicate post: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error duplicating post:', error);
+    throw error;
+  }
+}
+
+/**
+ * Apply one action to many posts (requires authentication)
+ * Posts that could not be changed are listed in the results rather than failing the request
+ */
+export async function bulkUpdatePosts(
+  request: BulkActionRequest,
+  token: string
+): Promise<BulkActionResponse> {
+  try {
+    const response = await fetchWithRefresh(`${POSTS_API_URL}/api/posts/bulk`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(request),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.message || `Failed to apply bulk action: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error applying bulk action:', error);
+    throw error;
+  }
+}
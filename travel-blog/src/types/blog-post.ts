@@ -7,8 +7,9 @@
 
 import type { PhotoContent, VideoContent, TextContent } from './media-content';
 import type { DesignTemplateMetadata } from './design-template';
+import type { PostTaxonomy } from './post-taxonomy';
 
-export type PostStatus = 'draft' | 'published';
+export type PostStatus = 'draft' | 'published' | 'scheduled';
 
 export interface BlogPost {
   id: string;
@@ -20,9 +21,12 @@ export interface BlogPost {
   createdAt: string; // ISO 8601
   updatedAt: string; // ISO 8601
   publishedAt?: string; // ISO 8601
+  scheduledFor?: string; // ISO 8601, set while status is 'scheduled'
   version: number; // Optimistic concurrency version
 }
 
+export interface BlogPostWithTaxonomy extends BlogPost, PostTaxonomy {}
+
 export interface BlogPostWithContent extends BlogPost {
   photos: PhotoContent[];
   videos: VideoContent[];
@@ -41,6 +45,7 @@ export interface BlogPostUpdateRequest {
   title?: string;
   slug?: string;
   status?: PostStatus;
+  scheduledFor?: string; // Required when status is 'scheduled'
   version?: number; // Optional for last-save-wins
 }
 
@@ -34,6 +34,7 @@ export interface DesignTemplateMetadata {
 export interface TemplateChangeRequest {
   newTemplateId: string;
   reason?: string;
+  dryRun?: boolean; // Only report contentPreservation, don't switch
 }
 
 export interface TemplateChangeResponse {
@@ -78,7 +79,7 @@ export interface TemplateHistoryResponse {
 }
 
 export interface TemplatePreviewRequest {
-  templateId: string;
+  templateId?: string; // Defaults to the post's current template
 }
 
 export interface TemplatePreviewResponse {
@@ -86,6 +87,8 @@ export interface TemplatePreviewResponse {
   templateId: string;
   templateName: string;
   previewUrl: string; // Temporary URL (expires in 1 hour)
+  previewToken: string;
+  expiresAt: string;
   contentSummary: {
     photosCount: number;
     videosCount: number;
@@ -1,19 +1,28 @@
 /**
  * Pagination Types
- * Feature: 005-public-blog-viewing
+ * Feature: 005-public-blog-viewing, post-list-pagination
  */
 
+export type PostSortField = 'published_at' | 'created_at' | 'updated_at' | 'title';
+
+export type SortDirection = 'asc' | 'desc';
+
 export interface PaginationInfo {
-  total: number;
+  total?: number; // Unknown on cursor pages
   limit: number;
-  offset: number;
+  offset?: number;
   hasMore: boolean;
   currentPage: number;
-  totalPages: number;
+  totalPages?: number; // Unknown on cursor pages
+  nextCursor?: string | null; // Set for cursor-paged lists
+  prevCursor?: string | null;
 }
 
 export interface PaginationParams {
   limit?: number;
   offset?: number;
   page?: number;
+  cursor?: string; // Opaque token from nextCursor or prevCursor; replaces offset
+  sort?: PostSortField;
+  direction?: SortDirection;
 }
@@ -0,0 +1,41 @@
+/**
+ * Post Archive Types
+ * Feature: post-archive
+ *
+ * Counts of published posts by year, month and country (GET /api/posts/archive)
+ */
+
+export interface ArchivePeriod {
+  year: number;
+  month: number | null; // 1–12, or null for the whole year
+}
+
+export interface ArchiveMonth {
+  month: number; // 1–12
+  count: number;
+}
+
+export interface ArchiveYear {
+  year: number;
+  count: number;
+  months: ArchiveMonth[]; // Newest first, only months with posts
+}
+
+export interface ArchiveCountry {
+  countryCode: string;
+  count: number;
+}
+
+export interface PostArchive {
+  countryCode: string | null; // Country the years are limited to, if any
+  total: number;
+  years: ArchiveYear[]; // Newest first
+  countries: ArchiveCountry[]; // Most posts first, across all years
+}
+
+// Where the reader is in /blog/archive
+export interface ArchiveSelection {
+  year: number | null;
+  month: number | null; // Only with a year
+  country: string | null;
+}
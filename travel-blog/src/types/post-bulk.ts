@@ -0,0 +1,29 @@
+/**
+ * Bulk Post Action Types
+ * Feature: post-bulk-actions
+ *
+ * One action applied to many posts from the manage page, with a result per post
+ */
+
+export type BulkAction = 'publish' | 'unpublish' | 'change-template' | 'add-tags' | 'delete';
+
+export interface BulkActionRequest {
+  action: BulkAction;
+  postIds: string[];
+  templateId?: string; // Required for change-template
+  tags?: string[]; // Required for add-tags
+}
+
+export interface BulkItemResult {
+  postId: string;
+  ok: boolean;
+  version?: number;
+  error?: string; // Why the post was skipped
+}
+
+export interface BulkActionResponse {
+  action: BulkAction;
+  results: BulkItemResult[];
+  succeeded: number;
+  failed: number;
+}
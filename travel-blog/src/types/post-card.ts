@@ -5,6 +5,9 @@
  * Types for displaying blog post previews in lists
  */
 
+import type { PostFacets, PostTag } from './post-taxonomy';
+import type { PostSortField, SortDirection } from './pagination';
+
 export interface PostCardData {
   id: string;
   slug: string;
@@ -18,10 +21,59 @@ export interface PostCardData {
   createdAt: string;
   photoCount: number;
   videoCount: number;
+  countryCode?: string | null;
+  destination?: string | null;
+  tags?: PostTag[];
+  companions?: string[];
+}
+
+// A post card with how related it is to the post being read
+export interface RelatedPostCardData extends PostCardData {
+  score: number;
+}
+
+export interface RelatedPostsData {
+  postId: string;
+  posts: RelatedPostCardData[]; // Best first
 }
 
 export interface PostListData {
   posts: PostCardData[];
+  pagination: {
+    total?: number; // Only counted for offset pages, not cursor pages
+    limit: number;
+    offset?: number;
+    hasMore: boolean;
+    hasPrevious: boolean;
+    nextCursor: string | null;
+    prevCursor: string | null;
+    sort: PostSortField;
+    direction: SortDirection;
+  };
+  facets?: PostFacets; // Present when requested with facets=true
+}
+
+export interface PostSearchResult {
+  id: string;
+  slug: string;
+  title: string;
+  titleHighlight: string; // Title with match markers
+  description: string | null;
+  coverImage: string | null;
+  status: string;
+  publishedAt: string | null;
+  createdAt: string;
+  snippet: string; // Body excerpt with match markers
+  rank: number;
+}
+
+export interface PostSearchData {
+  query: string;
+  results: PostSearchResult[];
+  highlight: {
+    start: string; // Marker before a matched term
+    end: string; // Marker after a matched term
+  };
   pagination: {
     total: number;
     limit: number;
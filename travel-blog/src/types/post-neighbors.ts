@@ -0,0 +1,28 @@
+/**
+ * Post Neighbor Types
+ * Feature: post-neighbors
+ *
+ * The published posts just before and after a post by publish date
+ */
+
+export type NeighborScope =
+  | { by: 'all' }
+  | { by: 'country' } // The post's own country
+  | { by: 'tag'; tag: string }; // Tag slug
+
+export interface PostNeighbor {
+  id: string;
+  slug: string;
+  title: string;
+  publishedAt: string;
+}
+
+export interface PostNeighbors {
+  previous: PostNeighbor | null; // Published before the post
+  next: PostNeighbor | null; // Published after the post
+}
+
+export interface PostNeighborsResponse extends PostNeighbors {
+  postId: string;
+  scope: NeighborScope;
+}
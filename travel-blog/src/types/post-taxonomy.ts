@@ -0,0 +1,60 @@
+/**
+ * Post Taxonomy Types
+ * Feature: post-taxonomy
+ *
+ * Country, destination, tags and travel companions for blog posts,
+ * and the facet counts returned by GET /api/posts?facets=true
+ */
+
+// Must match COMPANIONS in workers/lib/post-taxonomy.ts
+export const COMPANIONS = ['solo', 'spouse', 'kids', 'parents', 'grandparents', 'friends', 'pets'] as const;
+
+export type Companion = typeof COMPANIONS[number];
+
+export const COMPANION_LABELS: Record<Companion, string> = {
+  solo: 'Solo',
+  spouse: 'Spouse',
+  kids: 'Kids',
+  parents: 'Parents',
+  grandparents: 'Grandparents',
+  friends: 'Friends',
+  pets: 'Pets',
+};
+
+export interface PostTag {
+  slug: string;
+  name: string;
+}
+
+export interface PostTaxonomy {
+  countryCode: string | null; // ISO 3166-1 alpha-2
+  destination: string | null;
+  tags: PostTag[];
+  companions: Companion[];
+}
+
+export interface PostTaxonomyUpdateRequest {
+  countryCode?: string | null;
+  destination?: string | null;
+  tags?: string[] | null; // Tag names, created on first use
+  companions?: Companion[] | null;
+  version?: number;
+}
+
+export interface FacetCount {
+  value: string; // Country code, tag slug or companion
+  label: string;
+  count: number;
+}
+
+export interface PostFacets {
+  countries: FacetCount[];
+  tags: FacetCount[];
+  companions: FacetCount[];
+}
+
+export interface PostFilters {
+  country: string | null;
+  tags: string[]; // Tag slugs
+  companions: string[];
+}
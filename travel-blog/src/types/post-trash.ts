@@ -0,0 +1,40 @@
+/**
+ * Post Trash Types
+ * Feature: post-trash
+ *
+ * Deleted posts stay in the trash, restorable, until they are purged
+ */
+
+export interface TrashedPost {
+  id: string;
+  slug: string;
+  title: string;
+  authorId: string;
+  status: string; // Status before it was deleted
+  deletedAt: string;
+  deletedBy: string | null;
+  purgeAfter: string; // When the post and its media are deleted for good
+  photoCount: number;
+  videoCount: number;
+}
+
+export interface TrashListResponse {
+  posts: TrashedPost[];
+  retentionDays: number;
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+}
+
+export interface RestorePostResponse {
+  message: string;
+  post: {
+    id: string;
+    slug: string;
+    title: string;
+    status: string;
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * Session Types
+ * Feature: sessions
+ *
+ * The signed-in user's devices (GET /api/auth/sessions)
+ */
+
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string; // When the device signed in
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean; // The device making the request
+}
+
+export interface SessionListResponse {
+  sessions: ActiveSession[];
+}
+
+export interface RevokeSessionResponse {
+  success: true;
+  sessionId: string;
+  current: boolean; // This device was signed out
+}
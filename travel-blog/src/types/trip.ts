@@ -0,0 +1,71 @@
+/**
+ * Trip Types
+ * Feature: trips
+ *
+ * A trip groups the posts of one longer journey into an ordered series
+ */
+
+export interface Trip {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  coverImage: string | null;
+  startDate: string | null; // YYYY-MM-DD
+  endDate: string | null; // YYYY-MM-DD
+  authorId: string;
+  partCount: number; // Parts visible to the viewer
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TripPart {
+  part: number; // 1-based
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  coverImage: string | null;
+  status: string;
+  publishedAt: string | null;
+}
+
+export interface TripPartLink {
+  id: string;
+  slug: string;
+  title: string;
+}
+
+// Attached to a post that belongs to a trip
+export interface TripNavigation {
+  tripId: string;
+  tripSlug: string;
+  tripTitle: string;
+  part: number;
+  totalParts: number;
+  previous: TripPartLink | null;
+  next: TripPartLink | null;
+}
+
+export interface TripDetailResponse {
+  trip: Trip;
+  parts: TripPart[];
+}
+
+export interface TripListResponse {
+  trips: Trip[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+}
+
+export interface TripSaveRequest {
+  title?: string;
+  description?: string | null;
+  coverImage?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+}
@@ -0,0 +1,39 @@
+/**
+ * User Management Types
+ * Feature: user-management
+ */
+
+export type UserRole = 'reader' | 'contributor';
+
+export interface ManagedUser {
+  id: number;
+  username: string;
+  role: UserRole;
+  displayName: string | null;
+  email: string | null; // Where password reset links are sent
+  createdAt: string;
+  updatedAt: string;
+  disabledAt: string | null; // Set while the account is disabled
+}
+
+export interface CreateUserRequest {
+  username: string;
+  password: string;
+  role?: UserRole; // Default: reader
+  displayName?: string | null;
+  email?: string | null;
+}
+
+export interface UpdateUserRequest {
+  displayName?: string | null; // Empty or null clears the name
+  email?: string | null; // Empty or null clears the email
+  role?: UserRole;
+}
+
+export interface UserListResponse {
+  users: ManagedUser[];
+}
+
+export interface UserResponse {
+  user: ManagedUser;
+}
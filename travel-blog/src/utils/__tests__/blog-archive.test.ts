@@ -0,0 +1,36 @@
+import { getArchiveUrl, getMonthName, parseArchiveSelection } from '@/utils/blog-archive';
+
+describe('parseArchiveSelection', () => {
+  it('should read year, month and country', () => {
+    expect(parseArchiveSelection(new URLSearchParams('country=it&year=2024&month=5'))).toEqual({
+      year: 2024,
+      month: 5,
+      country: 'IT',
+    });
+  });
+
+  it('should ignore a month without a year and values out of range', () => {
+    expect(parseArchiveSelection(new URLSearchParams('month=5'))).toEqual({ year: null, month: null, country: null });
+    expect(parseArchiveSelection(new URLSearchParams('year=2024&month=13')).month).toBeNull();
+    expect(parseArchiveSelection(new URLSearchParams('year=abc')).year).toBeNull();
+  });
+});
+
+describe('getArchiveUrl', () => {
+  it('should build drill-down URLs', () => {
+    expect(getArchiveUrl()).toBe('/blog/archive');
+    expect(getArchiveUrl({ year: 2024 })).toBe('/blog/archive?year=2024');
+    expect(getArchiveUrl({ country: 'IT', year: 2024, month: 5 })).toBe('/blog/archive?country=IT&year=2024&month=5');
+  });
+
+  it('should drop a month without a year', () => {
+    expect(getArchiveUrl({ month: 5 })).toBe('/blog/archive');
+  });
+});
+
+describe('getMonthName', () => {
+  it('should name months', () => {
+    expect(getMonthName(1)).toBe('January');
+    expect(getMonthName(12)).toBe('December');
+  });
+});
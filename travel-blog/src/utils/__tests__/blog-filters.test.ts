@@ -0,0 +1,69 @@
+import {
+  getCountryName,
+  parsePostFilters,
+  hasPostFilters,
+  togglePostFilter,
+  getFilteredBlogUrl,
+} from '@/utils/blog-filters';
+import type { PostFilters } from '@/types/post-taxonomy';
+
+const noFilters: PostFilters = { country: null, tags: [], companions: [] };
+
+describe('parsePostFilters', () => {
+  it('should read country, tags and companions', () => {
+    const params = new URLSearchParams('country=it&tag=food&tag=beaches&with=grandparents');
+    expect(parsePostFilters(params)).toEqual({
+      country: 'IT',
+      tags: ['food', 'beaches'],
+      companions: ['grandparents'],
+    });
+  });
+
+  it('should return empty filters for a plain URL', () => {
+    expect(parsePostFilters(new URLSearchParams(''))).toEqual(noFilters);
+  });
+});
+
+describe('togglePostFilter', () => {
+  it('should switch between countries', () => {
+    const italy = togglePostFilter(noFilters, 'country', 'IT');
+    expect(italy.country).toBe('IT');
+    expect(togglePostFilter(italy, 'country', 'FR').country).toBe('FR');
+    expect(togglePostFilter(italy, 'country', 'IT').country).toBeNull();
+  });
+
+  it('should add and remove tags and companions', () => {
+    const withKids = togglePostFilter(noFilters, 'companions', 'kids');
+    const withBoth = togglePostFilter(withKids, 'companions', 'grandparents');
+    expect(withBoth.companions).toEqual(['kids', 'grandparents']);
+    expect(togglePostFilter(withBoth, 'companions', 'kids').companions).toEqual(['grandparents']);
+  });
+});
+
+describe('hasPostFilters', () => {
+  it('should detect active filters', () => {
+    expect(hasPostFilters(noFilters)).toBe(false);
+    expect(hasPostFilters({ ...noFilters, tags: ['food'] })).toBe(true);
+  });
+});
+
+describe('getFilteredBlogUrl', () => {
+  it('should build a /blog URL from filters', () => {
+    expect(getFilteredBlogUrl({ country: 'IT', tags: ['food'], companions: ['grandparents'] }))
+      .toBe('/blog?country=IT&tag=food&with=grandparents');
+  });
+
+  it('should return /blog without filters', () => {
+    expect(getFilteredBlogUrl(noFilters)).toBe('/blog');
+  });
+});
+
+describe('getCountryName', () => {
+  it('should return the English country name', () => {
+    expect(getCountryName('IT')).toBe('Italy');
+  });
+
+  it('should fall back to the code when unknown', () => {
+    expect(getCountryName('??')).toBe('??');
+  });
+});
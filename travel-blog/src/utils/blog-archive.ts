@@ -0,0 +1,48 @@
+/**
+ * Blog Archive Utilities
+ * Feature: post-archive
+ *
+ * Read and build /blog/archive URLs, which drill down from years to months
+ * to posts, optionally within one country
+ * (e.g. /blog/archive?country=IT&year=2024&month=5)
+ */
+
+import type { ArchiveSelection } from '@/types/post-archive';
+
+/**
+ * Read the archive selection from /blog/archive search params
+ * Values that are out of range are ignored, as is a month without a year
+ */
+export function parseArchiveSelection(searchParams: { get(name: string): string | null }): ArchiveSelection {
+  const year = Number(searchParams.get('year'));
+  const month = Number(searchParams.get('month'));
+  const validYear = Number.isInteger(year) && year >= 1900 && year <= 9999 ? year : null;
+
+  return {
+    year: validYear,
+    month: validYear !== null && Number.isInteger(month) && month >= 1 && month <= 12 ? month : null,
+    country: searchParams.get('country')?.toUpperCase() || null,
+  };
+}
+
+/**
+ * Build the /blog/archive URL for a selection (always back on page 1)
+ */
+export function getArchiveUrl(selection: Partial<ArchiveSelection> = {}): string {
+  const params = new URLSearchParams();
+  if (selection.country) params.set('country', selection.country);
+  if (selection.year) {
+    params.set('year', selection.year.toString());
+    if (selection.month) params.set('month', selection.month.toString());
+  }
+
+  const queryString = params.toString();
+  return queryString ? `/blog/archive?${queryString}` : '/blog/archive';
+}
+
+/**
+ * English name of a month (1–12)
+ */
+export function getMonthName(month: number): string {
+  return new Date(Date.UTC(2000, month - 1, 1)).toLocaleString('en-US', { month: 'long', timeZone: 'UTC' });
+}
@@ -0,0 +1,69 @@
+/**
+ * Blog Filter Utilities
+ * Feature: post-taxonomy
+ *
+ * Read and build /blog URLs with country, tag and companion filters
+ * (e.g. /blog?country=IT&with=grandparents)
+ */
+
+import type { PostFilters } from '@/types/post-taxonomy';
+
+type FilterFacet = 'country' | 'tags' | 'companions';
+
+/**
+ * Display name for an ISO 3166-1 alpha-2 country code (falls back to the code)
+ */
+export function getCountryName(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'region' }).of(code.toUpperCase()) || code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Read taxonomy filters from /blog search params
+ */
+export function parsePostFilters(searchParams: { get(name: string): string | null; getAll(name: string): string[] }): PostFilters {
+  return {
+    country: searchParams.get('country')?.toUpperCase() || null,
+    tags: searchParams.getAll('tag'),
+    companions: searchParams.getAll('with'),
+  };
+}
+
+/**
+ * Whether any taxonomy filter is active
+ */
+export function hasPostFilters(filters: PostFilters): boolean {
+  return Boolean(filters.country) || filters.tags.length > 0 || filters.companions.length > 0;
+}
+
+/**
+ * Select or deselect one facet value
+ * Only one country can be selected; tags and companions combine
+ */
+export function togglePostFilter(filters: PostFilters, facet: FilterFacet, value: string): PostFilters {
+  if (facet === 'country') {
+    return { ...filters, country: filters.country === value ? null : value };
+  }
+
+  const values = filters[facet];
+  return {
+    ...filters,
+    [facet]: values.includes(value) ? values.filter(v => v !== value) : [...values, value],
+  };
+}
+
+/**
+ * Build the /blog URL for a set of filters (always back on page 1)
+ */
+export function getFilteredBlogUrl(filters: PostFilters): string {
+  const params = new URLSearchParams();
+  if (filters.country) params.set('country', filters.country);
+  filters.tags.forEach(tag => params.append('tag', tag));
+  filters.companions.forEach(companion => params.append('with', companion));
+
+  const queryString = params.toString();
+  return queryString ? `/blog?${queryString}` : '/blog';
+}
@@ -12,6 +12,13 @@ export function getPostUrl(slug: string): string {
   return `/blog?slug=${encodeURIComponent(slug)}`;
 }
 
+/**
+ * Generate trip landing page URL from slug
+ */
+export function getTripUrl(slug: string): string {
+  return `/blog?trip=${encodeURIComponent(slug)}`;
+}
+
 /**
  * Extract slug from post URL path
  */
@@ -0,0 +1,50 @@
+/**
+ * User Agent Utilities
+ * Feature: sessions
+ *
+ * Turn a session's User-Agent header into a short device description for the
+ * "Your devices" page (e.g. "Chrome on macOS")
+ */
+
+// Order matters: Edge and Opera also claim to be Chrome, Chrome also claims to be Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+// Order matters: iOS and Android user agents also mention Mac OS X and Linux
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+function match(userAgent: string, patterns: [RegExp, string][]): string | null {
+  const found = patterns.find(([pattern]) => pattern.test(userAgent));
+  return found ? found[1] : null;
+}
+
+/**
+ * Describe the browser and operating system of a user agent
+ * Falls back to "Unknown device" when neither is recognised
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = match(userAgent, BROWSERS);
+  const system = match(userAgent, SYSTEMS);
+
+  if (browser && system) {
+    return `${browser} on ${system}`;
+  }
+  return browser || system || 'Unknown device';
+}
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for change password endpoint
+ */
+
+import { changePassword } from '../../workers/auth/change-password';
+import { generateToken } from '../../workers/lib/jwt';
+import { verifySessionToken } from '../../workers/lib/sessions';
+
+const JWT_SECRET = 'test-jwt-secret';
+const HOUR = 60 * 60 * 1000;
+
+function session(id: string) {
+  return {
+    id,
+    userId: 1,
+    createdAt: new Date(Date.now() - HOUR).toISOString(),
+    lastSeenAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 23 * HOUR).toISOString(),
+    revokedAt: null as string | null,
+    userAgent: null,
+    ipAddress: null,
+  };
+}
+
+// In-memory users and sessions tables, answering the queries the handler makes
+function mockDB() {
+  const sessions = new Map<string, any>([
+    ['this-device', session('this-device')],
+    ['other-device', session('other-device')],
+  ]);
+  const user = {
+    id: 1,
+    username: 'testuser',
+    passwordHash: '$2b$10$3uY2msEgvhygThAlzDzMBetHrD7GSffYj.W8WZ3I9VVlTmepwdPoi', // testpassword123
+    role: 'reader',
+    displayName: 'Test User',
+    disabledAt: null,
+  };
+
+  const statement = (query: string, args: any[]) => ({
+    run: async () => {
+      if (query.startsWith('UPDATE users SET password_hash')) {
+        user.passwordHash = args[0];
+      }
+      if (query.startsWith('UPDATE sessions SET revoked_at')) {
+        sessions.forEach(s => {
+          if (s.userId === args[1] && !s.revokedAt) s.revokedAt = args[0];
+        });
+      }
+      if (query.startsWith('INSERT INTO sessions')) {
+        sessions.set(args[0], { ...session(args[0]), expiresAt: args[4] });
+      }
+      return { success: true };
+    },
+    first: async () => {
+      if (query.includes('FROM sessions WHERE id = ?')) {
+        return sessions.get(args[0]) || null;
+      }
+      if (query.includes('FROM users WHERE LOWER(username) = ?')) {
+        return args[0] === user.username ? user : null;
+      }
+      return null;
+    },
+  });
+
+  return {
+    sessions,
+    user,
+    prepare: (query: string) => ({
+      bind: (...args: any[]) => statement(query, args),
+    }),
+    batch: async (statements: any[]) => Promise.all(statements.map(s => s.run())),
+  };
+}
+
+function changePasswordRequest(body: any): Request {
+  const token = generateToken('testuser', 'reader', false, JWT_SECRET, 'this-device');
+  return new Request('http://localhost/api/auth/change-password', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Cookie: `session=${token}` },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('POST /api/auth/change-password', () => {
+  it('should sign out other devices and keep this one signed in', async () => {
+    const db = mockDB();
+    const env = { JWT_SECRET, DB: db, NODE_ENV: 'test' };
+
+    const response = await changePassword(
+      changePasswordRequest({ currentPassword: 'testpassword123', newPassword: 'newpassword123' }),
+      env,
+      {}
+    );
+
+    expect(response.status).toBe(200);
+    expect(db.user.passwordHash).not.toBe('$2b$10$3uY2msEgvhygThAlzDzMBetHrD7GSffYj.W8WZ3I9VVlTmepwdPoi');
+    expect(db.sessions.get('other-device').revokedAt).not.toBeNull();
+
+    // This device continues with the token returned in the body and cookie
+    const data = await response.json();
+    const verification = await verifySessionToken(data.token, JWT_SECRET, db);
+    expect(verification.valid).toBe(true);
+    expect(verification.payload?.sub).toBe('testuser');
+
+    const setCookie = response.headers.get('Set-Cookie');
+    expect(setCookie).toContain(`session=${data.token}`);
+    expect(setCookie).toContain('refresh_token=');
+  });
+
+  it('should reject a wrong current password without signing anyone out', async () => {
+    const db = mockDB();
+    const env = { JWT_SECRET, DB: db, NODE_ENV: 'test' };
+
+    await expect(changePassword(
+      changePasswordRequest({ currentPassword: 'wrongpassword', newPassword: 'newpassword123' }),
+      env,
+      {}
+    )).rejects.toMatchObject({ statusCode: 400 });
+
+    expect(db.sessions.get('this-device').revokedAt).toBeNull();
+    expect(db.sessions.get('other-device').revokedAt).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for edge caching of public post reads
+ */
+
+import {
+  cacheKeyUrl,
+  etagMatches,
+  hasCredentials,
+  purgePostCache,
+  withEdgeCache,
+  PRIVATE_CACHE_CONTROL,
+  PUBLIC_CACHE_CONTROL
+} from '../../workers/lib/edge-cache';
+
+// Enough of the Cache API for the tests: entries keyed by URL
+class MemoryCache {
+  entries = new Map<string, Response>();
+
+  async match(request: Request): Promise<Response | undefined> {
+    return this.entries.get(request.url)?.clone();
+  }
+
+  async put(request: Request, response: Response): Promise<void> {
+    this.entries.set(request.url, response.clone());
+  }
+}
+
+function jsonResponse(data: unknown): Response {
+  return new Response(JSON.stringify(data), { headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('hasCredentials', () => {
+  it('should spot bearer tokens and session cookies', () => {
+    expect(hasCredentials(new Request('https://x/api/posts', { headers: { Authorization: 'Bearer t' } }))).toBe(true);
+    expect(hasCredentials(new Request('https://x/api/posts', { headers: { Cookie: 'theme=dark; session=abc' } }))).toBe(true);
+    expect(hasCredentials(new Request('https://x/api/posts', { headers: { Cookie: 'theme=dark' } }))).toBe(false);
+  });
+});
+
+describe('cacheKeyUrl', () => {
+  it('should ignore query parameter order and include the generation', () => {
+    const a = cacheKeyUrl('https://api.example.com/api/posts?tag=food&limit=10', 'g1');
+    const b = cacheKeyUrl('https://api.example.com/api/posts?limit=10&tag=food', 'g1');
+
+    expect(a).toBe(b);
+    expect(a).toContain('/api/posts?limit=10&tag=food&_g=g1');
+    expect(cacheKeyUrl('https://api.example.com/api/posts', 'g2')).not.toBe(cacheKeyUrl('https://api.example.com/api/posts', 'g1'));
+  });
+});
+
+describe('etagMatches', () => {
+  it('should match listed and weak ETags', () => {
+    expect(etagMatches('"a", "b"', '"b"')).toBe(true);
+    expect(etagMatches('W/"b"', '"b"')).toBe(true);
+    expect(etagMatches('*', '"b"')).toBe(true);
+    expect(etagMatches('"a"', '"b"')).toBe(false);
+    expect(etagMatches(null, '"b"')).toBe(false);
+  });
+});
+
+describe('withEdgeCache', () => {
+  let cache: MemoryCache;
+  let handler: jest.Mock;
+  let cached: (request: Request, env: any, ctx: any) => Promise<Response>;
+
+  beforeEach(() => {
+    cache = new MemoryCache();
+    (globalThis as any).caches = { default: cache };
+    handler = jest.fn(async () => jsonResponse({ posts: ['rome'] }));
+    cached = withEdgeCache(() => 'posts', handler);
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).caches;
+  });
+
+  it('should serve repeat anonymous reads from the cache', async () => {
+    const first = await cached(new Request('https://x/api/posts'), {}, undefined);
+    const second = await cached(new Request('https://x/api/posts'), {}, undefined);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(first.headers.get('Cache-Control')).toBe(PUBLIC_CACHE_CONTROL);
+    expect(second.headers.get('ETag')).toBe(first.headers.get('ETag'));
+    expect(await second.json()).toEqual({ posts: ['rome'] });
+  });
+
+  it('should answer a matching If-None-Match with 304', async () => {
+    const first = await cached(new Request('https://x/api/posts'), {}, undefined);
+    const etag = first.headers.get('ETag')!;
+
+    const revalidated = await cached(new Request('https://x/api/posts', { headers: { 'If-None-Match': etag } }), {}, undefined);
+
+    expect(revalidated.status).toBe(304);
+    expect(revalidated.headers.get('ETag')).toBe(etag);
+  });
+
+  it('should never cache signed-in requests', async () => {
+    const request = () => new Request('https://x/api/posts', { headers: { Authorization: 'Bearer t' } });
+
+    const response = await cached(request(), {}, undefined);
+    await cached(request(), {}, undefined);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(response.headers.get('Cache-Control')).toBe(PRIVATE_CACHE_CONTROL);
+  });
+
+  it('should not store error responses', async () => {
+    handler.mockImplementation(async () => new Response('{}', { status: 404 }));
+
+    await cached(new Request('https://x/api/posts/slug/gone'), {}, undefined);
+    await cached(new Request('https://x/api/posts/slug/gone'), {}, undefined);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should miss after a write purges the lists', async () => {
+    const db = { query: jest.fn(async () => [{ slug: 'rome' }]) } as any;
+
+    await cached(new Request('https://x/api/posts'), {}, undefined);
+    await purgePostCache(db, ['post-1']);
+    await cached(new Request('https://x/api/posts'), {}, undefined);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(db.query.mock.calls[0][1]).toEqual(['post-1', 'post-1']);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for asymmetric session token signing and key rotation
+ */
+
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { generateToken, verifyTokenDetailed } from '../../workers/lib/jwt';
+import { getJwks, getJwtKeys } from '../../workers/lib/jwt-keys';
+
+function keyPair(kid: string) {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return {
+    privatePem: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' },
+  };
+}
+
+const oldKey = keyPair('key-2026-01');
+const newKey = keyPair('key-2026-10');
+
+// Auth worker after a rotation: signs with the new key, still accepts the old one
+const authKeys = getJwtKeys({
+  JWT_PRIVATE_KEY: newKey.privatePem,
+  JWT_KEY_ID: 'key-2026-10',
+  JWT_PUBLIC_KEYS: JSON.stringify({ keys: [oldKey.jwk, newKey.jwk] }),
+})!;
+
+// Posts worker: public keys only
+const postsKeys = getJwtKeys({
+  JWT_SECRET: 'preview-link-secret',
+  JWT_PUBLIC_KEYS: JSON.stringify({ keys: [oldKey.jwk, newKey.jwk] }),
+})!;
+
+describe('RS256 session tokens', () => {
+  it('should sign with the current key and name it in the kid header', () => {
+    const token = generateToken('testuser', 'contributor', false, authKeys, 'session-1');
+    const header = jwt.decode(token, { complete: true })!.header;
+
+    expect(header.alg).toBe('RS256');
+    expect(header.kid).toBe('key-2026-10');
+
+    const result = verifyTokenDetailed(token, postsKeys);
+    expect(result.valid).toBe(true);
+    expect(result.payload?.jti).toBe('session-1');
+  });
+
+  it('should keep accepting tokens signed with a key being rotated out', () => {
+    const oldSigner = getJwtKeys({ JWT_PRIVATE_KEY: oldKey.privatePem, JWT_KEY_ID: 'key-2026-01' })!;
+    const token = generateToken('testuser', 'reader', false, oldSigner);
+
+    expect(verifyTokenDetailed(token, postsKeys).valid).toBe(true);
+
+    const afterRotation = getJwtKeys({ JWT_PUBLIC_KEYS: JSON.stringify({ keys: [newKey.jwk] }) })!;
+    expect(verifyTokenDetailed(token, afterRotation)).toEqual({ valid: false, error: 'INVALID' });
+  });
+
+  it('should not let workers with public keys only sign tokens', () => {
+    expect(() => generateToken('testuser', 'contributor', false, postsKeys)).toThrow('No JWT signing key configured');
+  });
+
+  it('should reject HS256 tokens once key pairs are configured', () => {
+    // A worker that still holds JWT_SECRET must not be able to mint session tokens
+    const forged = generateToken('intruder', 'contributor', false, 'preview-link-secret');
+    expect(verifyTokenDetailed(forged, postsKeys)).toEqual({ valid: false, error: 'INVALID' });
+
+    const withKid = jwt.sign(
+      { sub: 'intruder', role: 'contributor', rememberMe: false },
+      'preview-link-secret',
+      { algorithm: 'HS256', keyid: 'key-2026-10', expiresIn: 60 }
+    );
+    expect(verifyTokenDetailed(withKid, postsKeys)).toEqual({ valid: false, error: 'INVALID' });
+  });
+
+  it('should fall back to JWT_SECRET without key pairs', () => {
+    expect(getJwtKeys({ JWT_SECRET: 'shared-secret' })).toBe('shared-secret');
+    expect(getJwtKeys({})).toBeNull();
+  });
+});
+
+describe('getJwks', () => {
+  it('should publish every public key and nothing private', () => {
+    const jwks = getJwks(authKeys);
+
+    expect(jwks.keys.map(key => key.kid).sort()).toEqual(['key-2026-01', 'key-2026-10']);
+    jwks.keys.forEach(key => {
+      expect(key).toMatchObject({ kty: 'RSA', alg: 'RS256', use: 'sig' });
+      expect(key).not.toHaveProperty('d');
+    });
+  });
+
+  it('should be empty while tokens are signed with a shared secret', () => {
+    expect(getJwks('shared-secret')).toEqual({ keys: [] });
+  });
+});
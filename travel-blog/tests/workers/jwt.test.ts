@@ -38,29 +38,29 @@ describe('JWT Utilities', () => {
       expect(payload?.exp).toBeDefined();
     });
     
-    it('should set 7-day expiry for remember me', () => {
+    it('should set 15-minute expiry with remember me', () => {
       const token = generateToken(testUsername, testRole, true, testSecret);
       const payload = verifyToken(token, testSecret);
       
       expect(payload).not.toBeNull();
       if (payload) {
         const duration = payload.exp - payload.iat;
-        const sevenDays = 7 * 24 * 60 * 60;
+        const fifteenMinutes = 15 * 60;
         
-        expect(duration).toBe(sevenDays);
+        expect(duration).toBe(fifteenMinutes);
       }
     });
     
-    it('should set 24-hour expiry without remember me', () => {
+    it('should set 15-minute expiry without remember me', () => {
       const token = generateToken(testUsername, testRole, false, testSecret);
       const payload = verifyToken(token, testSecret);
       
       expect(payload).not.toBeNull();
       if (payload) {
         const duration = payload.exp - payload.iat;
-        const twentyFourHours = 24 * 60 * 60;
+        const fifteenMinutes = 15 * 60;
         
-        expect(duration).toBe(twentyFourHours);
+        expect(duration).toBe(fifteenMinutes);
       }
     });
   });
@@ -7,6 +7,7 @@ import { handleLogin } from '../../workers/auth/login';
 
 // Mock D1 database
 const mockDB = {
+  batch: async () => [], // Session registration
   prepare: (query: string) => ({
     bind: (...args: any[]) => ({
       first: async () => {
@@ -33,10 +34,22 @@ const mockDB = {
               createdAt: '2025-11-13T00:00:00Z',
             };
           }
+          if (username === 'disableduser') {
+            return {
+              id: 3,
+              username: 'disableduser',
+              passwordHash: '$2b$10$3uY2msEgvhygThAlzDzMBetHrD7GSffYj.W8WZ3I9VVlTmepwdPoi',
+              role: 'reader',
+              displayName: 'Disabled User',
+              createdAt: '2025-11-13T00:00:00Z',
+              disabledAt: '2026-01-01 00:00:00',
+            };
+          }
           return null; // User not found
         }
         return null;
       },
+      run: async () => ({ success: true }), // Refresh token
     }),
   }),
 };
@@ -78,6 +91,8 @@ describe('POST /api/auth/login', () => {
       expect(setCookie).toContain('HttpOnly');
       expect(setCookie).toContain('Secure');
       expect(setCookie).toContain('SameSite=None'); // Changed from Strict to None for cross-site support
+      expect(setCookie).toContain('refresh_token=');
+      expect(setCookie).toContain('Path=/api/auth');
     });
     
     it('should return 200 for valid contributor credentials', async () => {
@@ -205,6 +220,25 @@ describe('POST /api/auth/login', () => {
       expect(data1.message).toBe(data2.message);
       expect(data1.error).toBe(data2.error);
     });
+
+    it('should return 403 without a cookie for a disabled account', async () => {
+      const request = new Request('http://localhost/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          username: 'disableduser',
+          password: 'testpassword123',
+        }),
+      });
+
+      const response = await handleLogin(request, mockEnv);
+
+      expect(response.status).toBe(403);
+      expect(response.headers.get('Set-Cookie')).toBeNull();
+
+      const data = await response.json();
+      expect(data.error).toBe('ACCOUNT_DISABLED');
+    });
   });
   
   describe('Validation errors', () => {
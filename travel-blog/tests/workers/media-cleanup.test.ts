@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the media cleanup outbox
+ */
+
+import {
+  enqueueMediaCleanupQueries,
+  getRetryDelaySeconds,
+  photoCleanupTargets,
+  scheduleRetry,
+  videoCleanupTargets,
+  BASE_RETRY_DELAY_SECONDS,
+  MAX_CLEANUP_ATTEMPTS,
+  MAX_RETRY_DELAY_SECONDS
+} from '../../workers/lib/media-cleanup';
+
+describe('photoCleanupTargets', () => {
+  it('should queue each Cloudflare image', () => {
+    expect(photoCleanupTargets([
+      { cloudflare_image_id: 'img-1' },
+      { cloudflare_image_id: null },
+    ])).toEqual([{ kind: 'image', resourceId: 'img-1' }]);
+  });
+});
+
+describe('videoCleanupTargets', () => {
+  it('should queue the Stream video but not its placeholder key', () => {
+    expect(videoCleanupTargets([{ r2_key: 'stream/abc', stream_id: 'abc' }]))
+      .toEqual([{ kind: 'stream', resourceId: 'abc' }]);
+  });
+
+  it('should queue the R2 object of legacy uploads', () => {
+    expect(videoCleanupTargets([{ r2_key: 'videos/post-1/clip.mp4', stream_id: null }]))
+      .toEqual([{ kind: 'r2', resourceId: 'videos/post-1/clip.mp4' }]);
+  });
+});
+
+describe('enqueueMediaCleanupQueries', () => {
+  it('should insert one pending job per file, due immediately', () => {
+    const now = new Date('2024-05-01T10:00:00.000Z');
+    const queries = enqueueMediaCleanupQueries('post-1', [
+      { kind: 'image', resourceId: 'img-1' },
+      { kind: 'r2', resourceId: 'videos/clip.mp4' },
+    ], now);
+
+    expect(queries).toHaveLength(2);
+    expect(queries[0].query).toContain('INSERT INTO media_cleanup_jobs');
+    expect(queries[0].params.slice(1, 5)).toEqual(['image', 'img-1', 'post-1', now.toISOString()]);
+    expect(queries[0].params[0]).not.toBe(queries[1].params[0]);
+  });
+});
+
+describe('getRetryDelaySeconds', () => {
+  it('should double the delay after each failure', () => {
+    expect(getRetryDelaySeconds(1)).toBe(BASE_RETRY_DELAY_SECONDS);
+    expect(getRetryDelaySeconds(2)).toBe(BASE_RETRY_DELAY_SECONDS * 2);
+    expect(getRetryDelaySeconds(3)).toBe(BASE_RETRY_DELAY_SECONDS * 4);
+  });
+
+  it('should cap the delay', () => {
+    expect(getRetryDelaySeconds(30)).toBe(MAX_RETRY_DELAY_SECONDS);
+  });
+});
+
+describe('scheduleRetry', () => {
+  const now = new Date('2024-05-01T10:00:00.000Z');
+
+  it('should keep retrying below the attempt limit', () => {
+    expect(scheduleRetry(1, now)).toEqual({
+      status: 'pending',
+      nextAttemptAt: '2024-05-01T10:01:00.000Z',
+    });
+  });
+
+  it('should dead-letter the job once the attempts run out', () => {
+    expect(scheduleRetry(MAX_CLEANUP_ATTEMPTS, now).status).toBe('dead');
+  });
+});
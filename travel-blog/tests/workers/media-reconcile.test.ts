@@ -0,0 +1,151 @@
+/**
+ * Unit tests for media reconciliation
+ */
+
+import {
+  createCloudflareMediaSources,
+  findDangling,
+  findOrphans,
+  relinkQueries,
+  type MediaReference,
+  type StoredMedia
+} from '../../workers/lib/media-reconcile';
+
+const ids = (image: string[] = [], stream: string[] = [], r2: string[] = []) => ({
+  image: new Set(image),
+  stream: new Set(stream),
+  r2: new Set(r2),
+});
+
+const image = (resourceId: string, uploadedAt: string | null = '2024-01-01T00:00:00.000Z'): StoredMedia => ({
+  kind: 'image',
+  resourceId,
+  uploadedAt,
+  postId: 'post-1',
+  url: `https://imagedelivery.net/hash/${resourceId}/public`,
+});
+
+describe('findOrphans', () => {
+  const cutoff = '2024-05-01T00:00:00.000Z';
+
+  it('should report files nothing references', () => {
+    const { orphans } = findOrphans([image('a'), image('b')], ids(['a']), ids(), cutoff);
+    expect(orphans.map(o => o.resourceId)).toEqual(['b']);
+  });
+
+  it('should skip files already queued for deletion', () => {
+    const { orphans } = findOrphans([image('a')], ids(), ids(['a']), cutoff);
+    expect(orphans).toEqual([]);
+  });
+
+  it('should hold back uploads inside the grace period', () => {
+    const { orphans, recent } = findOrphans([image('a', '2024-05-02T00:00:00.000Z')], ids(), ids(), cutoff);
+    expect(orphans).toEqual([]);
+    expect(recent).toHaveLength(1);
+  });
+
+  it('should match identifiers per kind', () => {
+    const video: StoredMedia = { kind: 'stream', resourceId: 'a', uploadedAt: null, postId: null };
+    const { orphans } = findOrphans([video], ids(['a']), ids(), cutoff);
+    expect(orphans).toEqual([video]);
+  });
+});
+
+describe('findDangling', () => {
+  const refs: MediaReference[] = [
+    { kind: 'image', resourceId: 'a', table: 'photo_content', rowId: 'p1', postId: 'post-1' },
+    { kind: 'stream', resourceId: 's', table: 'video_content', rowId: 'v1', postId: 'post-1' },
+  ];
+
+  it('should report rows whose file is gone', () => {
+    expect(findDangling(refs, ids([], ['s']), new Set(['image', 'stream'] as const)))
+      .toEqual([refs[0]]);
+  });
+
+  it('should not report anything for a store that could not be listed', () => {
+    expect(findDangling(refs, ids(), new Set(['stream'] as const))).toEqual([refs[1]]);
+  });
+});
+
+describe('relinkQueries', () => {
+  it('should recreate a photo row and bump the post version', () => {
+    const queries = relinkQueries(image('a'), 'post-1');
+
+    expect(queries[0].query).toContain('INSERT INTO photo_content');
+    expect(queries[0].params).toContain('a');
+    expect(queries[1].query).toContain('version = version + 1');
+  });
+
+  it('should use the Stream placeholder key for videos', () => {
+    const queries = relinkQueries(
+      { kind: 'stream', resourceId: 'uid', uploadedAt: null, postId: 'post-1', url: 'https://example.com/uid.m3u8' },
+      'post-1'
+    );
+
+    expect(queries[0].query).toContain('INSERT INTO video_content');
+    expect(queries[0].params).toContain('stream/uid');
+  });
+});
+
+describe('createCloudflareMediaSources', () => {
+  const json = (result: unknown) =>
+    new Response(JSON.stringify({ success: true, result }), { headers: { 'Content-Type': 'application/json' } });
+
+  const bucket = {
+    list: jest.fn(async () => ({
+      objects: [{ key: 'videos/old.mp4', uploaded: new Date('2024-01-01T00:00:00.000Z') }],
+      truncated: false,
+    })),
+  } as unknown as R2Bucket;
+
+  const env = {
+    MEDIA_BUCKET: bucket,
+    CLOUDFLARE_ACCOUNT_ID: 'acct',
+    CLOUDFLARE_IMAGES_API_TOKEN: 'images-token',
+    CLOUDFLARE_STREAM_API_TOKEN: 'stream-token',
+    CLOUDFLARE_API_BASE_URL: 'http://fake.local',
+  };
+
+  it('should page through Images using the continuation token', async () => {
+    const fakeFetch = jest.fn(async (url: string) => url.includes('continuation_token')
+      ? json({ images: [{ id: 'b', uploaded: '2024-01-02T00:00:00Z', variants: [] }], continuation_token: null })
+      : json({
+          images: [{ id: 'a', uploaded: '2024-01-01T00:00:00Z', meta: { postId: 'post-1' }, variants: ['https://x/a/thumb', 'https://x/a/public'] }],
+          continuation_token: 'next',
+        }));
+
+    const [images] = createCloudflareMediaSources(env, fakeFetch as unknown as typeof fetch);
+    const items = await images.list();
+
+    expect(fakeFetch.mock.calls[0][0]).toBe('http://fake.local/accounts/acct/images/v2?per_page=1000');
+    expect(items.map(item => item.resourceId)).toEqual(['a', 'b']);
+    expect(items[0]).toMatchObject({ postId: 'post-1', url: 'https://x/a/public' });
+  });
+
+  it('should read Stream videos and their upload metadata', async () => {
+    const fakeFetch = jest.fn(async () => json([
+      { uid: 'v1', created: '2024-01-01T00:00:00Z', meta: { postId: 'post-2' }, playback: { hls: 'https://x/v1.m3u8' } },
+    ]));
+
+    const [, stream] = createCloudflareMediaSources(env, fakeFetch as unknown as typeof fetch);
+    const items = await stream.list();
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ kind: 'stream', resourceId: 'v1', postId: 'post-2', url: 'https://x/v1.m3u8' });
+  });
+
+  it('should fail the listing when the API reports an error', async () => {
+    const fakeFetch = jest.fn(async () => new Response('nope', { status: 500 }));
+
+    const [images] = createCloudflareMediaSources(env, fakeFetch as unknown as typeof fetch);
+    await expect(images.list()).rejects.toThrow('Listing failed (500)');
+  });
+
+  it('should list R2 objects from the bucket', async () => {
+    const [, , r2] = createCloudflareMediaSources(env, jest.fn() as unknown as typeof fetch);
+
+    expect(await r2.list()).toEqual([
+      { kind: 'r2', resourceId: 'videos/old.mp4', uploadedAt: '2024-01-01T00:00:00.000Z', postId: null },
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for password reset tokens
+ */
+
+import {
+  RESET_REQUEST_COOLDOWN_SECONDS,
+  createPasswordResetToken,
+  generateResetToken,
+  getResetUrl,
+  hashResetToken,
+  issuedBeforePasswordChange,
+  passwordResetNotification
+} from '../../workers/lib/password-reset';
+import { consoleNotifier, createNotifier, redactedConsoleNotifier } from '../../workers/lib/notifier';
+
+// Minimal D1 stand-in recording the statements it is given
+function mockDB(latestCreatedAt: string | null) {
+  const batches: any[][] = [];
+  const db = {
+    batches,
+    prepare: (query: string) => ({
+      query,
+      bind: (...args: any[]) => ({
+        query,
+        args,
+        first: async () => (latestCreatedAt ? { createdAt: latestCreatedAt } : null),
+      }),
+    }),
+    batch: async (statements: any[]) => {
+      batches.push(statements);
+      return [];
+    },
+  };
+  return db;
+}
+
+describe('generateResetToken', () => {
+  it('should create distinct URL-safe tokens', () => {
+    const a = generateResetToken();
+    const b = generateResetToken();
+
+    expect(a).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(a).not.toBe(b);
+  });
+});
+
+describe('hashResetToken', () => {
+  it('should return the SHA-256 hex digest', async () => {
+    expect(await hashResetToken('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('createPasswordResetToken', () => {
+  const now = new Date('2026-01-01T12:00:00.000Z');
+
+  it('should replace earlier tokens and store only the hash', async () => {
+    const db = mockDB(null);
+    const reset = await createPasswordResetToken(db, 7, now);
+
+    expect(reset).not.toBeNull();
+    expect(reset!.expiresAt).toBe('2026-01-01T13:00:00.000Z');
+
+    const [remove, insert] = db.batches[0];
+    expect(remove.query).toContain('DELETE FROM password_reset_tokens');
+    expect(insert.args[2]).toBe(await hashResetToken(reset!.token));
+    expect(insert.args).not.toContain(reset!.token);
+  });
+
+  it('should not create another token during the cooldown', async () => {
+    const recent = new Date(now.getTime() - (RESET_REQUEST_COOLDOWN_SECONDS - 1) * 1000).toISOString();
+    const db = mockDB(recent);
+
+    expect(await createPasswordResetToken(db, 7, now)).toBeNull();
+    expect(db.batches).toHaveLength(0);
+  });
+});
+
+describe('issuedBeforePasswordChange', () => {
+  const changedAt = '2026-01-01T12:00:00.500Z';
+  const changedAtSeconds = Math.floor(Date.parse(changedAt) / 1000);
+
+  it('should revoke sessions issued before the change', () => {
+    expect(issuedBeforePasswordChange(changedAtSeconds - 1, changedAt)).toBe(true);
+  });
+
+  it('should keep the session issued by the change and users who never changed it', () => {
+    expect(issuedBeforePasswordChange(changedAtSeconds, changedAt)).toBe(false);
+    expect(issuedBeforePasswordChange(changedAtSeconds - 1, null)).toBe(false);
+  });
+});
+
+describe('passwordResetNotification', () => {
+  it('should address the user and include the link', () => {
+    const url = getResetUrl('https://blog.example.com', 'a+b');
+    const message = passwordResetNotification({ username: 'grandma', displayName: 'Nana', email: 'nana@example.com' }, url);
+
+    expect(url).toBe('https://blog.example.com/reset-password?token=a%2Bb');
+    expect(message.to).toBe('nana@example.com');
+    expect(message.text).toContain('Hi Nana,');
+    expect(message.text).toContain(url);
+  });
+});
+
+describe('createNotifier', () => {
+  it('should only log full messages in development', () => {
+    expect(createNotifier({ NODE_ENV: 'development' })).toBe(consoleNotifier);
+    expect(createNotifier({ NODE_ENV: 'production', NOTIFIER_TRANSPORT: 'console' })).toBe(redactedConsoleNotifier);
+  });
+
+  it('should require a transport outside development', () => {
+    expect(() => createNotifier({ NODE_ENV: 'production' })).toThrow('NOTIFIER_TRANSPORT is required');
+    expect(() => createNotifier({})).toThrow('NOTIFIER_TRANSPORT is required');
+  });
+
+  it('should redact the text when the file transport falls back outside development', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const notifier = createNotifier({
+      NODE_ENV: 'production',
+      NOTIFIER_TRANSPORT: 'file',
+      NOTIFIER_FILE_PATH: '/nonexistent/notifications.jsonl',
+    });
+
+    await notifier.send({ to: 'nana@example.com', subject: 'Reset', text: 'https://blog.example.com/reset-password?token=secret' });
+
+    expect(log).toHaveBeenCalledWith('[NOTIFIER] Message (text redacted):', { to: 'nana@example.com', subject: 'Reset' });
+    expect(JSON.stringify(log.mock.calls)).not.toContain('token=secret');
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Unit tests for post archive utilities
+ */
+
+import {
+  archivePeriodRange,
+  buildArchive,
+  parseArchivePeriod
+} from '../../workers/lib/post-archive';
+import { ValidationError } from '../../workers/lib/errors';
+
+describe('parseArchivePeriod', () => {
+  it('should return null without a year or month', () => {
+    expect(parseArchivePeriod(new URLSearchParams(''))).toBeNull();
+  });
+
+  it('should read a year and an optional month', () => {
+    expect(parseArchivePeriod(new URLSearchParams('year=2024'))).toEqual({ year: 2024, month: null });
+    expect(parseArchivePeriod(new URLSearchParams('year=2024&month=05'))).toEqual({ year: 2024, month: 5 });
+  });
+
+  it('should reject a month without a year and out of range values', () => {
+    expect(() => parseArchivePeriod(new URLSearchParams('month=5'))).toThrow(ValidationError);
+    expect(() => parseArchivePeriod(new URLSearchParams('year=24'))).toThrow(ValidationError);
+    expect(() => parseArchivePeriod(new URLSearchParams('year=2024&month=13'))).toThrow(ValidationError);
+  });
+});
+
+describe('archivePeriodRange', () => {
+  it('should cover a whole year', () => {
+    expect(archivePeriodRange({ year: 2024, month: null })).toEqual({
+      from: '2024-01-01T00:00:00.000Z',
+      to: '2025-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should roll December over into the next year', () => {
+    expect(archivePeriodRange({ year: 2024, month: 12 })).toEqual({
+      from: '2024-12-01T00:00:00.000Z',
+      to: '2025-01-01T00:00:00.000Z',
+    });
+  });
+});
+
+describe('buildArchive', () => {
+  it('should group month counts into years', () => {
+    const archive = buildArchive(
+      'IT',
+      [
+        { year: 2024, month: 5, count: 2 },
+        { year: 2024, month: 1, count: 1 },
+        { year: 2023, month: 8, count: 4 },
+      ],
+      [{ country_code: 'IT', count: 7 }, { country_code: 'NO', count: 2 }]
+    );
+
+    expect(archive.total).toBe(7);
+    expect(archive.years).toEqual([
+      { year: 2024, count: 3, months: [{ month: 5, count: 2 }, { month: 1, count: 1 }] },
+      { year: 2023, count: 4, months: [{ month: 8, count: 4 }] },
+    ]);
+    expect(archive.countries).toEqual([
+      { countryCode: 'IT', count: 7 },
+      { countryCode: 'NO', count: 2 },
+    ]);
+  });
+});
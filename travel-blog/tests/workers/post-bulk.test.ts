@@ -0,0 +1,142 @@
+/**
+ * Unit tests for bulk post actions
+ */
+
+import {
+  bulkItemQueries,
+  checkBulkItem,
+  findStalePosts,
+  getBulkRevisionAction,
+  parseBulkRequest,
+  MAX_BULK_POSTS,
+  type BulkPostRow
+} from '../../workers/lib/post-bulk';
+import { ValidationError } from '../../workers/lib/errors';
+
+const author = { sub: 'alice', role: 'reader' };
+const contributor = { sub: 'bob', role: 'contributor' };
+
+function makePost(overrides: Partial<BulkPostRow> = {}): BulkPostRow {
+  return {
+    id: 'post-1',
+    author_id: 'alice',
+    status: 'draft',
+    scheduled_for: null,
+    design_template_id: 'photo-gallery',
+    version: 3,
+    tag_slugs: null,
+    ...overrides,
+  };
+}
+
+describe('parseBulkRequest', () => {
+  it('should accept a valid request and drop duplicate IDs', () => {
+    expect(parseBulkRequest({ action: 'publish', postIds: ['a', 'b', 'a'] }))
+      .toEqual({ action: 'publish', postIds: ['a', 'b'] });
+  });
+
+  it('should reject unknown actions and empty ID lists', () => {
+    expect(() => parseBulkRequest({ action: 'archive', postIds: ['a'] })).toThrow(ValidationError);
+    expect(() => parseBulkRequest({ action: 'publish', postIds: [] })).toThrow(ValidationError);
+    expect(() => parseBulkRequest({ action: 'publish', postIds: [1] })).toThrow(ValidationError);
+  });
+
+  it('should limit the number of posts', () => {
+    const postIds = Array.from({ length: MAX_BULK_POSTS + 1 }, (_, i) => `post-${i}`);
+    expect(() => parseBulkRequest({ action: 'delete', postIds })).toThrow(ValidationError);
+  });
+
+  it('should require the action-specific fields', () => {
+    expect(() => parseBulkRequest({ action: 'change-template', postIds: ['a'] })).toThrow(ValidationError);
+    expect(() => parseBulkRequest({ action: 'add-tags', postIds: ['a'], tags: [] })).toThrow(ValidationError);
+    expect(parseBulkRequest({ action: 'add-tags', postIds: ['a'], tags: ['Street Food'] }).tags)
+      .toEqual([{ slug: 'street-food', name: 'Street Food' }]);
+  });
+});
+
+describe('getBulkRevisionAction', () => {
+  it('should record the same revision as the single-post routes', () => {
+    expect(getBulkRevisionAction('publish')).toBe('update-metadata');
+    expect(getBulkRevisionAction('change-template')).toBe('change-template');
+    expect(getBulkRevisionAction('add-tags')).toBe('update-taxonomy');
+    expect(getBulkRevisionAction('delete')).toBeNull();
+  });
+});
+
+describe('checkBulkItem', () => {
+  const publish = parseBulkRequest({ action: 'publish', postIds: ['post-1'] });
+
+  it('should report missing posts and other authors\' posts', () => {
+    expect(checkBulkItem(undefined, publish, author)).toBe('Post not found');
+    expect(checkBulkItem(makePost(), publish, contributor)).toMatch(/permission/);
+  });
+
+  it('should let contributors delete any post', () => {
+    const remove = parseBulkRequest({ action: 'delete', postIds: ['post-1'] });
+    expect(checkBulkItem(makePost(), remove, contributor)).toBeNull();
+    expect(checkBulkItem(makePost({ author_id: 'carol' }), remove, author)).toMatch(/permission/);
+  });
+
+  it('should skip posts that are already in the requested state', () => {
+    const unpublish = parseBulkRequest({ action: 'unpublish', postIds: ['post-1'] });
+    expect(checkBulkItem(makePost({ status: 'published' }), publish, author)).toBe('Post is already published');
+    expect(checkBulkItem(makePost(), unpublish, author)).toBe('Post is not published');
+    expect(checkBulkItem(makePost({ scheduled_for: '2030-01-01T00:00:00.000Z' }), unpublish, author)).toBeNull();
+
+    const retemplate = parseBulkRequest({ action: 'change-template', postIds: ['post-1'], templateId: 'photo-gallery' });
+    expect(checkBulkItem(makePost(), retemplate, author)).toBe('Post already uses this template');
+  });
+
+  it('should respect the tag limit when adding tags', () => {
+    const addTags = parseBulkRequest({ action: 'add-tags', postIds: ['post-1'], tags: ['food', 'beaches'] });
+    expect(checkBulkItem(makePost({ tag_slugs: 'food,beaches' }), addTags, author)).toBe('Post already has these tags');
+    expect(checkBulkItem(makePost({ tag_slugs: 'food' }), addTags, author)).toBeNull();
+
+    const full = Array.from({ length: 20 }, (_, i) => `tag-${i}`).join(',');
+    expect(checkBulkItem(makePost({ tag_slugs: full }), addTags, author)).toMatch(/at most/);
+  });
+});
+
+describe('bulkItemQueries', () => {
+  const now = '2024-05-01T10:00:00.000Z';
+
+  it('should claim the next version from the checked one and keep the first publish date', () => {
+    const queries = bulkItemQueries(makePost(), parseBulkRequest({ action: 'publish', postIds: ['post-1'] }), 'alice', now);
+
+    expect(queries).toHaveLength(2);
+    expect(queries[0].query).toContain('CASE WHEN version = ? THEN version + 1 END');
+    expect(queries[0].params).toEqual([3, now, 'post-1']);
+    expect(queries[1].query).toContain('COALESCE(published_at, ?)');
+    expect(queries[1].params).toEqual([now, 'post-1']);
+  });
+
+  it('should record template history for a template change', () => {
+    const request = parseBulkRequest({ action: 'change-template', postIds: ['post-1'], templateId: 'story' });
+    const queries = bulkItemQueries(makePost(), request, 'alice', now);
+
+    expect(queries[2].query).toContain('INSERT INTO post_template_history');
+    expect(queries[2].params.slice(1, 6)).toEqual(['post-1', 'story', now, 'alice', 'photo-gallery']);
+  });
+
+  it('should only move deleted posts to the trash', () => {
+    const queries = bulkItemQueries(makePost(), parseBulkRequest({ action: 'delete', postIds: ['post-1'] }), 'bob', now);
+
+    expect(queries).toEqual([{
+      query: 'UPDATE blog_posts SET deleted_at = ?, deleted_by = ? WHERE id = ? AND deleted_at IS NULL',
+      params: [now, 'bob', 'post-1'],
+    }]);
+  });
+});
+
+describe('findStalePosts', () => {
+  it('should return posts whose version moved on or that are gone', async () => {
+    const posts = new Map([
+      ['post-1', makePost()],
+      ['post-2', makePost({ id: 'post-2' })],
+      ['post-3', makePost({ id: 'post-3' })],
+    ]);
+    const db = { query: async () => [{ id: 'post-1', version: 3 }, { id: 'post-2', version: 4 }] } as any;
+
+    expect(await findStalePosts(db, posts, ['post-1', 'post-2', 'post-3'])).toEqual(['post-2', 'post-3']);
+  });
+});
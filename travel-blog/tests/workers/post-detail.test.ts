@@ -0,0 +1,77 @@
+/**
+ * Unit tests for single-batch post detail reads
+ */
+
+import { buildPostDetail, postDetailQueries } from '../../workers/lib/post-detail';
+
+const postRow = {
+  id: 'post-2',
+  slug: 'rome',
+  title: 'Rome',
+  status: 'published',
+  author_id: 'alice',
+  country_code: 'IT',
+  destination: 'Rome',
+};
+
+describe('postDetailQueries', () => {
+  it('should match child rows on the ID when looking up by ID', () => {
+    const queries = postDetailQueries({ by: 'id', value: 'post-2' }, null);
+
+    expect(queries).toHaveLength(8);
+    expect(queries[0].query).toContain('WHERE p.id = ?');
+    expect(queries[1].query).toContain('WHERE post_id = ?');
+    expect(queries.every(q => q.params[0] === 'post-2')).toBe(true);
+  });
+
+  it('should resolve the ID from the slug inside each query', () => {
+    const queries = postDetailQueries({ by: 'slug', value: 'rome' }, null);
+
+    expect(queries[0].query).toContain('WHERE p.slug = ?');
+    expect(queries[1].query).toContain('post_id = (SELECT id FROM blog_posts WHERE slug = ? AND deleted_at IS NULL)');
+  });
+
+  it('should include the viewer\'s own unpublished trip parts', () => {
+    const parts = postDetailQueries({ by: 'id', value: 'post-2' }, 'alice')[7];
+
+    expect(parts.query).toContain('p.author_id = ?');
+    expect(parts.params).toEqual(['post-2', 'alice']);
+  });
+});
+
+describe('buildPostDetail', () => {
+  it('should return null when the post does not exist', () => {
+    expect(buildPostDetail([[], [], [], [], [], [], [], []])).toBeNull();
+  });
+
+  it('should assemble taxonomy and trip navigation from the batch results', () => {
+    const detail = buildPostDetail([
+      [postRow],
+      [{ id: 'photo-1' }],
+      [],
+      [{ id: 'text-1' }],
+      [{ slug: 'food', name: 'Food' }],
+      [{ companion: 'kids' }, { companion: 'solo' }],
+      [{ id: 'trip-1', slug: 'italy', title: 'Italy' }],
+      [
+        { id: 'post-1', slug: 'florence', title: 'Florence' },
+        { id: 'post-2', slug: 'rome', title: 'Rome' },
+      ],
+    ]);
+
+    expect(detail?.photos).toEqual([{ id: 'photo-1' }]);
+    expect(detail?.taxonomy).toEqual({
+      countryCode: 'IT',
+      destination: 'Rome',
+      tags: [{ slug: 'food', name: 'Food' }],
+      companions: ['solo', 'kids'],
+    });
+    expect(detail?.trip).toMatchObject({ tripSlug: 'italy', part: 2, totalParts: 2, next: null });
+    expect(detail?.trip?.previous?.slug).toBe('florence');
+  });
+
+  it('should leave trip navigation out for posts outside a trip', () => {
+    const detail = buildPostDetail([[postRow], [], [], [], [], [], [], []]);
+    expect(detail?.trip).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Unit tests for post duplication
+ */
+
+import { duplicateContentQueries, getDuplicateTitle } from '../../workers/lib/post-duplicate';
+
+describe('getDuplicateTitle', () => {
+  it('should mark the first copy', () => {
+    expect(getDuplicateTitle('Tuscany')).toBe('Tuscany (copy)');
+  });
+
+  it('should number copies of copies', () => {
+    expect(getDuplicateTitle('Tuscany (copy)')).toBe('Tuscany (copy 2)');
+    expect(getDuplicateTitle('Tuscany (copy 2)')).toBe('Tuscany (copy 3)');
+  });
+});
+
+describe('duplicateContentQueries', () => {
+  it('should copy each block into the new post with a fresh ID', () => {
+    let n = 0;
+    const queries = duplicateContentQueries(
+      'new-post',
+      { textIds: ['t1', 't2'], photoIds: ['p1'], videoIds: [] },
+      () => `id-${++n}`,
+      '2024-05-01T10:00:00.000Z'
+    );
+
+    expect(queries).toHaveLength(3);
+    expect(queries[0].query).toContain('INSERT INTO text_content');
+    expect(queries[0].params).toEqual(['id-1', 'new-post', '2024-05-01T10:00:00.000Z', '2024-05-01T10:00:00.000Z', 't1']);
+    expect(queries[2].query).toContain('INSERT INTO photo_content');
+    expect(queries[2].params).toEqual(['id-3', 'new-post', 'p1']);
+  });
+
+  it('should copy nothing for an empty post', () => {
+    expect(duplicateContentQueries('new-post', { textIds: [], photoIds: [], videoIds: [] }, () => 'x', 'now'))
+      .toEqual([]);
+  });
+});
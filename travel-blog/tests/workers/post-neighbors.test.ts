@@ -0,0 +1,70 @@
+/**
+ * Unit tests for previous/next post navigation
+ */
+
+import { buildNeighbors, neighborQueries, parseNeighborScope } from '../../workers/lib/post-neighbors';
+import { ValidationError } from '../../workers/lib/errors';
+
+const post = {
+  id: 'post-2',
+  status: 'published',
+  published_at: '2024-02-01T00:00:00.000Z',
+  country_code: 'IT',
+};
+
+describe('parseNeighborScope', () => {
+  it('should default to all published posts', () => {
+    expect(parseNeighborScope(new URLSearchParams())).toEqual({ by: 'all' });
+  });
+
+  it('should read country and tag scopes', () => {
+    expect(parseNeighborScope(new URLSearchParams('scope=country'))).toEqual({ by: 'country' });
+    expect(parseNeighborScope(new URLSearchParams('scope=tag&tag=Food'))).toEqual({ by: 'tag', tag: 'food' });
+  });
+
+  it('should reject unknown scopes and a tag scope without a tag', () => {
+    expect(() => parseNeighborScope(new URLSearchParams('scope=author'))).toThrow(ValidationError);
+    expect(() => parseNeighborScope(new URLSearchParams('scope=tag'))).toThrow(ValidationError);
+  });
+});
+
+describe('neighborQueries', () => {
+  it('should look for the nearest older and newer published post', () => {
+    const [previous, next] = neighborQueries(post, { by: 'all' })!;
+
+    expect(previous.query).toContain("p.status = 'published'");
+    expect(previous.query).toContain('ORDER BY COALESCE(p.published_at, p.created_at) DESC, p.id DESC');
+    expect(next.query).toContain('ORDER BY COALESCE(p.published_at, p.created_at) ASC, p.id ASC');
+    expect(previous.params).toEqual([post.published_at, post.published_at, 'post-2']);
+  });
+
+  it('should keep to the post\'s country or the given tag', () => {
+    const [byCountry] = neighborQueries(post, { by: 'country' })!;
+    const [byTag] = neighborQueries(post, { by: 'tag', tag: 'food' })!;
+
+    expect(byCountry.query).toContain('p.country_code = ?');
+    expect(byCountry.params[0]).toBe('IT');
+    expect(byTag.query).toContain('ftg.slug = ?');
+    expect(byTag.params[0]).toBe('food');
+  });
+
+  it('should find nothing for unpublished posts or posts without a country', () => {
+    expect(neighborQueries({ ...post, status: 'draft', published_at: null }, { by: 'all' })).toBeNull();
+    expect(neighborQueries({ ...post, country_code: null }, { by: 'country' })).toBeNull();
+  });
+});
+
+describe('buildNeighbors', () => {
+  it('should map the rows and leave missing neighbors null', () => {
+    const neighbors = buildNeighbors([
+      [{ id: 'post-1', slug: 'florence', title: 'Florence', published_at: '2024-01-01T00:00:00.000Z' }],
+      [],
+    ]);
+
+    expect(neighbors).toEqual({
+      previous: { id: 'post-1', slug: 'florence', title: 'Florence', publishedAt: '2024-01-01T00:00:00.000Z' },
+      next: null,
+    });
+    expect(buildNeighbors(null)).toEqual({ previous: null, next: null });
+  });
+});
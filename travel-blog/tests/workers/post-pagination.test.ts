@@ -0,0 +1,114 @@
+/**
+ * Unit tests for post list sorting and keyset pagination
+ */
+
+import {
+  buildKeysetPage,
+  decodeCursor,
+  encodeCursor,
+  keysetSql,
+  parsePostSort,
+  type PostSort
+} from '../../workers/lib/post-pagination';
+import { ValidationError } from '../../workers/lib/errors';
+
+const byPublished: PostSort = { field: 'published_at', direction: 'desc' };
+
+function row(id: string, publishedAt: string | null, title: string = id) {
+  return { id, title, published_at: publishedAt, created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-02T00:00:00.000Z' };
+}
+
+describe('parsePostSort', () => {
+  it('should default to newest created first', () => {
+    expect(parsePostSort(new URLSearchParams())).toEqual({ field: 'created_at', direction: 'desc' });
+  });
+
+  it('should sort titles A to Z unless a direction is given', () => {
+    expect(parsePostSort(new URLSearchParams('sort=title'))).toEqual({ field: 'title', direction: 'asc' });
+    expect(parsePostSort(new URLSearchParams('sort=title&direction=desc'))).toEqual({ field: 'title', direction: 'desc' });
+  });
+
+  it('should reject unknown fields and directions', () => {
+    expect(() => parsePostSort(new URLSearchParams('sort=views'))).toThrow(ValidationError);
+    expect(() => parsePostSort(new URLSearchParams('direction=up'))).toThrow(ValidationError);
+  });
+});
+
+describe('encodeCursor / decodeCursor', () => {
+  it('should round-trip a cursor, including non-ASCII titles', () => {
+    const sort: PostSort = { field: 'title', direction: 'asc' };
+    const token = encodeCursor(sort, 'Ålesund & Bergen', 'post-1', true);
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(token, sort)).toEqual({ key: 'Ålesund & Bergen', id: 'post-1', before: true });
+  });
+
+  it('should reject garbage and cursors from another sort order', () => {
+    expect(() => decodeCursor('not-a-cursor', byPublished)).toThrow(ValidationError);
+
+    const token = encodeCursor(byPublished, '2024-05-01', 'post-1');
+    expect(() => decodeCursor(token, { field: 'published_at', direction: 'asc' })).toThrow(/different sort order/);
+  });
+});
+
+describe('keysetSql', () => {
+  it('should only order the first page', () => {
+    expect(keysetSql(byPublished, null)).toEqual({
+      condition: null,
+      params: [],
+      orderBy: 'COALESCE(p.published_at, p.created_at) DESC, p.id DESC',
+    });
+  });
+
+  it('should continue after the cursor row, using the ID to break ties', () => {
+    const sql = keysetSql({ field: 'created_at', direction: 'desc' }, { key: '2024-05-01', id: 'post-9', before: false });
+
+    expect(sql.condition).toBe('p.created_at <= ? AND (p.created_at < ? OR p.id < ?)');
+    expect(sql.params).toEqual(['2024-05-01', '2024-05-01', 'post-9']);
+  });
+
+  it('should scan backwards for a previous-page cursor', () => {
+    const sql = keysetSql({ field: 'title', direction: 'asc' }, { key: 'Rome', id: 'post-3', before: true });
+
+    expect(sql.condition).toContain('p.title COLLATE NOCASE < ?');
+    expect(sql.orderBy).toBe('p.title COLLATE NOCASE DESC, p.id DESC');
+  });
+});
+
+describe('buildKeysetPage', () => {
+  it('should drop the extra row and point the next cursor at the last post', () => {
+    const rows = [row('c', '2024-03-01'), row('b', '2024-02-01'), row('a', null)];
+    const page = buildKeysetPage(rows, 2, byPublished, null, false);
+
+    expect(page.rows.map(r => r.id)).toEqual(['c', 'b']);
+    expect(page.hasMore).toBe(true);
+    expect(page.hasPrevious).toBe(false);
+    expect(page.prevCursor).toBeNull();
+    expect(decodeCursor(page.nextCursor!, byPublished)).toEqual({ key: '2024-02-01', id: 'b', before: false });
+  });
+
+  it('should fall back to the creation date for unpublished posts', () => {
+    const page = buildKeysetPage([row('a', null), row('z', null)], 1, byPublished, null, false);
+    expect(decodeCursor(page.nextCursor!, byPublished).key).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('should restore the requested order for a previous page', () => {
+    // Scanned backwards from the cursor: nearest row first
+    const rows = [row('d', '2024-04-01'), row('e', '2024-05-01')];
+    const cursor = { key: '2024-03-01', id: 'c', before: true };
+    const page = buildKeysetPage(rows, 2, byPublished, cursor, false);
+
+    expect(page.rows.map(r => r.id)).toEqual(['e', 'd']);
+    expect(page.hasMore).toBe(true);
+    expect(page.hasPrevious).toBe(false);
+    expect(page.prevCursor).toBeNull();
+  });
+
+  it('should offer a previous page for offset pages past the first', () => {
+    const page = buildKeysetPage([row('b', '2024-02-01')], 10, byPublished, null, true);
+
+    expect(page.hasMore).toBe(false);
+    expect(page.nextCursor).toBeNull();
+    expect(decodeCursor(page.prevCursor!, byPublished)).toEqual({ key: '2024-02-01', id: 'b', before: true });
+  });
+});
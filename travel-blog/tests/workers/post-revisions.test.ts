@@ -0,0 +1,84 @@
+/**
+ * Unit tests for post revision diffing
+ */
+
+import { diffSnapshots, type PostSnapshot } from '../../workers/lib/post-revisions';
+
+function makeSnapshot(overrides: Partial<PostSnapshot> = {}): PostSnapshot {
+  return {
+    post: {
+      title: 'Gelato in Florence',
+      slug: 'gelato-in-florence',
+      description: 'A sweet afternoon',
+      coverImage: null,
+      templateId: 'template-01',
+      status: 'draft',
+      publishedAt: null,
+    },
+    photos: [{ id: 'photo-1', caption: 'Pistachio', altText: 'Cone', displayOrder: 0 }],
+    videos: [],
+    textBlocks: [
+      { id: 'text-1', content: 'Intro', displayOrder: 0, sectionName: 'main' },
+      { id: 'text-2', content: 'Tips', displayOrder: 1, sectionName: 'main' },
+    ],
+    ...overrides,
+  };
+}
+
+describe('diffSnapshots', () => {
+  it('should return no changes for identical snapshots', () => {
+    expect(diffSnapshots(makeSnapshot(), makeSnapshot())).toEqual([]);
+  });
+
+  it('should report modified post fields', () => {
+    const before = makeSnapshot();
+    const after = makeSnapshot({ post: { ...before.post, title: 'Gelato workshop' } });
+
+    expect(diffSnapshots(before, after)).toEqual([
+      {
+        field: 'post.title',
+        change: 'modified',
+        before: 'Gelato in Florence',
+        after: 'Gelato workshop',
+      },
+    ]);
+  });
+
+  it('should report modified fields of content blocks by id', () => {
+    const before = makeSnapshot();
+    const after = makeSnapshot({
+      photos: [{ id: 'photo-1', caption: 'Stracciatella', altText: 'Cone', displayOrder: 0 }],
+    });
+
+    const changes = diffSnapshots(before, after);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].field).toBe('photos.photo-1.caption');
+    expect(changes[0].before).toBe('Pistachio');
+    expect(changes[0].after).toBe('Stracciatella');
+  });
+
+  it('should report added and removed text blocks', () => {
+    const before = makeSnapshot();
+    const after = makeSnapshot({
+      textBlocks: [
+        { id: 'text-1', content: 'Intro', displayOrder: 0, sectionName: 'main' },
+        { id: 'text-3', content: 'Where to stay', displayOrder: 1, sectionName: 'main' },
+      ],
+    });
+
+    const changes = diffSnapshots(before, after);
+
+    expect(changes.map(c => [c.field, c.change])).toEqual([
+      ['textBlocks.text-2', 'removed'],
+      ['textBlocks.text-3', 'added'],
+    ]);
+  });
+
+  it('should treat null and undefined as equal', () => {
+    const before = makeSnapshot();
+    const after = makeSnapshot({ post: { ...before.post, coverImage: undefined as any } });
+
+    expect(diffSnapshots(before, after)).toEqual([]);
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Unit tests for scheduled publishing validation
+ */
+
+import { parseScheduledFor } from '../../workers/lib/post-schedule';
+import { ValidationError } from '../../workers/lib/errors';
+
+describe('parseScheduledFor', () => {
+  const now = new Date('2026-06-01T12:00:00.000Z');
+
+  it('should normalise future times to ISO 8601 UTC', () => {
+    expect(parseScheduledFor('2026-06-02T09:00:00+02:00', now)).toBe('2026-06-02T07:00:00.000Z');
+  });
+
+  it('should require a value', () => {
+    expect(() => parseScheduledFor(undefined, now)).toThrow(ValidationError);
+    expect(() => parseScheduledFor('', now)).toThrow(ValidationError);
+  });
+
+  it('should reject invalid dates', () => {
+    expect(() => parseScheduledFor('next tuesday', now)).toThrow('valid ISO 8601');
+  });
+
+  it('should reject times in the past', () => {
+    expect(() => parseScheduledFor('2026-06-01T11:59:00.000Z', now)).toThrow('in the future');
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Unit tests for full-text search query building
+ */
+
+import { buildMatchQuery } from '../../workers/lib/post-search';
+
+describe('buildMatchQuery', () => {
+  it('should quote every term and prefix-match the last one', () => {
+    expect(buildMatchQuery('gelato workshop')).toBe('"gelato" "workshop"*');
+  });
+
+  it('should return null when there is nothing to search for', () => {
+    expect(buildMatchQuery('')).toBeNull();
+    expect(buildMatchQuery('   ')).toBeNull();
+    expect(buildMatchQuery('- * :')).toBeNull();
+  });
+
+  it('should neutralise FTS5 syntax in user input', () => {
+    expect(buildMatchQuery('title:rome OR "naples')).toBe('"title:rome" "OR" "naples"*');
+  });
+
+  it('should keep non-ASCII terms', () => {
+    expect(buildMatchQuery('café São')).toBe('"café" "São"*');
+  });
+
+  it('should cap the number of terms', () => {
+    const input = Array.from({ length: 15 }, (_, i) => `term${i}`).join(' ');
+    const match = buildMatchQuery(input)!;
+    expect(match.split(' ')).toHaveLength(10);
+    expect(match.endsWith('"term9"*')).toBe(true);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for post taxonomy validation and facet filters
+ */
+
+import {
+  parseCountryCode,
+  parseTags,
+  parseCompanions,
+  mergeTaxonomy,
+  parseFacetFilters,
+  facetFilterSql,
+  type PostTaxonomy
+} from '../../workers/lib/post-taxonomy';
+import { ValidationError } from '../../workers/lib/errors';
+
+describe('parseCountryCode', () => {
+  it('should normalise to upper case', () => {
+    expect(parseCountryCode(' it ')).toBe('IT');
+  });
+
+  it('should treat null and empty as cleared', () => {
+    expect(parseCountryCode(null)).toBeNull();
+    expect(parseCountryCode('')).toBeNull();
+  });
+
+  it('should reject anything but two letters', () => {
+    expect(() => parseCountryCode('ITA')).toThrow(ValidationError);
+    expect(() => parseCountryCode('Italy')).toThrow(ValidationError);
+    expect(() => parseCountryCode(39)).toThrow(ValidationError);
+  });
+});
+
+describe('parseTags', () => {
+  it('should slugify tags and drop duplicates', () => {
+    expect(parseTags(['Gelato  Tours', 'gelato tours', 'Beaches'])).toEqual([
+      { slug: 'gelato-tours', name: 'Gelato Tours' },
+      { slug: 'beaches', name: 'Beaches' },
+    ]);
+  });
+
+  it('should reject tags without letters or numbers', () => {
+    expect(() => parseTags(['!!!'])).toThrow(ValidationError);
+  });
+
+  it('should reject non-string tags', () => {
+    expect(() => parseTags('food')).toThrow(ValidationError);
+    expect(() => parseTags([1])).toThrow(ValidationError);
+  });
+
+  it('should limit the number of tags', () => {
+    const tags = Array.from({ length: 21 }, (_, i) => `tag ${i}`);
+    expect(() => parseTags(tags)).toThrow(ValidationError);
+  });
+});
+
+describe('parseCompanions', () => {
+  it('should accept known companions in a stable order', () => {
+    expect(parseCompanions(['Grandparents', 'kids', 'kids'])).toEqual(['kids', 'grandparents']);
+  });
+
+  it('should reject unknown companions', () => {
+    expect(() => parseCompanions(['neighbours'])).toThrow(ValidationError);
+  });
+});
+
+describe('mergeTaxonomy', () => {
+  const current: PostTaxonomy = {
+    countryCode: 'IT',
+    destination: 'Rome',
+    tags: [{ slug: 'food', name: 'Food' }],
+    companions: ['kids'],
+  };
+
+  it('should keep fields that are not provided', () => {
+    expect(mergeTaxonomy(current, { destination: 'Florence' })).toEqual({
+      ...current,
+      destination: 'Florence',
+    });
+  });
+
+  it('should clear fields set to null', () => {
+    expect(mergeTaxonomy(current, { countryCode: null, destination: null, tags: null, companions: null })).toEqual({
+      countryCode: null,
+      destination: null,
+      tags: [],
+      companions: [],
+    });
+  });
+});
+
+describe('parseFacetFilters', () => {
+  it('should read repeated and comma-separated values', () => {
+    const params = new URLSearchParams('country=it&tag=Food&tag=beaches,food&with=grandparents');
+    expect(parseFacetFilters(params)).toEqual({
+      countryCode: 'IT',
+      tags: ['food', 'beaches'],
+      companions: ['grandparents'],
+    });
+  });
+
+  it('should reject unknown companions', () => {
+    expect(() => parseFacetFilters(new URLSearchParams('with=aliens'))).toThrow(ValidationError);
+  });
+});
+
+describe('facetFilterSql', () => {
+  it('should require every selected tag and companion', () => {
+    const { conditions, params } = facetFilterSql({
+      countryCode: 'IT',
+      tags: ['food', 'beaches'],
+      companions: ['grandparents'],
+    });
+
+    expect(conditions).toHaveLength(4);
+    expect(params).toEqual(['IT', 'food', 'beaches', 'grandparents']);
+  });
+
+  it('should produce no conditions without filters', () => {
+    expect(facetFilterSql({ countryCode: null, tags: [], companions: [] })).toEqual({ conditions: [], params: [] });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Unit tests for trash retention and purging
+ */
+
+import {
+  getPurgeAfter,
+  getPurgeCutoff,
+  getTrashRetentionDays,
+  purgePostQueries,
+  DEFAULT_TRASH_RETENTION_DAYS
+} from '../../workers/lib/post-trash';
+
+describe('getTrashRetentionDays', () => {
+  it('should read a positive number of days', () => {
+    expect(getTrashRetentionDays('7')).toBe(7);
+  });
+
+  it('should fall back to the default when unset or invalid', () => {
+    expect(getTrashRetentionDays(undefined)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(getTrashRetentionDays('')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(getTrashRetentionDays('soon')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(getTrashRetentionDays('0')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(getTrashRetentionDays('-3')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+  });
+});
+
+describe('getPurgeAfter', () => {
+  it('should add the retention period to the deletion time', () => {
+    expect(getPurgeAfter('2024-05-01T10:00:00.000Z', 30)).toBe('2024-05-31T10:00:00.000Z');
+  });
+});
+
+describe('getPurgeCutoff', () => {
+  it('should subtract the retention period from now', () => {
+    expect(getPurgeCutoff(new Date('2024-05-31T10:00:00.000Z'), 30)).toBe('2024-05-01T10:00:00.000Z');
+  });
+
+  it('should make a post due exactly when its purge time is reached', () => {
+    const deletedAt = '2024-05-01T10:00:00.000Z';
+    const purgeAfter = getPurgeAfter(deletedAt, 14);
+
+    expect(deletedAt <= getPurgeCutoff(new Date(purgeAfter), 14)).toBe(true);
+    expect(deletedAt <= getPurgeCutoff(new Date(new Date(purgeAfter).getTime() - 1000), 14)).toBe(false);
+  });
+});
+
+describe('purgePostQueries', () => {
+  it('should remove the post row last, after everything that references it', () => {
+    const queries = purgePostQueries('post-1');
+
+    expect(queries[queries.length - 1].query).toBe('DELETE FROM blog_posts WHERE id = ?');
+    expect(queries.every(q => q.params[0] === 'post-1')).toBe(true);
+  });
+});
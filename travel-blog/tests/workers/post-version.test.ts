@@ -0,0 +1,114 @@
+/**
+ * Unit tests for post version (optimistic concurrency) parsing and claims
+ */
+
+import { formatETag, parseIfMatch, getExpectedVersion, writeWithPostVersion } from '../../workers/lib/post-version';
+import { ConflictError, ValidationError } from '../../workers/lib/errors';
+
+// A single blog_posts row, answering version reads and the batched claim
+function mockDB(version: number) {
+  const row = { version, title: 'Original' };
+  return {
+    row,
+    batches: [] as any[][],
+    queryOne: async (query: string) => (query.startsWith('SELECT version') ? { version: row.version } : { ...row }),
+    query: async () => [],
+    batchExecute: async function (queries: { query: string; params: any[] }[]) {
+      this.batches.push(queries);
+      // The claim sets NULL on a stale version, failing NOT NULL and rolling the batch back
+      if (queries[0].params[0] !== row.version) {
+        throw new Error('Database batch failed: NOT NULL constraint failed: blog_posts.version');
+      }
+      const [title] = queries[1].params;
+      if (title === 'fail') {
+        throw new Error('Database batch failed: D1 unavailable');
+      }
+      row.version += 1;
+      row.title = title;
+      return queries.map(() => ({ success: true, changes: 1 }));
+    },
+  } as any;
+}
+
+describe('parseIfMatch', () => {
+  it('should parse strong, weak and bare ETags', () => {
+    expect(parseIfMatch('"3"')).toBe(3);
+    expect(parseIfMatch('W/"12"')).toBe(12);
+    expect(parseIfMatch('7')).toBe(7);
+  });
+
+  it('should round-trip formatETag', () => {
+    expect(parseIfMatch(formatETag(42))).toBe(42);
+  });
+
+  it('should treat a missing header or * as any version', () => {
+    expect(parseIfMatch(null)).toBeUndefined();
+    expect(parseIfMatch('*')).toBeUndefined();
+  });
+
+  it('should reject malformed values', () => {
+    expect(() => parseIfMatch('"abc"')).toThrow(ValidationError);
+  });
+});
+
+describe('getExpectedVersion', () => {
+  const requestWith = (ifMatch?: string) =>
+    new Request('http://localhost/api/posts/post-1', {
+      method: 'PUT',
+      headers: ifMatch ? { 'If-Match': ifMatch } : {},
+    });
+
+  it('should prefer the body version over If-Match', () => {
+    expect(getExpectedVersion(requestWith('"2"'), { version: 5 })).toBe(5);
+  });
+
+  it('should fall back to If-Match', () => {
+    expect(getExpectedVersion(requestWith('"2"'), {})).toBe(2);
+    expect(getExpectedVersion(requestWith('"2"'))).toBe(2);
+  });
+
+  it('should return undefined when no version is given (last save wins)', () => {
+    expect(getExpectedVersion(requestWith())).toBeUndefined();
+  });
+
+  it('should reject a non-integer body version', () => {
+    expect(() => getExpectedVersion(requestWith(), { version: '3' })).toThrow(ValidationError);
+  });
+});
+
+describe('writeWithPostVersion', () => {
+  const rename = (title: string) => async () => [{ query: 'UPDATE blog_posts SET title = ? WHERE id = ?', params: [title, 'post-1'] }];
+
+  it('should claim the version and write in one batch', async () => {
+    const db = mockDB(3);
+
+    expect(await writeWithPostVersion(db, 'post-1', 3, rename('Edited'))).toBe(4);
+    expect(db.batches).toHaveLength(1);
+    expect(db.batches[0][0].query).toContain('SET version = CASE WHEN version = ? THEN version + 1 END');
+    expect(db.row).toMatchObject({ version: 4, title: 'Edited' });
+  });
+
+  it('should refuse a stale version without writing', async () => {
+    const db = mockDB(5);
+
+    await expect(writeWithPostVersion(db, 'post-1', 3, rename('Edited'))).rejects.toBeInstanceOf(ConflictError);
+    expect(db.batches).toHaveLength(0);
+  });
+
+  it('should refuse a save made meanwhile without writing, even without a version', async () => {
+    const db = mockDB(3);
+
+    // Another save lands while this one builds its writes
+    await expect(writeWithPostVersion(db, 'post-1', undefined, async () => {
+      db.row.version = 4;
+      return rename('Edited')();
+    })).rejects.toMatchObject({ statusCode: 409, details: { currentVersion: 4 } });
+    expect(db.row.title).toBe('Original');
+  });
+
+  it('should rethrow a failed write', async () => {
+    const db = mockDB(3);
+
+    await expect(writeWithPostVersion(db, 'post-1', 3, rename('fail'))).rejects.toThrow('D1 unavailable');
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Unit tests for post preview tokens
+ */
+
+import { generatePreviewToken, verifyPreviewToken } from '../../workers/lib/preview-token';
+import { generateToken, verifyToken } from '../../workers/lib/jwt';
+
+describe('Preview tokens', () => {
+  const secret = 'test-secret-key-for-jwt';
+
+  it('should round-trip post and template IDs', () => {
+    const { token, expiresAt } = generatePreviewToken('post-1', 'template-03', 'andreas', secret);
+    const payload = verifyPreviewToken(token, secret);
+
+    expect(payload?.pid).toBe('post-1');
+    expect(payload?.tid).toBe('template-03');
+    expect(payload?.by).toBe('andreas');
+    expect(new Date(expiresAt).getTime()).toBe(payload!.exp * 1000);
+  });
+
+  it('should reject expired tokens', () => {
+    const { token } = generatePreviewToken('post-1', 'template-03', 'andreas', secret, -10);
+
+    expect(verifyPreviewToken(token, secret)).toBeNull();
+  });
+
+  it('should not be interchangeable with session tokens', () => {
+    const { token: previewToken } = generatePreviewToken('post-1', 'template-03', 'andreas', secret);
+    const sessionToken = generateToken('andreas', 'contributor', false, secret);
+
+    expect(verifyToken(previewToken, secret)).toBeNull();
+    expect(verifyPreviewToken(sessionToken, secret)).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for refresh token rotation and reuse detection
+ */
+
+import { issueRefreshToken, rotateRefreshToken } from '../../workers/lib/refresh-tokens';
+
+const NOW = new Date('2026-06-01T12:00:00.000Z');
+const LATER = new Date('2026-06-01T12:05:00.000Z'); // Past the reuse grace period
+
+// In-memory refresh_tokens and sessions tables, answering the queries refresh-tokens.ts makes
+function mockDB() {
+  const refreshTokens = new Map<string, { sessionId: string; usedAt: string | null }>();
+  const sessions = new Map<string, any>([
+    ['session-1', {
+      id: 'session-1',
+      userId: 1,
+      createdAt: '2026-06-01T09:00:00.000Z',
+      lastSeenAt: '2026-06-01T11:00:00.000Z',
+      expiresAt: '2026-06-08T09:00:00.000Z',
+      revokedAt: null,
+      userAgent: null,
+      ipAddress: null,
+    }],
+  ]);
+
+  const db = {
+    sessions,
+    prepare: (query: string) => ({
+      bind: (...args: any[]) => ({
+        run: async () => {
+          if (query.startsWith('INSERT INTO refresh_tokens')) {
+            refreshTokens.set(args[0], { sessionId: args[1], usedAt: null });
+          }
+          return { success: true };
+        },
+        first: async () => {
+          if (query.startsWith('UPDATE refresh_tokens')) {
+            const row = refreshTokens.get(args[1]);
+            if (!row || row.usedAt) return null;
+            row.usedAt = args[0];
+            return { sessionId: row.sessionId };
+          }
+          if (query.startsWith('SELECT session_id')) {
+            const row = refreshTokens.get(args[0]);
+            return row ? { sessionId: row.sessionId, usedAt: row.usedAt } : null;
+          }
+          if (query.startsWith('UPDATE sessions SET revoked_at')) {
+            const session = sessions.get(args[1]);
+            if (!session || session.revokedAt) return null;
+            session.revokedAt = args[0];
+            return { id: session.id };
+          }
+          if (query.includes('FROM sessions WHERE id = ?')) {
+            return sessions.get(args[0]) || null;
+          }
+          return null;
+        },
+      }),
+    }),
+  };
+
+  return db;
+}
+
+describe('rotateRefreshToken', () => {
+  it('should replace a refresh token with a new one', async () => {
+    const db = mockDB();
+    const token = await issueRefreshToken(db, 'session-1', NOW);
+
+    const result = await rotateRefreshToken(db, token, NOW);
+
+    expect(result.valid).toBe(true);
+    expect(result.session?.id).toBe('session-1');
+    expect(result.refreshToken).toBeDefined();
+    expect(result.refreshToken).not.toBe(token);
+
+    const next = await rotateRefreshToken(db, result.refreshToken!, NOW);
+    expect(next.valid).toBe(true);
+  });
+
+  it('should revoke the session when a used token is presented again', async () => {
+    const db = mockDB();
+    const token = await issueRefreshToken(db, 'session-1', NOW);
+    const { refreshToken } = await rotateRefreshToken(db, token, NOW);
+
+    expect(await rotateRefreshToken(db, token, LATER)).toEqual({ valid: false, error: 'REUSED' });
+    expect(db.sessions.get('session-1').revokedAt).not.toBeNull();
+
+    // The rest of the family stops working too
+    expect(await rotateRefreshToken(db, refreshToken!, LATER)).toEqual({ valid: false, error: 'REVOKED' });
+  });
+
+  it('should let two tabs refresh with the same token at once', async () => {
+    const db = mockDB();
+    const token = await issueRefreshToken(db, 'session-1', NOW);
+
+    const [first, second] = await Promise.all([
+      rotateRefreshToken(db, token, NOW),
+      rotateRefreshToken(db, token, new Date(NOW.getTime() + 2000)),
+    ]);
+
+    expect(first.valid).toBe(true);
+    expect(first.refreshToken).toBeDefined();
+    expect(second.valid).toBe(true);
+    expect(second.session?.id).toBe('session-1');
+    expect(second.refreshToken).toBeUndefined(); // The browser keeps the first tab's token
+    expect(db.sessions.get('session-1').revokedAt).toBeNull();
+
+    expect((await rotateRefreshToken(db, first.refreshToken!, NOW)).valid).toBe(true);
+  });
+
+  it('should reject unknown tokens and expired sessions', async () => {
+    const db = mockDB();
+    expect(await rotateRefreshToken(db, 'not-a-token', NOW)).toEqual({ valid: false, error: 'INVALID' });
+
+    const token = await issueRefreshToken(db, 'session-1', NOW);
+    const later = new Date('2026-06-09T00:00:00.000Z');
+    expect(await rotateRefreshToken(db, token, later)).toEqual({ valid: false, error: 'REVOKED' });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for refresh endpoint
+ */
+
+import { handleRefresh } from '../../workers/auth/refresh';
+import { issueRefreshToken } from '../../workers/lib/refresh-tokens';
+
+const HOUR = 60 * 60 * 1000;
+
+// In-memory users, sessions and refresh_tokens tables, answering the queries the handler makes
+function mockDB() {
+  const refreshTokens = new Map<string, { sessionId: string; usedAt: string | null }>();
+  const sessions = new Map<string, any>([
+    ['session-1', {
+      id: 'session-1',
+      userId: 1,
+      createdAt: new Date(Date.now() - HOUR).toISOString(),
+      lastSeenAt: new Date(Date.now() - HOUR).toISOString(),
+      expiresAt: new Date(Date.now() + 23 * HOUR).toISOString(),
+      revokedAt: null,
+      userAgent: null,
+      ipAddress: null,
+    }],
+  ]);
+
+  return {
+    refreshTokens,
+    sessions,
+    prepare: (query: string) => ({
+      bind: (...args: any[]) => ({
+        run: async () => {
+          if (query.startsWith('INSERT INTO refresh_tokens')) {
+            refreshTokens.set(args[0], { sessionId: args[1], usedAt: null });
+          }
+          return { success: true };
+        },
+        first: async () => {
+          if (query.startsWith('UPDATE refresh_tokens')) {
+            const row = refreshTokens.get(args[1]);
+            if (!row || row.usedAt) return null;
+            row.usedAt = args[0];
+            return { sessionId: row.sessionId };
+          }
+          if (query.startsWith('SELECT session_id')) {
+            const row = refreshTokens.get(args[0]);
+            return row ? { sessionId: row.sessionId, usedAt: row.usedAt } : null;
+          }
+          if (query.startsWith('UPDATE sessions SET revoked_at')) {
+            const session = sessions.get(args[1]);
+            if (!session || session.revokedAt) return null;
+            session.revokedAt = args[0];
+            return { id: session.id };
+          }
+          if (query.includes('FROM sessions WHERE id = ?')) {
+            return sessions.get(args[0]) || null;
+          }
+          if (query.includes('FROM users WHERE id = ?')) {
+            return args[0] === 1
+              ? { id: 1, username: 'testuser', role: 'reader', displayName: 'Test User', disabledAt: null }
+              : null;
+          }
+          return null;
+        },
+      }),
+    }),
+  };
+}
+
+function refreshRequest(refreshToken?: string): Request {
+  return new Request('http://localhost/api/auth/refresh', {
+    method: 'POST',
+    headers: refreshToken ? { Cookie: `refresh_token=${refreshToken}` } : {},
+  });
+}
+
+function mockEnv(db: any) {
+  return {
+    JWT_SECRET: 'test-jwt-secret',
+    DB: db,
+    NODE_ENV: 'test',
+  };
+}
+
+describe('POST /api/auth/refresh', () => {
+  it('should return a new access token and rotate the refresh cookie', async () => {
+    const db = mockDB();
+    const token = await issueRefreshToken(db, 'session-1');
+
+    const response = await handleRefresh(refreshRequest(token), mockEnv(db) as any);
+
+    expect(response.status).toBe(200);
+
+    const data = await response.json();
+    expect(data.success).toBe(true);
+    expect(data.user.username).toBe('testuser');
+    expect(data.token).toBeDefined();
+
+    const setCookie = response.headers.get('Set-Cookie');
+    expect(setCookie).toContain('session=');
+    expect(setCookie).toContain('refresh_token=');
+    expect(setCookie).not.toContain(`refresh_token=${token}`);
+  });
+
+  it('should clear the refresh cookie when the refresh fails', async () => {
+    const response = await handleRefresh(refreshRequest('unknown-token'), mockEnv(mockDB()) as any);
+
+    expect(response.status).toBe(401);
+
+    const data = await response.json();
+    expect(data.error).toBe('INVALID_REFRESH_TOKEN');
+
+    const setCookie = response.headers.get('Set-Cookie');
+    expect(setCookie).toContain('refresh_token=;');
+    expect(setCookie).toContain('Max-Age=0');
+    expect(setCookie).toContain('Path=/api/auth');
+  });
+
+  it('should return 401 without a refresh cookie', async () => {
+    const response = await handleRefresh(refreshRequest(), mockEnv(mockDB()) as any);
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).error).toBe('NO_REFRESH_TOKEN');
+  });
+
+  it('should return 401 and revoke the session when a used refresh token comes back', async () => {
+    const db = mockDB();
+    const token = await issueRefreshToken(db, 'session-1');
+    const [row] = db.refreshTokens.values();
+    row.usedAt = new Date(Date.now() - HOUR).toISOString(); // Used long before the grace period
+
+    const response = await handleRefresh(refreshRequest(token), mockEnv(db) as any);
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).error).toBe('REFRESH_TOKEN_REUSED');
+    expect(response.headers.get('Set-Cookie')).toContain('Max-Age=0');
+    expect(db.sessions.get('session-1').revokedAt).not.toBeNull();
+  });
+
+  it('should keep the session when two tabs refresh with the same token', async () => {
+    const db = mockDB();
+    const token = await issueRefreshToken(db, 'session-1');
+
+    const first = await handleRefresh(refreshRequest(token), mockEnv(db) as any);
+    const second = await handleRefresh(refreshRequest(token), mockEnv(db) as any);
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(second.headers.get('Set-Cookie')).not.toContain('refresh_token=');
+    expect(db.sessions.get('session-1').revokedAt).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for related post scoring
+ */
+
+import {
+  buildTermVectors,
+  cosineSimilarity,
+  isRelatedCacheFresh,
+  scoreRelatedPosts,
+  tokenize,
+  type RelatedSource
+} from '../../workers/lib/related-posts';
+
+function source(id: string, overrides: Partial<RelatedSource> = {}): RelatedSource {
+  return {
+    id,
+    publishedAt: '2024-01-01T00:00:00.000Z',
+    countryCode: null,
+    tags: [],
+    text: '',
+    ...overrides,
+  };
+}
+
+describe('tokenize', () => {
+  it('should drop markup, numbers, short words and stop words', () => {
+    expect(tokenize('<p>The gelato in Rome &amp; 2024 was <strong>Amazing</strong></p>'))
+      .toEqual(['gelato', 'rome', 'amazing']);
+  });
+
+  it('should keep accented words whole', () => {
+    expect(tokenize('Crème brûlée in Besançon')).toEqual(['crème', 'brûlée', 'besançon']);
+  });
+});
+
+describe('buildTermVectors', () => {
+  it('should give no weight to terms every post uses', () => {
+    const [a, b] = buildTermVectors(['travel gelato', 'travel hiking']);
+
+    expect(a.has('travel')).toBe(false);
+    expect(cosineSimilarity(a, b)).toBe(0);
+  });
+
+  it('should score identical texts as fully similar', () => {
+    const [a, b] = buildTermVectors(['gelato pasta rome', 'gelato pasta rome', 'fjords hiking bergen']);
+    expect(cosineSimilarity(a, b)).toBeCloseTo(1);
+  });
+});
+
+describe('scoreRelatedPosts', () => {
+  it('should rank posts about the same things first', () => {
+    const target = source('rome', { text: 'Eating gelato and pasta in Rome', tags: ['food'], countryCode: 'IT' });
+    const ranking = scoreRelatedPosts(target, [
+      source('bergen', { text: 'Hiking the fjords around Bergen', tags: ['hiking'], countryCode: 'NO' }),
+      source('florence', { text: 'More gelato in Florence', tags: ['food'], countryCode: 'IT' }),
+      source('milan', { text: 'Trains and museums in Milan', countryCode: 'IT' }),
+    ]);
+
+    expect(ranking.map(r => r.id)).toEqual(['florence', 'milan']);
+    expect(ranking[0].score).toBeGreaterThan(ranking[1].score);
+  });
+
+  it('should only use publish dates to break ties between posts with something in common', () => {
+    const target = source('a', { countryCode: 'IT' });
+    const ranking = scoreRelatedPosts(target, [
+      source('later', { countryCode: 'IT', publishedAt: '2024-06-01T00:00:00.000Z' }),
+      source('sooner', { countryCode: 'IT', publishedAt: '2024-01-15T00:00:00.000Z' }),
+      source('unrelated', { publishedAt: '2024-01-01T00:00:00.000Z' }),
+    ]);
+
+    expect(ranking.map(r => r.id)).toEqual(['sooner', 'later']);
+  });
+
+  it('should never recommend the post itself and respect the limit', () => {
+    const target = source('a', { countryCode: 'IT' });
+    const ranking = scoreRelatedPosts(target, [target, source('b', { countryCode: 'IT' }), source('c', { countryCode: 'IT' })], 1);
+
+    expect(ranking).toHaveLength(1);
+    expect(ranking[0].id).not.toBe('a');
+  });
+});
+
+describe('isRelatedCacheFresh', () => {
+  const now = new Date('2024-05-01T12:00:00.000Z');
+
+  it('should reuse a recent ranking of the same post version', () => {
+    expect(isRelatedCacheFresh({ post_version: 3, computed_at: '2024-05-01T10:00:00.000Z' }, 3, now)).toBe(true);
+  });
+
+  it('should recompute after the post changed or the entry expired', () => {
+    expect(isRelatedCacheFresh({ post_version: 2, computed_at: '2024-05-01T10:00:00.000Z' }, 3, now)).toBe(false);
+    expect(isRelatedCacheFresh({ post_version: 3, computed_at: '2024-04-30T10:00:00.000Z' }, 3, now)).toBe(false);
+  });
+});
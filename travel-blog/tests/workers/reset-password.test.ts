@@ -0,0 +1,159 @@
+/**
+ * Unit tests for password reset endpoints
+ */
+
+import { requestPasswordReset } from '../../workers/auth/request-password-reset';
+import { resetPassword } from '../../workers/auth/reset-password';
+import { hashResetToken } from '../../workers/lib/password-reset';
+
+const USERS = [
+  { id: 1, username: 'nana', role: 'reader', displayName: 'Nana', email: 'nana@example.com', disabledAt: null },
+  { id: 2, username: 'noemail', role: 'reader', displayName: 'No Email', email: null, disabledAt: null },
+];
+
+// In-memory users and password_reset_tokens tables, recording revoked users
+function mockDB() {
+  const resetTokens = new Map<string, { userId: number; usedAt: string | null }>();
+  const revokedUsers: number[] = [];
+  const passwordUpdates: number[] = [];
+
+  const statement = (query: string, args: any[]) => ({
+    run: async () => {
+      if (query.startsWith('INSERT INTO password_reset_tokens')) {
+        resetTokens.set(args[2], { userId: args[1], usedAt: null });
+      }
+      if (query.startsWith('UPDATE users SET password_hash')) {
+        passwordUpdates.push(args[2]);
+      }
+      if (query.startsWith('UPDATE sessions SET revoked_at')) {
+        revokedUsers.push(args[1]);
+      }
+      return { success: true };
+    },
+    first: async () => {
+      if (query.includes('FROM users WHERE LOWER(username) = ?')) {
+        return USERS.find(user => user.username === args[0]) || null;
+      }
+      if (query.includes('FROM users WHERE id = ?')) {
+        return USERS.find(user => user.id === args[0]) || null;
+      }
+      if (query.startsWith('UPDATE password_reset_tokens')) {
+        const row = resetTokens.get(args[1]);
+        if (!row || row.usedAt) return null;
+        row.usedAt = args[0];
+        return { userId: row.userId };
+      }
+      return null; // No earlier reset request
+    },
+  });
+
+  return {
+    resetTokens,
+    revokedUsers,
+    passwordUpdates,
+    prepare: (query: string) => ({
+      bind: (...args: any[]) => statement(query, args),
+    }),
+    batch: async (statements: any[]) => Promise.all(statements.map(s => s.run())),
+  };
+}
+
+function mockEnv(db: any) {
+  return {
+    JWT_SECRET: 'test-jwt-secret',
+    DB: db,
+    NODE_ENV: 'test',
+    APP_URL: 'https://blog.example.com',
+    NOTIFIER_TRANSPORT: 'webhook',
+    NOTIFIER_WEBHOOK_URL: 'https://mail.example.com/send',
+  };
+}
+
+function jsonRequest(path: string, body: any): Request {
+  return new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('POST /api/auth/password-reset/request', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn(async () => new Response(null, { status: 202 }));
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  async function requestReset(username: string, db = mockDB()) {
+    const response = await requestPasswordReset(
+      jsonRequest('/api/auth/password-reset/request', { username }),
+      mockEnv(db) as any
+    );
+    return { status: response.status, body: await response.json() };
+  }
+
+  it('should send a reset link built from APP_URL', async () => {
+    const db = mockDB();
+    await requestReset('nana', db);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const sent = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(sent.to).toBe('nana@example.com');
+    expect(sent.text).toContain('https://blog.example.com/reset-password?token=');
+    expect(db.resetTokens.size).toBe(1);
+  });
+
+  it('should answer the same for unknown and known users', async () => {
+    const known = await requestReset('nana');
+    const unknown = await requestReset('nobody');
+    const withoutEmail = await requestReset('noemail');
+
+    expect(unknown).toEqual(known);
+    expect(withoutEmail).toEqual(known);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should answer the same when the message cannot be delivered', async () => {
+    const known = await requestReset('nana');
+    fetchMock.mockImplementation(async () => new Response(null, { status: 502 }));
+
+    expect(await requestReset('nana')).toEqual(known);
+  });
+});
+
+describe('POST /api/auth/password-reset/confirm', () => {
+  it('should set the password and revoke every session of the user', async () => {
+    const db = mockDB();
+    const token = 'reset-token';
+    db.resetTokens.set(await hashResetToken(token), { userId: 1, usedAt: null });
+
+    const response = await resetPassword(
+      jsonRequest('/api/auth/password-reset/confirm', { token, password: 'newpassword123' }),
+      mockEnv(db) as any
+    );
+
+    expect(response.status).toBe(200);
+    expect(db.passwordUpdates).toEqual([1]);
+    expect(db.revokedUsers).toEqual([1]);
+  });
+
+  it('should reject a token that was already used', async () => {
+    const db = mockDB();
+    const token = 'reset-token';
+    db.resetTokens.set(await hashResetToken(token), { userId: 1, usedAt: '2026-01-01T00:00:00.000Z' });
+
+    await expect(resetPassword(
+      jsonRequest('/api/auth/password-reset/confirm', { token, password: 'newpassword123' }),
+      mockEnv(db) as any
+    )).rejects.toMatchObject({ statusCode: 400 });
+
+    expect(db.passwordUpdates).toEqual([]);
+    expect(db.revokedUsers).toEqual([]);
+  });
+});
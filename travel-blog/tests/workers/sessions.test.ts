@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the session registry
+ */
+
+import { generateToken } from '../../workers/lib/jwt';
+import {
+  getClientInfo,
+  isSessionActive,
+  needsLastSeenUpdate,
+  verifySessionToken
+} from '../../workers/lib/sessions';
+
+const SECRET = 'test-secret-key-for-jwt-signing';
+const NOW = new Date('2026-06-01T12:00:00.000Z');
+
+function sessionRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'session-1',
+    userId: 1,
+    createdAt: '2026-06-01T09:00:00.000Z',
+    lastSeenAt: '2026-06-01T11:59:00.000Z',
+    expiresAt: '2026-06-02T09:00:00.000Z',
+    revokedAt: null,
+    userAgent: null,
+    ipAddress: null,
+    ...overrides,
+  };
+}
+
+function mockDB(row: Record<string, unknown> | null) {
+  const updates: any[][] = [];
+  return {
+    updates,
+    prepare: (query: string) => ({
+      bind: (...args: any[]) => ({
+        first: async () => row,
+        run: async () => {
+          if (query.startsWith('UPDATE sessions')) updates.push(args);
+          return { success: true };
+        },
+      }),
+    }),
+  };
+}
+
+describe('isSessionActive', () => {
+  it('should reject revoked and expired sessions', () => {
+    expect(isSessionActive(sessionRow(), NOW)).toBe(true);
+    expect(isSessionActive(sessionRow({ revokedAt: '2026-06-01T10:00:00.000Z' }), NOW)).toBe(false);
+    expect(isSessionActive(sessionRow({ expiresAt: '2026-06-01T12:00:00.000Z' }), NOW)).toBe(false);
+  });
+});
+
+describe('needsLastSeenUpdate', () => {
+  it('should refresh last seen at most every five minutes', () => {
+    expect(needsLastSeenUpdate(sessionRow(), NOW)).toBe(false);
+    expect(needsLastSeenUpdate(sessionRow({ lastSeenAt: '2026-06-01T11:55:00.000Z' }), NOW)).toBe(true);
+  });
+});
+
+describe('getClientInfo', () => {
+  it('should read the user agent and client IP', () => {
+    const request = new Request('http://localhost/', {
+      headers: { 'User-Agent': 'Mozilla/5.0', 'CF-Connecting-IP': '203.0.113.7' },
+    });
+    expect(getClientInfo(request)).toEqual({ userAgent: 'Mozilla/5.0', ipAddress: '203.0.113.7' });
+    expect(getClientInfo(new Request('http://localhost/'))).toEqual({ userAgent: null, ipAddress: null });
+  });
+});
+
+describe('verifySessionToken', () => {
+  const token = generateToken('testuser', 'reader', false, SECRET, 'session-1');
+
+  it('should accept a token whose session is active', async () => {
+    const result = await verifySessionToken(token, SECRET, mockDB(sessionRow({ expiresAt: '2099-01-01T00:00:00.000Z' })));
+    expect(result.valid).toBe(true);
+    expect(result.payload?.jti).toBe('session-1');
+  });
+
+  it('should reject revoked and unknown sessions', async () => {
+    const revoked = sessionRow({ revokedAt: new Date().toISOString(), expiresAt: '2099-01-01T00:00:00.000Z' });
+    expect(await verifySessionToken(token, SECRET, mockDB(revoked))).toEqual({ valid: false, error: 'REVOKED' });
+    expect(await verifySessionToken(token, SECRET, mockDB(null))).toEqual({ valid: false, error: 'REVOKED' });
+  });
+
+  it('should pass on token errors without touching the registry', async () => {
+    const result = await verifySessionToken(token, 'wrong-secret', mockDB(null));
+    expect(result).toEqual({ valid: false, error: 'INVALID' });
+  });
+
+  it('should record the device when last seen is stale', async () => {
+    const db = mockDB(sessionRow({ lastSeenAt: '2000-01-01T00:00:00.000Z', expiresAt: '2099-01-01T00:00:00.000Z' }));
+    const request = new Request('http://localhost/', { headers: { 'User-Agent': 'Mozilla/5.0' } });
+
+    await verifySessionToken(token, SECRET, db, request);
+
+    expect(db.updates).toHaveLength(1);
+    expect(db.updates[0].slice(1)).toEqual(['Mozilla/5.0', null, 'session-1']);
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Unit tests for slug history queries
+ */
+
+import { retireSlugQueries } from '../../workers/lib/slug-history';
+
+describe('retireSlugQueries', () => {
+  it('should record the old slug for the post', () => {
+    const queries = retireSlugQueries('post-1', 'old-slug', 'new-slug');
+    const insert = queries.find(q => q.query.includes('INSERT INTO slug_history'));
+
+    expect(insert).toBeDefined();
+    expect(insert!.params.slice(0, 2)).toEqual(['old-slug', 'post-1']);
+  });
+
+  it('should release the new slug from the post history first', () => {
+    const queries = retireSlugQueries('post-1', 'old-slug', 'new-slug');
+
+    expect(queries[0].query).toContain('DELETE FROM slug_history');
+    expect(queries[0].params).toEqual(['new-slug', 'post-1']);
+  });
+});
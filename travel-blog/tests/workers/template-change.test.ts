@@ -0,0 +1,30 @@
+/**
+ * Unit tests for template change content preservation
+ */
+
+import { buildContentPreservation } from '../../workers/lib/template-change';
+
+describe('buildContentPreservation', () => {
+  const template = { name: 'Video-First Layout', maxPhotos: 8, maxVideos: 1 };
+
+  it('should display everything when content fits the template', () => {
+    expect(buildContentPreservation({ photos: 5, videos: 1, textSections: 2 }, template)).toEqual({
+      photosCount: 5,
+      videosCount: 1,
+      textSectionsCount: 2,
+      displayedPhotos: 5,
+      displayedVideos: 1,
+    });
+  });
+
+  it('should cap displayed content and warn about hidden items', () => {
+    const result = buildContentPreservation({ photos: 12, videos: 3, textSections: 1 }, template);
+
+    expect(result.displayedPhotos).toBe(8);
+    expect(result.displayedVideos).toBe(1);
+    expect(result.warnings).toEqual([
+      'Video-First Layout shows up to 8 photos; 4 photo(s) will be hidden',
+      'Video-First Layout shows up to 1 videos; 2 video(s) will be hidden',
+    ]);
+  });
+});
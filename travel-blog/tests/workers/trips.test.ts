@@ -0,0 +1,98 @@
+/**
+ * Unit tests for trip validation and navigation
+ */
+
+import {
+  buildTripNavigation,
+  parseTripDate,
+  parseTripPostIds,
+  parseTripTitle,
+  validateTripDates,
+  MAX_TRIP_PARTS
+} from '../../workers/lib/trips';
+import { ValidationError } from '../../workers/lib/errors';
+
+describe('parseTripDate', () => {
+  it('should accept YYYY-MM-DD dates', () => {
+    expect(parseTripDate('2024-05-20', 'startDate')).toBe('2024-05-20');
+  });
+
+  it('should treat null and empty as cleared', () => {
+    expect(parseTripDate(null, 'startDate')).toBeNull();
+    expect(parseTripDate('', 'startDate')).toBeNull();
+  });
+
+  it('should reject other formats and impossible dates', () => {
+    expect(() => parseTripDate('20/05/2024', 'startDate')).toThrow(ValidationError);
+    expect(() => parseTripDate('2024-02-30', 'startDate')).toThrow(ValidationError);
+  });
+});
+
+describe('validateTripDates', () => {
+  it('should reject trips that end before they start', () => {
+    expect(() => validateTripDates('2024-05-20', '2024-05-01')).toThrow(ValidationError);
+  });
+
+  it('should allow open-ended and single-day trips', () => {
+    expect(() => validateTripDates('2024-05-20', null)).not.toThrow();
+    expect(() => validateTripDates('2024-05-20', '2024-05-20')).not.toThrow();
+  });
+});
+
+describe('parseTripTitle', () => {
+  it('should trim the title', () => {
+    expect(parseTripTitle('  Italy 2024 ')).toBe('Italy 2024');
+  });
+
+  it('should require a title', () => {
+    expect(() => parseTripTitle('   ')).toThrow(ValidationError);
+    expect(() => parseTripTitle(undefined)).toThrow(ValidationError);
+  });
+});
+
+describe('parseTripPostIds', () => {
+  it('should keep the given order', () => {
+    expect(parseTripPostIds(['b', 'a', 'c'])).toEqual(['b', 'a', 'c']);
+  });
+
+  it('should reject duplicates and non-strings', () => {
+    expect(() => parseTripPostIds(['a', 'a'])).toThrow(ValidationError);
+    expect(() => parseTripPostIds([1])).toThrow(ValidationError);
+    expect(() => parseTripPostIds('a')).toThrow(ValidationError);
+  });
+
+  it('should limit the number of parts', () => {
+    const ids = Array.from({ length: MAX_TRIP_PARTS + 1 }, (_, i) => `post-${i}`);
+    expect(() => parseTripPostIds(ids)).toThrow(ValidationError);
+  });
+});
+
+describe('buildTripNavigation', () => {
+  const trip = { id: 'trip-1', slug: 'italy-2024', title: 'Italy 2024' };
+  const parts = [
+    { id: 'p1', slug: 'rome', title: 'Rome' },
+    { id: 'p2', slug: 'florence', title: 'Florence' },
+    { id: 'p3', slug: 'venice', title: 'Venice' },
+  ];
+
+  it('should number parts and link neighbours', () => {
+    expect(buildTripNavigation(trip, parts, 'p2')).toEqual({
+      tripId: 'trip-1',
+      tripSlug: 'italy-2024',
+      tripTitle: 'Italy 2024',
+      part: 2,
+      totalParts: 3,
+      previous: parts[0],
+      next: parts[2],
+    });
+  });
+
+  it('should have no previous part at the start and no next part at the end', () => {
+    expect(buildTripNavigation(trip, parts, 'p1')?.previous).toBeNull();
+    expect(buildTripNavigation(trip, parts, 'p3')?.next).toBeNull();
+  });
+
+  it('should return null for posts not visible in the trip', () => {
+    expect(buildTripNavigation(trip, parts, 'p9')).toBeNull();
+  });
+});
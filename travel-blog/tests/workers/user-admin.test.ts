@@ -0,0 +1,96 @@
+/**
+ * Unit tests for user management rules
+ */
+
+import {
+  assertCanRemoveAccess,
+  parseCreateUserInput,
+  parseEmail,
+  parseUpdateUserInput,
+  parseUserId
+} from '../../workers/lib/user-admin';
+import { toManagedUser, type User } from '../../workers/lib/user-service';
+import { ConflictError, ValidationError } from '../../workers/lib/errors';
+
+function user(overrides: Partial<User> = {}): User {
+  return {
+    id: 2,
+    username: 'grandma',
+    passwordHash: '$2b$10$hash',
+    role: 'reader',
+    createdAt: '2026-01-01 00:00:00',
+    updatedAt: '2026-01-01 00:00:00',
+    displayName: 'Grandma',
+    disabledAt: null,
+    ...overrides,
+  };
+}
+
+describe('parseCreateUserInput', () => {
+  it('should normalize the username and default to a reader without a display name', () => {
+    expect(parseCreateUserInput({ username: '  Grandma ', password: 'longenough' })).toEqual({
+      username: 'grandma',
+      password: 'longenough',
+      role: 'reader',
+      displayName: null,
+      email: null,
+    });
+  });
+
+  it('should reject invalid usernames, passwords and roles', () => {
+    expect(() => parseCreateUserInput({ username: 'a b', password: 'longenough' })).toThrow(ValidationError);
+    expect(() => parseCreateUserInput({ username: 'grandma', password: 'short' })).toThrow(ValidationError);
+    expect(() => parseCreateUserInput({ username: 'grandma', password: 'longenough', role: 'admin' })).toThrow(ValidationError);
+  });
+});
+
+describe('parseUpdateUserInput', () => {
+  it('should trim display names and clear empty ones', () => {
+    expect(parseUpdateUserInput({ displayName: '  Nana ' })).toEqual({ displayName: 'Nana' });
+    expect(parseUpdateUserInput({ displayName: ' ', role: 'contributor' })).toEqual({ displayName: null, role: 'contributor' });
+  });
+
+  it('should require at least one change', () => {
+    expect(() => parseUpdateUserInput({ username: 'renamed' })).toThrow(ValidationError);
+  });
+});
+
+describe('parseEmail', () => {
+  it('should normalize addresses and clear empty ones', () => {
+    expect(parseEmail(' Grandma@Example.com ')).toBe('grandma@example.com');
+    expect(parseEmail('')).toBeNull();
+    expect(parseEmail(null)).toBeNull();
+  });
+
+  it('should reject malformed addresses', () => {
+    expect(() => parseEmail('grandma')).toThrow(ValidationError);
+    expect(() => parseEmail('grandma@example')).toThrow(ValidationError);
+  });
+});
+
+describe('parseUserId', () => {
+  it('should accept positive integers only', () => {
+    expect(parseUserId('12')).toBe(12);
+    expect(() => parseUserId('0')).toThrow(ValidationError);
+    expect(() => parseUserId('1e3')).toThrow(ValidationError);
+    expect(() => parseUserId(undefined)).toThrow(ValidationError);
+  });
+});
+
+describe('assertCanRemoveAccess', () => {
+  it('should not let contributors demote or disable themselves', () => {
+    expect(() => assertCanRemoveAccess('mum', user({ username: 'mum', role: 'contributor' }), 2)).toThrow(ValidationError);
+  });
+
+  it('should keep the last active contributor', () => {
+    expect(() => assertCanRemoveAccess('mum', user({ role: 'contributor' }), 1)).toThrow(ConflictError);
+    expect(() => assertCanRemoveAccess('mum', user({ role: 'contributor' }), 2)).not.toThrow();
+    expect(() => assertCanRemoveAccess('mum', user(), 1)).not.toThrow();
+  });
+});
+
+describe('toManagedUser', () => {
+  it('should leave out the password hash', () => {
+    expect(toManagedUser(user())).not.toHaveProperty('passwordHash');
+  });
+});
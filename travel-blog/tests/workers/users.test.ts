@@ -0,0 +1,153 @@
+/**
+ * Unit tests for user management endpoints
+ */
+
+import { disableUser } from '../../workers/auth/set-user-disabled';
+import { updateUser } from '../../workers/auth/update-user';
+import { generateToken } from '../../workers/lib/jwt';
+
+const JWT_SECRET = 'test-jwt-secret';
+const HOUR = 60 * 60 * 1000;
+
+function session(id: string, userId: number) {
+  return {
+    id,
+    userId,
+    createdAt: new Date(Date.now() - HOUR).toISOString(),
+    lastSeenAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 23 * HOUR).toISOString(),
+    revokedAt: null as string | null,
+    userAgent: null,
+    ipAddress: null,
+  };
+}
+
+function user(id: number, username: string, role: string) {
+  return { id, username, passwordHash: '$2b$10$hash', role, displayName: null, email: null, disabledAt: null as string | null };
+}
+
+// In-memory users and sessions tables, answering the queries the handlers make
+function mockDB(users = [user(1, 'admin', 'contributor'), user(2, 'editor', 'contributor'), user(3, 'grandma', 'reader')]) {
+  const sessions = new Map<string, any>([
+    ['admin-session', session('admin-session', 1)],
+    ['editor-session', session('editor-session', 2)],
+  ]);
+
+  const statement = (query: string, args: any[]) => ({
+    run: async () => {
+      if (query.startsWith('UPDATE sessions SET revoked_at')) {
+        sessions.forEach(s => {
+          if (s.userId === args[1] && !s.revokedAt) s.revokedAt = args[0];
+        });
+      }
+      return { success: true };
+    },
+    first: async () => {
+      if (query.includes('FROM sessions WHERE id = ?')) {
+        return sessions.get(args[0]) || null;
+      }
+      if (query.includes('FROM users WHERE id = ?')) {
+        const found = users.find(u => u.id === args[0]);
+        return found ? { ...found } : null;
+      }
+      if (query.includes('COUNT(*) as count FROM users')) {
+        return { count: users.filter(u => u.role === 'contributor' && !u.disabledAt).length };
+      }
+      if (query.includes(', role = ? WHERE id = ?')) {
+        const target = users.find(u => u.id === args[1]);
+        if (target) target.role = args[0];
+        return target ? { ...target } : null;
+      }
+      if (query.includes('disabled_at = COALESCE')) {
+        const target = users.find(u => u.id === args[0]);
+        if (target) target.disabledAt = target.disabledAt || '2026-06-01 12:00:00';
+        return target ? { ...target } : null;
+      }
+      return null;
+    },
+  });
+
+  return {
+    users,
+    sessions,
+    prepare: (query: string) => ({
+      ...statement(query, []),
+      bind: (...args: any[]) => statement(query, args),
+    }),
+  };
+}
+
+// Signed in as admin, with itty-router's route params on the request
+function adminRequest(method: string, path: string, userId: number, body?: any): Request {
+  const token = generateToken('admin', 'contributor', false, JWT_SECRET, 'admin-session');
+  const request = new Request(`http://localhost${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', Cookie: `session=${token}` },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return Object.assign(request, { params: { userId: String(userId) } });
+}
+
+function mockEnv(db: any) {
+  return { JWT_SECRET, DB: db, NODE_ENV: 'test' };
+}
+
+describe('PATCH /api/auth/users/:userId', () => {
+  it('should demote a contributor and sign them out', async () => {
+    const db = mockDB();
+
+    const response = await updateUser(adminRequest('PATCH', '/api/auth/users/2', 2, { role: 'reader' }), mockEnv(db), {});
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).user.role).toBe('reader');
+    expect(db.sessions.get('editor-session').revokedAt).not.toBeNull();
+    expect(db.sessions.get('admin-session').revokedAt).toBeNull();
+  });
+
+  it('should not let contributors demote themselves', async () => {
+    const db = mockDB();
+
+    await expect(updateUser(adminRequest('PATCH', '/api/auth/users/1', 1, { role: 'reader' }), mockEnv(db), {}))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(db.users[0].role).toBe('contributor');
+  });
+
+  it('should not demote the last active contributor', async () => {
+    // The admin's account was demoted after this session was issued
+    const db = mockDB([user(1, 'admin', 'reader'), user(2, 'editor', 'contributor')]);
+
+    await expect(updateUser(adminRequest('PATCH', '/api/auth/users/2', 2, { role: 'reader' }), mockEnv(db), {}))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect(db.users[1].role).toBe('contributor');
+    expect(db.sessions.get('editor-session').revokedAt).toBeNull();
+  });
+});
+
+describe('POST /api/auth/users/:userId/disable', () => {
+  it('should disable a user and sign them out', async () => {
+    const db = mockDB();
+
+    const response = await disableUser(adminRequest('POST', '/api/auth/users/2/disable', 2), mockEnv(db), {});
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).user.disabledAt).not.toBeNull();
+    expect(db.sessions.get('editor-session').revokedAt).not.toBeNull();
+  });
+
+  it('should not disable the last active contributor', async () => {
+    const db = mockDB([user(1, 'admin', 'reader'), user(2, 'editor', 'contributor')]);
+
+    await expect(disableUser(adminRequest('POST', '/api/auth/users/2/disable', 2), mockEnv(db), {}))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect(db.users[1].disabledAt).toBeNull();
+    expect(db.sessions.get('editor-session').revokedAt).toBeNull();
+  });
+
+  it('should not let contributors disable themselves', async () => {
+    const db = mockDB();
+
+    await expect(disableUser(adminRequest('POST', '/api/auth/users/1/disable', 1), mockEnv(db), {}))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(db.sessions.get('admin-session').revokedAt).toBeNull();
+  });
+});
@@ -25,8 +25,29 @@ const mockDB = {
               createdAt: '2025-11-13T00:00:00Z',
             };
           }
+          if (username === 'changeduser') {
+            return {
+              id: 2,
+              username: 'changeduser',
+              passwordHash: '$2b$10$3uY2msEgvhygThAlzDzMBetHrD7GSffYj.W8WZ3I9VVlTmepwdPoi',
+              role: 'reader',
+              createdAt: '2025-11-13T00:00:00Z',
+              passwordChangedAt: '2026-01-01T12:00:00.000Z',
+            };
+          }
           return null;
         }
+        // Mock session registry: every session is active except 'revoked-session'
+        if (query.includes('FROM sessions')) {
+          return {
+            id: args[0],
+            userId: 1,
+            createdAt: new Date().toISOString(),
+            lastSeenAt: new Date().toISOString(),
+            expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+            revokedAt: args[0] === 'revoked-session' ? new Date().toISOString() : null,
+          };
+        }
         return null;
       },
     }),
@@ -163,6 +184,71 @@ describe('GET /api/auth/verify', () => {
       expect(data.message).toContain('expired');
     });
   });
+
+  describe('Password changed', () => {
+    it('should return 401 for a session issued before the password changed', async () => {
+      const changedAt = Math.floor(Date.parse('2026-01-01T12:00:00.000Z') / 1000);
+      const token = jwt.sign(
+        { sub: 'changeduser', role: 'reader', iat: changedAt - 60, exp: Math.floor(Date.now() / 1000) + 3600, rememberMe: true, jti: 'active-session' },
+        mockEnv.JWT_SECRET,
+        { algorithm: 'HS256' }
+      );
+
+      const request = new Request('http://localhost/api/auth/verify', {
+        method: 'GET',
+        headers: {
+          Cookie: `session=${token}`,
+        },
+      });
+
+      const response = await handleVerify(request, mockEnv);
+
+      expect(response.status).toBe(401);
+
+      const data = await response.json();
+      expect(data.error).toBe('INVALID_SESSION');
+    });
+  });
+
+  describe('Revoked session', () => {
+    it('should return 401 for a session that was signed out', async () => {
+      const token = generateToken('testuser', 'reader', true, mockEnv.JWT_SECRET, 'revoked-session');
+
+      const request = new Request('http://localhost/api/auth/verify', {
+        method: 'GET',
+        headers: {
+          Cookie: `session=${token}`,
+        },
+      });
+
+      const response = await handleVerify(request, mockEnv);
+
+      expect(response.status).toBe(401);
+
+      const data = await response.json();
+      expect(data.error).toBe('SESSION_REVOKED');
+    });
+
+    it('should return 401 for a token without a session', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const token = jwt.sign(
+        { sub: 'testuser', role: 'reader', iat: now, exp: now + 3600, rememberMe: false },
+        mockEnv.JWT_SECRET,
+        { algorithm: 'HS256' }
+      );
+
+      const request = new Request('http://localhost/api/auth/verify', {
+        method: 'GET',
+        headers: {
+          Cookie: `session=${token}`,
+        },
+      });
+
+      const response = await handleVerify(request, mockEnv);
+
+      expect(response.status).toBe(401);
+    });
+  });
   
   describe('Performance', () => {
     it('should verify session in < 100ms', async () => {
@@ -0,0 +1,112 @@
+/**
+ * Change Password Endpoint
+ * Feature: password-reset
+ * POST /api/auth/change-password
+ *
+ * Changes the signed-in user's password ({ currentPassword, newPassword }).
+ * Every other session of the user is revoked; this one continues with the
+ * new session token returned in the body and cookie. Wrong current passwords
+ * count towards the login rate limit.
+ */
+
+import { withAuth } from '../lib/auth-middleware';
+import { generateToken } from '../lib/jwt';
+import { requireJwtKeys } from '../lib/jwt-keys';
+import { hashPassword, verifyPassword } from '../lib/password';
+import { checkRateLimit, recordFailedAttempt } from '../lib/rate-limiter';
+import { sanitizePassword, isValidPassword } from '../lib/sanitize';
+import { buildRefreshCookie, buildSessionCookie, getSessionMaxAge } from '../lib/session-cookie';
+import { createSession, getClientInfo, revokeUserSessions } from '../lib/sessions';
+import { issueRefreshToken } from '../lib/refresh-tokens';
+import { generateUUID } from '../lib/uuid';
+import { findUserByUsername, updatePassword } from '../lib/user-service';
+import {
+  ApiErrorResponse,
+  UnauthorizedError,
+  ValidationError,
+  ServerError,
+  successResponse,
+  parseJsonBody
+} from '../lib/errors';
+import type { Env } from '../types';
+
+interface ChangePasswordRequest {
+  currentPassword?: string;
+  newPassword?: string;
+}
+
+export const changePassword = withAuth(async (request: Request, session, env: Env) => {
+  try {
+    const body = await parseJsonBody<ChangePasswordRequest>(request);
+
+    const currentPassword = sanitizePassword(body.currentPassword);
+    const newPassword = sanitizePassword(body.newPassword);
+
+    if (!currentPassword) {
+      throw new ValidationError('Current password is required');
+    }
+    if (!isValidPassword(newPassword)) {
+      throw new ValidationError('New password must be 8-72 characters');
+    }
+    if (newPassword === currentPassword) {
+      throw new ValidationError('New password must be different from the current one');
+    }
+
+    const rateLimitResult = await checkRateLimit(env.RATE_LIMIT_KV || null, session.sub);
+
+    if (!rateLimitResult.allowed) {
+      throw new ApiErrorResponse(
+        'RATE_LIMITED',
+        'Too many failed attempts. Please try again in 15 minutes.',
+        429,
+        { retryAfter: rateLimitResult.retryAfter }
+      );
+    }
+
+    const user = await findUserByUsername(env.DB, session.sub);
+
+    if (!user || user.disabledAt) {
+      throw new UnauthorizedError('Invalid or expired session');
+    }
+
+    if (!(await verifyPassword(currentPassword, user.passwordHash))) {
+      await recordFailedAttempt(env.RATE_LIMIT_KV || null, session.sub, request.headers.get('CF-Connecting-IP') || undefined);
+      throw new ValidationError('Current password is incorrect');
+    }
+
+    await updatePassword(env.DB, user.id!, await hashPassword(newPassword));
+
+    // Sign out every session, then continue this one with a new token
+    await revokeUserSessions(env.DB, user.id!);
+
+    const sessionId = generateUUID();
+    const token = generateToken(user.username, user.role, session.rememberMe, requireJwtKeys(env), sessionId);
+    const expiresIn = getSessionMaxAge(session.rememberMe);
+    const expiresAt = new Date(Date.now() + expiresIn * 1000).toISOString();
+
+    await createSession(env.DB, { id: sessionId, userId: user.id!, expiresAt, ...getClientInfo(request) });
+    const refreshToken = await issueRefreshToken(env.DB, sessionId);
+
+    console.log('[PASSWORD] Password changed:', { username: user.username });
+
+    // Return response
+    const response = successResponse({
+      success: true,
+      expiresAt,
+      token,
+    });
+    response.headers.append('Set-Cookie', buildSessionCookie(token, expiresIn, env.NODE_ENV === 'development'));
+    response.headers.append('Set-Cookie', buildRefreshCookie(refreshToken, expiresIn, env.NODE_ENV === 'development'));
+
+    return response;
+
+  } catch (error) {
+    console.error('Change password error:', error);
+
+    if (error instanceof ApiErrorResponse) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to change password');
+  }
+}, { requireContributor: false });
@@ -0,0 +1,53 @@
+/**
+ * Create User Endpoint
+ * Feature: user-management
+ * POST /api/auth/users
+ *
+ * Creates an account ({ username, password, role = 'reader', displayName, email }).
+ * Usernames are stored in lowercase and must be unique. Contributors only.
+ */
+
+import { withAuth } from '../lib/auth-middleware';
+import { hashPassword } from '../lib/password';
+import { parseCreateUserInput } from '../lib/user-admin';
+import { createUser as insertUser, findUserByUsername, toManagedUser } from '../lib/user-service';
+import {
+  ConflictError,
+  ValidationError,
+  ServerError,
+  successResponse,
+  parseJsonBody
+} from '../lib/errors';
+import type { Env } from '../types';
+
+export const createUser = withAuth(async (request: Request, user, env: Env) => {
+  try {
+    const input = parseCreateUserInput(await parseJsonBody(request));
+
+    if (await findUserByUsername(env.DB, input.username)) {
+      throw new ConflictError('A user with this username already exists');
+    }
+
+    const created = await insertUser(env.DB, {
+      username: input.username,
+      passwordHash: await hashPassword(input.password),
+      role: input.role,
+      displayName: input.displayName,
+      email: input.email,
+    });
+
+    console.log('[USERS] User created:', { username: created.username, role: created.role, by: user.sub });
+
+    // Return response
+    return successResponse({ user: toManagedUser(created) }, 201);
+
+  } catch (error) {
+    console.error('Create user error:', error);
+
+    if (error instanceof ValidationError || error instanceof ConflictError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to create user');
+  }
+});
@@ -5,12 +5,24 @@
 
 import { Router, error, json } from 'itty-router';
 import { handleCORSPreflight, addCORSHeaders } from '../lib/cors';
+import { ApiErrorResponse } from '../lib/errors';
 import type { Env } from '../types';
 
 // Import route handlers
 import { handleLogin } from './login';
 import { handleLogout } from './logout';
 import { handleVerify } from './verify-session';
+import { handleRefresh } from './refresh';
+import { handleJwks } from './jwks';
+import { changePassword } from './change-password';
+import { requestPasswordReset } from './request-password-reset';
+import { resetPassword } from './reset-password';
+import { listSessions } from './list-sessions';
+import { revokeSession } from './revoke-session';
+import { listUsers } from './list-users';
+import { createUser } from './create-user';
+import { updateUser } from './update-user';
+import { disableUser, enableUser } from './set-user-disabled';
 
 // Create router instance
 const router = Router();
@@ -28,6 +40,35 @@ router.get('/api/auth/health', () => {
 router.post('/api/auth/login', handleLogin);
 router.post('/api/auth/logout', handleLogout);
 router.get('/api/auth/verify', handleVerify);
+router.post('/api/auth/refresh', handleRefresh);
+
+/**
+ * Public keys for verifying session tokens
+ */
+router.get('/.well-known/jwks.json', handleJwks);
+router.get('/api/auth/jwks.json', handleJwks);
+
+/**
+ * Password endpoints
+ */
+router.post('/api/auth/change-password', changePassword);
+router.post('/api/auth/password-reset/request', requestPasswordReset);
+router.post('/api/auth/password-reset/confirm', resetPassword);
+
+/**
+ * Session endpoints ("Your devices")
+ */
+router.get('/api/auth/sessions', listSessions);
+router.delete('/api/auth/sessions/:sessionId', revokeSession);
+
+/**
+ * User management endpoints (contributors only)
+ */
+router.get('/api/auth/users', listUsers);
+router.post('/api/auth/users', createUser);
+router.patch('/api/auth/users/:userId', updateUser);
+router.post('/api/auth/users/:userId/disable', disableUser);
+router.post('/api/auth/users/:userId/enable', enableUser);
 
 /**
  * Handle OPTIONS preflight requests for CORS
@@ -48,6 +89,11 @@ export default {
       const response = await router.fetch(request, env, ctx);
       return addCORSHeaders(response, request);
     } catch (err) {
+      // Errors thrown by the user management, password and session handlers
+      if (err instanceof ApiErrorResponse) {
+        return addCORSHeaders(err.toResponse(), request);
+      }
+
       console.error('Worker error:', err);
       const errorResponse = json({ 
         success: false, 
@@ -0,0 +1,34 @@
+/**
+ * GET /.well-known/jwks.json endpoint
+ * Publishes the public keys session tokens are signed with (see jwt-keys.ts)
+ */
+
+import { getJwks, getJwtKeys } from '../lib/jwt-keys';
+import type { Env } from '../types';
+
+/**
+ * Handle JWKS request
+ * @param request - HTTP request
+ * @param env - Cloudflare Workers environment bindings
+ * @returns JWKS document; empty while tokens are signed with JWT_SECRET
+ */
+export async function handleJwks(request: Request, env: Env): Promise<Response> {
+  try {
+    return new Response(JSON.stringify(getJwks(getJwtKeys(env))), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=300', // Rotations keep old keys for longer than this
+      },
+    });
+  } catch (error) {
+    console.error('[JWKS] Invalid JWT key configuration:', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return new Response(
+      JSON.stringify({ success: false, error: 'CONFIGURATION_ERROR', message: 'JWT keys are misconfigured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * List Sessions Endpoint
+ * Feature: sessions
+ * GET /api/auth/sessions
+ *
+ * Lists the signed-in user's active sessions ("Your devices") with user
+ * agent, IP address and last-seen time; the one making the request is
+ * marked current.
+ */
+
+import { withAuth } from '../lib/auth-middleware';
+import { listActiveSessions } from '../lib/sessions';
+import { findUserByUsername } from '../lib/user-service';
+import {
+  UnauthorizedError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+import type { Env } from '../types';
+
+export const listSessions = withAuth(async (request: Request, session, env: Env) => {
+  try {
+    const user = await findUserByUsername(env.DB, session.sub);
+
+    if (!user) {
+      throw new UnauthorizedError('Invalid or expired session');
+    }
+
+    const sessions = await listActiveSessions(env.DB, user.id!, session);
+
+    // Return response
+    return successResponse({ sessions });
+
+  } catch (error) {
+    console.error('List sessions error:', error);
+
+    if (error instanceof UnauthorizedError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to list sessions');
+  }
+}, { requireContributor: false });
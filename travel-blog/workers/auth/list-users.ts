@@ -0,0 +1,27 @@
+/**
+ * List Users Endpoint
+ * Feature: user-management
+ * GET /api/auth/users
+ *
+ * Lists every account, newest first, including disabled ones. Contributors only.
+ */
+
+import { withAuth } from '../lib/auth-middleware';
+import { getAllUsers, toManagedUser } from '../lib/user-service';
+import { ServerError, successResponse } from '../lib/errors';
+import type { Env } from '../types';
+
+export const listUsers = withAuth(async (request: Request, user, env: Env) => {
+  try {
+    const users = await getAllUsers(env.DB);
+
+    // Return response
+    return successResponse({
+      users: users.map(toManagedUser),
+    });
+
+  } catch (error) {
+    console.error('List users error:', error);
+    throw new ServerError('Failed to list users');
+  }
+});
@@ -5,8 +5,13 @@
 
 import { verifyPassword } from '../lib/password';
 import { generateToken } from '../lib/jwt';
+import { requireJwtKeys } from '../lib/jwt-keys';
 import { findUserByUsername } from '../lib/user-service';
 import { checkRateLimit, recordFailedAttempt } from '../lib/rate-limiter';
+import { buildRefreshCookie, buildSessionCookie, getSessionMaxAge } from '../lib/session-cookie';
+import { createSession, getClientInfo } from '../lib/sessions';
+import { issueRefreshToken } from '../lib/refresh-tokens';
+import { generateUUID } from '../lib/uuid';
 import { 
   sanitizeUsername, 
   sanitizePassword, 
@@ -15,9 +20,6 @@ import {
 } from '../lib/sanitize';
 import type { Env, LoginRequest, ErrorResponse, LoginSuccessResponse } from '../types';
 
-const SEVEN_DAYS = 7 * 24 * 60 * 60; // 7 days in seconds
-const TWENTY_FOUR_HOURS = 24 * 60 * 60; // 24 hours in seconds
-
 /**
  * Handle login request
  * @param request - HTTP request
@@ -154,11 +156,23 @@ export async function handleLogin(request: Request, env: Env): Promise<Response>
       );
     }
 
+    // Disabled accounts are told so only once the password has been checked
+    if (user.disabledAt) {
+      console.warn('[LOGIN] Account disabled:', { username });
+      return jsonResponse<ErrorResponse>(
+        {
+          success: false,
+          error: 'ACCOUNT_DISABLED',
+          message: 'This account has been disabled',
+        },
+        403
+      );
+    }
+
     // Authentication successful - generate JWT
-    const token = generateToken(user.username, user.role, rememberMe, env.JWT_SECRET);
+    const sessionId = generateUUID();
+    const token = generateToken(user.username, user.role, rememberMe, requireJwtKeys(env), sessionId);
 
-    console.log('[LOGIN] JWT_SECRET available:', !!env.JWT_SECRET);
-    console.log('[LOGIN] JWT_SECRET length:', env.JWT_SECRET?.length || 0);
     console.log('[LOGIN] Token generated, length:', token.length);
     console.log('[LOGIN] Successful authentication:', {
       role: user.role,
@@ -168,9 +182,13 @@ export async function handleLogin(request: Request, env: Env): Promise<Response>
 
     // Calculate expiry timestamp
     const now = Math.floor(Date.now() / 1000);
-    const expiresIn = rememberMe ? SEVEN_DAYS : TWENTY_FOUR_HOURS;
+    const expiresIn = getSessionMaxAge(rememberMe);
     const expiresAt = new Date((now + expiresIn) * 1000).toISOString();
 
+    // Register the session so it can be listed and revoked, and start its refresh token family
+    await createSession(env.DB, { id: sessionId, userId: user.id!, expiresAt, ...getClientInfo(request) });
+    const refreshToken = await issueRefreshToken(env.DB, sessionId);
+
     // Prepare success response (include token for cross-domain auth)
     const responseData: LoginSuccessResponse = {
       success: true,
@@ -186,27 +204,9 @@ export async function handleLogin(request: Request, env: Env): Promise<Response>
     // Create response with JWT cookie
     const response = jsonResponse(responseData, 200);
 
-    // Set session cookie (different settings for dev vs production)
-    const isDevelopment = env.NODE_ENV === 'development';
-    
-    const cookieValue = isDevelopment
-      ? [
-          `session=${token}`,
-          'HttpOnly',
-          'SameSite=Lax', // Lax for local development (no Secure needed)
-          `Max-Age=${expiresIn}`,
-          'Path=/',
-        ].join('; ')
-      : [
-          `session=${token}`,
-          'HttpOnly',
-          'Secure',
-          'SameSite=None', // Allow cross-site cookies for Pages <-> Workers in production
-          `Max-Age=${expiresIn}`,
-          'Path=/',
-        ].join('; ');
-
-    response.headers.set('Set-Cookie', cookieValue);
+    // Set session and refresh cookies (different settings for dev vs production)
+    response.headers.append('Set-Cookie', buildSessionCookie(token, expiresIn, env.NODE_ENV === 'development'));
+    response.headers.append('Set-Cookie', buildRefreshCookie(refreshToken, expiresIn, env.NODE_ENV === 'development'));
 
     return response;
   } catch (error) {
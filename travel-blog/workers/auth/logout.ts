@@ -1,18 +1,42 @@
 /**
  * POST /api/auth/logout endpoint
- * Clears session cookies
+ * Revokes the session and clears session cookies
  */
 
-import type { LogoutResponse } from '../types';
+import { extractToken } from '../lib/auth-middleware';
+import { extractTokenFromCookie, verifyTokenDetailed } from '../lib/jwt';
+import { requireJwtKeys } from '../lib/jwt-keys';
+import { REFRESH_COOKIE_NAME, findRefreshTokenSession } from '../lib/refresh-tokens';
+import { buildRefreshCookie } from '../lib/session-cookie';
+import { revokeSession } from '../lib/sessions';
+import type { Env, LogoutResponse } from '../types';
 
 /**
  * Handle logout request
+ * @param request - HTTP request (session token in the Authorization header or
+ * cookie, refresh token in its cookie)
+ * @param env - Cloudflare Workers environment bindings
  * @returns HTTP response clearing session cookie
  */
-export async function handleLogout(): Promise<Response> {
+export async function handleLogout(request: Request, env: Env): Promise<Response> {
   try {
     console.log('[LOGOUT] Processing logout request');
 
+    // Revoke the session so copies of the token (e.g. in localStorage) stop working.
+    // An expired access token does not say which session it was; the refresh token does.
+    const token = extractToken(request);
+    const verification = token ? verifyTokenDetailed(token, requireJwtKeys(env)) : null;
+    const refreshToken = extractTokenFromCookie(request.headers.get('Cookie'), REFRESH_COOKIE_NAME);
+
+    const sessionId = verification?.valid && verification.payload!.jti
+      ? verification.payload!.jti
+      : refreshToken ? await findRefreshTokenSession(env.DB, refreshToken) : null;
+
+    if (sessionId) {
+      await revokeSession(env.DB, sessionId);
+      console.log('[LOGOUT] Session revoked');
+    }
+
     // Prepare success response
     const responseData: LogoutResponse = {
       success: true,
@@ -27,7 +51,7 @@ export async function handleLogout(): Promise<Response> {
       },
     });
 
-    // Clear session cookie by setting Max-Age=0
+    // Clear session and refresh cookies by setting Max-Age=0
     // Path=/ ensures it clears the cookie for the entire domain
     // SameSite=None to match the login cookie setting (cross-site cookies)
     const cookieValue = [
@@ -39,7 +63,8 @@ export async function handleLogout(): Promise<Response> {
       'Path=/',
     ].join('; ');
 
-    response.headers.set('Set-Cookie', cookieValue);
+    response.headers.append('Set-Cookie', cookieValue);
+    response.headers.append('Set-Cookie', buildRefreshCookie('', 0, env.NODE_ENV === 'development'));
 
     return response;
   } catch (error) {
@@ -73,7 +98,8 @@ export async function handleLogout(): Promise<Response> {
       'Path=/',
     ].join('; ');
 
-    response.headers.set('Set-Cookie', cookieValue);
+    response.headers.append('Set-Cookie', cookieValue);
+    response.headers.append('Set-Cookie', buildRefreshCookie('', 0, env.NODE_ENV === 'development'));
 
     return response;
   }
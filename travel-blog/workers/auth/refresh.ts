@@ -0,0 +1,122 @@
+/**
+ * POST /api/auth/refresh endpoint
+ * Exchanges the refresh token cookie for a new access token and refresh token
+ */
+
+import { generateToken, extractTokenFromCookie } from '../lib/jwt';
+import { requireJwtKeys } from '../lib/jwt-keys';
+import { REFRESH_COOKIE_NAME, rotateRefreshToken } from '../lib/refresh-tokens';
+import { buildRefreshCookie, buildSessionCookie, TWENTY_FOUR_HOURS } from '../lib/session-cookie';
+import { revokeSession } from '../lib/sessions';
+import { findUserById } from '../lib/user-service';
+import type { Env, ErrorResponse, LoginSuccessResponse } from '../types';
+
+/**
+ * Handle refresh request
+ * @param request - HTTP request (refresh token in the refresh_token cookie)
+ * @param env - Cloudflare Workers environment bindings
+ * @returns HTTP response with a new access token, or 401 clearing the
+ * refresh cookie
+ */
+export async function handleRefresh(request: Request, env: Env): Promise<Response> {
+  const isDevelopment = env.NODE_ENV === 'development';
+
+  try {
+    const refreshToken = extractTokenFromCookie(request.headers.get('Cookie'), REFRESH_COOKIE_NAME);
+
+    if (!refreshToken) {
+      return refreshFailed('NO_REFRESH_TOKEN', 'No refresh token found', isDevelopment);
+    }
+
+    const result = await rotateRefreshToken(env.DB, refreshToken);
+
+    if (!result.valid) {
+      if (result.error === 'REUSED') {
+        // The token was used before, so a copy of it exists: the session is now revoked
+        console.warn('[REFRESH] Refresh token reused, session revoked');
+        return refreshFailed('REFRESH_TOKEN_REUSED', 'This session has been signed out for your security', isDevelopment);
+      }
+
+      if (result.error === 'REVOKED') {
+        console.warn('[REFRESH] Session revoked or expired');
+        return refreshFailed('SESSION_REVOKED', 'This session has been signed out', isDevelopment);
+      }
+
+      console.warn('[REFRESH] Unknown refresh token');
+      return refreshFailed('INVALID_REFRESH_TOKEN', 'Invalid refresh token', isDevelopment);
+    }
+
+    const session = result.session!;
+    const user = await findUserById(env.DB, session.userId);
+
+    if (!user || user.disabledAt) {
+      console.warn('[REFRESH] User not found or disabled:', { userId: session.userId });
+      await revokeSession(env.DB, session.id);
+      return refreshFailed('INVALID_SESSION', 'Invalid or expired session', isDevelopment);
+    }
+
+    // Sessions last 24 hours, or 7 days with "remember me"
+    const rememberMe = Date.parse(session.expiresAt) - Date.parse(session.createdAt) > TWENTY_FOUR_HOURS * 1000;
+    const token = generateToken(user.username, user.role, rememberMe, requireJwtKeys(env), session.id);
+    const maxAge = Math.max(0, Math.floor((Date.parse(session.expiresAt) - Date.now()) / 1000));
+
+    console.log('[REFRESH] Access token refreshed:', { username: user.username });
+
+    // Prepare success response (include token for cross-domain auth)
+    const responseData: LoginSuccessResponse = {
+      success: true,
+      user: {
+        username: user.username,
+        role: user.role,
+        displayName: user.displayName,
+      },
+      expiresAt: session.expiresAt,
+      token,
+    };
+
+    const response = jsonResponse(responseData, 200);
+
+    response.headers.append('Set-Cookie', buildSessionCookie(token, maxAge, isDevelopment));
+    // Within the reuse grace period the browser keeps the refresh token another tab received
+    if (result.refreshToken) {
+      response.headers.append('Set-Cookie', buildRefreshCookie(result.refreshToken, maxAge, isDevelopment));
+    }
+
+    return response;
+  } catch (error) {
+    console.error('[REFRESH] Unexpected error in refresh handler:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return jsonResponse<ErrorResponse>(
+      {
+        success: false,
+        error: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+      },
+      500
+    );
+  }
+}
+
+/**
+ * 401 response that also clears the refresh cookie
+ */
+function refreshFailed(error: string, message: string, isDevelopment: boolean): Response {
+  const response = jsonResponse<ErrorResponse>({ success: false, error, message }, 401);
+  response.headers.set('Set-Cookie', buildRefreshCookie('', 0, isDevelopment));
+  return response;
+}
+
+/**
+ * Helper function to create JSON responses
+ */
+function jsonResponse<T>(data: T, status: number): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * Request Password Reset Endpoint
+ * Feature: password-reset
+ * POST /api/auth/password-reset/request
+ *
+ * Sends a reset link ({ username }) to the account's email through the
+ * configured notifier (see notifier.ts). The response is the same whether or
+ * not the account exists, has an email or is disabled, or the message could
+ * not be delivered, so it cannot be used to discover usernames. Links always
+ * point at APP_URL, never at a URL taken from the request.
+ */
+
+import { createNotifier } from '../lib/notifier';
+import {
+  createPasswordResetToken,
+  getResetUrl,
+  passwordResetNotification
+} from '../lib/password-reset';
+import { sanitizeUsername, isValidUsername } from '../lib/sanitize';
+import { findUserByUsername } from '../lib/user-service';
+import {
+  ApiErrorResponse,
+  ValidationError,
+  ServerError,
+  successResponse,
+  parseJsonBody
+} from '../lib/errors';
+import type { Env } from '../types';
+
+const SENT_MESSAGE = 'If the account exists and has an email address, a reset link has been sent to it.';
+
+export async function requestPasswordReset(request: Request, env: Env): Promise<Response> {
+  try {
+    // Checked before the account is looked up, so misconfiguration fails the same way for everyone
+    const appUrl = env.APP_URL?.replace(/\/+$/, '');
+    if (!appUrl) {
+      throw new ApiErrorResponse('CONFIGURATION_ERROR', 'APP_URL is not configured', 500);
+    }
+
+    let notifier;
+    try {
+      notifier = createNotifier(env);
+    } catch (error) {
+      console.error('[PASSWORD] Invalid notifier configuration:', error);
+      throw new ApiErrorResponse('CONFIGURATION_ERROR', 'Password reset delivery is not configured', 500);
+    }
+
+    const body = await parseJsonBody<{ username?: string }>(request);
+    const username = sanitizeUsername(body.username);
+
+    if (!isValidUsername(username)) {
+      throw new ValidationError('Username must be 3-50 characters and contain only letters, numbers, and underscores');
+    }
+
+    const user = await findUserByUsername(env.DB, username);
+
+    if (!user || !user.email || user.disabledAt) {
+      console.warn('[PASSWORD] Reset requested for an account that cannot receive it:', { username });
+      return successResponse({ success: true, message: SENT_MESSAGE });
+    }
+
+    const reset = await createPasswordResetToken(env.DB, user.id!);
+
+    if (!reset) {
+      console.warn('[PASSWORD] Reset requested again too soon:', { username });
+      return successResponse({ success: true, message: SENT_MESSAGE });
+    }
+
+    try {
+      await notifier.send(
+        passwordResetNotification({ ...user, email: user.email }, getResetUrl(appUrl, reset.token))
+      );
+      console.log('[PASSWORD] Reset link sent:', { username, expiresAt: reset.expiresAt });
+    } catch (error) {
+      // Answer as if it was sent: an error here would reveal that the account exists
+      console.error('[PASSWORD] Reset link could not be delivered:', { username, error });
+    }
+
+    // Return response
+    return successResponse({ success: true, message: SENT_MESSAGE });
+
+  } catch (error) {
+    console.error('Request password reset error:', error);
+
+    if (error instanceof ApiErrorResponse) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to send reset link');
+  }
+}
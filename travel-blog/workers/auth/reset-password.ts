@@ -0,0 +1,62 @@
+/**
+ * Reset Password Endpoint
+ * Feature: password-reset
+ * POST /api/auth/password-reset/confirm
+ *
+ * Sets a new password ({ token, password }) with a token from a reset link.
+ * The token is used up even if it belongs to a disabled account, and every
+ * session of the user is revoked; they sign in again with the new password.
+ */
+
+import { hashPassword } from '../lib/password';
+import { consumePasswordResetToken } from '../lib/password-reset';
+import { sanitizePassword, isValidPassword } from '../lib/sanitize';
+import { revokeUserSessions } from '../lib/sessions';
+import { findUserById, updatePassword } from '../lib/user-service';
+import {
+  ValidationError,
+  ServerError,
+  successResponse,
+  parseJsonBody
+} from '../lib/errors';
+import type { Env } from '../types';
+
+const INVALID_TOKEN_MESSAGE = 'This reset link is invalid or has expired. Please request a new one.';
+
+export async function resetPassword(request: Request, env: Env): Promise<Response> {
+  try {
+    const body = await parseJsonBody<{ token?: string; password?: string }>(request);
+    const password = sanitizePassword(body.password);
+
+    if (!body.token || typeof body.token !== 'string') {
+      throw new ValidationError(INVALID_TOKEN_MESSAGE);
+    }
+    if (!isValidPassword(password)) {
+      throw new ValidationError('Password must be 8-72 characters');
+    }
+
+    const userId = await consumePasswordResetToken(env.DB, body.token);
+    const user = userId === null ? null : await findUserById(env.DB, userId);
+
+    if (!user || user.disabledAt) {
+      throw new ValidationError(INVALID_TOKEN_MESSAGE);
+    }
+
+    await updatePassword(env.DB, user.id!, await hashPassword(password));
+    await revokeUserSessions(env.DB, user.id!);
+
+    console.log('[PASSWORD] Password reset:', { username: user.username });
+
+    // Return response
+    return successResponse({ success: true, message: 'Your password has been reset. Please sign in.' });
+
+  } catch (error) {
+    console.error('Reset password error:', error);
+
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to reset password');
+  }
+}
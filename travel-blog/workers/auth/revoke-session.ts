@@ -0,0 +1,63 @@
+/**
+ * Revoke Session Endpoint
+ * Feature: sessions
+ * DELETE /api/auth/sessions/:sessionId
+ *
+ * Signs one of the signed-in user's devices out. Revoking the current
+ * session also clears its cookie.
+ */
+
+import { withAuth } from '../lib/auth-middleware';
+import { revokeSession as revoke } from '../lib/sessions';
+import { findUserByUsername } from '../lib/user-service';
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+import type { Env } from '../types';
+
+export const revokeSession = withAuth(async (request: Request & { params?: any }, session, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { sessionId } = routeParams;
+
+    if (!sessionId) {
+      throw new NotFoundError('Session');
+    }
+
+    const user = await findUserByUsername(env.DB, session.sub);
+
+    if (!user) {
+      throw new UnauthorizedError('Invalid or expired session');
+    }
+
+    if (!(await revoke(env.DB, sessionId, user.id!))) {
+      throw new NotFoundError('Session');
+    }
+
+    const current = sessionId === session.jti;
+
+    console.log('[SESSIONS] Session revoked:', { username: user.username, current });
+
+    // Return response
+    const response = successResponse({ success: true, sessionId, current });
+
+    if (current) {
+      response.headers.set('Set-Cookie', 'session=; HttpOnly; Secure; SameSite=None; Max-Age=0; Path=/');
+    }
+
+    return response;
+
+  } catch (error) {
+    console.error('Revoke session error:', error);
+
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to revoke session');
+  }
+}, { requireContributor: false });
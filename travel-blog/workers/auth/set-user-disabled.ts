@@ -0,0 +1,75 @@
+/**
+ * Disable / Enable User Endpoints
+ * Feature: user-management
+ * POST /api/auth/users/:userId/disable
+ * POST /api/auth/users/:userId/enable
+ *
+ * Disabled accounts keep their posts but can no longer sign in, and their
+ * sessions are revoked. Contributors only; nobody can disable themselves
+ * or the last active contributor (see user-admin.ts).
+ */
+
+import { withAuth } from '../lib/auth-middleware';
+import { revokeUserSessions } from '../lib/sessions';
+import { assertCanRemoveAccess, parseUserId } from '../lib/user-admin';
+import {
+  findUserById,
+  getActiveContributorCount,
+  setUserDisabled,
+  toManagedUser
+} from '../lib/user-service';
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+import type { Env } from '../types';
+
+function userDisabledHandler(disabled: boolean) {
+  return withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+    try {
+      // itty-router puts params on the request object
+      const routeParams = (request as any).params || params;
+      const userId = parseUserId(routeParams?.userId);
+
+      const target = await findUserById(env.DB, userId);
+
+      if (!target) {
+        throw new NotFoundError('User');
+      }
+
+      if (disabled) {
+        assertCanRemoveAccess(user.sub, target, await getActiveContributorCount(env.DB));
+      }
+
+      const updated = await setUserDisabled(env.DB, userId, disabled);
+
+      if (!updated) {
+        throw new NotFoundError('User');
+      }
+
+      if (disabled) {
+        await revokeUserSessions(env.DB, userId);
+      }
+
+      console.log(`[USERS] User ${disabled ? 'disabled' : 'enabled'}:`, { username: updated.username, by: user.sub });
+
+      // Return response
+      return successResponse({ user: toManagedUser(updated) });
+
+    } catch (error) {
+      console.error(`${disabled ? 'Disable' : 'Enable'} user error:`, error);
+
+      if (error instanceof NotFoundError || error instanceof ValidationError || error instanceof ConflictError) {
+        throw error;
+      }
+
+      throw new ServerError(`Failed to ${disabled ? 'disable' : 'enable'} user`);
+    }
+  });
+}
+
+export const disableUser = userDisabledHandler(true);
+export const enableUser = userDisabledHandler(false);
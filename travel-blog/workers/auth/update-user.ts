@@ -0,0 +1,73 @@
+/**
+ * Update User Endpoint
+ * Feature: user-management
+ * PATCH /api/auth/users/:userId
+ *
+ * Changes an account's display name, email and/or role. Contributors only; nobody
+ * can demote themselves or the last active contributor (see user-admin.ts).
+ * Changing the role revokes the user's sessions, because session tokens carry
+ * the role; they sign in again with the new one.
+ */
+
+import { withAuth } from '../lib/auth-middleware';
+import { revokeUserSessions } from '../lib/sessions';
+import { assertCanRemoveAccess, parseUpdateUserInput, parseUserId } from '../lib/user-admin';
+import {
+  findUserById,
+  getActiveContributorCount,
+  toManagedUser,
+  updateUser as saveUser
+} from '../lib/user-service';
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  ServerError,
+  successResponse,
+  parseJsonBody
+} from '../lib/errors';
+import type { Env } from '../types';
+
+export const updateUser = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const userId = parseUserId(routeParams?.userId);
+
+    const changes = parseUpdateUserInput(await parseJsonBody(request));
+
+    const target = await findUserById(env.DB, userId);
+
+    if (!target) {
+      throw new NotFoundError('User');
+    }
+
+    if (changes.role === 'reader' && target.role === 'contributor') {
+      assertCanRemoveAccess(user.sub, target, await getActiveContributorCount(env.DB));
+    }
+
+    const updated = await saveUser(env.DB, userId, changes);
+
+    if (!updated) {
+      throw new NotFoundError('User');
+    }
+
+    if (updated.role !== target.role) {
+      await revokeUserSessions(env.DB, userId);
+    }
+
+    console.log('[USERS] User updated:', { username: updated.username, role: updated.role, by: user.sub });
+
+    // Return response
+    return successResponse({ user: toManagedUser(updated) });
+
+  } catch (error) {
+    console.error('Update user error:', error);
+
+    if (error instanceof NotFoundError || error instanceof ValidationError || error instanceof ConflictError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to update user');
+  }
+});
@@ -3,8 +3,11 @@
  * Verifies session tokens and returns user information
  */
 
-import { verifyTokenDetailed, extractTokenFromCookie } from '../lib/jwt';
+import { extractTokenFromCookie } from '../lib/jwt';
+import { requireJwtKeys } from '../lib/jwt-keys';
+import { verifySessionToken } from '../lib/sessions';
 import { findUserByUsername } from '../lib/user-service';
+import { issuedBeforePasswordChange } from '../lib/password-reset';
 import type { Env, ErrorResponse, VerifySessionResponse } from '../types';
 
 /**
@@ -48,8 +51,8 @@ export async function handleVerify(request: Request, env: Env): Promise<Response
       );
     }
 
-    // Verify JWT token
-    const result = verifyTokenDetailed(token, env.JWT_SECRET);
+    // Verify JWT token and its session
+    const result = await verifySessionToken(token, requireJwtKeys(env), env.DB, request);
 
     if (!result.valid) {
       // Check if expired or invalid
@@ -66,6 +69,18 @@ export async function handleVerify(request: Request, env: Env): Promise<Response
           401
         );
       }
+
+      if (result.error === 'REVOKED') {
+        console.warn('[VERIFY] Session revoked');
+        return jsonResponse<ErrorResponse>(
+          {
+            success: false,
+            error: 'SESSION_REVOKED',
+            message: 'This session has been signed out',
+          },
+          401
+        );
+      }
       
       console.warn('[VERIFY] Invalid session:', { 
         error: result.error 
@@ -85,11 +100,11 @@ export async function handleVerify(request: Request, env: Env): Promise<Response
     // Look up user to get displayName
     const user = await findUserByUsername(env.DB, payload.sub);
 
-    if (!user) {
-      console.error('[VERIFY] User not found after session verification:', { 
+    if (!user || user.disabledAt || issuedBeforePasswordChange(payload.iat, user.passwordChangedAt)) {
+      console.error('[VERIFY] User not found, disabled or password changed after session verification:', { 
         username: payload.sub 
       });
-      // User was deleted after session creation
+      // User was deleted or disabled, or the password changed, after session creation
       return jsonResponse<ErrorResponse>(
         {
           success: false,
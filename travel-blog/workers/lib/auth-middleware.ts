@@ -5,7 +5,9 @@
  * Verifies JWT tokens and enforces contributor-only access
  */
 
-import { verifyTokenDetailed, type SessionPayload } from './jwt';
+import type { JwtKeyMaterial, SessionPayload } from './jwt';
+import { getJwtKeys } from './jwt-keys';
+import { verifySessionToken } from './sessions';
 
 export interface AuthenticatedRequest extends Request {
   user?: SessionPayload;
@@ -19,7 +21,7 @@ export interface AuthMiddlewareOptions {
 /**
  * Extract JWT token from request
  */
-function extractToken(request: Request): string | null {
+export function extractToken(request: Request): string | null {
   // Check Authorization header
   const authHeader = request.headers.get('Authorization');
   if (authHeader && authHeader.startsWith('Bearer ')) {
@@ -55,10 +57,13 @@ function parseCookies(cookieHeader: string): Record<string, string> {
 
 /**
  * Authentication middleware
+ * @param jwtKeys - Public keys or JWT secret (see jwt-keys.ts)
+ * @param db - D1 database with the session registry (see sessions.ts)
  */
 export async function authenticate(
   request: Request,
-  jwtSecret: string,
+  jwtKeys: JwtKeyMaterial,
+  db: any,
   options: AuthMiddlewareOptions = {}
 ): Promise<{ authorized: boolean; user?: SessionPayload; response?: Response }> {
   const { requireContributor = true, optional = false } = options;
@@ -67,10 +72,7 @@ export async function authenticate(
   const token = extractToken(request);
   
   console.log('[Auth Middleware] Token extracted:', token ? `${token.substring(0, 20)}...` : 'null');
-  console.log('[Auth Middleware] JWT Secret available:', !!jwtSecret);
-  if (jwtSecret) {
-    console.log('[Auth Middleware] JWT Secret length:', jwtSecret.length);
-  }
+  console.log('[Auth Middleware] JWT keys:', typeof jwtKeys === 'string' ? 'shared secret' : Object.keys(jwtKeys.publicKeys));
   
   if (!token) {
     if (optional) {
@@ -86,14 +88,16 @@ export async function authenticate(
     };
   }
 
-  // Verify token
-  const verification = verifyTokenDetailed(token, jwtSecret);
+  // Verify token and its session
+  const verification = await verifySessionToken(token, jwtKeys, db, request);
   
   console.log('[Auth Middleware] Token verification result:', verification.valid ? 'valid' : `invalid (${verification.error})`);
   
   if (!verification.valid) {
     const status = verification.error === 'EXPIRED' ? 401 : 401;
-    const message = verification.error === 'EXPIRED' ? 'Token expired' : 'Invalid token';
+    const message = verification.error === 'EXPIRED'
+      ? 'Token expired'
+      : verification.error === 'REVOKED' ? 'Session has been signed out' : 'Invalid token';
     
     return {
       authorized: false,
@@ -129,20 +133,24 @@ export function withAuth(
   options: AuthMiddlewareOptions = {}
 ) {
   return async (request: Request, env: any, ctx: any): Promise<Response> => {
-    const jwtSecret = env.JWT_SECRET;
+    let jwtKeys: JwtKeyMaterial | null;
+    try {
+      jwtKeys = getJwtKeys(env);
+    } catch (error) {
+      console.error('[withAuth] Invalid JWT key configuration:', error);
+      jwtKeys = null;
+    }
     
-    console.log('[withAuth] JWT_SECRET available:', !!jwtSecret);
-    console.log('[withAuth] JWT_SECRET length:', jwtSecret?.length || 0);
-    console.log('[withAuth] JWT_SECRET first 10 chars:', jwtSecret?.substring(0, 10) || 'N/A');
+    console.log('[withAuth] JWT keys available:', !!jwtKeys);
     
-    if (!jwtSecret) {
+    if (!jwtKeys) {
       return new Response(
-        JSON.stringify({ error: 'CONFIGURATION_ERROR', message: 'JWT secret not configured' }),
+        JSON.stringify({ error: 'CONFIGURATION_ERROR', message: 'JWT keys not configured' }),
         { status: 500, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
-    const auth = await authenticate(request, jwtSecret, options);
+    const auth = await authenticate(request, jwtKeys, env.DB, options);
     
     if (!auth.authorized) {
       return auth.response!;
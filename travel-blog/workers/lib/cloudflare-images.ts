@@ -144,6 +144,7 @@ export class CloudflareImagesClient {
 
   /**
    * Delete an image
+   * An image that is already gone counts as deleted, so retries are safe
    */
   async delete(imageId: string): Promise<boolean> {
     const response = await fetch(`${this.baseUrl}/${imageId}`, {
@@ -151,6 +152,10 @@ export class CloudflareImagesClient {
       headers: this.headers,
     });
 
+    if (response.status === 404) {
+      return true;
+    }
+
     if (!response.ok) {
       console.error('Failed to delete image:', await response.text());
       return false;
@@ -8,6 +8,7 @@ export interface CORSConfig {
   allowCredentials: boolean;
   allowedMethods: string[];
   allowedHeaders: string[];
+  exposedHeaders: string[];
   maxAge: number;
 }
 
@@ -18,7 +19,8 @@ const DEFAULT_CONFIG: CORSConfig = {
   ],
   allowCredentials: true, // Required for cookies
   allowedMethods: ['GET', 'POST', 'PATCH', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'If-Match', 'If-None-Match'],
+  exposedHeaders: ['ETag'], // Post version for If-Match (see post-version.ts)
   maxAge: 86400, // 24 hours
 };
 
@@ -64,6 +66,7 @@ export function addCORSHeaders(
 
   headers.set('Access-Control-Allow-Methods', config.allowedMethods.join(', '));
   headers.set('Access-Control-Allow-Headers', config.allowedHeaders.join(', '));
+  headers.set('Access-Control-Expose-Headers', config.exposedHeaders.join(', '));
   headers.set('Access-Control-Max-Age', config.maxAge.toString());
 
   // Create new response with updated headers
@@ -94,6 +94,50 @@ export class DatabaseClient {
     }
   }
 
+  /**
+   * Execute multiple insert/update/delete queries in a batch and return each query's outcome
+   */
+  async batchExecute(
+    queries: { query: string; params: any[] }[]
+  ): Promise<{ success: boolean; lastRowId?: number; changes?: number }[]> {
+    try {
+      const statements = queries.map(({ query, params }) =>
+        this.db.prepare(query).bind(...params)
+      );
+
+      const results = await this.db.batch(statements);
+      return results.map(r => ({
+        success: r.success,
+        lastRowId: r.meta?.last_row_id,
+        changes: r.meta?.changes
+      }));
+    } catch (error) {
+      console.error('Database batch error:', error);
+      throw new Error(`Database batch failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Run several read queries in one round trip and return each query's rows
+   */
+  async batchQuery<T = any>(queries: { query: string; params: any[] }[]): Promise<T[][]> {
+    try {
+      const statements = queries.map(({ query, params }) =>
+        this.db.prepare(query).bind(...params)
+      );
+
+      const results = await this.db.batch(statements);
+      if (!results.every(r => r.success)) {
+        throw new Error('Database query failed');
+      }
+
+      return results.map(r => (r.results as T[]) || []);
+    } catch (error) {
+      console.error('Database batch query error:', error);
+      throw new Error(`Database batch query failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Check if a record exists
    */
@@ -0,0 +1,217 @@
+/**
+ * Edge Cache Utilities
+ * Feature: edge-cache
+ *
+ * Anonymous reads of published posts (GET /api/posts,
+ * GET /api/posts/slug/:slug and GET /api/posts/:postId/neighbors) are served from the Workers Cache API with an
+ * ETag, so readers revalidate with If-None-Match instead of hitting D1.
+ * That ETag is a hash of the body, so cached routes must not set their own
+ * (post versions go in the body's "version" field instead).
+ * Requests that carry a token or session cookie skip the cache and are marked
+ * no-store: they can include drafts.
+ *
+ * Cache keys carry generations: one for the post lists and one per post
+ * (keyed by slug, since that is all a reader's request has). Responses that
+ * show other posts too, like a post page with its neighbors, also depend on
+ * the list generation. Writes bump the generations of the posts they touch
+ * and of the lists, which retires every cached variant (filters, sorts,
+ * cursors) at once. The Cache API is per data
+ * center, so a purge reaches the data center that handled the write; other
+ * data centers serve their copy until EDGE_CACHE_TTL_SECONDS runs out.
+ */
+
+import type { DatabaseClient } from './db';
+import { generateUUID } from './uuid';
+
+export const PUBLIC_CACHE_CONTROL = 'public, max-age=60';
+export const PRIVATE_CACHE_CONTROL = 'private, no-store';
+export const EDGE_CACHE_TTL_SECONDS = 300;
+
+// Cache keys only need to be URLs; this origin keeps them apart from real requests
+const CACHE_ORIGIN = 'https://edge-cache.travel-blog.internal';
+const GENERATION_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+export const POST_LIST_SCOPE = 'posts';
+
+export function postScope(slug: string): string {
+  return `post:${slug}`;
+}
+
+type Handler = (request: Request, env: any, ctx: any) => Promise<Response>;
+
+/**
+ * The Cache API, where the runtime provides one (not in tests or Node)
+ */
+function getEdgeCache(): Cache | null {
+  return typeof caches === 'undefined' ? null : (caches as any).default ?? null;
+}
+
+/**
+ * Whether the request is signed in (or trying to be), so must not share a cached response
+ */
+export function hasCredentials(request: Request): boolean {
+  if (request.headers.has('Authorization')) {
+    return true;
+  }
+  const cookies = request.headers.get('Cookie') || '';
+  return cookies.split(';').some(cookie => cookie.trim().startsWith('session='));
+}
+
+/**
+ * Cache key for a request: path, sorted query parameters and the scopes' generations
+ */
+export function cacheKeyUrl(requestUrl: string, generation: string): string {
+  const url = new URL(requestUrl);
+  const params = [...url.searchParams.entries()].sort(([a], [b]) => a.localeCompare(b));
+  params.push(['_g', generation]);
+  return `${CACHE_ORIGIN}${url.pathname}?${new URLSearchParams(params).toString()}`;
+}
+
+/**
+ * Whether an If-None-Match header matches an ETag
+ */
+export function etagMatches(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  const normalize = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some(tag => tag.trim() === '*' || normalize(tag) === normalize(etag));
+}
+
+/**
+ * Strong ETag for a response body
+ */
+export async function computeETag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(body));
+  const hex = [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+  return `"${hex}"`;
+}
+
+function generationRequest(scope: string): Request {
+  return new Request(`${CACHE_ORIGIN}/generation/${encodeURIComponent(scope)}`);
+}
+
+/**
+ * Start a new generation for a scope, retiring its cached responses
+ */
+async function bumpGeneration(cache: Cache, scope: string): Promise<string> {
+  const generation = generateUUID();
+  await cache.put(generationRequest(scope), new Response(generation, {
+    headers: { 'Cache-Control': `max-age=${GENERATION_TTL_SECONDS}` },
+  }));
+  return generation;
+}
+
+/**
+ * Current generation of a scope
+ * A generation that was evicted is replaced by a new one rather than a fixed
+ * default, so responses cached under an older generation cannot come back
+ */
+async function getGeneration(cache: Cache, scope: string): Promise<string> {
+  const stored = await cache.match(generationRequest(scope));
+  return stored ? stored.text() : bumpGeneration(cache, scope);
+}
+
+function notModified(etag: string): Response {
+  return new Response(null, {
+    status: 304,
+    headers: {
+      'ETag': etag,
+      'Cache-Control': PUBLIC_CACHE_CONTROL,
+      'Vary': 'Authorization, Cookie',
+    },
+  });
+}
+
+/**
+ * Serve anonymous GETs of a route from the edge cache
+ * Only 200 responses are stored. Signed-in requests go straight to the
+ * handler and their responses are marked no-store.
+ * @param getScope - Which generation(s) the route's responses depend on
+ */
+export function withEdgeCache(getScope: (request: Request) => string | string[], handler: Handler): Handler {
+  return async (request, env, ctx) => {
+    const cache = getEdgeCache();
+
+    if (request.method !== 'GET' || hasCredentials(request)) {
+      const response = await handler(request, env, ctx);
+      response.headers.set('Cache-Control', PRIVATE_CACHE_CONTROL);
+      return response;
+    }
+
+    if (!cache) {
+      return handler(request, env, ctx);
+    }
+
+    const scopes = ([] as string[]).concat(getScope(request));
+    const generations = await Promise.all(scopes.map(scope => getGeneration(cache, scope)));
+    const key = new Request(cacheKeyUrl(request.url, generations.join('.')));
+    const cached = await cache.match(key);
+
+    if (cached) {
+      const etag = cached.headers.get('ETag') || '';
+      if (etagMatches(request.headers.get('If-None-Match'), etag)) {
+        return notModified(etag);
+      }
+      return cached;
+    }
+
+    const response = await handler(request, env, ctx);
+    if (response.status !== 200) {
+      return response;
+    }
+
+    const body = await response.text();
+    const etag = await computeETag(body);
+    const headers = new Headers(response.headers);
+    headers.set('ETag', etag);
+    headers.set('Cache-Control', PUBLIC_CACHE_CONTROL);
+    headers.set('Vary', 'Authorization, Cookie');
+
+    // The stored copy lives longer at the edge than in browsers; purges keep it current
+    const stored = new Response(body, { status: 200, headers: new Headers(headers) });
+    stored.headers.set('Cache-Control', `public, max-age=${EDGE_CACHE_TTL_SECONDS}`);
+    const put = cache.put(key, stored);
+    if (ctx?.waitUntil) {
+      ctx.waitUntil(put);
+    } else {
+      await put;
+    }
+
+    if (etagMatches(request.headers.get('If-None-Match'), etag)) {
+      return notModified(etag);
+    }
+    return new Response(body, { status: 200, headers });
+  };
+}
+
+/**
+ * Retire cached responses for posts that changed, and for the post lists
+ * Covers every slug the posts have had, since retired slugs answer with a
+ * redirect. Failures are logged rather than thrown: the write has already
+ * happened, and the cached copies expire on their own.
+ */
+export async function purgePostCache(db: DatabaseClient, postIds: string[]): Promise<void> {
+  const cache = getEdgeCache();
+  if (!cache) {
+    return;
+  }
+
+  try {
+    const ids = [...new Set(postIds)];
+    const placeholders = ids.map(() => '?').join(', ');
+    const slugs = ids.length === 0 ? [] : await db.query<{ slug: string }>(
+      `SELECT slug FROM blog_posts WHERE id IN (${placeholders})
+      UNION
+      SELECT slug FROM slug_history WHERE post_id IN (${placeholders})`,
+      [...ids, ...ids]
+    );
+
+    await Promise.all([
+      bumpGeneration(cache, POST_LIST_SCOPE),
+      ...slugs.map(row => bumpGeneration(cache, postScope(row.slug))),
+    ]);
+  } catch (error) {
+    console.error('Edge cache purge error:', error);
+  }
+}
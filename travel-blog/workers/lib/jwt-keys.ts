@@ -0,0 +1,134 @@
+/**
+ * JWT Signing Keys
+ * Feature: jwt-keys
+ *
+ * Session tokens are signed with RS256 by the auth worker alone; the posts and
+ * media workers only get public keys, so they can check tokens but not mint
+ * them. Keys are configured per worker:
+ *
+ * - JWT_PRIVATE_KEY (auth worker, secret): PKCS#8 PEM RSA private key
+ * - JWT_KEY_ID (auth worker): kid of that key, written into every token
+ * - JWT_PUBLIC_KEYS (every worker): JWKS JSON ({"keys": [...]}) of the keys
+ *   tokens may be signed with, i.e. the current key and, during a rotation,
+ *   the previous one
+ *
+ * Workers without these fall back to HS256 with the shared JWT_SECRET.
+ */
+
+import { createPrivateKey, createPublicKey, type JsonWebKey, type KeyObject } from 'crypto';
+import type { JwtKeyMaterial, JwtKeys } from './jwt';
+
+export interface JwtKeyEnv {
+  JWT_SECRET?: string;
+  JWT_PRIVATE_KEY?: string;
+  JWT_KEY_ID?: string;
+  JWT_PUBLIC_KEYS?: string;
+}
+
+export interface PublicJwk extends JsonWebKey {
+  kid: string;
+  alg: 'RS256';
+  use: 'sig';
+}
+
+// Parsing keys is slow enough to do once per isolate rather than per request
+let cached: { config: string; keys: JwtKeys } | null = null;
+
+function assertRsaKey(key: KeyObject, description: string): KeyObject {
+  if (key.asymmetricKeyType !== 'rsa') {
+    throw new Error(`${description} must be an RSA key (RS256)`);
+  }
+  return key;
+}
+
+/**
+ * Parse JWT_PUBLIC_KEYS
+ * @returns Public keys by kid
+ */
+function parsePublicKeys(jwks: string): Record<string, KeyObject> {
+  let parsed: { keys?: unknown };
+  try {
+    parsed = JSON.parse(jwks);
+  } catch {
+    throw new Error('JWT_PUBLIC_KEYS must be a JWKS JSON document');
+  }
+
+  if (!Array.isArray(parsed.keys)) {
+    throw new Error('JWT_PUBLIC_KEYS must have a "keys" array');
+  }
+
+  const publicKeys: Record<string, KeyObject> = {};
+
+  for (const jwk of parsed.keys as JsonWebKey[]) {
+    if (typeof jwk.kid !== 'string' || !jwk.kid) {
+      throw new Error('Every key in JWT_PUBLIC_KEYS needs a kid');
+    }
+    publicKeys[jwk.kid] = assertRsaKey(createPublicKey({ key: jwk, format: 'jwk' }), `JWT_PUBLIC_KEYS key ${jwk.kid}`);
+  }
+
+  return publicKeys;
+}
+
+/**
+ * Key material for signing and verifying session tokens
+ * The signing key's public half is always accepted, even if JWT_PUBLIC_KEYS
+ * does not list it yet.
+ * @returns JwtKeys when key pairs are configured, else JWT_SECRET, else null
+ */
+export function getJwtKeys(env: JwtKeyEnv): JwtKeyMaterial | null {
+  if (!env.JWT_PRIVATE_KEY && !env.JWT_PUBLIC_KEYS) {
+    return env.JWT_SECRET || null;
+  }
+
+  const config = [env.JWT_PRIVATE_KEY, env.JWT_KEY_ID, env.JWT_PUBLIC_KEYS].join('\n');
+  if (cached?.config === config) {
+    return cached.keys;
+  }
+
+  const keys: JwtKeys = {
+    publicKeys: env.JWT_PUBLIC_KEYS ? parsePublicKeys(env.JWT_PUBLIC_KEYS) : {},
+  };
+
+  if (env.JWT_PRIVATE_KEY) {
+    if (!env.JWT_KEY_ID) {
+      throw new Error('JWT_KEY_ID is required with JWT_PRIVATE_KEY');
+    }
+
+    const privateKey = assertRsaKey(createPrivateKey(env.JWT_PRIVATE_KEY), 'JWT_PRIVATE_KEY');
+    keys.signingKey = { kid: env.JWT_KEY_ID, privateKey };
+    keys.publicKeys[env.JWT_KEY_ID] = createPublicKey(privateKey);
+  }
+
+  cached = { config, keys };
+  return keys;
+}
+
+/**
+ * Key material for a worker that signs tokens
+ * @throws If neither a key pair nor JWT_SECRET is configured
+ */
+export function requireJwtKeys(env: JwtKeyEnv): JwtKeyMaterial {
+  const keys = getJwtKeys(env);
+  if (!keys) {
+    throw new Error('No JWT keys configured: set JWT_PRIVATE_KEY and JWT_KEY_ID, or JWT_SECRET');
+  }
+  return keys;
+}
+
+/**
+ * Public keys as a JWKS document (GET /.well-known/jwks.json)
+ */
+export function getJwks(keys: JwtKeyMaterial | null): { keys: PublicJwk[] } {
+  if (!keys || typeof keys === 'string') {
+    return { keys: [] };
+  }
+
+  return {
+    keys: Object.entries(keys.publicKeys).map(([kid, key]) => ({
+      ...key.export({ format: 'jwk' }),
+      kid,
+      alg: 'RS256',
+      use: 'sig',
+    })),
+  };
+}
@@ -1,64 +1,112 @@
 /**
  * JWT token generation and verification utilities
- * Uses HS256 algorithm for signing
+ * Uses RS256 with a kid header when key pairs are configured (see
+ * jwt-keys.ts), otherwise HS256 with the shared JWT_SECRET
  */
 
 import jwt from 'jsonwebtoken';
+import type { KeyObject } from 'crypto';
+import { generateUUID } from './uuid';
 
 export interface SessionPayload {
   sub: string; // username
   role: 'reader' | 'contributor';
   iat: number; // issued at
   exp: number; // expiration time
-  rememberMe: boolean;
+  rememberMe: boolean; // Session lasts 7 days instead of 24 hours
+  jti?: string; // Session ID in the sessions table (see sessions.ts)
 }
 
 export interface TokenVerificationResult {
   valid: boolean;
   payload?: SessionPayload;
-  error?: 'EXPIRED' | 'INVALID';
+  error?: 'EXPIRED' | 'INVALID' | 'REVOKED'; // REVOKED: see verifySessionToken in sessions.ts
 }
 
-const SEVEN_DAYS = 7 * 24 * 60 * 60; // 7 days in seconds
-const TWENTY_FOUR_HOURS = 24 * 60 * 60; // 24 hours in seconds
+/**
+ * RS256 keys: the auth worker signs with its private key; every worker
+ * verifies with the public keys, looked up by the token's kid
+ */
+export interface JwtKeys {
+  signingKey?: { kid: string; privateKey: KeyObject }; // Auth worker only
+  publicKeys: Record<string, KeyObject>; // By kid: the current key and the ones being rotated out
+}
 
 /**
- * Generate a JWT session token
+ * Keys for signing and verifying session tokens: JwtKeys, or a shared HS256
+ * secret where no key pairs are configured
+ */
+export type JwtKeyMaterial = string | JwtKeys;
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // Renewed with a refresh token (see refresh-tokens.ts)
+
+/**
+ * Generate a short-lived JWT access token
  * @param username - User's username
  * @param role - User's role (reader or contributor)
- * @param rememberMe - Whether to persist session for 7 days
- * @param secret - JWT signing secret
+ * @param rememberMe - Whether the session lasts 7 days (the token itself
+ * always expires after ACCESS_TOKEN_TTL_SECONDS)
+ * @param keys - Signing key (RS256) or JWT signing secret (HS256)
+ * @param sessionId - Session ID for the jti claim (default: a new UUID)
  * @returns Signed JWT token string
  */
 export function generateToken(
   username: string,
   role: 'reader' | 'contributor',
   rememberMe: boolean,
-  secret: string
+  keys: JwtKeyMaterial,
+  sessionId: string = generateUUID()
 ): string {
   const now = Math.floor(Date.now() / 1000);
-  const expiresIn = rememberMe ? SEVEN_DAYS : TWENTY_FOUR_HOURS;
-
   const payload: SessionPayload = {
     sub: username,
     role,
     iat: now,
-    exp: now + expiresIn,
+    exp: now + ACCESS_TOKEN_TTL_SECONDS,
     rememberMe,
+    jti: sessionId,
   };
 
-  return jwt.sign(payload, secret, { algorithm: 'HS256' });
+  if (typeof keys === 'string') {
+    return jwt.sign(payload, keys, { algorithm: 'HS256' });
+  }
+
+  if (!keys.signingKey) {
+    throw new Error('No JWT signing key configured');
+  }
+
+  return jwt.sign(payload, keys.signingKey.privateKey, { algorithm: 'RS256', keyid: keys.signingKey.kid });
+}
+
+/**
+ * Check a token's signature and decode it
+ * RS256 tokens must name a known key in their kid header; the algorithm is
+ * fixed by the kind of key material, never taken from the token.
+ */
+function verifySignature(token: string, keys: JwtKeyMaterial): SessionPayload {
+  if (typeof keys === 'string') {
+    return jwt.verify(token, keys, { algorithms: ['HS256'] }) as SessionPayload;
+  }
+
+  const kid = jwt.decode(token, { complete: true })?.header.kid;
+  const publicKey = kid ? keys.publicKeys[kid] : undefined;
+
+  if (!publicKey) {
+    throw new jwt.JsonWebTokenError(kid ? `unknown key id: ${kid}` : 'missing key id');
+  }
+
+  return jwt.verify(token, publicKey, { algorithms: ['RS256'] }) as SessionPayload;
 }
 
 /**
  * Verify and decode a JWT token
  * @param token - JWT token string to verify
- * @param secret - JWT signing secret
+ * @param keys - Public keys (RS256) or JWT signing secret (HS256)
  * @returns Decoded session payload if valid, null otherwise
  */
-export function verifyToken(token: string, secret: string): SessionPayload | null {
+export function verifyToken(token: string, keys: JwtKeyMaterial): SessionPayload | null {
   try {
-    const decoded = jwt.verify(token, secret, { algorithms: ['HS256'] }) as SessionPayload;
+    const decoded = verifySignature(token, keys);
     
     // Additional expiry check (redundant with jwt.verify but explicit)
     const now = Math.floor(Date.now() / 1000);
@@ -79,12 +127,12 @@ export function verifyToken(token: string, secret: string): SessionPayload | nul
 /**
  * Verify and decode a JWT token with detailed error information
  * @param token - JWT token string to verify
- * @param secret - JWT signing secret
+ * @param keys - Public keys (RS256) or JWT signing secret (HS256)
  * @returns TokenVerificationResult with payload or error details
  */
-export function verifyTokenDetailed(token: string, secret: string): TokenVerificationResult {
+export function verifyTokenDetailed(token: string, keys: JwtKeyMaterial): TokenVerificationResult {
   try {
-    const decoded = jwt.verify(token, secret, { algorithms: ['HS256'] }) as SessionPayload;
+    const decoded = verifySignature(token, keys);
     
     // Additional expiry check (redundant but explicit)
     const now = Math.floor(Date.now() / 1000);
@@ -0,0 +1,246 @@
+/**
+ * Media Cleanup Outbox
+ * Feature: media-cleanup
+ *
+ * Deleting a photo, video or post never calls Cloudflare directly. Instead a
+ * job per stored file goes into media_cleanup_jobs in the same batch that
+ * removes the content row, so a row can't disappear without its file being
+ * queued. The posts worker cron trigger drains the outbox: failed deletes are
+ * retried with exponential backoff and dead-lettered after MAX_CLEANUP_ATTEMPTS.
+ * Files that are still referenced by another row (posts can share media) are
+ * left alone.
+ */
+
+import type { DatabaseClient } from './db';
+import { createCloudflareImagesClient } from './cloudflare-images';
+import { createR2Client } from './cloudflare-r2';
+import { generateUUID } from './uuid';
+
+export type MediaCleanupKind = 'image' | 'stream' | 'r2';
+export type MediaCleanupStatus = 'pending' | 'dead';
+
+export const MAX_CLEANUP_ATTEMPTS = 8;
+export const BASE_RETRY_DELAY_SECONDS = 60;
+export const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+export const MAX_CLEANUP_JOBS_PER_RUN = 50; // Keeps a cron run within its time limits
+
+export interface MediaEnv {
+  MEDIA_BUCKET: R2Bucket;
+  CLOUDFLARE_ACCOUNT_ID: string;
+  CLOUDFLARE_IMAGES_API_TOKEN: string;
+  CLOUDFLARE_STREAM_API_TOKEN: string;
+}
+
+export interface MediaCleanupTarget {
+  kind: MediaCleanupKind;
+  resourceId: string;
+}
+
+export interface MediaCleanupJob {
+  id: string;
+  kind: MediaCleanupKind;
+  resourceId: string;
+  postId: string | null;
+  status: MediaCleanupStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Stored files behind photo_content rows
+ */
+export function photoCleanupTargets(photos: Array<{ cloudflare_image_id: string | null }>): MediaCleanupTarget[] {
+  return photos
+    .filter(photo => photo.cloudflare_image_id)
+    .map(photo => ({ kind: 'image' as const, resourceId: photo.cloudflare_image_id! }));
+}
+
+/**
+ * Stored files behind video_content rows: the Stream video and, for legacy
+ * uploads, the R2 object (Stream videos only have a "stream/" placeholder key)
+ */
+export function videoCleanupTargets(
+  videos: Array<{ r2_key: string | null; stream_id: string | null }>
+): MediaCleanupTarget[] {
+  const targets: MediaCleanupTarget[] = [];
+
+  for (const video of videos) {
+    if (video.stream_id) {
+      targets.push({ kind: 'stream', resourceId: video.stream_id });
+    }
+    if (video.r2_key && !video.r2_key.startsWith('stream/')) {
+      targets.push({ kind: 'r2', resourceId: video.r2_key });
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Queries that queue files for deletion (for use in db.batch with the row deletion)
+ */
+export function enqueueMediaCleanupQueries(
+  postId: string | null,
+  targets: MediaCleanupTarget[],
+  now: Date = new Date()
+): { query: string; params: any[] }[] {
+  const timestamp = now.toISOString();
+
+  return targets.map(target => ({
+    query: `INSERT INTO media_cleanup_jobs (id, kind, resource_id, post_id, status, attempts, next_attempt_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 'pending', 0, ?, ?, ?)`,
+    params: [generateUUID(), target.kind, target.resourceId, postId, timestamp, timestamp, timestamp],
+  }));
+}
+
+/**
+ * Seconds to wait before the next attempt, doubling after each failure
+ * @param attempts - Attempts made so far (at least 1)
+ */
+export function getRetryDelaySeconds(attempts: number): number {
+  const delay = BASE_RETRY_DELAY_SECONDS * Math.pow(2, Math.max(attempts - 1, 0));
+  return Math.min(delay, MAX_RETRY_DELAY_SECONDS);
+}
+
+/**
+ * Work out what happens to a job after a failed attempt
+ */
+export function scheduleRetry(
+  attempts: number,
+  now: Date
+): { status: MediaCleanupStatus; nextAttemptAt: string } {
+  if (attempts >= MAX_CLEANUP_ATTEMPTS) {
+    return { status: 'dead', nextAttemptAt: now.toISOString() };
+  }
+
+  return {
+    status: 'pending',
+    nextAttemptAt: new Date(now.getTime() + getRetryDelaySeconds(attempts) * 1000).toISOString(),
+  };
+}
+
+/**
+ * Check whether a file is still used by a photo or video row
+ */
+async function isMediaReferenced(db: DatabaseClient, target: MediaCleanupTarget): Promise<boolean> {
+  const query = {
+    image: 'SELECT 1 FROM photo_content WHERE cloudflare_image_id = ? LIMIT 1',
+    stream: 'SELECT 1 FROM video_content WHERE stream_id = ? LIMIT 1',
+    r2: 'SELECT 1 FROM video_content WHERE r2_key = ? LIMIT 1',
+  }[target.kind];
+
+  return (await db.queryOne(query, [target.resourceId])) !== null;
+}
+
+/**
+ * Delete a stored file; throws if Cloudflare did not confirm it
+ * A file that is already gone counts as deleted, so retries are safe
+ */
+async function deleteMedia(env: MediaEnv, target: MediaCleanupTarget): Promise<void> {
+  if (target.kind === 'r2') {
+    const deleted = await createR2Client(env.MEDIA_BUCKET).delete(target.resourceId);
+    if (!deleted) {
+      throw new Error('R2 delete failed');
+    }
+    return;
+  }
+
+  if (target.kind === 'image') {
+    const deleted = await createCloudflareImagesClient({
+      accountId: env.CLOUDFLARE_ACCOUNT_ID,
+      accountHash: '', // Only used for delivery URLs
+      apiToken: env.CLOUDFLARE_IMAGES_API_TOKEN,
+    }).delete(target.resourceId);
+    if (!deleted) {
+      throw new Error('Cloudflare Images delete failed');
+    }
+    return;
+  }
+
+  const response = await fetch(`https://api.cloudflare.com/client/v4/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/stream/${target.resourceId}`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${env.CLOUDFLARE_STREAM_API_TOKEN}`,
+    },
+  });
+
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`${response.status} ${(await response.text()).slice(0, 500)}`);
+  }
+}
+
+/**
+ * Run the cleanup jobs that are due
+ * @returns How many jobs finished, will be retried, or were dead-lettered
+ */
+export async function drainMediaCleanupJobs(
+  db: DatabaseClient,
+  env: MediaEnv,
+  now: Date = new Date()
+): Promise<{ done: number; retrying: number; dead: number }> {
+  const jobs = await db.query<{ id: string; kind: MediaCleanupKind; resource_id: string; attempts: number }>(
+    `SELECT id, kind, resource_id, attempts
+    FROM media_cleanup_jobs
+    WHERE status = 'pending' AND next_attempt_at <= ?
+    ORDER BY next_attempt_at ASC
+    LIMIT ${MAX_CLEANUP_JOBS_PER_RUN}`,
+    [now.toISOString()]
+  );
+
+  const result = { done: 0, retrying: 0, dead: 0 };
+
+  for (const job of jobs) {
+    const target: MediaCleanupTarget = { kind: job.kind, resourceId: job.resource_id };
+
+    try {
+      if (!(await isMediaReferenced(db, target))) {
+        await deleteMedia(env, target);
+      }
+
+      await db.execute('DELETE FROM media_cleanup_jobs WHERE id = ?', [job.id]);
+      result.done++;
+    } catch (error) {
+      const attempts = job.attempts + 1;
+      const next = scheduleRetry(attempts, now);
+      const message = error instanceof Error ? error.message : String(error);
+
+      console.error(`[MEDIA CLEANUP] Failed to delete ${job.kind} ${job.resource_id} (attempt ${attempts}):`, message);
+
+      await db.execute(
+        `UPDATE media_cleanup_jobs
+        SET status = ?, attempts = ?, next_attempt_at = ?, last_error = ?, updated_at = ?
+        WHERE id = ?`,
+        [next.status, attempts, next.nextAttemptAt, message, now.toISOString(), job.id]
+      );
+
+      if (next.status === 'dead') {
+        result.dead++;
+      } else {
+        result.retrying++;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Map a media_cleanup_jobs row to its API representation
+ */
+export function toMediaCleanupJob(row: any): MediaCleanupJob {
+  return {
+    id: row.id,
+    kind: row.kind,
+    resourceId: row.resource_id,
+    postId: row.post_id,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
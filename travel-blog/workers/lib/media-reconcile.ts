@@ -0,0 +1,459 @@
+/**
+ * Media Reconciliation
+ * Feature: media-reconcile
+ *
+ * Compares what is stored in Cloudflare Images, Stream and R2 with what the
+ * database references. Orphans are stored files no row points to (e.g. an
+ * upload that succeeded while the D1 insert failed); dangling references are
+ * rows whose file no longer exists. Both are reported, and on request orphans
+ * are queued for deletion (through the media cleanup outbox) or re-linked to
+ * the post named in their upload metadata, and dangling rows are removed.
+ *
+ * The storage listings sit behind MediaSource so tests and local runs can use
+ * a fake; the Cloudflare-backed sources also take a fetch function and API
+ * base URL for the same reason.
+ */
+
+import type { DatabaseClient } from './db';
+import { enqueueMediaCleanupQueries, type MediaCleanupKind } from './media-cleanup';
+import { refreshPostCountersQuery } from './post-counters';
+import { generateUUID } from './uuid';
+
+// Uploads this recent may still be waiting for their row, so they are never orphans yet
+export const ORPHAN_GRACE_HOURS = 24;
+export const MAX_LISTING_PAGES = 100;
+
+export const CLOUDFLARE_API_BASE_URL = 'https://api.cloudflare.com/client/v4';
+
+export interface StoredMedia {
+  kind: MediaCleanupKind;
+  resourceId: string;
+  uploadedAt: string | null;
+  postId: string | null; // From the upload metadata, if any
+  // What is needed to recreate the content row when re-linking
+  url?: string;
+  thumbnailUrl?: string | null;
+  durationSeconds?: number | null;
+  width?: number | null;
+  height?: number | null;
+  fileSizeMb?: number | null;
+  originalFilename?: string | null;
+}
+
+export interface MediaSource {
+  kind: MediaCleanupKind;
+  list(): Promise<StoredMedia[]>;
+}
+
+export interface MediaReference {
+  kind: MediaCleanupKind;
+  resourceId: string;
+  table: 'photo_content' | 'video_content';
+  rowId: string;
+  postId: string;
+}
+
+export interface ReconcileOptions {
+  deleteOrphans?: boolean;
+  relinkOrphans?: boolean; // Takes precedence over deleteOrphans when a post can be found
+  pruneDangling?: boolean;
+}
+
+export interface OrphanReport {
+  kind: MediaCleanupKind;
+  resourceId: string;
+  uploadedAt: string | null;
+  postId: string | null;
+  action: 'reported' | 'queued-for-deletion' | 'relinked';
+}
+
+export interface DanglingReport {
+  kind: MediaCleanupKind;
+  resourceId: string;
+  table: MediaReference['table'];
+  rowId: string;
+  postId: string;
+  action: 'reported' | 'removed';
+}
+
+export interface ReconcileReport {
+  checkedAt: string;
+  sources: Array<{ kind: MediaCleanupKind; stored: number; referenced: number; error: string | null }>;
+  orphans: OrphanReport[];
+  dangling: DanglingReport[];
+  recentUploads: number; // Unreferenced but inside the grace period
+}
+
+type IdSets = Record<MediaCleanupKind, Set<string>>;
+
+function emptyIdSets(): IdSets {
+  return { image: new Set(), stream: new Set(), r2: new Set() };
+}
+
+/**
+ * Stored files that nothing references or has already queued for deletion
+ * @param cutoff - Files uploaded after this time are only counted as recent
+ */
+export function findOrphans(
+  stored: StoredMedia[],
+  referenced: IdSets,
+  queued: IdSets,
+  cutoff: string
+): { orphans: StoredMedia[]; recent: StoredMedia[] } {
+  const orphans: StoredMedia[] = [];
+  const recent: StoredMedia[] = [];
+
+  for (const media of stored) {
+    if (referenced[media.kind].has(media.resourceId) || queued[media.kind].has(media.resourceId)) {
+      continue;
+    }
+
+    if (media.uploadedAt && media.uploadedAt > cutoff) {
+      recent.push(media);
+    } else {
+      orphans.push(media);
+    }
+  }
+
+  return { orphans, recent };
+}
+
+/**
+ * References whose file is missing from a listing
+ * @param listed - Kinds whose listing succeeded; others are skipped rather than all reported
+ */
+export function findDangling(
+  references: MediaReference[],
+  stored: IdSets,
+  listed: Set<MediaCleanupKind>
+): MediaReference[] {
+  return references.filter(ref => listed.has(ref.kind) && !stored[ref.kind].has(ref.resourceId));
+}
+
+/**
+ * Queries that recreate the content row for an orphaned upload (for use in db.batch)
+ * The row is appended after the post's existing photos or videos
+ */
+export function relinkQueries(media: StoredMedia, postId: string, now: Date = new Date()): { query: string; params: any[] }[] {
+  const timestamp = now.toISOString();
+
+  const insert = media.kind === 'image'
+    ? {
+        query: `INSERT INTO photo_content (
+            id, post_id, url, cloudflare_image_id, caption, alt_text,
+            display_order, source, original_filename, uploaded_at, width, height
+          )
+          SELECT ?, ?, ?, ?, NULL, '', COALESCE(MAX(display_order), -1) + 1, 'upload', ?, ?, ?, ?
+          FROM photo_content WHERE post_id = ?`,
+        params: [
+          generateUUID(), postId, media.url, media.resourceId,
+          media.originalFilename ?? null, media.uploadedAt ?? timestamp,
+          media.width ?? null, media.height ?? null, postId,
+        ],
+      }
+    : {
+        query: `INSERT INTO video_content (
+            id, post_id, url, r2_key, stream_id, caption, display_order,
+            source, original_filename, uploaded_at, duration_seconds,
+            file_size_mb, thumbnail_url, width, height
+          )
+          SELECT ?, ?, ?, ?, ?, NULL, COALESCE(MAX(display_order), -1) + 1, 'upload', ?, ?, ?, ?, ?, ?, ?
+          FROM video_content WHERE post_id = ?`,
+        params: [
+          generateUUID(), postId, media.url,
+          media.kind === 'stream' ? `stream/${media.resourceId}` : media.resourceId,
+          media.kind === 'stream' ? media.resourceId : null,
+          media.originalFilename ?? null, media.uploadedAt ?? timestamp,
+          media.durationSeconds ?? null, media.fileSizeMb ?? null, media.thumbnailUrl ?? null,
+          media.width ?? null, media.height ?? null, postId,
+        ],
+      };
+
+  return [
+    insert,
+    // Open editors must reload before saving over the new content
+    { query: 'UPDATE blog_posts SET version = version + 1, updated_at = ? WHERE id = ?', params: [timestamp, postId] },
+    refreshPostCountersQuery(postId),
+  ];
+}
+
+/**
+ * Load every media reference held by photo and video rows
+ */
+export async function loadMediaReferences(db: DatabaseClient): Promise<MediaReference[]> {
+  const photos = await db.query<{ id: string; post_id: string; cloudflare_image_id: string }>(
+    'SELECT id, post_id, cloudflare_image_id FROM photo_content'
+  );
+  const videos = await db.query<{ id: string; post_id: string; r2_key: string | null; stream_id: string | null }>(
+    'SELECT id, post_id, r2_key, stream_id FROM video_content'
+  );
+
+  const references: MediaReference[] = photos.map(row => ({
+    kind: 'image',
+    resourceId: row.cloudflare_image_id,
+    table: 'photo_content',
+    rowId: row.id,
+    postId: row.post_id,
+  }));
+
+  for (const row of videos) {
+    if (row.stream_id) {
+      references.push({ kind: 'stream', resourceId: row.stream_id, table: 'video_content', rowId: row.id, postId: row.post_id });
+    }
+    // Stream videos only carry a "stream/" placeholder key
+    if (row.r2_key && !row.r2_key.startsWith('stream/')) {
+      references.push({ kind: 'r2', resourceId: row.r2_key, table: 'video_content', rowId: row.id, postId: row.post_id });
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Compare storage with the database, then apply the requested fixes
+ */
+export async function runMediaReconciliation(
+  db: DatabaseClient,
+  sources: MediaSource[],
+  options: ReconcileOptions = {},
+  now: Date = new Date()
+): Promise<ReconcileReport> {
+  const references = await loadMediaReferences(db);
+  const referenced = emptyIdSets();
+  for (const ref of references) {
+    referenced[ref.kind].add(ref.resourceId);
+  }
+
+  const queued = emptyIdSets();
+  const jobs = await db.query<{ kind: MediaCleanupKind; resource_id: string }>(
+    'SELECT kind, resource_id FROM media_cleanup_jobs'
+  );
+  for (const job of jobs) {
+    queued[job.kind].add(job.resource_id);
+  }
+
+  // List each store; a failed listing skips that kind instead of flagging everything
+  const stored: StoredMedia[] = [];
+  const storedIds = emptyIdSets();
+  const listed = new Set<MediaCleanupKind>();
+  const sourceReports: ReconcileReport['sources'] = [];
+
+  for (const source of sources) {
+    try {
+      const items = await source.list();
+      stored.push(...items);
+      items.forEach(item => storedIds[item.kind].add(item.resourceId));
+      listed.add(source.kind);
+      sourceReports.push({ kind: source.kind, stored: items.length, referenced: referenced[source.kind].size, error: null });
+    } catch (error) {
+      console.error(`[MEDIA RECONCILE] Failed to list ${source.kind}:`, error);
+      sourceReports.push({
+        kind: source.kind,
+        stored: 0,
+        referenced: referenced[source.kind].size,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const cutoff = new Date(now.getTime() - ORPHAN_GRACE_HOURS * 60 * 60 * 1000).toISOString();
+  const { orphans, recent } = findOrphans(stored, referenced, queued, cutoff);
+  const dangling = findDangling(references, storedIds, listed);
+
+  // Posts that orphans can be re-linked to (R2 objects carry no post metadata)
+  const livePosts = new Set<string>();
+  if (options.relinkOrphans) {
+    const postIds = Array.from(new Set(
+      orphans.filter(o => o.postId && o.kind !== 'r2' && o.url).map(o => o.postId!)
+    ));
+    if (postIds.length > 0) {
+      const rows = await db.query<{ id: string }>(
+        `SELECT id FROM blog_posts WHERE id IN (${postIds.map(() => '?').join(', ')})`,
+        postIds
+      );
+      rows.forEach(row => livePosts.add(row.id));
+    }
+  }
+
+  const orphanReports: OrphanReport[] = [];
+  for (const orphan of orphans) {
+    let action: OrphanReport['action'] = 'reported';
+
+    if (options.relinkOrphans && orphan.postId && livePosts.has(orphan.postId) && orphan.url) {
+      await db.batch(relinkQueries(orphan, orphan.postId, now));
+      action = 'relinked';
+    } else if (options.deleteOrphans) {
+      await db.batch(enqueueMediaCleanupQueries(orphan.postId, [orphan], now));
+      action = 'queued-for-deletion';
+    }
+
+    orphanReports.push({
+      kind: orphan.kind,
+      resourceId: orphan.resourceId,
+      uploadedAt: orphan.uploadedAt,
+      postId: orphan.postId,
+      action,
+    });
+  }
+
+  const danglingReports: DanglingReport[] = [];
+  for (const ref of dangling) {
+    if (options.pruneDangling) {
+      await db.batch([
+        { query: `DELETE FROM ${ref.table} WHERE id = ?`, params: [ref.rowId] },
+        { query: 'UPDATE blog_posts SET version = version + 1, updated_at = ? WHERE id = ?', params: [now.toISOString(), ref.postId] },
+        refreshPostCountersQuery(ref.postId),
+      ]);
+    }
+
+    danglingReports.push({ ...ref, action: options.pruneDangling ? 'removed' : 'reported' });
+  }
+
+  return {
+    checkedAt: now.toISOString(),
+    sources: sourceReports,
+    orphans: orphanReports,
+    dangling: danglingReports,
+    recentUploads: recent.length,
+  };
+}
+
+export interface CloudflareMediaEnv {
+  MEDIA_BUCKET: R2Bucket;
+  CLOUDFLARE_ACCOUNT_ID: string;
+  CLOUDFLARE_IMAGES_API_TOKEN: string;
+  CLOUDFLARE_STREAM_API_TOKEN: string;
+  CLOUDFLARE_API_BASE_URL?: string; // Point at a local fake instead of the real API
+}
+
+/**
+ * Read one page of a Cloudflare API listing, throwing on any error
+ */
+async function fetchApiPage(fetchFn: typeof fetch, url: string, token: string): Promise<any> {
+  const response = await fetchFn(url, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Listing failed (${response.status}): ${(await response.text()).slice(0, 200)}`);
+  }
+
+  const data = await response.json() as any;
+  if (!data.success) {
+    throw new Error(`Listing failed: ${data.errors?.[0]?.message || 'Unknown error'}`);
+  }
+
+  return data.result;
+}
+
+/**
+ * Media sources backed by the Cloudflare APIs and the R2 bucket
+ */
+export function createCloudflareMediaSources(
+  env: CloudflareMediaEnv,
+  fetchFn: typeof fetch = fetch
+): MediaSource[] {
+  const accountUrl = `${env.CLOUDFLARE_API_BASE_URL || CLOUDFLARE_API_BASE_URL}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}`;
+
+  const images: MediaSource = {
+    kind: 'image',
+    async list() {
+      const items: StoredMedia[] = [];
+      let token: string | null = null;
+
+      for (let page = 0; page < MAX_LISTING_PAGES; page++) {
+        const query = `per_page=1000${token ? `&continuation_token=${encodeURIComponent(token)}` : ''}`;
+        const result = await fetchApiPage(fetchFn, `${accountUrl}/images/v2?${query}`, env.CLOUDFLARE_IMAGES_API_TOKEN);
+
+        for (const image of result.images ?? []) {
+          const variants: string[] = image.variants ?? [];
+          items.push({
+            kind: 'image',
+            resourceId: image.id,
+            uploadedAt: image.uploaded ?? null,
+            postId: image.meta?.postId ?? null,
+            url: variants.find(url => url.endsWith('/public')) ?? variants[0],
+            originalFilename: image.filename ?? null,
+          });
+        }
+
+        token = result.continuation_token ?? null;
+        if (!token) {
+          return items;
+        }
+      }
+
+      throw new Error(`Images listing has more than ${MAX_LISTING_PAGES} pages`);
+    },
+  };
+
+  const stream: MediaSource = {
+    kind: 'stream',
+    async list() {
+      const items = new Map<string, StoredMedia>();
+      let start: string | null = null;
+
+      // Stream pages by creation time; each page starts at the last video seen
+      for (let page = 0; page < MAX_LISTING_PAGES; page++) {
+        const query = `asc=true&limit=1000${start ? `&start=${encodeURIComponent(start)}` : ''}`;
+        const videos: any[] = await fetchApiPage(fetchFn, `${accountUrl}/stream?${query}`, env.CLOUDFLARE_STREAM_API_TOKEN) ?? [];
+        const before = items.size;
+
+        for (const video of videos) {
+          items.set(video.uid, {
+            kind: 'stream',
+            resourceId: video.uid,
+            uploadedAt: video.created ?? null,
+            postId: video.meta?.postId ?? null,
+            url: video.playback?.hls,
+            thumbnailUrl: video.thumbnail ?? null,
+            durationSeconds: video.duration ?? null,
+            width: video.input?.width ?? null,
+            height: video.input?.height ?? null,
+            fileSizeMb: video.size ? video.size / (1024 * 1024) : null,
+            originalFilename: video.meta?.originalFilename ?? null,
+          });
+        }
+
+        if (videos.length < 1000 || items.size === before) {
+          return Array.from(items.values());
+        }
+        start = videos[videos.length - 1].created;
+      }
+
+      throw new Error(`Stream listing has more than ${MAX_LISTING_PAGES} pages`);
+    },
+  };
+
+  const r2: MediaSource = {
+    kind: 'r2',
+    async list() {
+      const items: StoredMedia[] = [];
+      let cursor: string | undefined;
+
+      for (let page = 0; page < MAX_LISTING_PAGES; page++) {
+        const result = await env.MEDIA_BUCKET.list({ cursor });
+
+        for (const object of result.objects) {
+          items.push({
+            kind: 'r2',
+            resourceId: object.key,
+            uploadedAt: object.uploaded.toISOString(),
+            postId: null,
+          });
+        }
+
+        if (!result.truncated) {
+          return items;
+        }
+        cursor = result.cursor;
+      }
+
+      throw new Error(`R2 listing has more than ${MAX_LISTING_PAGES} pages`);
+    },
+  };
+
+  return [images, stream, r2];
+}
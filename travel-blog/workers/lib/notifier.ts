@@ -0,0 +1,108 @@
+/**
+ * Notifier
+ * Feature: password-reset
+ *
+ * Delivers messages to users (password reset links) through a pluggable
+ * transport chosen with NOTIFIER_TRANSPORT:
+ * - console (default in development): logs the message, for wrangler dev.
+ *   Outside development only the recipient and subject are logged, as the
+ *   text carries live reset links; a transport must be set explicitly there
+ * - file: appends JSON lines to NOTIFIER_FILE_PATH, for local development
+ *   where the runtime provides node:fs (falls back to console otherwise,
+ *   redacted as above)
+ * - webhook: POSTs the message as JSON to NOTIFIER_WEBHOOK_URL, e.g. an
+ *   email relay
+ */
+
+export interface Notification {
+  to: string; // Email address
+  subject: string;
+  text: string;
+}
+
+export interface Notifier {
+  send(notification: Notification): Promise<void>;
+}
+
+export interface NotifierEnv {
+  NODE_ENV?: string;
+  NOTIFIER_TRANSPORT?: string;
+  NOTIFIER_FILE_PATH?: string;
+  NOTIFIER_WEBHOOK_URL?: string;
+}
+
+export const DEFAULT_NOTIFIER_FILE_PATH = '.wrangler/notifications.jsonl';
+
+export const consoleNotifier: Notifier = {
+  async send(notification) {
+    console.log('[NOTIFIER] Message:', notification);
+  },
+};
+
+/**
+ * Logs that a message was sent without its text (which holds the link)
+ */
+export const redactedConsoleNotifier: Notifier = {
+  async send({ to, subject }) {
+    console.log('[NOTIFIER] Message (text redacted):', { to, subject });
+  },
+};
+
+/**
+ * Appends messages to a JSON lines file, handing them to fallback when it cannot be written
+ */
+export function fileNotifier(path: string, fallback: Notifier): Notifier {
+  return {
+    async send(notification) {
+      try {
+        const fs = await import('node:fs/promises');
+        await fs.appendFile(path, JSON.stringify({ ...notification, sentAt: new Date().toISOString() }) + '\n');
+      } catch (error) {
+        console.warn('[NOTIFIER] Could not write to file, logging instead:', error);
+        await fallback.send(notification);
+      }
+    },
+  };
+}
+
+export function webhookNotifier(url: string): Notifier {
+  return {
+    async send(notification) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(notification),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Notification webhook responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Notifier for the configured transport
+ * @throws If no transport is set outside development, or it is misconfigured
+ */
+export function createNotifier(env: NotifierEnv): Notifier {
+  const isDevelopment = env.NODE_ENV === 'development';
+  const transport = env.NOTIFIER_TRANSPORT || (isDevelopment ? 'console' : undefined);
+  const logNotifier = isDevelopment ? consoleNotifier : redactedConsoleNotifier;
+
+  switch (transport) {
+    case undefined:
+      throw new Error('NOTIFIER_TRANSPORT is required outside development');
+    case 'console':
+      return logNotifier;
+    case 'file':
+      return fileNotifier(env.NOTIFIER_FILE_PATH || DEFAULT_NOTIFIER_FILE_PATH, logNotifier);
+    case 'webhook':
+      if (!env.NOTIFIER_WEBHOOK_URL) {
+        throw new Error('NOTIFIER_WEBHOOK_URL is required for the webhook transport');
+      }
+      return webhookNotifier(env.NOTIFIER_WEBHOOK_URL);
+    default:
+      throw new Error(`Unknown NOTIFIER_TRANSPORT: ${transport}`);
+  }
+}
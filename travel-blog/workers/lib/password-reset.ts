@@ -0,0 +1,117 @@
+/**
+ * Password Reset Tokens
+ * Feature: password-reset
+ *
+ * Random, single-use reset tokens that expire after an hour. Only a SHA-256
+ * hash of each token is stored, so a leaked database cannot be used to reset
+ * passwords. Requesting a new token replaces the user's earlier ones.
+ *
+ * Changing or resetting a password records password_changed_at; sessions
+ * issued before then are revoked (see issuedBeforePasswordChange).
+ */
+
+import { generateUUID } from './uuid';
+import { generateRandomToken, hashToken } from './random-token';
+import type { Notification } from './notifier';
+
+export const RESET_TOKEN_TTL_MINUTES = 60;
+export const RESET_REQUEST_COOLDOWN_SECONDS = 60; // Per user, to avoid flooding their inbox
+
+export { generateRandomToken as generateResetToken, hashToken as hashResetToken };
+
+/**
+ * Create a reset token for a user, replacing any earlier ones
+ * @param db - D1 database instance
+ * @returns The token (to deliver, never stored) and its expiry, or null if
+ * the user requested one less than RESET_REQUEST_COOLDOWN_SECONDS ago
+ */
+export async function createPasswordResetToken(
+  db: any,
+  userId: number,
+  now: Date = new Date()
+): Promise<{ token: string; expiresAt: string } | null> {
+  const latest = await db
+    .prepare('SELECT created_at as createdAt FROM password_reset_tokens WHERE user_id = ? AND used_at IS NULL ORDER BY created_at DESC LIMIT 1')
+    .bind(userId)
+    .first();
+
+  if (latest && now.getTime() - Date.parse(latest.createdAt) < RESET_REQUEST_COOLDOWN_SECONDS * 1000) {
+    return null;
+  }
+
+  const token = generateRandomToken();
+  const expiresAt = new Date(now.getTime() + RESET_TOKEN_TTL_MINUTES * 60 * 1000).toISOString();
+
+  await db.batch([
+    db.prepare('DELETE FROM password_reset_tokens WHERE user_id = ?').bind(userId),
+    db.prepare('INSERT INTO password_reset_tokens (id, user_id, token_hash, created_at, expires_at) VALUES (?, ?, ?, ?, ?)')
+      .bind(generateUUID(), userId, await hashToken(token), now.toISOString(), expiresAt),
+  ]);
+
+  return { token, expiresAt };
+}
+
+/**
+ * Use up a reset token
+ * @param db - D1 database instance
+ * @returns ID of the user the token belongs to, or null if it is unknown,
+ * expired or already used
+ */
+export async function consumePasswordResetToken(
+  db: any,
+  token: string,
+  now: Date = new Date()
+): Promise<number | null> {
+  const result = await db
+    .prepare(`UPDATE password_reset_tokens SET used_at = ?
+      WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?
+      RETURNING user_id as userId`)
+    .bind(now.toISOString(), await hashToken(token), now.toISOString())
+    .first();
+
+  return result?.userId ?? null;
+}
+
+/**
+ * Whether a session was issued before the user's password last changed
+ * @param issuedAt - Session iat (seconds)
+ * @param passwordChangedAt - users.password_changed_at (ISO 8601)
+ */
+export function issuedBeforePasswordChange(issuedAt: number, passwordChangedAt?: string | null): boolean {
+  if (!passwordChangedAt) {
+    return false;
+  }
+
+  // The session issued by the change itself has the same (whole second) iat
+  return issuedAt < Math.floor(Date.parse(passwordChangedAt) / 1000);
+}
+
+/**
+ * Link to the reset page of the site
+ * @param appUrl - Base URL of the site, without a trailing slash
+ */
+export function getResetUrl(appUrl: string, token: string): string {
+  return `${appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Message carrying a reset link
+ */
+export function passwordResetNotification(
+  user: { username: string; displayName?: string | null; email: string },
+  resetUrl: string
+): Notification {
+  return {
+    to: user.email,
+    subject: 'Reset your Travel Blog password',
+    text: [
+      `Hi ${user.displayName || user.username},`,
+      '',
+      'Someone asked to reset the password of your Travel Blog account. If it was you, choose a new password here:',
+      '',
+      resetUrl,
+      '',
+      `The link works once and expires in ${RESET_TOKEN_TTL_MINUTES} minutes. If you did not ask for it, you can ignore this message.`,
+    ].join('\n'),
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Post Archive Utilities
+ * Feature: post-archive
+ *
+ * Counts of published posts by year and month of publication and by country,
+ * for the /blog/archive pages, and the ?year= / ?month= filter that lists the
+ * posts of one period. Periods are calendar months in UTC, matching the ISO
+ * 8601 UTC timestamps stored in published_at.
+ */
+
+import type { DatabaseClient } from './db';
+import { ValidationError } from './errors';
+import { parseCountryCode } from './post-taxonomy';
+
+export interface ArchivePeriod {
+  year: number;
+  month: number | null; // 1–12, or null for the whole year
+}
+
+export interface ArchiveMonth {
+  month: number; // 1–12
+  count: number;
+}
+
+export interface ArchiveYear {
+  year: number;
+  count: number;
+  months: ArchiveMonth[]; // Newest first, only months with posts
+}
+
+export interface ArchiveCountry {
+  countryCode: string;
+  count: number;
+}
+
+export interface PostArchive {
+  countryCode: string | null; // Country the years are limited to, if any
+  total: number;
+  years: ArchiveYear[]; // Newest first
+  countries: ArchiveCountry[]; // Most posts first, across all years
+}
+
+const MIN_YEAR = 1900;
+const MAX_YEAR = 9999;
+
+/**
+ * Read ?year= and ?month= (a month needs a year)
+ * @returns null if neither is given
+ */
+export function parseArchivePeriod(searchParams: URLSearchParams): ArchivePeriod | null {
+  const year = searchParams.get('year');
+  const month = searchParams.get('month');
+
+  if (year === null) {
+    if (month !== null) {
+      throw new ValidationError('month requires a year');
+    }
+    return null;
+  }
+
+  if (!/^\d{4}$/.test(year) || Number(year) < MIN_YEAR || Number(year) > MAX_YEAR) {
+    throw new ValidationError('year must be a four-digit year');
+  }
+  if (month !== null && (!/^\d{1,2}$/.test(month) || Number(month) < 1 || Number(month) > 12)) {
+    throw new ValidationError('month must be between 1 and 12');
+  }
+
+  return { year: Number(year), month: month === null ? null : Number(month) };
+}
+
+/**
+ * Start (inclusive) and end (exclusive) of a period as ISO 8601 UTC timestamps
+ */
+export function archivePeriodRange(period: ArchivePeriod): { from: string; to: string } {
+  const start = new Date(Date.UTC(period.year, (period.month ?? 1) - 1, 1));
+  const end = period.month === null
+    ? new Date(Date.UTC(period.year + 1, 0, 1))
+    : new Date(Date.UTC(period.year, period.month, 1));
+
+  return { from: start.toISOString(), to: end.toISOString() };
+}
+
+/**
+ * SQL condition for posts published within a period
+ * @param alias - Table alias of blog_posts in the query
+ */
+export function archivePeriodSql(period: ArchivePeriod, alias: string = 'p'): { condition: string; params: any[] } {
+  const { from, to } = archivePeriodRange(period);
+  return {
+    condition: `${alias}.published_at >= ? AND ${alias}.published_at < ?`,
+    params: [from, to],
+  };
+}
+
+/**
+ * Queries for the archive counts (for use in db.batchQuery)
+ * @param countryCode - Limit the year and month counts to one country
+ */
+export function archiveQueries(countryCode: string | null): { query: string; params: any[] }[] {
+  const published = "deleted_at IS NULL AND status = 'published' AND published_at IS NOT NULL";
+
+  return [
+    {
+      query: `SELECT
+        CAST(strftime('%Y', published_at) AS INTEGER) as year,
+        CAST(strftime('%m', published_at) AS INTEGER) as month,
+        COUNT(*) as count
+      FROM blog_posts
+      WHERE ${published}${countryCode ? ' AND country_code = ?' : ''}
+      GROUP BY year, month
+      ORDER BY year DESC, month DESC`,
+      params: countryCode ? [countryCode] : [],
+    },
+    {
+      query: `SELECT country_code, COUNT(*) as count
+      FROM blog_posts
+      WHERE ${published} AND country_code IS NOT NULL
+      GROUP BY country_code
+      ORDER BY count DESC, country_code ASC`,
+      params: [],
+    },
+  ];
+}
+
+/**
+ * Assemble the results of archiveQueries
+ */
+export function buildArchive(
+  countryCode: string | null,
+  monthRows: { year: number; month: number; count: number }[],
+  countryRows: { country_code: string; count: number }[]
+): PostArchive {
+  const years: ArchiveYear[] = [];
+
+  for (const row of monthRows) {
+    let year = years[years.length - 1];
+    if (!year || year.year !== row.year) {
+      year = { year: row.year, count: 0, months: [] };
+      years.push(year);
+    }
+    year.count += row.count;
+    year.months.push({ month: row.month, count: row.count });
+  }
+
+  return {
+    countryCode,
+    total: years.reduce((sum, year) => sum + year.count, 0),
+    years,
+    countries: countryRows.map(row => ({ countryCode: row.country_code, count: row.count })),
+  };
+}
+
+/**
+ * Load the archive counts in one round trip
+ */
+export async function loadPostArchive(db: DatabaseClient, country: string | null): Promise<PostArchive> {
+  const countryCode = country ? parseCountryCode(country) : null;
+  const [monthRows, countryRows] = await db.batchQuery<any>(archiveQueries(countryCode));
+  return buildArchive(countryCode, monthRows, countryRows);
+}
@@ -0,0 +1,249 @@
+/**
+ * Bulk Post Actions
+ * Feature: post-bulk-actions
+ *
+ * Applies one action to a set of posts from the manage page. Each post is
+ * checked on its own and reported back as a per-item result; the writes for
+ * every post that passed go to D1 in a single batch, so either all of them
+ * are applied or none are. A post saved by someone else after it was checked
+ * is reported as a conflict and left out of the batch.
+ */
+
+import type { DatabaseClient } from './db';
+import { ValidationError } from './errors';
+import { MAX_TAGS_PER_POST, parseTags, type PostTag } from './post-taxonomy';
+import type { RevisionAction } from './post-revisions';
+import { claimPostVersionQuery } from './post-version';
+import { generateUUID } from './uuid';
+
+export const BULK_ACTIONS = ['publish', 'unpublish', 'change-template', 'add-tags', 'delete'] as const;
+
+export type BulkAction = typeof BULK_ACTIONS[number];
+
+export const MAX_BULK_POSTS = 100;
+
+export interface BulkRequest {
+  action: BulkAction;
+  postIds: string[];
+  templateId?: string; // Required for change-template
+  tags?: PostTag[]; // Required for add-tags
+}
+
+/** The columns of a post that the per-item checks look at */
+export interface BulkPostRow {
+  id: string;
+  author_id: string;
+  status: string;
+  scheduled_for: string | null;
+  design_template_id: string;
+  version: number;
+  tag_slugs: string | null; // Comma-separated slugs of the post's current tags
+}
+
+export interface BulkItemResult {
+  postId: string;
+  ok: boolean;
+  version?: number; // New post version, for actions that bump it
+  error?: string;
+}
+
+function isBulkAction(value: unknown): value is BulkAction {
+  return typeof value === 'string' && (BULK_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Validate a bulk request body
+ */
+export function parseBulkRequest(body: any): BulkRequest {
+  if (!isBulkAction(body?.action)) {
+    throw new ValidationError(`action must be one of: ${BULK_ACTIONS.join(', ')}`);
+  }
+
+  const postIds = body.postIds;
+  if (!Array.isArray(postIds) || postIds.length === 0 ||
+      postIds.some((id: unknown) => typeof id !== 'string' || id.length === 0)) {
+    throw new ValidationError('postIds must be a non-empty array of post IDs');
+  }
+
+  const unique = Array.from(new Set<string>(postIds));
+  if (unique.length > MAX_BULK_POSTS) {
+    throw new ValidationError(`At most ${MAX_BULK_POSTS} posts can be changed at once`);
+  }
+
+  const request: BulkRequest = { action: body.action, postIds: unique };
+
+  if (body.action === 'change-template') {
+    if (typeof body.templateId !== 'string' || body.templateId.length === 0) {
+      throw new ValidationError('templateId is required for change-template');
+    }
+    request.templateId = body.templateId;
+  }
+
+  if (body.action === 'add-tags') {
+    const tags = parseTags(body.tags);
+    if (tags.length === 0) {
+      throw new ValidationError('tags must contain at least one tag for add-tags');
+    }
+    request.tags = tags;
+  }
+
+  return request;
+}
+
+/**
+ * The revision recorded before an action changes a post
+ * Deleting only moves the post to the trash, so it records none (like DELETE /api/posts/:postId)
+ */
+export function getBulkRevisionAction(action: BulkAction): RevisionAction | null {
+  switch (action) {
+    case 'publish':
+    case 'unpublish':
+      return 'update-metadata';
+    case 'change-template':
+      return 'change-template';
+    case 'add-tags':
+      return 'update-taxonomy';
+    case 'delete':
+      return null;
+  }
+}
+
+/**
+ * Check whether the user may apply the action to one post
+ * @returns The reason the post is skipped, or null if the action applies
+ */
+export function checkBulkItem(
+  post: BulkPostRow | undefined,
+  request: BulkRequest,
+  user: { sub: string; role: string }
+): string | null {
+  if (!post) {
+    return 'Post not found';
+  }
+
+  // Contributors can delete any post, everything else is limited to the author
+  const mayChange = post.author_id === user.sub ||
+    (request.action === 'delete' && user.role === 'contributor');
+  if (!mayChange) {
+    return 'You do not have permission to change this post';
+  }
+
+  switch (request.action) {
+    case 'publish':
+      return post.status === 'published' ? 'Post is already published' : null;
+
+    case 'unpublish':
+      // Unpublishing a scheduled post cancels the schedule
+      return post.status !== 'published' && !post.scheduled_for ? 'Post is not published' : null;
+
+    case 'change-template':
+      return post.design_template_id === request.templateId ? 'Post already uses this template' : null;
+
+    case 'add-tags': {
+      const current = new Set(post.tag_slugs ? post.tag_slugs.split(',') : []);
+      const added = (request.tags || []).filter(tag => !current.has(tag.slug));
+      if (added.length === 0) {
+        return 'Post already has these tags';
+      }
+      if (current.size + added.length > MAX_TAGS_PER_POST) {
+        return `A post can have at most ${MAX_TAGS_PER_POST} tags`;
+      }
+      return null;
+    }
+
+    case 'delete':
+      return null;
+  }
+}
+
+/**
+ * Queries that apply the action to one post (for use in db.batch)
+ * Everything but delete also claims the next post version from the one that was
+ * checked, like the single-post routes do; if another save got there first the
+ * claim fails and rolls back the whole batch
+ */
+export function bulkItemQueries(
+  post: BulkPostRow,
+  request: BulkRequest,
+  userId: string,
+  now: string
+): { query: string; params: any[] }[] {
+  const bumpVersion = claimPostVersionQuery(post.id, post.version, now);
+
+  switch (request.action) {
+    case 'publish':
+      return [
+        bumpVersion,
+        {
+          query: `UPDATE blog_posts SET status = 'published', scheduled_for = NULL,
+            published_at = COALESCE(published_at, ?) WHERE id = ?`,
+          params: [now, post.id],
+        },
+      ];
+
+    case 'unpublish':
+      return [
+        bumpVersion,
+        {
+          query: `UPDATE blog_posts SET status = 'draft', scheduled_for = NULL WHERE id = ?`,
+          params: [post.id],
+        },
+      ];
+
+    case 'change-template':
+      return [
+        bumpVersion,
+        {
+          query: 'UPDATE blog_posts SET design_template_id = ? WHERE id = ?',
+          params: [request.templateId, post.id],
+        },
+        {
+          query: `INSERT INTO post_template_history
+            (id, post_id, template_id, changed_at, changed_by, previous_template_id, reason)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          params: [generateUUID(), post.id, request.templateId, now, userId, post.design_template_id, 'Bulk change'],
+        },
+      ];
+
+    case 'add-tags':
+      return [
+        bumpVersion,
+        ...(request.tags || []).flatMap(tag => [
+          {
+            query: 'INSERT INTO tags (id, slug, name, created_at) VALUES (?, ?, ?, ?) ON CONFLICT(slug) DO NOTHING',
+            params: [generateUUID(), tag.slug, tag.name, now],
+          },
+          {
+            query: 'INSERT OR IGNORE INTO post_tags (post_id, tag_id) SELECT ?, id FROM tags WHERE slug = ?',
+            params: [post.id, tag.slug],
+          },
+        ]),
+      ];
+
+    case 'delete':
+      return [
+        {
+          query: 'UPDATE blog_posts SET deleted_at = ?, deleted_by = ? WHERE id = ? AND deleted_at IS NULL',
+          params: [now, userId, post.id],
+        },
+      ];
+  }
+}
+
+/**
+ * IDs of the posts whose version has moved on (or that are gone) since they were read
+ */
+export async function findStalePosts(
+  db: DatabaseClient,
+  posts: Map<string, BulkPostRow>,
+  postIds: string[]
+): Promise<string[]> {
+  const placeholders = postIds.map(() => '?').join(', ');
+  const rows = await db.query<{ id: string; version: number }>(
+    `SELECT id, version FROM blog_posts WHERE id IN (${placeholders})`,
+    postIds
+  );
+  const versions = new Map(rows.map(row => [row.id, row.version]));
+
+  return postIds.filter(postId => versions.get(postId) !== posts.get(postId)?.version);
+}
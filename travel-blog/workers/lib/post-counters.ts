@@ -0,0 +1,30 @@
+/**
+ * Post Counter Utilities
+ * Feature: post-counters
+ *
+ * blog_posts keeps its photo, video and text block counts and the cover image
+ * to display (the chosen cover_image, or else the first photo), so lists read
+ * them straight from the row. Every write that adds, removes or reorders
+ * content, or changes cover_image, appends refreshPostCountersQuery to its
+ * batch. The values are recounted rather than incremented, so a missed
+ * refresh is repaired by the next one.
+ */
+
+/**
+ * Query that recounts a post's content and resolves its cover image (for use in db.batch)
+ */
+export function refreshPostCountersQuery(postId: string): { query: string; params: any[] } {
+  return {
+    query: `UPDATE blog_posts SET
+      photo_count = (SELECT COUNT(*) FROM photo_content WHERE post_id = blog_posts.id),
+      video_count = (SELECT COUNT(*) FROM video_content WHERE post_id = blog_posts.id),
+      text_count = (SELECT COUNT(*) FROM text_content WHERE post_id = blog_posts.id),
+      resolved_cover_image = COALESCE(
+        cover_image,
+        (SELECT url FROM photo_content WHERE post_id = blog_posts.id ORDER BY display_order ASC LIMIT 1)
+      )
+    WHERE id = ?`,
+    params: [postId],
+  };
+}
+
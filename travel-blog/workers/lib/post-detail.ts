@@ -0,0 +1,150 @@
+/**
+ * Post Detail Utilities
+ * Feature: post-counters
+ *
+ * Loads everything the post page needs — the post, its photos, videos, text
+ * blocks, taxonomy and trip navigation — in one db.batch round trip. Looking
+ * a post up by slug resolves its ID inside each query, so the slug and ID
+ * routes share the same single batch.
+ */
+
+import type { DatabaseClient } from './db';
+import { postStatusSql } from './post-schedule';
+import { COMPANIONS, type PostTaxonomy } from './post-taxonomy';
+import { buildTripNavigation, visiblePartSql, type TripNavigation, type TripPartLink } from './trips';
+
+export interface PostLookup {
+  by: 'id' | 'slug';
+  value: string;
+}
+
+export interface PostDetail {
+  post: any; // blog_posts row joined with its template name
+  photos: any[];
+  videos: any[];
+  textBlocks: any[];
+  taxonomy: PostTaxonomy;
+  trip: TripNavigation | null;
+}
+
+/**
+ * The read queries for one post, in the order buildPostDetail expects their results
+ * @param viewer - Username of the signed-in user, if any (decides which trip parts are visible)
+ */
+export function postDetailQueries(lookup: PostLookup, viewer: string | null): { query: string; params: any[] }[] {
+  // Child tables are matched on the post ID, resolved from the slug when needed
+  const postIdSql = lookup.by === 'id'
+    ? '?'
+    : '(SELECT id FROM blog_posts WHERE slug = ? AND deleted_at IS NULL)';
+  const visible = visiblePartSql(viewer);
+
+  return [
+    {
+      query: `SELECT
+        p.id, p.slug, p.title, p.description, p.cover_image,
+        p.design_template_id as template_id, t.name as template_name,
+        p.author_id, ${postStatusSql()} as status, p.scheduled_for,
+        p.published_at, p.created_at, p.updated_at, p.version,
+        p.country_code, p.destination
+      FROM blog_posts p
+      JOIN design_templates t ON p.design_template_id = t.id
+      WHERE p.${lookup.by} = ? AND p.deleted_at IS NULL`,
+      params: [lookup.value],
+    },
+    {
+      query: `SELECT
+        id, url, cloudflare_image_id, caption, alt_text,
+        display_order, width, height
+      FROM photo_content
+      WHERE post_id = ${postIdSql}
+      ORDER BY display_order ASC`,
+      params: [lookup.value],
+    },
+    {
+      query: `SELECT
+        id, url, r2_key, caption, display_order,
+        thumbnail_url, duration_seconds
+      FROM video_content
+      WHERE post_id = ${postIdSql}
+      ORDER BY display_order ASC`,
+      params: [lookup.value],
+    },
+    {
+      query: `SELECT id, content, display_order
+      FROM text_content
+      WHERE post_id = ${postIdSql}
+      ORDER BY display_order ASC`,
+      params: [lookup.value],
+    },
+    {
+      query: `SELECT t.slug, t.name
+      FROM post_tags pt
+      JOIN tags t ON t.id = pt.tag_id
+      WHERE pt.post_id = ${postIdSql}
+      ORDER BY t.name ASC`,
+      params: [lookup.value],
+    },
+    {
+      query: `SELECT companion FROM post_companions WHERE post_id = ${postIdSql}`,
+      params: [lookup.value],
+    },
+    {
+      query: `SELECT t.id, t.slug, t.title
+      FROM trip_posts tp
+      JOIN trips t ON t.id = tp.trip_id
+      WHERE tp.post_id = ${postIdSql}`,
+      params: [lookup.value],
+    },
+    {
+      query: `SELECT p.id, p.slug, p.title
+      FROM trip_posts tp
+      JOIN blog_posts p ON p.id = tp.post_id
+      WHERE tp.trip_id = (SELECT trip_id FROM trip_posts WHERE post_id = ${postIdSql})
+        AND ${visible.condition}
+      ORDER BY tp.position ASC`,
+      params: [lookup.value, ...visible.params],
+    },
+  ];
+}
+
+/**
+ * Assemble the results of postDetailQueries
+ * @returns null if the post does not exist
+ */
+export function buildPostDetail(results: any[][]): PostDetail | null {
+  const [posts, photos, videos, textBlocks, tags, companions, trips, tripParts] = results;
+  const post = posts[0];
+
+  if (!post) {
+    return null;
+  }
+
+  const companionSet = new Set(companions.map(row => row.companion));
+  const trip = trips[0];
+
+  return {
+    post,
+    photos,
+    videos,
+    textBlocks,
+    taxonomy: {
+      countryCode: post.country_code ?? null,
+      destination: post.destination ?? null,
+      tags: tags.map(row => ({ slug: row.slug, name: row.name })),
+      companions: COMPANIONS.filter(c => companionSet.has(c)),
+    },
+    trip: trip ? buildTripNavigation(trip, tripParts as TripPartLink[], post.id) : null,
+  };
+}
+
+/**
+ * Load a post with its content, taxonomy and trip navigation in one round trip
+ * @returns null if the post does not exist (access checks are up to the caller)
+ */
+export async function loadPostDetail(
+  db: DatabaseClient,
+  lookup: PostLookup,
+  viewer: string | null
+): Promise<PostDetail | null> {
+  return buildPostDetail(await db.batchQuery(postDetailQueries(lookup, viewer)));
+}
@@ -0,0 +1,80 @@
+/**
+ * Post Duplication Utilities
+ * Feature: post-duplicate
+ *
+ * Copies a post's structure into a new draft. Photos and videos are copied
+ * as references to the same stored files; the media cleanup outbox only
+ * deletes a file once no row refers to it, so the copies stay independent.
+ */
+
+export interface DuplicateContent {
+  textIds: string[];
+  photoIds: string[];
+  videoIds: string[];
+}
+
+/**
+ * Default title for a copy: "Tuscany (copy)", then "(copy 2)" and so on
+ */
+export function getDuplicateTitle(title: string): string {
+  const match = title.match(/^(.*) \(copy(?: (\d+))?\)$/);
+
+  if (!match) {
+    return `${title} (copy)`;
+  }
+
+  const next = match[2] ? parseInt(match[2], 10) + 1 : 2;
+  return `${match[1]} (copy ${next})`;
+}
+
+/**
+ * Queries that copy content blocks into another post (for use in db.batch)
+ * @param newId - Generates the ID of each copied row
+ */
+export function duplicateContentQueries(
+  targetPostId: string,
+  content: DuplicateContent,
+  newId: () => string,
+  now: string
+): { query: string; params: any[] }[] {
+  const queries: { query: string; params: any[] }[] = [];
+
+  for (const textId of content.textIds) {
+    queries.push({
+      query: `INSERT INTO text_content (id, post_id, section_name, content, format, display_order, created_at, updated_at)
+        SELECT ?, ?, section_name, content, format, display_order, ?, ?
+        FROM text_content WHERE id = ?`,
+      params: [newId(), targetPostId, now, now, textId],
+    });
+  }
+
+  for (const photoId of content.photoIds) {
+    queries.push({
+      query: `INSERT INTO photo_content (
+          id, post_id, url, cloudflare_image_id, caption, alt_text,
+          display_order, source, original_filename, uploaded_at, width, height
+        )
+        SELECT ?, ?, url, cloudflare_image_id, caption, alt_text,
+          display_order, source, original_filename, uploaded_at, width, height
+        FROM photo_content WHERE id = ?`,
+      params: [newId(), targetPostId, photoId],
+    });
+  }
+
+  for (const videoId of content.videoIds) {
+    queries.push({
+      query: `INSERT INTO video_content (
+          id, post_id, url, r2_key, stream_id, caption, display_order, source,
+          original_filename, uploaded_at, duration_seconds, file_size_mb, format,
+          thumbnail_url, width, height
+        )
+        SELECT ?, ?, url, r2_key, stream_id, caption, display_order, source,
+          original_filename, uploaded_at, duration_seconds, file_size_mb, format,
+          thumbnail_url, width, height
+        FROM video_content WHERE id = ?`,
+      params: [newId(), targetPostId, videoId],
+    });
+  }
+
+  return queries;
+}
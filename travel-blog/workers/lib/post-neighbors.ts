@@ -0,0 +1,121 @@
+/**
+ * Post Neighbor Utilities
+ * Feature: post-neighbors
+ *
+ * Previous/next links for a post page: the published posts just before and
+ * after it by publish date, optionally only those from the same country or
+ * with a given tag. Posts published at the same moment are told apart by ID,
+ * the same way the post list pages through them.
+ */
+
+import type { DatabaseClient } from './db';
+import { ValidationError } from './errors';
+import { keysetSql, type PostSort } from './post-pagination';
+import { facetFilterSql, type FacetFilters } from './post-taxonomy';
+
+export type NeighborScope =
+  | { by: 'all' }
+  | { by: 'country' } // The post's own country
+  | { by: 'tag'; tag: string }; // Tag slug
+
+export interface PostNeighbor {
+  id: string;
+  slug: string;
+  title: string;
+  publishedAt: string;
+}
+
+export interface PostNeighbors {
+  previous: PostNeighbor | null; // Published before the post
+  next: PostNeighbor | null; // Published after the post
+}
+
+// Newest first, as the blog lists posts: the previous post is the next one down the list
+const BY_PUBLISHED: PostSort = { field: 'published_at', direction: 'desc' };
+
+/**
+ * Read ?scope=country or ?scope=tag&tag=<slug>
+ */
+export function parseNeighborScope(searchParams: URLSearchParams): NeighborScope {
+  const scope = searchParams.get('scope');
+
+  if (scope === null || scope === 'all') {
+    return { by: 'all' };
+  }
+  if (scope === 'country') {
+    return { by: 'country' };
+  }
+  if (scope === 'tag') {
+    const tag = searchParams.get('tag')?.trim().toLowerCase();
+    if (!tag) {
+      throw new ValidationError('tag is required when scope is "tag"');
+    }
+    return { by: 'tag', tag };
+  }
+
+  throw new ValidationError('scope must be "all", "country" or "tag"');
+}
+
+/**
+ * Queries for the previous and next post (for use in db.batchQuery)
+ * @returns null if the post cannot have neighbors in this scope
+ *   (it is not published, or has no country to match)
+ */
+export function neighborQueries(
+  post: { id: string; status: string; published_at: string | null; country_code: string | null },
+  scope: NeighborScope
+): { query: string; params: any[] }[] | null {
+  if (post.status !== 'published' || !post.published_at) {
+    return null;
+  }
+  if (scope.by === 'country' && !post.country_code) {
+    return null;
+  }
+
+  const filters: FacetFilters = {
+    countryCode: scope.by === 'country' ? post.country_code : null,
+    tags: scope.by === 'tag' ? [scope.tag] : [],
+    companions: [],
+  };
+  const filter = facetFilterSql(filters);
+
+  return [false, true].map(before => {
+    const keyset = keysetSql(BY_PUBLISHED, { key: post.published_at!, id: post.id, before });
+    return {
+      query: `SELECT p.id, p.slug, p.title, p.published_at
+        FROM blog_posts p
+        WHERE ${['p.deleted_at IS NULL', "p.status = 'published'", ...filter.conditions, keyset.condition].join(' AND ')}
+        ORDER BY ${keyset.orderBy}
+        LIMIT 1`,
+      params: [...filter.params, ...keyset.params],
+    };
+  });
+}
+
+function toNeighbor(row: any): PostNeighbor | null {
+  return row
+    ? { id: row.id, slug: row.slug, title: row.title, publishedAt: row.published_at }
+    : null;
+}
+
+/**
+ * Assemble the results of neighborQueries
+ */
+export function buildNeighbors(results: any[][] | null): PostNeighbors {
+  return {
+    previous: toNeighbor(results?.[0]?.[0]),
+    next: toNeighbor(results?.[1]?.[0]),
+  };
+}
+
+/**
+ * Load the previous and next post in one round trip
+ */
+export async function loadPostNeighbors(
+  db: DatabaseClient,
+  post: { id: string; status: string; published_at: string | null; country_code: string | null },
+  scope: NeighborScope = { by: 'all' }
+): Promise<PostNeighbors> {
+  const queries = neighborQueries(post, scope);
+  return buildNeighbors(queries ? await db.batchQuery(queries) : null);
+}
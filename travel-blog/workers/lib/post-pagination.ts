@@ -0,0 +1,207 @@
+/**
+ * Post List Sorting and Keyset Pagination
+ * Feature: post-list-pagination
+ *
+ * GET /api/posts sorts by ?sort= and ?direction= and pages with opaque
+ * cursors. A cursor holds the sort key and ID of the row at the edge of the
+ * page it came from, so the next page is a range scan from there instead of
+ * an OFFSET that reads and discards every earlier row. The ID breaks ties
+ * between posts with the same sort key. Offset paging is still accepted for
+ * older clients.
+ */
+
+import { ValidationError } from './errors';
+
+export const POST_SORT_FIELDS = ['published_at', 'created_at', 'updated_at', 'title'] as const;
+
+export type PostSortField = typeof POST_SORT_FIELDS[number];
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface PostSort {
+  field: PostSortField;
+  direction: SortDirection;
+}
+
+export interface PostCursor {
+  key: string; // Sort key of the edge row
+  id: string; // ID of the edge row
+  before: boolean; // true for a previous-page cursor
+}
+
+interface CursorPayload {
+  s: PostSortField;
+  d: SortDirection;
+  k: string;
+  i: string;
+  b?: 1;
+}
+
+export const DEFAULT_POST_SORT: PostSort = { field: 'created_at', direction: 'desc' };
+
+/**
+ * SQL expression a sort field orders by
+ * Posts that were never published sort by their creation date under published_at
+ * (matching the expression indexes in migration 0014)
+ */
+export function sortKeySql(field: PostSortField, alias: string = 'p'): string {
+  switch (field) {
+    case 'published_at':
+      return `COALESCE(${alias}.published_at, ${alias}.created_at)`;
+    case 'title':
+      return `${alias}.title COLLATE NOCASE`;
+    default:
+      return `${alias}.${field}`;
+  }
+}
+
+/**
+ * Read ?sort= and ?direction= (title sorts A–Z by default, dates newest first)
+ */
+export function parsePostSort(searchParams: URLSearchParams): PostSort {
+  const sort = searchParams.get('sort');
+  const direction = searchParams.get('direction');
+
+  if (sort !== null && !(POST_SORT_FIELDS as readonly string[]).includes(sort)) {
+    throw new ValidationError(`sort must be one of: ${POST_SORT_FIELDS.join(', ')}`);
+  }
+  if (direction !== null && direction !== 'asc' && direction !== 'desc') {
+    throw new ValidationError('direction must be "asc" or "desc"');
+  }
+
+  const field = (sort as PostSortField | null) ?? DEFAULT_POST_SORT.field;
+
+  return {
+    field,
+    direction: (direction as SortDirection | null) ?? (field === 'title' ? 'asc' : 'desc'),
+  };
+}
+
+function toBase64Url(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * Encode the cursor for the page after (or before) a row
+ */
+export function encodeCursor(sort: PostSort, key: string, id: string, before: boolean = false): string {
+  const payload: CursorPayload = { s: sort.field, d: sort.direction, k: key, i: id };
+  if (before) {
+    payload.b = 1;
+  }
+  return toBase64Url(JSON.stringify(payload));
+}
+
+/**
+ * Decode a cursor and check that it was issued for the same sort order
+ */
+export function decodeCursor(token: string, sort: PostSort): PostCursor {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(fromBase64Url(token));
+  } catch {
+    throw new ValidationError('cursor is invalid');
+  }
+
+  if (!payload || typeof payload.k !== 'string' || typeof payload.i !== 'string') {
+    throw new ValidationError('cursor is invalid');
+  }
+  if (payload.s !== sort.field || payload.d !== sort.direction) {
+    throw new ValidationError('cursor was issued for a different sort order');
+  }
+
+  return { key: payload.k, id: payload.i, before: payload.b === 1 };
+}
+
+/**
+ * ORDER BY and range condition for one page
+ * A previous-page cursor scans backwards from the cursor; the caller reverses
+ * those rows so the page is still in the requested order
+ */
+export function keysetSql(
+  sort: PostSort,
+  cursor: PostCursor | null,
+  alias: string = 'p'
+): { condition: string | null; params: any[]; orderBy: string } {
+  const key = sortKeySql(sort.field, alias);
+  const backwards = cursor?.before === true;
+  const ascending = (sort.direction === 'asc') !== backwards;
+  const dir = ascending ? 'ASC' : 'DESC';
+  const orderBy = `${key} ${dir}, ${alias}.id ${dir}`;
+
+  if (!cursor) {
+    return { condition: null, params: [], orderBy };
+  }
+
+  // Written with a leading bound on the sort key so SQLite can seek the index to the cursor
+  const op = ascending ? '>' : '<';
+  return {
+    condition: `${key} ${op}= ? AND (${key} ${op} ? OR ${alias}.id ${op} ?)`,
+    params: [cursor.key, cursor.key, cursor.id],
+    orderBy,
+  };
+}
+
+/**
+ * Sort key of a row as it is stored in a cursor
+ */
+export function getSortKey(row: { published_at?: string | null; created_at: string; updated_at: string; title: string }, field: PostSortField): string {
+  switch (field) {
+    case 'published_at':
+      return row.published_at ?? row.created_at;
+    case 'created_at':
+      return row.created_at;
+    case 'updated_at':
+      return row.updated_at;
+    case 'title':
+      return row.title;
+  }
+}
+
+/**
+ * Trim the extra row fetched to detect another page, restore the requested
+ * order for previous-page cursors and build the cursors around the page
+ * @param rows - Up to limit + 1 rows in scan order
+ * @param hasEarlier - Whether rows exist before this page when scanning forwards
+ */
+export function buildKeysetPage<T extends { id: string; published_at?: string | null; created_at: string; updated_at: string; title: string }>(
+  rows: T[],
+  limit: number,
+  sort: PostSort,
+  cursor: PostCursor | null,
+  hasEarlier: boolean
+): { rows: T[]; nextCursor: string | null; prevCursor: string | null; hasMore: boolean; hasPrevious: boolean } {
+  const overflow = rows.length > limit;
+  const page = rows.slice(0, limit);
+
+  let hasMore: boolean;
+  let hasPrevious: boolean;
+
+  if (cursor?.before) {
+    page.reverse();
+    hasMore = true; // The cursor row itself comes after this page
+    hasPrevious = overflow;
+  } else {
+    hasMore = overflow;
+    hasPrevious = cursor !== null || hasEarlier;
+  }
+
+  const first = page[0];
+  const last = page[page.length - 1];
+
+  return {
+    rows: page,
+    nextCursor: hasMore && last ? encodeCursor(sort, getSortKey(last, sort.field), last.id) : null,
+    prevCursor: hasPrevious && first ? encodeCursor(sort, getSortKey(first, sort.field), first.id, true) : null,
+    hasMore,
+    hasPrevious,
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * Post Revision Utilities
+ * Feature: post-revision-history
+ *
+ * Snapshots a post and its content blocks before each save, computes
+ * field-level diffs between snapshots, and keeps the history bounded
+ */
+
+import type { DatabaseClient } from './db';
+import { generateUUID } from './uuid';
+import { postStatusSql } from './post-schedule';
+import { loadPostTaxonomy } from './post-taxonomy';
+
+// Keep the most recent revisions per post, older ones are pruned on write
+export const MAX_REVISIONS_PER_POST = 50;
+
+export type RevisionAction =
+  | 'update-metadata'
+  | 'create-text'
+  | 'update-text'
+  | 'delete-text'
+  | 'update-photo'
+  | 'update-video'
+  | 'reorder'
+  | 'change-template'
+  | 'update-taxonomy'
+  | 'restore';
+
+export interface PostSnapshot {
+  post: {
+    title: string;
+    slug: string;
+    description: string | null;
+    coverImage: string | null;
+    templateId: string;
+    status: string;
+    publishedAt: string | null;
+  };
+  // Missing from revisions saved before taxonomy existed
+  taxonomy?: {
+    countryCode: string | null;
+    destination: string | null;
+    tags: string[]; // Tag names
+    companions: string[];
+  };
+  photos: Array<{
+    id: string;
+    caption: string | null;
+    altText: string;
+    displayOrder: number;
+  }>;
+  videos: Array<{
+    id: string;
+    caption: string | null;
+    displayOrder: number;
+    thumbnailUrl: string | null;
+    durationSeconds: number | null;
+  }>;
+  textBlocks: Array<{
+    id: string;
+    content: string;
+    displayOrder: number;
+    sectionName: string;
+  }>;
+}
+
+export interface FieldChange {
+  field: string; // e.g. "post.title" or "textBlocks.<id>.content"
+  change: 'added' | 'removed' | 'modified';
+  before: unknown;
+  after: unknown;
+}
+
+export interface RevisionSummary {
+  id: string;
+  postId: string;
+  revisionNumber: number;
+  action: RevisionAction;
+  createdAt: string;
+  createdBy: string;
+}
+
+/**
+ * Load the current state of a post as a snapshot, or null if the post does not exist
+ */
+export async function loadPostSnapshot(
+  db: DatabaseClient,
+  postId: string
+): Promise<PostSnapshot | null> {
+  const post = await db.queryOne(
+    `SELECT title, slug, description, cover_image, design_template_id,
+      ${postStatusSql('blog_posts')} as status, published_at
+    FROM blog_posts
+    WHERE id = ?`,
+    [postId]
+  );
+
+  if (!post) {
+    return null;
+  }
+
+  const photos = await db.query(
+    `SELECT id, caption, alt_text, display_order
+    FROM photo_content
+    WHERE post_id = ?
+    ORDER BY display_order ASC`,
+    [postId]
+  );
+
+  const videos = await db.query(
+    `SELECT id, caption, display_order, thumbnail_url, duration_seconds
+    FROM video_content
+    WHERE post_id = ?
+    ORDER BY display_order ASC`,
+    [postId]
+  );
+
+  const textBlocks = await db.query(
+    `SELECT id, content, display_order, section_name
+    FROM text_content
+    WHERE post_id = ?
+    ORDER BY display_order ASC`,
+    [postId]
+  );
+
+  const taxonomy = await loadPostTaxonomy(db, postId);
+
+  return {
+    post: {
+      title: post.title,
+      slug: post.slug,
+      description: post.description,
+      coverImage: post.cover_image,
+      templateId: post.design_template_id,
+      status: post.status,
+      publishedAt: post.published_at,
+    },
+    taxonomy: {
+      countryCode: taxonomy.countryCode,
+      destination: taxonomy.destination,
+      tags: taxonomy.tags.map(tag => tag.name),
+      companions: taxonomy.companions,
+    },
+    photos: photos.map((p: any) => ({
+      id: p.id,
+      caption: p.caption,
+      altText: p.alt_text,
+      displayOrder: p.display_order,
+    })),
+    videos: videos.map((v: any) => ({
+      id: v.id,
+      caption: v.caption,
+      displayOrder: v.display_order,
+      thumbnailUrl: v.thumbnail_url,
+      durationSeconds: v.duration_seconds,
+    })),
+    textBlocks: textBlocks.map((t: any) => ({
+      id: t.id,
+      content: t.content,
+      displayOrder: t.display_order,
+      sectionName: t.section_name,
+    })),
+  };
+}
+
+/**
+ * Snapshot the current state of a post as queries (for use in db.batch ahead of the write)
+ * @returns An empty list if the post does not exist
+ */
+export async function revisionQueries(
+  db: DatabaseClient,
+  postId: string,
+  userId: string,
+  action: RevisionAction
+): Promise<{ query: string; params: any[] }[]> {
+  const snapshot = await loadPostSnapshot(db, postId);
+
+  if (!snapshot) {
+    return [];
+  }
+
+  const latest = await db.queryOne<{ max_number: number | null }>(
+    'SELECT MAX(revision_number) as max_number FROM post_revisions WHERE post_id = ?',
+    [postId]
+  );
+  const revisionNumber = (latest?.max_number ?? 0) + 1;
+
+  return [
+    {
+      query: `INSERT INTO post_revisions (
+        id, post_id, revision_number, action, snapshot, created_at, created_by
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      params: [
+        generateUUID(),
+        postId,
+        revisionNumber,
+        action,
+        JSON.stringify(snapshot),
+        new Date().toISOString(),
+        userId,
+      ],
+    },
+    {
+      query: 'DELETE FROM post_revisions WHERE post_id = ? AND revision_number <= ?',
+      params: [postId, revisionNumber - MAX_REVISIONS_PER_POST],
+    },
+  ];
+}
+
+/**
+ * Compare two values field by field and append the differences
+ */
+function diffFields(
+  prefix: string,
+  before: Record<string, any>,
+  after: Record<string, any>,
+  changes: FieldChange[]
+): void {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    if (key === 'id') continue;
+
+    const a = before[key] ?? null;
+    const b = after[key] ?? null;
+
+    // Lists (tags, companions) are compared by value
+    if (Array.isArray(a) && Array.isArray(b) && JSON.stringify(a) === JSON.stringify(b)) {
+      continue;
+    }
+
+    if (a !== b) {
+      changes.push({ field: `${prefix}.${key}`, change: 'modified', before: a, after: b });
+    }
+  }
+}
+
+/**
+ * Diff a list of content blocks keyed by id
+ */
+function diffBlocks<T extends { id: string }>(
+  name: string,
+  before: T[],
+  after: T[],
+  changes: FieldChange[]
+): void {
+  const afterById = new Map(after.map(block => [block.id, block]));
+  const beforeIds = new Set(before.map(block => block.id));
+
+  for (const block of before) {
+    const match = afterById.get(block.id);
+    if (!match) {
+      changes.push({ field: `${name}.${block.id}`, change: 'removed', before: block, after: null });
+    } else {
+      diffFields(`${name}.${block.id}`, block, match, changes);
+    }
+  }
+
+  for (const block of after) {
+    if (!beforeIds.has(block.id)) {
+      changes.push({ field: `${name}.${block.id}`, change: 'added', before: null, after: block });
+    }
+  }
+}
+
+/**
+ * Compute field-level changes needed to go from one snapshot to another
+ */
+export function diffSnapshots(from: PostSnapshot, to: PostSnapshot): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  diffFields('post', from.post, to.post, changes);
+  if (from.taxonomy && to.taxonomy) {
+    diffFields('taxonomy', from.taxonomy, to.taxonomy, changes);
+  }
+  diffBlocks('textBlocks', from.textBlocks, to.textBlocks, changes);
+  diffBlocks('photos', from.photos, to.photos, changes);
+  diffBlocks('videos', from.videos, to.videos, changes);
+
+  return changes;
+}
+
+/**
+ * Map a post_revisions row to its API representation
+ */
+export function toRevisionSummary(row: any): RevisionSummary {
+  return {
+    id: row.id,
+    postId: row.post_id,
+    revisionNumber: row.revision_number,
+    action: row.action,
+    createdAt: row.created_at,
+    createdBy: row.created_by,
+  };
+}
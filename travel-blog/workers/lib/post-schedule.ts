@@ -0,0 +1,62 @@
+/**
+ * Scheduled Publishing Utilities
+ * Feature: scheduled-publishing
+ *
+ * A scheduled post is stored as a draft with scheduled_for set, so it stays
+ * hidden from readers until the posts worker cron trigger publishes it.
+ * The API reports such posts with status "scheduled".
+ */
+
+import type { DatabaseClient } from './db';
+import { ValidationError } from './errors';
+
+/**
+ * SQL expression for the status reported by the API
+ * @param alias - Table alias of blog_posts in the query
+ */
+export function postStatusSql(alias: string = 'p'): string {
+  return `CASE WHEN ${alias}.status = 'draft' AND ${alias}.scheduled_for IS NOT NULL THEN 'scheduled' ELSE ${alias}.status END`;
+}
+
+/**
+ * Validate a requested publish time and normalise it to ISO 8601 UTC
+ * (stored as text, so it must compare correctly as a string)
+ */
+export function parseScheduledFor(value: unknown, now: Date = new Date()): string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new ValidationError('scheduledFor is required when status is "scheduled"');
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError('scheduledFor must be a valid ISO 8601 date-time');
+  }
+
+  if (date.getTime() <= now.getTime()) {
+    throw new ValidationError('scheduledFor must be in the future');
+  }
+
+  return date.toISOString();
+}
+
+/**
+ * Publish every scheduled post whose time has come
+ * published_at is set to the scheduled time rather than the time the cron ran
+ * @returns IDs of the posts that were published
+ */
+export async function publishDuePosts(
+  db: DatabaseClient,
+  now: Date = new Date()
+): Promise<string[]> {
+  const published = await db.query<{ id: string }>(
+    `UPDATE blog_posts
+      SET status = 'published', published_at = scheduled_for, scheduled_for = NULL,
+          updated_at = ?, version = version + 1
+      WHERE status = 'draft' AND scheduled_for IS NOT NULL AND scheduled_for <= ?
+        AND deleted_at IS NULL
+      RETURNING id`,
+    [now.toISOString(), now.toISOString()]
+  );
+
+  return published.map(row => row.id);
+}
@@ -0,0 +1,85 @@
+/**
+ * Post Search Utilities
+ * Feature: post-search
+ *
+ * Keeps the post_search FTS5 index in sync and turns user input into safe
+ * MATCH expressions. Each post has one index row that is rebuilt from the
+ * current database state whenever the post or its text blocks change.
+ */
+
+import type { DatabaseClient } from './db';
+
+// Markers wrapped around matched terms in snippets; the client turns them into <mark>
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+const MAX_QUERY_TERMS = 10;
+
+// A "<" that opens a complete tag in post_body.body (the CTE below)
+const HAS_TAG_SQL = "instr(body, '<') > 0 AND instr(substr(body, instr(body, '<')), '>') > 0";
+
+/**
+ * Queries that rebuild a post's search row (for use in db.batch after the write)
+ * Text blocks are stored as HTML; tags are replaced with spaces like tokenize in
+ * related-posts does, one per step of a recursive CTE as SQLite has no regex replace.
+ */
+export function reindexPostQueries(postId: string): { query: string; params: any[] }[] {
+  return [
+    { query: 'DELETE FROM post_search WHERE post_id = ?', params: [postId] },
+    {
+      query: `INSERT INTO post_search (post_id, title, description, body)
+        WITH RECURSIVE post_body(post_id, body) AS (
+          SELECT
+            p.id,
+            COALESCE((
+              SELECT group_concat(content, char(10))
+              FROM (SELECT content FROM text_content WHERE post_id = p.id ORDER BY display_order)
+            ), '')
+          FROM blog_posts p
+          WHERE p.id = ?
+          UNION ALL
+          SELECT
+            post_id,
+            substr(body, 1, instr(body, '<') - 1) || ' ' ||
+              substr(body, instr(body, '<') + instr(substr(body, instr(body, '<')), '>'))
+          FROM post_body
+          WHERE ${HAS_TAG_SQL}
+        )
+        SELECT p.id, p.title, COALESCE(p.description, ''), b.body
+        FROM blog_posts p
+        JOIN post_body b ON b.post_id = p.id
+        WHERE NOT (${HAS_TAG_SQL})`,
+      params: [postId],
+    },
+  ];
+}
+
+/**
+ * Rebuild a post's search row from its current state
+ */
+export async function reindexPost(db: DatabaseClient, postId: string): Promise<void> {
+  await db.batch(reindexPostQueries(postId));
+}
+
+/**
+ * Turn free text into an FTS5 MATCH expression
+ * Every term must match; the last one also matches as a prefix ("gela" finds "gelato").
+ * Terms are quoted so FTS5 operators and column filters in user input have no effect.
+ * @returns null when the input has no searchable terms
+ */
+export function buildMatchQuery(input: string): string | null {
+  const terms = input
+    .replace(/["\u0000-\u001f]/g, ' ')
+    .split(/\s+/)
+    .map(term => term.trim())
+    .filter(term => /[\p{L}\p{N}]/u.test(term))
+    .slice(0, MAX_QUERY_TERMS);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms
+    .map((term, index) => (index === terms.length - 1 ? `"${term}"*` : `"${term}"`))
+    .join(' ');
+}
@@ -0,0 +1,354 @@
+/**
+ * Post Taxonomy Utilities
+ * Feature: post-taxonomy
+ *
+ * Country, destination, tags and travel companions for blog posts, plus the
+ * facet filters and counts used by GET /api/posts. Tags live in a shared
+ * table and are created on first use; companions come from a fixed list.
+ */
+
+import type { DatabaseClient } from './db';
+import { ValidationError } from './errors';
+import { generateSlug } from './slug';
+import { generateUUID } from './uuid';
+
+// Must match the CHECK constraint on post_companions (migration 0009)
+export const COMPANIONS = ['solo', 'spouse', 'kids', 'parents', 'grandparents', 'friends', 'pets'] as const;
+
+export type Companion = typeof COMPANIONS[number];
+
+export const MAX_TAGS_PER_POST = 20;
+export const MAX_TAG_LENGTH = 40;
+export const MAX_DESTINATION_LENGTH = 100;
+export const MAX_FACET_TAGS = 30;
+
+export interface PostTag {
+  slug: string;
+  name: string;
+}
+
+export interface PostTaxonomy {
+  countryCode: string | null;
+  destination: string | null;
+  tags: PostTag[];
+  companions: Companion[];
+}
+
+export interface TaxonomyInput {
+  countryCode?: unknown;
+  destination?: unknown;
+  tags?: unknown;
+  companions?: unknown;
+}
+
+export interface FacetFilters {
+  countryCode: string | null;
+  tags: string[]; // Tag slugs, a post must have all of them
+  companions: Companion[]; // A post must include all of them
+}
+
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface PostFacets {
+  countries: FacetCount[];
+  tags: FacetCount[];
+  companions: FacetCount[];
+}
+
+function isCompanion(value: string): value is Companion {
+  return (COMPANIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Validate an ISO 3166-1 alpha-2 country code and normalise it to upper case
+ */
+export function parseCountryCode(value: unknown): string | null {
+  if (value === null || value === '') {
+    return null;
+  }
+
+  if (typeof value !== 'string' || !/^[A-Za-z]{2}$/.test(value.trim())) {
+    throw new ValidationError('countryCode must be a two-letter ISO 3166-1 country code');
+  }
+
+  return value.trim().toUpperCase();
+}
+
+/**
+ * Validate a tag list, dropping duplicates (by slug) and keeping the first spelling
+ */
+export function parseTags(value: unknown): PostTag[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError('tags must be an array of strings');
+  }
+
+  const tags = new Map<string, PostTag>();
+
+  for (const raw of value) {
+    if (typeof raw !== 'string') {
+      throw new ValidationError('tags must be an array of strings');
+    }
+
+    const name = raw.trim().replace(/\s+/g, ' ');
+    if (name.length > MAX_TAG_LENGTH) {
+      throw new ValidationError(`Tags must be at most ${MAX_TAG_LENGTH} characters`);
+    }
+
+    const slug = generateSlug(name);
+    if (!slug) {
+      throw new ValidationError(`Tag "${raw}" must contain at least one letter or number`);
+    }
+
+    if (!tags.has(slug)) {
+      tags.set(slug, { slug, name });
+    }
+  }
+
+  if (tags.size > MAX_TAGS_PER_POST) {
+    throw new ValidationError(`A post can have at most ${MAX_TAGS_PER_POST} tags`);
+  }
+
+  return Array.from(tags.values());
+}
+
+/**
+ * Validate a companion list against the fixed vocabulary
+ */
+export function parseCompanions(value: unknown): Companion[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError('companions must be an array');
+  }
+
+  const companions = new Set<Companion>();
+
+  for (const raw of value) {
+    const companion = typeof raw === 'string' ? raw.trim().toLowerCase() : '';
+    if (!isCompanion(companion)) {
+      throw new ValidationError(`companions must be one of: ${COMPANIONS.join(', ')}`);
+    }
+    companions.add(companion);
+  }
+
+  return COMPANIONS.filter(c => companions.has(c));
+}
+
+/**
+ * Apply a partial taxonomy update on top of the current values
+ * Fields left undefined are kept; null or empty clears them
+ */
+export function mergeTaxonomy(current: PostTaxonomy, input: TaxonomyInput): PostTaxonomy {
+  let destination = current.destination;
+
+  if (input.destination !== undefined) {
+    if (input.destination !== null && typeof input.destination !== 'string') {
+      throw new ValidationError('destination must be a string');
+    }
+    destination = input.destination?.trim() || null;
+    if (destination && destination.length > MAX_DESTINATION_LENGTH) {
+      throw new ValidationError(`destination must be at most ${MAX_DESTINATION_LENGTH} characters`);
+    }
+  }
+
+  return {
+    countryCode: input.countryCode !== undefined ? parseCountryCode(input.countryCode) : current.countryCode,
+    destination,
+    tags: input.tags !== undefined ? parseTags(input.tags ?? []) : current.tags,
+    companions: input.companions !== undefined ? parseCompanions(input.companions ?? []) : current.companions,
+  };
+}
+
+/**
+ * Load a post's taxonomy
+ */
+export async function loadPostTaxonomy(db: DatabaseClient, postId: string): Promise<PostTaxonomy> {
+  const post = await db.queryOne<{ country_code: string | null; destination: string | null }>(
+    'SELECT country_code, destination FROM blog_posts WHERE id = ?',
+    [postId]
+  );
+
+  const tags = await db.query<{ slug: string; name: string }>(
+    `SELECT t.slug, t.name
+    FROM post_tags pt
+    JOIN tags t ON t.id = pt.tag_id
+    WHERE pt.post_id = ?
+    ORDER BY t.name ASC`,
+    [postId]
+  );
+
+  const companions = await db.query<{ companion: string }>(
+    'SELECT companion FROM post_companions WHERE post_id = ?',
+    [postId]
+  );
+  const companionSet = new Set(companions.map(row => row.companion));
+
+  return {
+    countryCode: post?.country_code ?? null,
+    destination: post?.destination ?? null,
+    tags: tags.map(row => ({ slug: row.slug, name: row.name })),
+    companions: COMPANIONS.filter(c => companionSet.has(c)),
+  };
+}
+
+/**
+ * Queries that replace a post's taxonomy (for use in db.batch)
+ */
+export function setTaxonomyQueries(
+  postId: string,
+  taxonomy: PostTaxonomy
+): { query: string; params: any[] }[] {
+  const now = new Date().toISOString();
+  const queries: { query: string; params: any[] }[] = [
+    {
+      query: 'UPDATE blog_posts SET country_code = ?, destination = ? WHERE id = ?',
+      params: [taxonomy.countryCode, taxonomy.destination, postId],
+    },
+    { query: 'DELETE FROM post_tags WHERE post_id = ?', params: [postId] },
+    { query: 'DELETE FROM post_companions WHERE post_id = ?', params: [postId] },
+  ];
+
+  for (const tag of taxonomy.tags) {
+    queries.push(
+      {
+        query: 'INSERT INTO tags (id, slug, name, created_at) VALUES (?, ?, ?, ?) ON CONFLICT(slug) DO NOTHING',
+        params: [generateUUID(), tag.slug, tag.name, now],
+      },
+      {
+        query: 'INSERT INTO post_tags (post_id, tag_id) SELECT ?, id FROM tags WHERE slug = ?',
+        params: [postId, tag.slug],
+      }
+    );
+  }
+
+  for (const companion of taxonomy.companions) {
+    queries.push({
+      query: 'INSERT INTO post_companions (post_id, companion) VALUES (?, ?)',
+      params: [postId, companion],
+    });
+  }
+
+  return queries;
+}
+
+/**
+ * Read facet filters from list query parameters
+ * ?country=IT&tag=food&tag=beaches&with=grandparents (comma-separated values also work)
+ */
+export function parseFacetFilters(searchParams: URLSearchParams): FacetFilters {
+  const list = (name: string) =>
+    searchParams.getAll(name)
+      .flatMap(value => value.split(','))
+      .map(value => value.trim())
+      .filter(Boolean);
+
+  const country = searchParams.get('country');
+  const companions = list('with').map(value => value.toLowerCase());
+
+  for (const companion of companions) {
+    if (!isCompanion(companion)) {
+      throw new ValidationError(`with must be one of: ${COMPANIONS.join(', ')}`);
+    }
+  }
+
+  return {
+    countryCode: country ? parseCountryCode(country) : null,
+    tags: Array.from(new Set(list('tag').map(generateSlug).filter(Boolean))),
+    companions: Array.from(new Set(companions)) as Companion[],
+  };
+}
+
+/**
+ * SQL conditions for facet filters
+ * @param alias - Table alias of blog_posts in the query
+ */
+export function facetFilterSql(
+  filters: FacetFilters,
+  alias: string = 'p'
+): { conditions: string[]; params: any[] } {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.countryCode) {
+    conditions.push(`${alias}.country_code = ?`);
+    params.push(filters.countryCode);
+  }
+
+  for (const tag of filters.tags) {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM post_tags ft JOIN tags ftg ON ftg.id = ft.tag_id WHERE ft.post_id = ${alias}.id AND ftg.slug = ?)`
+    );
+    params.push(tag);
+  }
+
+  for (const companion of filters.companions) {
+    conditions.push(`EXISTS (SELECT 1 FROM post_companions fc WHERE fc.post_id = ${alias}.id AND fc.companion = ?)`);
+    params.push(companion);
+  }
+
+  return { conditions, params };
+}
+
+/**
+ * Count posts per facet value
+ * Countries ignore the country filter so readers can switch between them;
+ * tags and companions narrow down within the current selection
+ * @param baseConditions - Visibility conditions on blog_posts p (without facet filters)
+ */
+export async function loadFacetCounts(
+  db: DatabaseClient,
+  baseConditions: string[],
+  baseParams: any[],
+  filters: FacetFilters
+): Promise<PostFacets> {
+  const where = (facets: FacetFilters, extra: string[] = []) => {
+    const filter = facetFilterSql(facets);
+    const conditions = [...baseConditions, ...filter.conditions, ...extra];
+    return {
+      clause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params: [...baseParams, ...filter.params],
+    };
+  };
+
+  const countryWhere = where({ ...filters, countryCode: null }, ['p.country_code IS NOT NULL']);
+  const selectionWhere = where(filters);
+
+  const countries = await db.query<{ value: string; count: number }>(
+    `SELECT p.country_code as value, COUNT(*) as count
+    FROM blog_posts p
+    ${countryWhere.clause}
+    GROUP BY p.country_code
+    ORDER BY count DESC, value ASC`,
+    countryWhere.params
+  );
+
+  const tags = await db.query<{ value: string; label: string; count: number }>(
+    `SELECT t.slug as value, t.name as label, COUNT(*) as count
+    FROM blog_posts p
+    JOIN post_tags tag_link ON tag_link.post_id = p.id
+    JOIN tags t ON t.id = tag_link.tag_id
+    ${selectionWhere.clause}
+    GROUP BY t.id
+    ORDER BY count DESC, t.name ASC
+    LIMIT ${MAX_FACET_TAGS}`,
+    selectionWhere.params
+  );
+
+  const companions = await db.query<{ value: string; count: number }>(
+    `SELECT companion_link.companion as value, COUNT(*) as count
+    FROM blog_posts p
+    JOIN post_companions companion_link ON companion_link.post_id = p.id
+    ${selectionWhere.clause}
+    GROUP BY companion_link.companion
+    ORDER BY count DESC, value ASC`,
+    selectionWhere.params
+  );
+
+  return {
+    countries: countries.map(row => ({ value: row.value, label: row.value, count: row.count })),
+    tags: tags.map(row => ({ value: row.value, label: row.label, count: row.count })),
+    companions: companions.map(row => ({ value: row.value, label: row.value, count: row.count })),
+  };
+}
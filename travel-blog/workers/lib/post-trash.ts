@@ -0,0 +1,114 @@
+/**
+ * Post Trash Utilities
+ * Feature: post-trash
+ *
+ * Deleting a post only sets deleted_at, which hides it everywhere but the
+ * trash. The posts worker cron trigger purges trashed posts once the
+ * retention period (TRASH_RETENTION_DAYS) has passed; only then are the rows
+ * removed and the photos and videos queued for deletion from Cloudflare.
+ */
+
+import type { DatabaseClient } from './db';
+import { enqueueMediaCleanupQueries, photoCleanupTargets, videoCleanupTargets } from './media-cleanup';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const MAX_PURGE_PER_RUN = 20; // Keeps a cron run within its time limits
+
+/**
+ * Read the retention period from the TRASH_RETENTION_DAYS variable
+ * Falls back to the default when it is missing or not a positive number
+ */
+export function getTrashRetentionDays(value: string | undefined): number {
+  const days = value ? Number(value) : NaN;
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * When a post trashed at deletedAt will be purged
+ */
+export function getPurgeAfter(deletedAt: string, retentionDays: number): string {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Posts trashed before this time are due for purging
+ */
+export function getPurgeCutoff(now: Date, retentionDays: number): string {
+  return new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Queries that remove a post and everything that belongs to it (for use in db.batch)
+ */
+export function purgePostQueries(postId: string): { query: string; params: any[] }[] {
+  return [
+    { query: 'DELETE FROM photo_content WHERE post_id = ?', params: [postId] },
+    { query: 'DELETE FROM video_content WHERE post_id = ?', params: [postId] },
+    { query: 'DELETE FROM text_content WHERE post_id = ?', params: [postId] },
+    { query: 'DELETE FROM post_template_history WHERE post_id = ?', params: [postId] },
+    { query: 'DELETE FROM post_revisions WHERE post_id = ?', params: [postId] },
+    { query: 'DELETE FROM post_search WHERE post_id = ?', params: [postId] },
+    { query: 'DELETE FROM post_tags WHERE post_id = ?', params: [postId] },
+    { query: 'DELETE FROM post_companions WHERE post_id = ?', params: [postId] },
+    { query: 'DELETE FROM trip_posts WHERE post_id = ?', params: [postId] },
+    { query: 'DELETE FROM slug_history WHERE post_id = ?', params: [postId] },
+    { query: 'DELETE FROM related_posts_cache WHERE post_id = ?', params: [postId] },
+    { query: 'DELETE FROM blog_posts WHERE id = ?', params: [postId] },
+  ];
+}
+
+/**
+ * Delete a post's rows and queue its photos and videos for deletion from
+ * Cloudflare (see media-cleanup.ts), all in one batch
+ */
+export async function purgePost(db: DatabaseClient, postId: string): Promise<void> {
+  const photos = await db.query(
+    'SELECT cloudflare_image_id FROM photo_content WHERE post_id = ?',
+    [postId]
+  );
+
+  const videos = await db.query(
+    'SELECT r2_key, stream_id FROM video_content WHERE post_id = ?',
+    [postId]
+  );
+
+  const media = [...photoCleanupTargets(photos), ...videoCleanupTargets(videos)];
+
+  console.log(`[PURGE POST] Purging post ${postId} and queueing ${media.length} media file(s) for cleanup`);
+
+  await db.batch([
+    ...enqueueMediaCleanupQueries(postId, media),
+    ...purgePostQueries(postId),
+  ]);
+}
+
+/**
+ * Purge posts that have been in the trash longer than the retention period
+ * @returns IDs of the posts that were purged
+ */
+export async function purgeExpiredPosts(
+  db: DatabaseClient,
+  retentionDays: number,
+  now: Date = new Date()
+): Promise<string[]> {
+  const due = await db.query<{ id: string }>(
+    `SELECT id FROM blog_posts
+    WHERE deleted_at IS NOT NULL AND deleted_at <= ?
+    ORDER BY deleted_at ASC
+    LIMIT ${MAX_PURGE_PER_RUN}`,
+    [getPurgeCutoff(now, retentionDays)]
+  );
+
+  const purged: string[] = [];
+  for (const post of due) {
+    try {
+      await purgePost(db, post.id);
+      purged.push(post.id);
+    } catch (error) {
+      // Leave it in the trash; the next run tries again
+      console.error(`[PURGE POST] Failed to purge post ${post.id}:`, error);
+    }
+  }
+
+  return purged;
+}
@@ -0,0 +1,155 @@
+/**
+ * Optimistic Concurrency Utilities
+ * Feature: post-optimistic-concurrency
+ *
+ * Every mutating posts route runs its writes in a single batch that starts
+ * with a compare-and-swap on blog_posts.version, so a save either bumps the
+ * version and lands completely or changes nothing. Clients send the version
+ * they last saw either as a "version" body field or as an If-Match ETag;
+ * requests without one are checked against the version read just before the
+ * write, so they still bump it but only conflict with a save made meanwhile.
+ */
+
+import type { DatabaseClient } from './db';
+import { ConflictError, NotFoundError, ValidationError } from './errors';
+import { loadPostSnapshot } from './post-revisions';
+
+/**
+ * Format a post version as a strong ETag
+ */
+export function formatETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Parse an If-Match header into a post version
+ * Accepts "3", W/"3" and bare 3; "*" means any version
+ */
+export function parseIfMatch(header: string | null): number | undefined {
+  if (!header || header.trim() === '*') {
+    return undefined;
+  }
+
+  const match = header.trim().match(/^(?:W\/)?"?(\d+)"?$/);
+  if (!match) {
+    throw new ValidationError('If-Match header must contain a post version ETag');
+  }
+
+  return parseInt(match[1], 10);
+}
+
+/**
+ * Resolve the version the client expects the post to be at
+ * A "version" field in the JSON body takes precedence over If-Match
+ */
+export function getExpectedVersion(
+  request: Request,
+  body?: { version?: unknown }
+): number | undefined {
+  if (body && body.version !== undefined && body.version !== null) {
+    if (typeof body.version !== 'number' || !Number.isInteger(body.version)) {
+      throw new ValidationError('version must be an integer');
+    }
+    return body.version;
+  }
+
+  return parseIfMatch(request.headers.get('If-Match'));
+}
+
+/**
+ * Build the compare-and-swap that bumps the post version (and updated_at)
+ * A stale version sets NULL instead, which fails the NOT NULL constraint and
+ * rolls back every other statement in the batch
+ */
+export function claimPostVersionQuery(
+  postId: string,
+  version: number,
+  now: string = new Date().toISOString()
+): { query: string; params: any[] } {
+  return {
+    query: `UPDATE blog_posts
+      SET version = CASE WHEN version = ? THEN version + 1 END, updated_at = ?
+      WHERE id = ?`,
+    params: [version, now, postId],
+  };
+}
+
+/**
+ * Read the post's current version
+ * @throws NotFoundError if the post does not exist
+ */
+async function readPostVersion(db: DatabaseClient, postId: string): Promise<number> {
+  const current = await db.queryOne<{ version: number }>(
+    'SELECT version FROM blog_posts WHERE id = ?',
+    [postId]
+  );
+
+  if (!current) {
+    throw new NotFoundError('Post');
+  }
+
+  return current.version;
+}
+
+/**
+ * Build the 409 for a stale save, carrying the server's current copy of the post
+ */
+async function versionConflict(
+  db: DatabaseClient,
+  postId: string,
+  expectedVersion: number | undefined,
+  currentVersion: number
+): Promise<ConflictError> {
+  return new ConflictError('This post was changed by someone else. Reload it or save your changes again.', {
+    expectedVersion,
+    currentVersion,
+    current: await loadPostSnapshot(db, postId),
+  });
+}
+
+/**
+ * Run a save's writes in one batch that opens with a compare-and-swap on the post version
+ * The writes are built after the version is read, so whatever they were built from is at
+ * least that fresh; if another save claims the version in between, nothing is written.
+ * Throws ConflictError carrying the server's current copy when another save got there first
+ * @returns The new version number
+ */
+export async function writeWithPostVersion(
+  db: DatabaseClient,
+  postId: string,
+  expectedVersion: number | undefined,
+  buildWrites: () => Promise<{ query: string; params: any[] }[]>
+): Promise<number> {
+  const currentVersion = await readPostVersion(db, postId);
+  if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+    throw await versionConflict(db, postId, expectedVersion, currentVersion);
+  }
+
+  const writes = await buildWrites();
+
+  let results: { changes?: number }[];
+  try {
+    results = await db.batchExecute([claimPostVersionQuery(postId, currentVersion), ...writes]);
+  } catch (error) {
+    // Tell a lost race apart from a failed write; either way nothing was saved
+    const latestVersion = await readPostVersion(db, postId);
+    if (latestVersion !== currentVersion) {
+      throw await versionConflict(db, postId, expectedVersion, latestVersion);
+    }
+    throw error;
+  }
+
+  if (!results[0].changes) {
+    throw new NotFoundError('Post');
+  }
+
+  return currentVersion + 1;
+}
+
+/**
+ * Attach the post version as an ETag header
+ */
+export function withVersionHeader(response: Response, version: number): Response {
+  response.headers.set('ETag', formatETag(version));
+  return response;
+}
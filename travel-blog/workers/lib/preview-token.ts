@@ -0,0 +1,69 @@
+/**
+ * Post Preview Tokens
+ * Feature: post-preview-links
+ *
+ * Signed, expiring tokens that let anyone holding a link view an unpublished
+ * post rendered with a chosen template. They are signed with a key derived from
+ * JWT_SECRET so a preview token can never be accepted as a session token (and
+ * vice versa).
+ */
+
+import jwt from 'jsonwebtoken';
+
+export interface PreviewTokenPayload {
+  pid: string; // Post ID
+  tid: string; // Template ID to render with
+  by: string; // Username that created the link
+  iat: number;
+  exp: number;
+}
+
+export const PREVIEW_TOKEN_TTL = 60 * 60; // 1 hour in seconds
+
+function previewSecret(secret: string): string {
+  return `${secret}:post-preview`;
+}
+
+/**
+ * Create a preview token for a post and template
+ */
+export function generatePreviewToken(
+  postId: string,
+  templateId: string,
+  createdBy: string,
+  secret: string,
+  ttlSeconds: number = PREVIEW_TOKEN_TTL
+): { token: string; expiresAt: string } {
+  const now = Math.floor(Date.now() / 1000);
+
+  const payload: PreviewTokenPayload = {
+    pid: postId,
+    tid: templateId,
+    by: createdBy,
+    iat: now,
+    exp: now + ttlSeconds,
+  };
+
+  return {
+    token: jwt.sign(payload, previewSecret(secret), { algorithm: 'HS256' }),
+    expiresAt: new Date(payload.exp * 1000).toISOString(),
+  };
+}
+
+/**
+ * Verify a preview token
+ * @returns Decoded payload if valid and unexpired, null otherwise
+ */
+export function verifyPreviewToken(token: string, secret: string): PreviewTokenPayload | null {
+  try {
+    const decoded = jwt.verify(token, previewSecret(secret), { algorithms: ['HS256'] }) as PreviewTokenPayload;
+
+    if (!decoded.pid || !decoded.tid) {
+      return null;
+    }
+
+    return decoded;
+  } catch {
+    return null;
+  }
+}
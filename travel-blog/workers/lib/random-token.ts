@@ -0,0 +1,25 @@
+/**
+ * Random bearer tokens that are stored hashed
+ * (password reset links, refresh tokens)
+ */
+
+/**
+ * Create a random token (32 bytes, base64url)
+ */
+export function generateRandomToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * SHA-256 of a token, hex encoded
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
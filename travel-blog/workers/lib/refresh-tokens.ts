@@ -0,0 +1,113 @@
+/**
+ * Refresh Tokens
+ * Feature: refresh-tokens
+ *
+ * Access tokens expire after ACCESS_TOKEN_TTL_SECONDS; the refresh token
+ * (an HttpOnly cookie) gets a new one without signing in again. Refresh
+ * tokens are random, stored as SHA-256 hashes and usable once: every refresh
+ * replaces the token with a new one in the same family (the session). A
+ * token presented a second time has been copied, so the session is revoked,
+ * which stops the whole family and the session's access tokens.
+ *
+ * Every tab shares the refresh cookie, so tabs whose access tokens expire
+ * together refresh with the same token. A token used less than
+ * REFRESH_REUSE_GRACE_SECONDS ago therefore still gets an access token, but
+ * no replacement refresh token: the browser already holds the one issued to
+ * the first tab.
+ */
+
+import { generateRandomToken, hashToken } from './random-token';
+import { findSession, isSessionActive, revokeSession, type SessionRecord } from './sessions';
+
+export const REFRESH_COOKIE_NAME = 'refresh_token';
+export const REFRESH_REUSE_GRACE_SECONDS = 30;
+
+export interface RefreshResult {
+  valid: boolean;
+  session?: SessionRecord;
+  refreshToken?: string; // Replacement token; not set within the reuse grace period
+  error?: 'INVALID' | 'REUSED' | 'REVOKED';
+}
+
+/**
+ * Create a refresh token for a session
+ * @param db - D1 database instance
+ * @returns The token (sent to the client, never stored)
+ */
+export async function issueRefreshToken(db: any, sessionId: string, now: Date = new Date()): Promise<string> {
+  const token = generateRandomToken();
+
+  await db
+    .prepare('INSERT INTO refresh_tokens (token_hash, session_id, created_at) VALUES (?, ?, ?)')
+    .bind(await hashToken(token), sessionId, now.toISOString())
+    .run();
+
+  return token;
+}
+
+async function findRefreshToken(db: any, tokenHash: string): Promise<{ sessionId: string; usedAt: string | null } | null> {
+  return db
+    .prepare('SELECT session_id as sessionId, used_at as usedAt FROM refresh_tokens WHERE token_hash = ?')
+    .bind(tokenHash)
+    .first();
+}
+
+/**
+ * Session a refresh token belongs to, whether or not it was used
+ * @returns Session ID, or null for unknown tokens
+ */
+export async function findRefreshTokenSession(db: any, token: string): Promise<string | null> {
+  const result = await findRefreshToken(db, await hashToken(token));
+  return result?.sessionId ?? null;
+}
+
+async function findActiveSession(db: any, sessionId: string, now: Date): Promise<SessionRecord | null> {
+  const session = await findSession(db, sessionId);
+  return session && isSessionActive(session, now) ? session : null;
+}
+
+/**
+ * Use up a refresh token and issue its replacement
+ * @param db - D1 database instance
+ * @returns The session and the replacement token (none within the reuse
+ * grace period), or error INVALID (unknown token), REUSED (used before the
+ * grace period; the session is now revoked) or REVOKED (session signed out
+ * or expired)
+ */
+export async function rotateRefreshToken(db: any, token: string, now: Date = new Date()): Promise<RefreshResult> {
+  const tokenHash = await hashToken(token);
+
+  const claimed = await db
+    .prepare('UPDATE refresh_tokens SET used_at = ? WHERE token_hash = ? AND used_at IS NULL RETURNING session_id as sessionId')
+    .bind(now.toISOString(), tokenHash)
+    .first();
+
+  if (!claimed) {
+    const used = await findRefreshToken(db, tokenHash);
+
+    if (!used) {
+      return { valid: false, error: 'INVALID' };
+    }
+
+    // Another tab refreshed with this token a moment ago
+    if (used.usedAt && now.getTime() - Date.parse(used.usedAt) < REFRESH_REUSE_GRACE_SECONDS * 1000) {
+      const session = await findActiveSession(db, used.sessionId, now);
+      return session ? { valid: true, session } : { valid: false, error: 'REVOKED' };
+    }
+
+    await revokeSession(db, used.sessionId);
+    return { valid: false, error: 'REUSED' };
+  }
+
+  const session = await findActiveSession(db, claimed.sessionId, now);
+
+  if (!session) {
+    return { valid: false, error: 'REVOKED' };
+  }
+
+  return {
+    valid: true,
+    session,
+    refreshToken: await issueRefreshToken(db, session.id, now),
+  };
+}
@@ -0,0 +1,244 @@
+/**
+ * Related Posts Utilities
+ * Feature: related-posts
+ *
+ * Ranks other published posts by how related they are to a post, from four
+ * signals: term overlap in the title, description and text blocks (TF-IDF
+ * cosine similarity over our own posts), shared tags, the same country and
+ * how close together the posts were published. Scoring reads every published
+ * post, so rankings are cached per post in related_posts_cache.
+ */
+
+import type { DatabaseClient } from './db';
+
+export const DEFAULT_RELATED_LIMIT = 3;
+export const MAX_RELATED_POSTS = 12; // Cached per post; requests take the top of the list
+export const RELATED_CACHE_TTL_HOURS = 6;
+
+// Most recent posts considered; keeps scoring time bounded as the blog grows
+const MAX_CANDIDATES = 500;
+
+// Weights of the signals, which each score 0–1
+export const RELATED_WEIGHTS = {
+  terms: 0.5,
+  tags: 0.25,
+  country: 0.15,
+  time: 0.1,
+};
+
+// Posts this many days apart score half for publish-date proximity
+const TIME_HALF_LIFE_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Common words that would otherwise make every post look alike
+const STOP_WORDS = new Set([
+  'about', 'after', 'again', 'all', 'also', 'and', 'any', 'are', 'around', 'back', 'because', 'been',
+  'before', 'but', 'can', 'could', 'day', 'did', 'down', 'each', 'even', 'every', 'for', 'from', 'get',
+  'got', 'had', 'has', 'have', 'her', 'here', 'him', 'his', 'how', 'into', 'its', 'just', 'like',
+  'more', 'most', 'much', 'not', 'now', 'off', 'one', 'only', 'our', 'out', 'over', 'really', 'she',
+  'some', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'through',
+  'too', 'two', 'very', 'was', 'way', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'will',
+  'with', 'would', 'you', 'your',
+]);
+
+export interface RelatedSource {
+  id: string;
+  publishedAt: string | null;
+  countryCode: string | null;
+  tags: string[]; // Tag slugs
+  text: string; // Title, description and text blocks (may contain HTML)
+}
+
+export interface RelatedScore {
+  id: string;
+  score: number;
+}
+
+/**
+ * Split text into lowercase terms, without markup, numbers, short words or stop words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&[a-z0-9#]+;/gi, ' ')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length >= 3 && !STOP_WORDS.has(term) && !/^\p{N}+$/u.test(term));
+}
+
+/**
+ * TF-IDF vector of each text, scaled to unit length
+ * Terms that appear in every text carry no weight.
+ */
+export function buildTermVectors(texts: string[]): Map<string, number>[] {
+  const documents = texts.map(tokenize);
+  const documentFrequency = new Map<string, number>();
+
+  for (const terms of documents) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  return documents.map(terms => {
+    const counts = new Map<string, number>();
+    for (const term of terms) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+
+    const vector = new Map<string, number>();
+    let norm = 0;
+    counts.forEach((count, term) => {
+      const weight = (count / terms.length) * Math.log(documents.length / documentFrequency.get(term)!);
+      if (weight > 0) {
+        vector.set(term, weight);
+        norm += weight * weight;
+      }
+    });
+
+    norm = Math.sqrt(norm);
+    vector.forEach((weight, term) => vector.set(term, weight / norm));
+    return vector;
+  });
+}
+
+/**
+ * Cosine similarity of two unit-length term vectors
+ */
+export function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  smaller.forEach((weight, term) => {
+    dot += weight * (larger.get(term) || 0);
+  });
+  return dot;
+}
+
+function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+  const setA = new Set(a);
+  const shared = new Set(b.filter(item => setA.has(item))).size;
+  return shared / (setA.size + new Set(b).size - shared);
+}
+
+function timeProximity(a: string | null, b: string | null): number {
+  if (!a || !b) {
+    return 0;
+  }
+  const days = Math.abs(Date.parse(a) - Date.parse(b)) / DAY_MS;
+  return Number.isNaN(days) ? 0 : 0.5 ** (days / TIME_HALF_LIFE_DAYS);
+}
+
+/**
+ * Rank candidates by how related they are to the target post, best first
+ * Candidates with nothing in common with the target are left out.
+ */
+export function scoreRelatedPosts(
+  target: RelatedSource,
+  candidates: RelatedSource[],
+  limit: number = MAX_RELATED_POSTS
+): RelatedScore[] {
+  const others = candidates.filter(candidate => candidate.id !== target.id);
+  const [targetVector, ...vectors] = buildTermVectors([target.text, ...others.map(candidate => candidate.text)]);
+
+  return others
+    .map((candidate, index) => {
+      const terms = cosineSimilarity(targetVector, vectors[index]);
+      const tags = jaccard(target.tags, candidate.tags);
+      const country = target.countryCode && candidate.countryCode === target.countryCode ? 1 : 0;
+      const time = timeProximity(target.publishedAt, candidate.publishedAt);
+      const relevance = RELATED_WEIGHTS.terms * terms + RELATED_WEIGHTS.tags * tags +
+        RELATED_WEIGHTS.country * country;
+
+      return {
+        id: candidate.id,
+        // Being published around the same time only counts alongside something in common
+        score: relevance > 0 ? Math.round((relevance + RELATED_WEIGHTS.time * time) * 10000) / 10000 : 0,
+      };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+    .slice(0, limit);
+}
+
+/**
+ * Score related posts for a post from the current database state
+ */
+export async function computeRelatedPosts(db: DatabaseClient, postId: string): Promise<RelatedScore[]> {
+  // The target post comes first, whatever its status
+  const rows = await db.query(
+    `SELECT
+      p.id, p.published_at, p.country_code, p.title, p.description,
+      (SELECT group_concat(tg.slug) FROM post_tags pt JOIN tags tg ON tg.id = pt.tag_id
+        WHERE pt.post_id = p.id) as tags,
+      (SELECT group_concat(content, char(10)) FROM text_content WHERE post_id = p.id) as body
+    FROM blog_posts p
+    WHERE p.deleted_at IS NULL AND (p.status = 'published' OR p.id = ?)
+    ORDER BY p.id = ? DESC, COALESCE(p.published_at, p.created_at) DESC
+    LIMIT ?`,
+    [postId, postId, MAX_CANDIDATES + 1]
+  );
+
+  if (rows[0]?.id !== postId) {
+    return [];
+  }
+
+  const sources: RelatedSource[] = rows.map((row: any) => ({
+    id: row.id,
+    publishedAt: row.published_at,
+    countryCode: row.country_code,
+    tags: row.tags ? row.tags.split(',') : [],
+    text: [row.title, row.description, row.body].filter(Boolean).join('\n'),
+  }));
+
+  return scoreRelatedPosts(sources[0], sources.slice(1));
+}
+
+/**
+ * Whether a cached ranking can still be used
+ */
+export function isRelatedCacheFresh(
+  cached: { post_version: number; computed_at: string },
+  postVersion: number,
+  now: Date = new Date()
+): boolean {
+  const age = now.getTime() - Date.parse(cached.computed_at);
+  return cached.post_version === postVersion && age >= 0 && age < RELATED_CACHE_TTL_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Related posts for a post, from the cache or scored afresh (and cached)
+ * Rankings can name posts that have since been unpublished or deleted;
+ * callers only show the ones that are still published.
+ */
+export async function loadRelatedPosts(
+  db: DatabaseClient,
+  post: { id: string; version: number },
+  now: Date = new Date()
+): Promise<RelatedScore[]> {
+  const cached = await db.queryOne(
+    'SELECT post_version, related, computed_at FROM related_posts_cache WHERE post_id = ?',
+    [post.id]
+  );
+
+  if (cached && isRelatedCacheFresh(cached, post.version, now)) {
+    return JSON.parse(cached.related);
+  }
+
+  const related = await computeRelatedPosts(db, post.id);
+
+  await db.execute(
+    `INSERT INTO related_posts_cache (post_id, post_version, related, computed_at)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(post_id) DO UPDATE SET
+      post_version = excluded.post_version,
+      related = excluded.related,
+      computed_at = excluded.computed_at`,
+    [post.id, post.version, JSON.stringify(related), now.toISOString()]
+  );
+
+  return related;
+}
@@ -0,0 +1,54 @@
+/**
+ * Session cookie helpers for the auth worker
+ */
+
+import { REFRESH_COOKIE_NAME } from './refresh-tokens';
+
+export const SEVEN_DAYS = 7 * 24 * 60 * 60; // 7 days in seconds
+export const TWENTY_FOUR_HOURS = 24 * 60 * 60; // 24 hours in seconds
+
+/**
+ * Session lifetime in seconds
+ */
+export function getSessionMaxAge(rememberMe: boolean): number {
+  return rememberMe ? SEVEN_DAYS : TWENTY_FOUR_HOURS;
+}
+
+function buildCookie(name: string, value: string, maxAge: number, path: string, isDevelopment: boolean): string {
+  return isDevelopment
+    ? [
+        `${name}=${value}`,
+        'HttpOnly',
+        'SameSite=Lax', // Lax for local development (no Secure needed)
+        `Max-Age=${maxAge}`,
+        `Path=${path}`,
+      ].join('; ')
+    : [
+        `${name}=${value}`,
+        'HttpOnly',
+        'Secure',
+        'SameSite=None', // Allow cross-site cookies for Pages <-> Workers in production
+        `Max-Age=${maxAge}`,
+        `Path=${path}`,
+      ].join('; ');
+}
+
+/**
+ * Build the Set-Cookie value for a session token
+ * @param token - Signed session JWT
+ * @param maxAge - Cookie lifetime in seconds
+ * @param isDevelopment - Local development (no Secure flag, SameSite=Lax)
+ */
+export function buildSessionCookie(token: string, maxAge: number, isDevelopment: boolean): string {
+  return buildCookie('session', token, maxAge, '/', isDevelopment);
+}
+
+/**
+ * Build the Set-Cookie value for a refresh token
+ * Only sent to the auth endpoints (refresh and logout)
+ * @param token - Refresh token, or '' with maxAge 0 to clear the cookie
+ * @param maxAge - Cookie lifetime in seconds (the rest of the session)
+ */
+export function buildRefreshCookie(token: string, maxAge: number, isDevelopment: boolean): string {
+  return buildCookie(REFRESH_COOKIE_NAME, token, maxAge, '/api/auth', isDevelopment);
+}
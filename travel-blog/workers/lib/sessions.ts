@@ -0,0 +1,187 @@
+/**
+ * Session Registry
+ * Feature: sessions
+ *
+ * Each session token's jti claim names a row in the sessions table. A token
+ * is only accepted while its session is neither revoked nor expired, which
+ * makes logout, "sign out this device", password changes and disabled
+ * accounts take effect immediately. Sessions also record the device's user
+ * agent, IP address and when it was last seen, for the "Your devices" page.
+ */
+
+import { verifyTokenDetailed, type JwtKeyMaterial, type SessionPayload, type TokenVerificationResult } from './jwt';
+
+export const LAST_SEEN_INTERVAL_SECONDS = 5 * 60; // Refresh last_seen_at at most this often
+const MAX_USER_AGENT_LENGTH = 500;
+
+export interface SessionRecord {
+  id: string;
+  userId: number;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean; // The session making the request
+}
+
+const SESSION_COLUMNS = 'id, user_id as userId, created_at as createdAt, last_seen_at as lastSeenAt, expires_at as expiresAt, revoked_at as revokedAt, user_agent as userAgent, ip_address as ipAddress';
+
+/**
+ * User agent and IP address of the device making a request
+ */
+export function getClientInfo(request: Request): { userAgent: string | null; ipAddress: string | null } {
+  return {
+    userAgent: request.headers.get('User-Agent')?.slice(0, MAX_USER_AGENT_LENGTH) || null,
+    ipAddress: request.headers.get('CF-Connecting-IP'),
+  };
+}
+
+/**
+ * Whether a session can still be used
+ */
+export function isSessionActive(session: Pick<SessionRecord, 'revokedAt' | 'expiresAt'>, now: Date = new Date()): boolean {
+  return !session.revokedAt && Date.parse(session.expiresAt) > now.getTime();
+}
+
+/**
+ * Whether last_seen_at is old enough to be refreshed
+ */
+export function needsLastSeenUpdate(session: Pick<SessionRecord, 'lastSeenAt'>, now: Date = new Date()): boolean {
+  return now.getTime() - Date.parse(session.lastSeenAt) >= LAST_SEEN_INTERVAL_SECONDS * 1000;
+}
+
+/**
+ * Register a session, dropping the user's expired ones
+ * @param db - D1 database instance
+ * @param session - Session ID (the token's jti), user, expiry and device
+ */
+export async function createSession(
+  db: any,
+  session: { id: string; userId: number; expiresAt: string; userAgent: string | null; ipAddress: string | null },
+  now: Date = new Date()
+): Promise<void> {
+  await db.batch([
+    db.prepare('DELETE FROM sessions WHERE user_id = ? AND expires_at <= ?').bind(session.userId, now.toISOString()),
+    db.prepare(`INSERT INTO sessions (id, user_id, created_at, last_seen_at, expires_at, user_agent, ip_address)
+      VALUES (?, ?, ?, ?, ?, ?, ?)`)
+      .bind(session.id, session.userId, now.toISOString(), now.toISOString(), session.expiresAt, session.userAgent, session.ipAddress),
+  ]);
+}
+
+/**
+ * Look up a session by ID (the jti claim)
+ */
+export async function findSession(db: any, sessionId: string): Promise<SessionRecord | null> {
+  return db
+    .prepare(`SELECT ${SESSION_COLUMNS} FROM sessions WHERE id = ?`)
+    .bind(sessionId)
+    .first();
+}
+
+/**
+ * Verify a session token and check that its session is still active
+ * (verifyTokenDetailed plus the session registry)
+ * @param request - Request the token came with; refreshes the device's last-seen time, IP and user agent
+ * @returns As verifyTokenDetailed, or error REVOKED if the session was
+ * revoked, expired or never registered
+ */
+export async function verifySessionToken(
+  token: string,
+  keys: JwtKeyMaterial,
+  db: any,
+  request?: Request,
+  now: Date = new Date()
+): Promise<TokenVerificationResult> {
+  const result = verifyTokenDetailed(token, keys);
+
+  if (!result.valid) {
+    return result;
+  }
+
+  const { jti } = result.payload!;
+
+  if (!jti) {
+    return { valid: false, error: 'REVOKED' };
+  }
+
+  const session = await findSession(db, jti);
+
+  if (!session || !isSessionActive(session, now)) {
+    return { valid: false, error: 'REVOKED' };
+  }
+
+  if (request && needsLastSeenUpdate(session, now)) {
+    const client = getClientInfo(request);
+    await db
+      .prepare('UPDATE sessions SET last_seen_at = ?, user_agent = COALESCE(?, user_agent), ip_address = COALESCE(?, ip_address) WHERE id = ?')
+      .bind(now.toISOString(), client.userAgent, client.ipAddress, jti)
+      .run();
+  }
+
+  return result;
+}
+
+/**
+ * A user's active sessions, most recently seen first
+ * @param currentSession - Payload of the session making the request
+ */
+export async function listActiveSessions(
+  db: any,
+  userId: number,
+  currentSession: SessionPayload,
+  now: Date = new Date()
+): Promise<ActiveSession[]> {
+  const result = await db
+    .prepare(`SELECT ${SESSION_COLUMNS} FROM sessions
+      WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+      ORDER BY last_seen_at DESC`)
+    .bind(userId, now.toISOString())
+    .all();
+
+  return (result.results || []).map((session: SessionRecord) => ({
+    id: session.id,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSession.jti,
+  }));
+}
+
+/**
+ * Revoke one session
+ * @param userId - Only revoke the session if it belongs to this user
+ * @returns False if there is no such active session
+ */
+export async function revokeSession(db: any, sessionId: string, userId?: number): Promise<boolean> {
+  const result = await db
+    .prepare(`UPDATE sessions SET revoked_at = ?
+      WHERE id = ? AND revoked_at IS NULL${userId !== undefined ? ' AND user_id = ?' : ''}
+      RETURNING id`)
+    .bind(new Date().toISOString(), sessionId, ...(userId !== undefined ? [userId] : []))
+    .first();
+
+  return !!result;
+}
+
+/**
+ * Revoke all of a user's sessions
+ */
+export async function revokeUserSessions(db: any, userId: number): Promise<void> {
+  await db
+    .prepare('UPDATE sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL')
+    .bind(new Date().toISOString(), userId)
+    .run();
+}
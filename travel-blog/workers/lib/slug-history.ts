@@ -0,0 +1,71 @@
+/**
+ * Slug History Utilities
+ * Feature: slug-history
+ *
+ * When a post's slug changes, the old one is kept in slug_history so shared
+ * links can be redirected to the current slug. Retired slugs stay reserved
+ * for their post: other posts cannot take them, but the post itself can
+ * switch back to one.
+ */
+
+import type { DatabaseClient } from './db';
+
+/**
+ * Check whether a slug is used by another post, currently or in the past
+ * @param postId - The post that wants the slug (its own retired slugs are allowed)
+ */
+export async function isSlugTaken(
+  db: DatabaseClient,
+  slug: string,
+  postId?: string
+): Promise<boolean> {
+  const taken = await db.queryOne(
+    `SELECT 1 FROM blog_posts WHERE slug = ? AND id != ?
+    UNION ALL
+    SELECT 1 FROM slug_history WHERE slug = ? AND post_id != ?
+    LIMIT 1`,
+    [slug, postId ?? '', slug, postId ?? '']
+  );
+
+  return taken !== null;
+}
+
+/**
+ * Queries that record a slug change (for use in db.batch alongside the update)
+ */
+export function retireSlugQueries(
+  postId: string,
+  oldSlug: string,
+  newSlug: string
+): { query: string; params: any[] }[] {
+  return [
+    // Switching back to an earlier slug makes it current again
+    { query: 'DELETE FROM slug_history WHERE slug = ? AND post_id = ?', params: [newSlug, postId] },
+    {
+      query: `INSERT INTO slug_history (slug, post_id, retired_at) VALUES (?, ?, ?)
+        ON CONFLICT(slug) DO UPDATE SET retired_at = excluded.retired_at`,
+      params: [oldSlug, postId, new Date().toISOString()],
+    },
+  ];
+}
+
+/**
+ * Find the post a retired slug now points to
+ * @returns The post's current slug, status and author, or null if the slug was never used
+ */
+export async function resolveRetiredSlug(
+  db: DatabaseClient,
+  slug: string
+): Promise<{ id: string; slug: string; status: string; authorId: string } | null> {
+  const post = await db.queryOne(
+    `SELECT p.id, p.slug, p.status, p.author_id
+    FROM slug_history h
+    JOIN blog_posts p ON p.id = h.post_id
+    WHERE h.slug = ? AND p.deleted_at IS NULL`,
+    [slug]
+  );
+
+  return post
+    ? { id: post.id, slug: post.slug, status: post.status, authorId: post.author_id }
+    : null;
+}
@@ -0,0 +1,60 @@
+/**
+ * Template Change Utilities
+ * Feature: template-switching
+ *
+ * Templates cap how many photos and videos they display; switching to a smaller
+ * template hides the extra items (they are kept, just not rendered).
+ */
+
+export interface ContentCounts {
+  photos: number;
+  videos: number;
+  textSections: number;
+}
+
+export interface TemplateCaps {
+  name: string;
+  maxPhotos: number;
+  maxVideos: number;
+}
+
+export interface ContentPreservation {
+  photosCount: number;
+  videosCount: number;
+  textSectionsCount: number;
+  displayedPhotos: number;
+  displayedVideos: number;
+  warnings?: string[];
+}
+
+/**
+ * Summarise which content a template will display for a post
+ */
+export function buildContentPreservation(
+  counts: ContentCounts,
+  template: TemplateCaps
+): ContentPreservation {
+  const displayedPhotos = Math.min(counts.photos, template.maxPhotos);
+  const displayedVideos = Math.min(counts.videos, template.maxVideos);
+  const warnings: string[] = [];
+
+  if (displayedPhotos < counts.photos) {
+    warnings.push(
+      `${template.name} shows up to ${template.maxPhotos} photos; ${counts.photos - displayedPhotos} photo(s) will be hidden`
+    );
+  }
+  if (displayedVideos < counts.videos) {
+    warnings.push(
+      `${template.name} shows up to ${template.maxVideos} videos; ${counts.videos - displayedVideos} video(s) will be hidden`
+    );
+  }
+
+  return {
+    photosCount: counts.photos,
+    videosCount: counts.videos,
+    textSectionsCount: counts.textSections,
+    displayedPhotos,
+    displayedVideos,
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * Trip Utilities
+ * Feature: trips
+ *
+ * A trip groups the posts of one longer journey into an ordered series.
+ * Readers only see published parts, so part numbers are counted over the
+ * parts visible to the viewer rather than the stored positions.
+ */
+
+import type { DatabaseClient } from './db';
+import { ValidationError } from './errors';
+
+export const MAX_TRIP_PARTS = 50;
+export const MAX_TRIP_TITLE_LENGTH = 200;
+
+export interface TripPartLink {
+  id: string;
+  slug: string;
+  title: string;
+}
+
+export interface TripNavigation {
+  tripId: string;
+  tripSlug: string;
+  tripTitle: string;
+  part: number; // 1-based
+  totalParts: number;
+  previous: TripPartLink | null;
+  next: TripPartLink | null;
+}
+
+/**
+ * Validate an optional YYYY-MM-DD date (null or empty clears it)
+ */
+export function parseTripDate(value: unknown, field: string): string | null {
+  if (value === null || value === '') {
+    return null;
+  }
+
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new ValidationError(`${field} must be a date in YYYY-MM-DD format`);
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+  if (isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    throw new ValidationError(`${field} must be a valid date`);
+  }
+
+  return value;
+}
+
+/**
+ * Check that a trip does not end before it starts
+ */
+export function validateTripDates(startDate: string | null, endDate: string | null): void {
+  if (startDate && endDate && startDate > endDate) {
+    throw new ValidationError('endDate must not be before startDate');
+  }
+}
+
+/**
+ * Validate a trip title
+ */
+export function parseTripTitle(value: unknown): string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new ValidationError('title is required and must be a non-empty string');
+  }
+  if (value.trim().length > MAX_TRIP_TITLE_LENGTH) {
+    throw new ValidationError(`title must be at most ${MAX_TRIP_TITLE_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+/**
+ * Validate an ordered list of post IDs for a trip
+ */
+export function parseTripPostIds(value: unknown): string[] {
+  if (!Array.isArray(value) || value.some(id => typeof id !== 'string' || id.length === 0)) {
+    throw new ValidationError('postIds must be an array of post IDs');
+  }
+
+  if (new Set(value).size !== value.length) {
+    throw new ValidationError('postIds must not contain duplicates');
+  }
+
+  if (value.length > MAX_TRIP_PARTS) {
+    throw new ValidationError(`A trip can have at most ${MAX_TRIP_PARTS} parts`);
+  }
+
+  return value;
+}
+
+/**
+ * Work out "Part n of m" and the neighbouring parts for a post
+ * @param parts - The trip's parts visible to the viewer, in order
+ * @returns null if the post is not among the parts
+ */
+export function buildTripNavigation(
+  trip: { id: string; slug: string; title: string },
+  parts: TripPartLink[],
+  postId: string
+): TripNavigation | null {
+  const index = parts.findIndex(part => part.id === postId);
+
+  if (index === -1) {
+    return null;
+  }
+
+  return {
+    tripId: trip.id,
+    tripSlug: trip.slug,
+    tripTitle: trip.title,
+    part: index + 1,
+    totalParts: parts.length,
+    previous: index > 0 ? parts[index - 1] : null,
+    next: index < parts.length - 1 ? parts[index + 1] : null,
+  };
+}
+
+/**
+ * SQL condition for the trip parts a viewer may see (published, or their own,
+ * and not in the trash)
+ * @param alias - Table alias of blog_posts in the query
+ */
+export function visiblePartSql(viewer: string | null, alias: string = 'p'): { condition: string; params: any[] } {
+  return viewer
+    ? { condition: `(${alias}.status = 'published' OR ${alias}.author_id = ?) AND ${alias}.deleted_at IS NULL`, params: [viewer] }
+    : { condition: `${alias}.status = 'published' AND ${alias}.deleted_at IS NULL`, params: [] };
+}
+
+/**
+ * Load the trip navigation for a post, or null if it is not part of a trip
+ * @param viewer - Username of the signed-in user, if any
+ */
+export async function loadTripNavigation(
+  db: DatabaseClient,
+  postId: string,
+  viewer: string | null
+): Promise<TripNavigation | null> {
+  const trip = await db.queryOne<{ id: string; slug: string; title: string }>(
+    `SELECT t.id, t.slug, t.title
+    FROM trip_posts tp
+    JOIN trips t ON t.id = tp.trip_id
+    WHERE tp.post_id = ?`,
+    [postId]
+  );
+
+  if (!trip) {
+    return null;
+  }
+
+  const visible = visiblePartSql(viewer);
+  const parts = await db.query<TripPartLink>(
+    `SELECT p.id, p.slug, p.title
+    FROM trip_posts tp
+    JOIN blog_posts p ON p.id = tp.post_id
+    WHERE tp.trip_id = ? AND ${visible.condition}
+    ORDER BY tp.position ASC`,
+    [trip.id, ...visible.params]
+  );
+
+  return buildTripNavigation(trip, parts, postId);
+}
+
+/**
+ * Check that posts can be added to a trip: they must exist, belong to the
+ * author and not already be part of another trip
+ */
+export async function checkTripPosts(
+  db: DatabaseClient,
+  postIds: string[],
+  authorId: string,
+  tripId: string | null
+): Promise<void> {
+  if (postIds.length === 0) {
+    return;
+  }
+
+  const placeholders = postIds.map(() => '?').join(', ');
+  const posts = await db.query<{ id: string; author_id: string; trip_id: string | null }>(
+    `SELECT p.id, p.author_id, tp.trip_id
+    FROM blog_posts p
+    LEFT JOIN trip_posts tp ON tp.post_id = p.id
+    WHERE p.id IN (${placeholders}) AND p.deleted_at IS NULL`,
+    postIds
+  );
+
+  const found = new Set(posts.map(post => post.id));
+  const missing = postIds.filter(id => !found.has(id));
+  if (missing.length > 0) {
+    throw new ValidationError(`Posts not found: ${missing.join(', ')}`);
+  }
+
+  if (posts.some(post => post.author_id !== authorId)) {
+    throw new ValidationError('Only your own posts can be added to a trip');
+  }
+
+  const elsewhere = posts.filter(post => post.trip_id && post.trip_id !== tripId);
+  if (elsewhere.length > 0) {
+    throw new ValidationError(
+      `Posts already belong to another trip: ${elsewhere.map(post => post.id).join(', ')}`
+    );
+  }
+}
+
+/**
+ * IDs of a trip's parts, in order
+ */
+export async function getTripPostIds(db: DatabaseClient, tripId: string): Promise<string[]> {
+  const rows = await db.query<{ post_id: string }>(
+    'SELECT post_id FROM trip_posts WHERE trip_id = ? ORDER BY position ASC',
+    [tripId]
+  );
+  return rows.map(row => row.post_id);
+}
+
+/**
+ * Queries that replace a trip's ordered parts (for use in db.batch)
+ */
+export function setTripPostsQueries(tripId: string, postIds: string[]): { query: string; params: any[] }[] {
+  return [
+    { query: 'DELETE FROM trip_posts WHERE trip_id = ?', params: [tripId] },
+    ...postIds.map((postId, index) => ({
+      query: 'INSERT INTO trip_posts (trip_id, post_id, position) VALUES (?, ?, ?)',
+      params: [tripId, postId, index + 1],
+    })),
+  ];
+}
+
+/**
+ * Map a trips row to its API representation
+ */
+export function toTripResponse(row: any) {
+  return {
+    id: row.id,
+    slug: row.slug,
+    title: row.title,
+    description: row.description,
+    coverImage: row.cover_image,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    authorId: row.author_id,
+    partCount: row.part_count ?? 0,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
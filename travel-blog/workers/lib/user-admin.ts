@@ -0,0 +1,166 @@
+/**
+ * User Management Rules
+ * Feature: user-management
+ *
+ * Validation of the /api/auth/users request bodies, and the checks that keep
+ * at least one active contributor around: contributors manage accounts, so
+ * the last one must not lose the role or be disabled, and nobody can demote
+ * or disable themselves.
+ */
+
+import { ValidationError, ConflictError } from './errors';
+import {
+  sanitizeUsername,
+  sanitizePassword,
+  isValidUsername,
+  isValidPassword
+} from './sanitize';
+import { USER_ROLES, type User, type UserRole } from './user-service';
+
+export const MAX_DISPLAY_NAME_LENGTH = 100;
+export const MAX_EMAIL_LENGTH = 254;
+
+export interface CreateUserInput {
+  username: string;
+  password: string;
+  role: UserRole;
+  displayName: string | null;
+  email: string | null;
+}
+
+export interface UpdateUserInput {
+  displayName?: string | null;
+  email?: string | null;
+  role?: UserRole;
+}
+
+function parseRole(value: unknown): UserRole {
+  if (typeof value !== 'string' || !USER_ROLES.includes(value as UserRole)) {
+    throw new ValidationError(`role must be one of: ${USER_ROLES.join(', ')}`);
+  }
+  return value as UserRole;
+}
+
+/**
+ * Display names are trimmed; empty or null clears the name
+ */
+function parseDisplayName(value: unknown): string | null {
+  if (value === null) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new ValidationError('displayName must be a string or null');
+  }
+
+  const displayName = value.trim();
+  if (displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+    throw new ValidationError(`displayName must be at most ${MAX_DISPLAY_NAME_LENGTH} characters`);
+  }
+
+  return displayName || null;
+}
+
+/**
+ * Emails are trimmed and lowercased; empty or null clears the email
+ */
+export function parseEmail(value: unknown): string | null {
+  if (value === null) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new ValidationError('email must be a string or null');
+  }
+
+  const email = value.trim().toLowerCase();
+  if (!email) {
+    return null;
+  }
+  if (email.length > MAX_EMAIL_LENGTH || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new ValidationError('email must be a valid email address');
+  }
+
+  return email;
+}
+
+/**
+ * Validate the body of POST /api/auth/users
+ */
+export function parseCreateUserInput(body: any): CreateUserInput {
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('Invalid request body');
+  }
+
+  const username = sanitizeUsername(body.username);
+  if (!isValidUsername(username)) {
+    throw new ValidationError('Username must be 3-50 characters and contain only letters, numbers, and underscores');
+  }
+
+  const password = sanitizePassword(body.password);
+  if (!isValidPassword(password)) {
+    throw new ValidationError('Password must be 8-72 characters');
+  }
+
+  return {
+    username,
+    password,
+    role: body.role === undefined ? 'reader' : parseRole(body.role),
+    displayName: body.displayName === undefined ? null : parseDisplayName(body.displayName),
+    email: body.email === undefined ? null : parseEmail(body.email),
+  };
+}
+
+/**
+ * Validate the body of PATCH /api/auth/users/:userId
+ */
+export function parseUpdateUserInput(body: any): UpdateUserInput {
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('Invalid request body');
+  }
+
+  const changes: UpdateUserInput = {};
+
+  if (body.displayName !== undefined) {
+    changes.displayName = parseDisplayName(body.displayName);
+  }
+  if (body.email !== undefined) {
+    changes.email = parseEmail(body.email);
+  }
+  if (body.role !== undefined) {
+    changes.role = parseRole(body.role);
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw new ValidationError('Nothing to update: provide displayName, email and/or role');
+  }
+
+  return changes;
+}
+
+/**
+ * Parse the :userId route parameter
+ */
+export function parseUserId(value: unknown): number {
+  const id = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isSafeInteger(id) || id < 1) {
+    throw new ValidationError('Invalid user ID');
+  }
+  return id;
+}
+
+/**
+ * Check that a contributor may take the contributor role away from a user or
+ * disable them
+ * @param actor - Username of the contributor making the change
+ * @param target - User being changed
+ * @param activeContributors - Number of active contributors before the change
+ */
+export function assertCanRemoveAccess(actor: string, target: User, activeContributors: number): void {
+  if (target.username === actor) {
+    throw new ValidationError('You cannot demote or disable your own account');
+  }
+
+  const isActiveContributor = target.role === 'contributor' && !target.disabledAt;
+  if (isActiveContributor && activeContributors <= 1) {
+    throw new ConflictError('At least one active contributor is required');
+  }
+}
@@ -3,15 +3,39 @@
  * Uses Cloudflare D1 database for user storage
  */
 
+export type UserRole = 'reader' | 'contributor';
+
+export const USER_ROLES: UserRole[] = ['reader', 'contributor'];
+
 export interface User {
   id?: number;
   username: string;
   passwordHash: string;
-  role: 'reader' | 'contributor';
+  role: UserRole;
   createdAt?: string;
+  updatedAt?: string;
   displayName?: string;
+  email?: string | null; // Where password reset links are sent
+  disabledAt?: string | null; // Set while the account is disabled
+  passwordChangedAt?: string | null; // Sessions issued earlier are revoked
+}
+
+/**
+ * User as returned by the user management API (no password hash)
+ */
+export interface ManagedUser {
+  id: number;
+  username: string;
+  role: UserRole;
+  displayName: string | null;
+  email: string | null;
+  createdAt: string;
+  updatedAt: string;
+  disabledAt: string | null;
 }
 
+const USER_COLUMNS = 'id, username, password_hash as passwordHash, role, display_name as displayName, created_at as createdAt, updated_at as updatedAt, email, disabled_at as disabledAt, password_changed_at as passwordChangedAt';
+
 /**
  * Find a user by username (case-insensitive)
  * @param db - D1 database instance
@@ -22,7 +46,7 @@ export async function findUserByUsername(db: any, username: string): Promise<Use
   const normalizedUsername = username.toLowerCase();
   
   const result = await db
-    .prepare('SELECT id, username, password_hash as passwordHash, role, display_name as displayName, created_at as createdAt FROM users WHERE LOWER(username) = ?')
+    .prepare(`SELECT ${USER_COLUMNS} FROM users WHERE LOWER(username) = ?`)
     .bind(normalizedUsername)
     .first();
   
@@ -30,13 +54,28 @@ export async function findUserByUsername(db: any, username: string): Promise<Use
 }
 
 /**
- * Get all users (for admin purposes - not exposed via API)
+ * Find a user by ID
+ * @param db - D1 database instance
+ * @param id - User ID
+ * @returns User object if found, null otherwise
+ */
+export async function findUserById(db: any, id: number): Promise<User | null> {
+  const result = await db
+    .prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`)
+    .bind(id)
+    .first();
+
+  return result || null;
+}
+
+/**
+ * Get all users, newest first (see toManagedUser before exposing them)
  * @param db - D1 database instance
  * @returns Array of all users
  */
 export async function getAllUsers(db: any): Promise<User[]> {
   const result = await db
-    .prepare('SELECT id, username, password_hash as passwordHash, role, display_name as displayName, created_at as createdAt FROM users ORDER BY created_at DESC')
+    .prepare(`SELECT ${USER_COLUMNS} FROM users ORDER BY created_at DESC`)
     .all();
   
   return result.results || [];
@@ -65,3 +104,117 @@ export async function getUserCount(db: any): Promise<number> {
   
   return result?.count || 0;
 }
+
+/**
+ * Count contributors whose accounts are not disabled
+ * @param db - D1 database instance
+ * @returns Number of active contributors
+ */
+export async function getActiveContributorCount(db: any): Promise<number> {
+  const result = await db
+    .prepare("SELECT COUNT(*) as count FROM users WHERE role = 'contributor' AND disabled_at IS NULL")
+    .first();
+
+  return result?.count || 0;
+}
+
+/**
+ * Create a user
+ * @param db - D1 database instance
+ * @param user - Username (already normalized), password hash, role, display name and email
+ * @returns The created user
+ */
+export async function createUser(
+  db: any,
+  user: { username: string; passwordHash: string; role: UserRole; displayName: string | null; email: string | null }
+): Promise<User> {
+  return db
+    .prepare(`INSERT INTO users (username, password_hash, role, display_name, email) VALUES (?, ?, ?, ?, ?) RETURNING ${USER_COLUMNS}`)
+    .bind(user.username, user.passwordHash, user.role, user.displayName, user.email)
+    .first();
+}
+
+/**
+ * Update a user's display name, email and/or role
+ * @param db - D1 database instance
+ * @param id - User ID
+ * @param changes - Fields to change (undefined fields are left as they are)
+ * @returns The updated user, or null if it does not exist
+ */
+export async function updateUser(
+  db: any,
+  id: number,
+  changes: { displayName?: string | null; email?: string | null; role?: UserRole }
+): Promise<User | null> {
+  const assignments = ["updated_at = datetime('now')"];
+  const params: any[] = [];
+
+  if (changes.displayName !== undefined) {
+    assignments.push('display_name = ?');
+    params.push(changes.displayName);
+  }
+  if (changes.email !== undefined) {
+    assignments.push('email = ?');
+    params.push(changes.email);
+  }
+  if (changes.role !== undefined) {
+    assignments.push('role = ?');
+    params.push(changes.role);
+  }
+
+  const result = await db
+    .prepare(`UPDATE users SET ${assignments.join(', ')} WHERE id = ? RETURNING ${USER_COLUMNS}`)
+    .bind(...params, id)
+    .first();
+
+  return result || null;
+}
+
+/**
+ * Disable or re-enable a user account
+ * @param db - D1 database instance
+ * @param id - User ID
+ * @param disabled - True to disable, false to enable
+ * @returns The updated user, or null if it does not exist
+ */
+export async function setUserDisabled(db: any, id: number, disabled: boolean): Promise<User | null> {
+  const result = await db
+    .prepare(`UPDATE users SET
+      disabled_at = ${disabled ? "COALESCE(disabled_at, datetime('now'))" : 'NULL'},
+      updated_at = datetime('now')
+    WHERE id = ? RETURNING ${USER_COLUMNS}`)
+    .bind(id)
+    .first();
+
+  return result || null;
+}
+
+/**
+ * Set a new password hash and revoke the user's earlier sessions
+ * @param db - D1 database instance
+ * @param id - User ID
+ * @param passwordHash - Bcrypt hash of the new password
+ * @param changedAt - Time of the change (sessions issued before it are revoked)
+ */
+export async function updatePassword(db: any, id: number, passwordHash: string, changedAt: Date = new Date()): Promise<void> {
+  await db
+    .prepare("UPDATE users SET password_hash = ?, password_changed_at = ?, updated_at = datetime('now') WHERE id = ?")
+    .bind(passwordHash, changedAt.toISOString(), id)
+    .run();
+}
+
+/**
+ * Strip the password hash from a user for API responses
+ */
+export function toManagedUser(user: User): ManagedUser {
+  return {
+    id: user.id!,
+    username: user.username,
+    role: user.role,
+    displayName: user.displayName ?? null,
+    email: user.email ?? null,
+    createdAt: user.createdAt!,
+    updatedAt: user.updatedAt!,
+    disabledAt: user.disabledAt ?? null,
+  };
+}
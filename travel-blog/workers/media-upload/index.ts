@@ -24,7 +24,8 @@ interface Env {
   CLOUDFLARE_IMAGES_ACCOUNT_HASH: string;
   CLOUDFLARE_IMAGES_API_TOKEN: string;
   CLOUDFLARE_STREAM_API_TOKEN: string;
-  JWT_SECRET: string;
+  JWT_SECRET?: string; // Until JWT_PUBLIC_KEYS is set
+  JWT_PUBLIC_KEYS?: string; // JWKS JSON for verifying session tokens (see lib/jwt-keys.ts)
 }
 
 const router = Router();
@@ -9,9 +9,12 @@
 import { createCloudflareImagesClient } from '../lib/cloudflare-images';
 import { createDatabaseClient } from '../lib/db';
 import { generateUUID } from '../lib/uuid';
+import { refreshPostCountersQuery } from '../lib/post-counters';
 import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
 import type { SessionPayload } from '../lib/jwt';
 import { 
+  NotFoundError,
   ValidationError, 
   TooLargeError, 
   ServerError,
@@ -71,6 +74,17 @@ export const uploadPhoto = withAuth(async (request: Request, user, env: Env) =>
       throw new ValidationError('Invalid file type. Supported: JPEG, PNG, WebP, GIF, HEIC');
     }
 
+    // Trashed posts take no new media
+    const db = createDatabaseClient(env.DB);
+    const post = await db.queryOne(
+      'SELECT id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
+      [postId]
+    );
+
+    if (!post) {
+      throw new NotFoundError('Post');
+    }
+
     // Upload to Cloudflare Images
     const imagesClient = createCloudflareImagesClient({
       accountId: env.CLOUDFLARE_ACCOUNT_ID,
@@ -95,16 +109,15 @@ export const uploadPhoto = withAuth(async (request: Request, user, env: Env) =>
     const height = (uploadResult as any).height || null;
 
     // Store photo metadata in database
-    const db = createDatabaseClient(env.DB);
     const photoId = generateUUID();
     const now = new Date().toISOString();
 
-    await db.execute(
-      `INSERT INTO photo_content (
+    await db.batch([{
+      query: `INSERT INTO photo_content (
         id, post_id, url, cloudflare_image_id, caption, alt_text, 
         display_order, source, original_filename, uploaded_at, width, height
       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
+      params: [
         photoId,
         postId,
         variants.public,  // Use public variant (the only one that exists)
@@ -117,8 +130,11 @@ export const uploadPhoto = withAuth(async (request: Request, user, env: Env) =>
         now,
         width,
         height,
-      ]
-    );
+      ],
+    }, refreshPostCountersQuery(postId)]);
+
+    // Retire cached public copies (reaches the posts worker's cache when both share a zone)
+    await purgePostCache(db, [postId]);
 
     // Return response
     return successResponse({
@@ -134,7 +150,7 @@ export const uploadPhoto = withAuth(async (request: Request, user, env: Env) =>
   } catch (error) {
     console.error('Photo upload error:', error);
     
-    if (error instanceof ValidationError || error instanceof TooLargeError) {
+    if (error instanceof NotFoundError || error instanceof ValidationError || error instanceof TooLargeError) {
       throw error;
     }
     
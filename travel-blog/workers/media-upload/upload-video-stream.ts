@@ -6,7 +6,10 @@
  */
 
 import { withAuth } from '../lib/auth-middleware';
-import { errorResponse, ValidationError } from '../lib/errors';
+import { createDatabaseClient } from '../lib/db';
+import { purgePostCache } from '../lib/edge-cache';
+import { errorResponse, NotFoundError, ValidationError } from '../lib/errors';
+import { refreshPostCountersQuery } from '../lib/post-counters';
 
 interface Env {
   DB: D1Database;
@@ -78,6 +81,15 @@ export const uploadVideoStream = withAuth(async (request: Request, user, env: En
       throw new ValidationError('Invalid video type. Supported: MP4, MOV, WebM, AVI');
     }
 
+    // Trashed posts take no new media
+    const post = await env.DB.prepare(
+      'SELECT id FROM blog_posts WHERE id = ? AND deleted_at IS NULL'
+    ).bind(postId).first();
+
+    if (!post) {
+      throw new NotFoundError('Post');
+    }
+
     // Prepare metadata for Stream
     const metadata = {
       postId,
@@ -150,6 +162,13 @@ export const uploadVideoStream = withAuth(async (request: Request, user, env: En
       streamData.result.input?.height || null
     ).run();
 
+    // Keep the post's video count in sync
+    const counters = refreshPostCountersQuery(postId);
+    await env.DB.prepare(counters.query).bind(...counters.params).run();
+
+    // Retire cached public copies (reaches the posts worker's cache when both share a zone)
+    await purgePostCache(createDatabaseClient(env.DB), [postId]);
+
     return new Response(
       JSON.stringify({
         success: true,
@@ -178,6 +197,10 @@ export const uploadVideoStream = withAuth(async (request: Request, user, env: En
     if (error instanceof ValidationError) {
       return errorResponse('Validation Error', error.message, 400);
     }
+
+    if (error instanceof NotFoundError) {
+      return errorResponse('Not Found', error.message, 404);
+    }
     
     return errorResponse(
       'Upload Failed',
@@ -0,0 +1,18 @@
+-- Migration: Create post revisions table
+-- Feature: post-revision-history
+-- Date: 2026-10-19
+-- Description: Stores snapshots of a post and its content blocks taken before each save,
+-- so contributors can diff and restore earlier versions
+
+CREATE TABLE IF NOT EXISTS post_revisions (
+  id TEXT PRIMARY KEY,
+  post_id TEXT NOT NULL,
+  revision_number INTEGER NOT NULL,
+  action TEXT NOT NULL, -- Mutation that replaced this state (e.g. 'update-metadata', 'restore')
+  snapshot TEXT NOT NULL, -- JSON: post metadata, photos, videos, text blocks
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  created_by TEXT NOT NULL,
+  FOREIGN KEY (post_id) REFERENCES blog_posts(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_revisions_post_number ON post_revisions(post_id, revision_number DESC);
@@ -0,0 +1,11 @@
+-- Migration: Add scheduled publishing to blog posts
+-- Feature: scheduled-publishing
+-- Date: 2026-10-19
+-- Description: Adds scheduled_for so posts can be published automatically by the
+-- posts worker cron trigger. The status CHECK constraint cannot be widened without
+-- rebuilding blog_posts (which would cascade-delete all content), so a scheduled
+-- post is stored as status 'draft' with scheduled_for set and reported as 'scheduled'
+
+ALTER TABLE blog_posts ADD COLUMN scheduled_for DATETIME; -- ISO 8601 UTC, NULL when not scheduled
+
+CREATE INDEX IF NOT EXISTS idx_posts_scheduled ON blog_posts(scheduled_for) WHERE scheduled_for IS NOT NULL;
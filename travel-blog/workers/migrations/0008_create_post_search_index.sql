@@ -0,0 +1,37 @@
+-- Migration: Create full-text search index for blog posts
+-- Feature: post-search
+-- Date: 2026-10-19
+-- Description: FTS5 index with one row per post (title, description and all text
+-- blocks). Kept in sync by the posts worker whenever a post or its text changes.
+
+CREATE VIRTUAL TABLE IF NOT EXISTS post_search USING fts5(
+  post_id UNINDEXED,
+  title,
+  description,
+  body,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Backfill existing posts, with HTML tags in text blocks replaced by spaces
+-- (one tag per step, as SQLite has no regex replace)
+INSERT INTO post_search (post_id, title, description, body)
+WITH RECURSIVE post_body(post_id, body) AS (
+  SELECT
+    p.id,
+    COALESCE((
+      SELECT group_concat(content, char(10))
+      FROM (SELECT content FROM text_content WHERE post_id = p.id ORDER BY display_order)
+    ), '')
+  FROM blog_posts p
+  UNION ALL
+  SELECT
+    post_id,
+    substr(body, 1, instr(body, '<') - 1) || ' ' ||
+      substr(body, instr(body, '<') + instr(substr(body, instr(body, '<')), '>'))
+  FROM post_body
+  WHERE instr(body, '<') > 0 AND instr(substr(body, instr(body, '<')), '>') > 0
+)
+SELECT p.id, p.title, COALESCE(p.description, ''), b.body
+FROM blog_posts p
+JOIN post_body b ON b.post_id = p.id
+WHERE NOT (instr(body, '<') > 0 AND instr(substr(body, instr(body, '<')), '>') > 0);
@@ -0,0 +1,39 @@
+-- Migration: Create post taxonomy
+-- Feature: post-taxonomy
+-- Date: 2026-10-19
+-- Description: Adds country, destination, tags and travel companions to blog posts
+-- so readers can browse by facet (e.g. all trips to Italy with the grandparents)
+
+-- Where the trip went
+ALTER TABLE blog_posts ADD COLUMN country_code TEXT; -- ISO 3166-1 alpha-2, uppercase
+ALTER TABLE blog_posts ADD COLUMN destination TEXT; -- Free text, e.g. "Rome" or "Amalfi Coast"
+
+CREATE INDEX IF NOT EXISTS idx_posts_country ON blog_posts(country_code) WHERE country_code IS NOT NULL;
+
+-- Tags are shared between posts and created on first use
+CREATE TABLE IF NOT EXISTS tags (
+  id TEXT PRIMARY KEY,
+  slug TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS post_tags (
+  post_id TEXT NOT NULL,
+  tag_id TEXT NOT NULL,
+  PRIMARY KEY (post_id, tag_id),
+  FOREIGN KEY (post_id) REFERENCES blog_posts(id) ON DELETE CASCADE,
+  FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_tags_tag ON post_tags(tag_id);
+
+-- Who came along (fixed vocabulary, see workers/lib/post-taxonomy.ts)
+CREATE TABLE IF NOT EXISTS post_companions (
+  post_id TEXT NOT NULL,
+  companion TEXT CHECK(companion IN ('solo', 'spouse', 'kids', 'parents', 'grandparents', 'friends', 'pets')) NOT NULL,
+  PRIMARY KEY (post_id, companion),
+  FOREIGN KEY (post_id) REFERENCES blog_posts(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_companions_companion ON post_companions(companion);
@@ -0,0 +1,32 @@
+-- Migration: Create trips
+-- Feature: trips
+-- Date: 2026-10-19
+-- Description: Groups posts from one longer journey into an ordered series.
+-- A post belongs to at most one trip; deleting a trip keeps its posts.
+
+CREATE TABLE IF NOT EXISTS trips (
+  id TEXT PRIMARY KEY,
+  slug TEXT UNIQUE NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  cover_image TEXT, -- Falls back to the first part's cover when NULL
+  start_date TEXT, -- YYYY-MM-DD
+  end_date TEXT, -- YYYY-MM-DD
+  author_id TEXT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CHECK(start_date IS NULL OR end_date IS NULL OR start_date <= end_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trips_author ON trips(author_id);
+
+CREATE TABLE IF NOT EXISTS trip_posts (
+  trip_id TEXT NOT NULL,
+  post_id TEXT UNIQUE NOT NULL,
+  position INTEGER NOT NULL, -- 1-based part number
+  PRIMARY KEY (trip_id, post_id),
+  FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE,
+  FOREIGN KEY (post_id) REFERENCES blog_posts(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_posts_order ON trip_posts(trip_id, position);
@@ -0,0 +1,14 @@
+-- Migration: Create slug history
+-- Feature: slug-history
+-- Date: 2026-10-19
+-- Description: Remembers slugs a post used to have, so old links redirect
+-- permanently to the current slug. Retired slugs stay reserved for their post.
+
+CREATE TABLE IF NOT EXISTS slug_history (
+  slug TEXT PRIMARY KEY, -- Retired slug
+  post_id TEXT NOT NULL,
+  retired_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (post_id) REFERENCES blog_posts(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_slug_history_post ON slug_history(post_id);
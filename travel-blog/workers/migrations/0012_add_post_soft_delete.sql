@@ -0,0 +1,11 @@
+-- Migration: Add soft delete to blog posts
+-- Feature: post-trash
+-- Date: 2026-10-19
+-- Description: Deleting a post moves it to the trash by setting deleted_at.
+-- Trashed posts are hidden from every read route and can be restored until the
+-- posts worker cron trigger purges them (with their media) after the retention period
+
+ALTER TABLE blog_posts ADD COLUMN deleted_at DATETIME; -- ISO 8601 UTC, NULL when not in the trash
+ALTER TABLE blog_posts ADD COLUMN deleted_by TEXT; -- Username of whoever moved it to the trash
+
+CREATE INDEX IF NOT EXISTS idx_posts_deleted ON blog_posts(deleted_at) WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,22 @@
+-- Migration: Create media cleanup outbox
+-- Feature: media-cleanup
+-- Date: 2026-10-19
+-- Description: Photos and videos are deleted from Cloudflare Images, Stream and R2
+-- through an outbox. A job is written in the same batch that deletes the content
+-- row, and the posts worker cron trigger works through the jobs, retrying failures
+-- with exponential backoff. Jobs that keep failing are marked 'dead' for inspection.
+
+CREATE TABLE IF NOT EXISTS media_cleanup_jobs (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('image', 'stream', 'r2')),
+  resource_id TEXT NOT NULL, -- Cloudflare image ID, Stream UID or R2 key
+  post_id TEXT, -- Post the media belonged to (no foreign key: the post may be gone)
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at DATETIME NOT NULL, -- ISO 8601 UTC
+  last_error TEXT,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_cleanup_due ON media_cleanup_jobs(status, next_attempt_at);
@@ -0,0 +1,11 @@
+-- Migration: Add indexes for sorting the post list
+-- Feature: post-list-pagination
+-- Date: 2026-10-19
+-- Description: GET /api/posts pages with keyset cursors over (sort key, id).
+-- These indexes match the sort expressions in workers/lib/post-pagination.ts
+-- so each page is a range scan instead of a sort of every matching post
+
+CREATE INDEX IF NOT EXISTS idx_posts_sort_published ON blog_posts(status, COALESCE(published_at, created_at), id);
+CREATE INDEX IF NOT EXISTS idx_posts_sort_created ON blog_posts(status, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_posts_sort_updated ON blog_posts(status, updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_posts_sort_title ON blog_posts(status, title COLLATE NOCASE, id);
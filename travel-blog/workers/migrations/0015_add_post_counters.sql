@@ -0,0 +1,23 @@
+-- Migration: Add denormalised content counters to blog posts
+-- Feature: post-counters
+-- Date: 2026-10-19
+-- Description: Post lists used to count photos, videos and text blocks and look
+-- up the first photo with correlated subqueries for every row. The counts and
+-- the cover image to display (cover_image, or else the first photo) are now
+-- stored on blog_posts and refreshed by every handler that changes a post's
+-- content (see workers/lib/post-counters.ts)
+
+ALTER TABLE blog_posts ADD COLUMN photo_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE blog_posts ADD COLUMN video_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE blog_posts ADD COLUMN text_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE blog_posts ADD COLUMN resolved_cover_image TEXT; -- cover_image, or the first photo's URL
+
+-- Backfill existing posts
+UPDATE blog_posts SET
+  photo_count = (SELECT COUNT(*) FROM photo_content WHERE post_id = blog_posts.id),
+  video_count = (SELECT COUNT(*) FROM video_content WHERE post_id = blog_posts.id),
+  text_count = (SELECT COUNT(*) FROM text_content WHERE post_id = blog_posts.id),
+  resolved_cover_image = COALESCE(
+    cover_image,
+    (SELECT url FROM photo_content WHERE post_id = blog_posts.id ORDER BY display_order ASC LIMIT 1)
+  );
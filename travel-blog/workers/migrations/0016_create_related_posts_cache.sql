@@ -0,0 +1,16 @@
+-- Migration: Create related posts cache
+-- Feature: related-posts
+-- Date: 2026-10-19
+-- Description: Related posts are scored in the posts worker from shared tags and
+-- country, how close together the posts were published and TF-IDF term overlap
+-- in their text (see workers/lib/related-posts.ts). Scoring reads every published
+-- post, so each post's ranking is kept here and recomputed when the post changes
+-- (its version moves on) or the entry is older than RELATED_CACHE_TTL_HOURS.
+
+CREATE TABLE IF NOT EXISTS related_posts_cache (
+  post_id TEXT PRIMARY KEY,
+  post_version INTEGER NOT NULL, -- blog_posts.version the ranking was computed for
+  related TEXT NOT NULL, -- JSON array of { id, score }, best first
+  computed_at DATETIME NOT NULL, -- ISO 8601 UTC
+  FOREIGN KEY (post_id) REFERENCES blog_posts(id) ON DELETE CASCADE
+);
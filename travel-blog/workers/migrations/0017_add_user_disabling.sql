@@ -0,0 +1,9 @@
+-- Migration: Allow user accounts to be disabled
+-- Feature: user-management
+-- Date: 2026-10-19
+-- Description: Contributors now create, edit and disable accounts through
+-- /api/auth/users instead of seed migrations. Disabled accounts keep their
+-- row (posts reference authors by username) but can no longer sign in or
+-- verify a session
+
+ALTER TABLE users ADD COLUMN disabled_at TEXT; -- NULL while the account is active
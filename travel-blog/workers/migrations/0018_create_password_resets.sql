@@ -0,0 +1,23 @@
+-- Migration: Password changes and reset tokens
+-- Feature: password-reset
+-- Date: 2026-10-19
+-- Description: Users can change their password and request a reset link.
+-- Reset tokens are single-use and expire; only their SHA-256 hash is stored.
+-- password_changed_at revokes sessions: tokens issued before it no longer
+-- verify. email is where reset links are delivered (see workers/lib/notifier.ts)
+
+ALTER TABLE users ADD COLUMN email TEXT;
+ALTER TABLE users ADD COLUMN password_changed_at TEXT; -- ISO 8601, NULL if never changed
+
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id TEXT PRIMARY KEY,
+  user_id INTEGER NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the token, hex
+  created_at TEXT NOT NULL, -- ISO 8601
+  expires_at TEXT NOT NULL, -- ISO 8601
+  used_at TEXT, -- Set when the token resets a password
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Latest token per user (request cooldown) and replacing earlier ones
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user ON password_reset_tokens(user_id, created_at);
@@ -0,0 +1,23 @@
+-- Migration: Server-side session registry
+-- Feature: sessions
+-- Date: 2026-10-19
+-- Description: Every session token carries a jti claim naming a row here.
+-- Tokens are only accepted while their row is neither revoked nor expired, so
+-- logging out, revoking a device, changing a password or disabling an account
+-- takes effect immediately instead of when the token expires. Tokens issued
+-- before this migration have no jti and are signed out once.
+
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY, -- jti claim of the session token
+  user_id INTEGER NOT NULL,
+  created_at TEXT NOT NULL, -- ISO 8601
+  last_seen_at TEXT NOT NULL, -- ISO 8601, refreshed at most every few minutes
+  expires_at TEXT NOT NULL, -- ISO 8601, same as the token's exp
+  revoked_at TEXT, -- Set on logout or revocation
+  user_agent TEXT,
+  ip_address TEXT,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- A user's active sessions ("Your devices", revoking all of them)
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id, expires_at);
@@ -0,0 +1,20 @@
+-- Migration: Rotating refresh tokens
+-- Feature: refresh-tokens
+-- Date: 2026-10-19
+-- Description: Access tokens now expire after 15 minutes. Login also issues a
+-- refresh token (HttpOnly cookie) that POST /api/auth/refresh exchanges for a
+-- new access token and a new refresh token. All refresh tokens of a session
+-- form one family; presenting a token that was already used revokes the
+-- session, and with it every token in the family. sessions.expires_at is now
+-- the end of the session (24 hours, or 7 days with "remember me"), no longer
+-- the access token's exp. Only SHA-256 hashes of refresh tokens are stored.
+
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  token_hash TEXT PRIMARY KEY, -- SHA-256 of the token, hex
+  session_id TEXT NOT NULL,
+  created_at TEXT NOT NULL, -- ISO 8601
+  used_at TEXT, -- Set when exchanged; a second use is a replay
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session ON refresh_tokens(session_id);
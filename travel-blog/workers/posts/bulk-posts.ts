@@ -0,0 +1,131 @@
+/**
+ * Bulk Post Actions Endpoint
+ * Feature: post-bulk-actions
+ * POST /api/posts/bulk
+ *
+ * Publishes, unpublishes, changes the template of, adds tags to or moves to
+ * the trash a set of posts. Posts that cannot be changed are reported in the
+ * per-item results; the rest are written in one D1 batch.
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { revisionQueries } from '../lib/post-revisions';
+import {
+  bulkItemQueries,
+  checkBulkItem,
+  findStalePosts,
+  getBulkRevisionAction,
+  parseBulkRequest,
+  type BulkItemResult,
+  type BulkPostRow
+} from '../lib/post-bulk';
+import {
+  ValidationError,
+  ServerError,
+  successResponse,
+  parseJsonBody
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+export const bulkPosts = withAuth(async (request: Request, user, env: Env) => {
+  try {
+    const bulk = parseBulkRequest(await parseJsonBody(request));
+
+    const db = createDatabaseClient(env.DB);
+
+    if (bulk.action === 'change-template') {
+      const template = await db.queryOne(
+        'SELECT id, is_active FROM design_templates WHERE id = ?',
+        [bulk.templateId]
+      );
+
+      if (!template || !template.is_active) {
+        throw new ValidationError('Invalid or inactive template');
+      }
+    }
+
+    const placeholders = bulk.postIds.map(() => '?').join(', ');
+    const rows = await db.query<BulkPostRow>(
+      `SELECT
+        p.id, p.author_id, p.status, p.scheduled_for, p.design_template_id, p.version,
+        (SELECT group_concat(t.slug) FROM post_tags pt JOIN tags t ON t.id = pt.tag_id
+          WHERE pt.post_id = p.id) as tag_slugs
+      FROM blog_posts p
+      WHERE p.id IN (${placeholders}) AND p.deleted_at IS NULL`,
+      bulk.postIds
+    );
+    const posts = new Map(rows.map(row => [row.id, row]));
+
+    const revisionAction = getBulkRevisionAction(bulk.action);
+    const now = new Date().toISOString();
+    const writes = new Map<string, { query: string; params: any[] }[]>();
+    const results: BulkItemResult[] = [];
+
+    for (const postId of bulk.postIds) {
+      const post = posts.get(postId);
+      const error = checkBulkItem(post, bulk, user);
+
+      if (error || !post) {
+        results.push({ postId, ok: false, error: error || 'Post not found' });
+        continue;
+      }
+
+      // Snapshot the current state ahead of the write, as the single-post routes do
+      const queries = revisionAction ? await revisionQueries(db, postId, user.sub, revisionAction) : [];
+      writes.set(postId, [...queries, ...bulkItemQueries(post, bulk, user.sub, now)]);
+
+      results.push(bulk.action === 'delete'
+        ? { postId, ok: true }
+        : { postId, ok: true, version: post.version + 1 });
+    }
+
+    // A post saved by someone else since it was read fails its version claim and rolls
+    // back the batch; it is reported as a conflict and the others are written without it
+    while (writes.size > 0) {
+      try {
+        await db.batch(Array.from(writes.values()).flat());
+        break;
+      } catch (error) {
+        const stale = await findStalePosts(db, posts, Array.from(writes.keys()));
+        if (stale.length === 0 || bulk.action === 'delete') {
+          throw error;
+        }
+
+        for (const postId of stale) {
+          writes.delete(postId);
+          const index = results.findIndex(result => result.postId === postId);
+          results[index] = { postId, ok: false, error: 'Post was changed by someone else' };
+        }
+      }
+    }
+
+    const succeeded = results.filter(result => result.ok).length;
+    console.log(`[BULK POSTS] ${bulk.action}: ${succeeded} of ${results.length} post(s) changed by ${user.sub}`);
+
+    // Retire cached public copies
+    await purgePostCache(db, results.filter(result => result.ok).map(result => result.postId));
+
+    // Return response
+    return successResponse({
+      action: bulk.action,
+      results,
+      succeeded,
+      failed: results.length - succeeded,
+    });
+
+  } catch (error) {
+    console.error('Bulk posts error:', error);
+
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to apply bulk action');
+  }
+});
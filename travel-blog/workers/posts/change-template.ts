@@ -0,0 +1,174 @@
+/**
+ * Change Post Template Endpoint
+ * Feature: template-switching
+ * POST /api/posts/:postId/template
+ *
+ * Switches a post to another design template and records the change in
+ * post_template_history. With dryRun set, only reports which content the new
+ * template would hide, without changing anything.
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { generateUUID } from '../lib/uuid';
+import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { revisionQueries } from '../lib/post-revisions';
+import { getExpectedVersion, withVersionHeader, writeWithPostVersion } from '../lib/post-version';
+import { buildContentPreservation } from '../lib/template-change';
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+  ConflictError,
+  ServerError,
+  successResponse,
+  parseJsonBody
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+interface ChangeTemplateRequest {
+  newTemplateId: string;
+  reason?: string;
+  dryRun?: boolean; // Only report contentPreservation
+  version?: number; // Expected post version (alternative to If-Match)
+}
+
+const MAX_REASON_LENGTH = 500;
+
+export const changeTemplate = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId } = routeParams;
+
+    if (!postId) {
+      throw new NotFoundError('Post not found');
+    }
+
+    const body = await parseJsonBody<ChangeTemplateRequest>(request);
+
+    // Validate required fields
+    if (!body.newTemplateId || typeof body.newTemplateId !== 'string') {
+      throw new ValidationError('newTemplateId is required and must be a string');
+    }
+    if (body.reason !== undefined && body.reason !== null) {
+      if (typeof body.reason !== 'string') {
+        throw new ValidationError('reason must be a string');
+      }
+      if (body.reason.length > MAX_REASON_LENGTH) {
+        throw new ValidationError(`reason must be at most ${MAX_REASON_LENGTH} characters`);
+      }
+    }
+
+    const db = createDatabaseClient(env.DB);
+
+    // Check post ownership
+    const post = await db.queryOne(
+      'SELECT author_id, design_template_id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
+      [postId]
+    );
+
+    if (!post) {
+      throw new NotFoundError('Post not found');
+    }
+
+    if (post.author_id !== user.sub) {
+      throw new UnauthorizedError('You do not have permission to change this post\'s template');
+    }
+
+    // Validate target template
+    const template = await db.queryOne(
+      'SELECT id, name, max_photos, max_videos, is_active FROM design_templates WHERE id = ?',
+      [body.newTemplateId]
+    );
+
+    if (!template || !template.is_active) {
+      throw new ValidationError('Invalid or inactive template');
+    }
+
+    if (template.id === post.design_template_id) {
+      throw new ValidationError('Post already uses this template');
+    }
+
+    // Count content to see what the new template will display
+    const counts = await db.queryOne(
+      `SELECT
+        (SELECT COUNT(*) FROM photo_content WHERE post_id = ?) as photo_count,
+        (SELECT COUNT(*) FROM video_content WHERE post_id = ?) as video_count,
+        (SELECT COUNT(*) FROM text_content WHERE post_id = ?) as text_count`,
+      [postId, postId, postId]
+    );
+
+    const contentPreservation = buildContentPreservation(
+      {
+        photos: counts?.photo_count ?? 0,
+        videos: counts?.video_count ?? 0,
+        textSections: counts?.text_count ?? 0,
+      },
+      {
+        name: template.name,
+        maxPhotos: template.max_photos,
+        maxVideos: template.max_videos,
+      }
+    );
+
+    if (body.dryRun) {
+      return successResponse({
+        postId,
+        previousTemplateId: post.design_template_id,
+        newTemplateId: template.id,
+        dryRun: true,
+        contentPreservation,
+      });
+    }
+
+    const historyId = generateUUID();
+    const now = new Date().toISOString();
+
+    // Claim the next version and write in one batch (409 if someone else saved first)
+    const version = await writeWithPostVersion(db, postId, getExpectedVersion(request, body), async () => [
+      // Snapshot the current state before switching
+      ...await revisionQueries(db, postId, user.sub, 'change-template'),
+
+      {
+        query: 'UPDATE blog_posts SET design_template_id = ? WHERE id = ?',
+        params: [template.id, postId],
+      },
+      {
+        query: `INSERT INTO post_template_history
+          (id, post_id, template_id, changed_at, changed_by, previous_template_id, reason)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        params: [historyId, postId, template.id, now, user.sub, post.design_template_id, body.reason || null],
+      },
+    ]);
+
+    // Retire cached public copies
+    await purgePostCache(db, [postId]);
+
+    // Return response
+    return withVersionHeader(successResponse({
+      postId,
+      previousTemplateId: post.design_template_id,
+      newTemplateId: template.id,
+      changedAt: now,
+      changedBy: user.sub,
+      historyId,
+      contentPreservation,
+      version,
+    }), version);
+
+  } catch (error) {
+    console.error('Change template error:', error);
+
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError ||
+        error instanceof ValidationError || error instanceof ConflictError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to change post template');
+  }
+});
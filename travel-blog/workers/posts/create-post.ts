@@ -10,6 +10,8 @@ import { createDatabaseClient } from '../lib/db';
 import { generateUUID } from '../lib/uuid';
 import { generateSlug, generateUniqueSlug } from '../lib/slug';
 import { withAuth } from '../lib/auth-middleware';
+import { reindexPost } from '../lib/post-search';
+import { isSlugTaken } from '../lib/slug-history';
 import type { SessionPayload } from '../lib/jwt';
 import { 
   ValidationError, 
@@ -36,6 +38,7 @@ interface CreatePostResponse {
   templateId: string;
   status: string;
   createdAt: string;
+  version: number;
 }
 
 export const createPost = withAuth(async (request: Request, user, env: Env) => {
@@ -70,8 +73,8 @@ export const createPost = withAuth(async (request: Request, user, env: Env) => {
     // Generate or validate slug
     let slug: string;
     if (body.slug) {
-      // Check if slug is available
-      const existing = await db.exists('blog_posts', 'slug', body.slug);
+      // Check if slug is available (including slugs other posts used to have)
+      const existing = await isSlugTaken(db, body.slug);
       if (existing) {
         throw new ValidationError('Slug already in use');
       }
@@ -80,7 +83,7 @@ export const createPost = withAuth(async (request: Request, user, env: Env) => {
       // Generate unique slug from title
       const baseSlug = generateSlug(body.title);
       slug = await generateUniqueSlug(baseSlug, async (testSlug) => {
-        return await db.exists('blog_posts', 'slug', testSlug);
+        return await isSlugTaken(db, testSlug);
       });
     }
 
@@ -96,6 +99,9 @@ export const createPost = withAuth(async (request: Request, user, env: Env) => {
       [postId, slug, body.title, body.templateId, user.sub, status, now, now]
     );
 
+    // Keep the search index in sync
+    await reindexPost(db, postId);
+
     // Return response
     return successResponse({
       postId,
@@ -104,6 +110,7 @@ export const createPost = withAuth(async (request: Request, user, env: Env) => {
       templateId: body.templateId,
       status,
       createdAt: now,
+      version: 1,
     }, 201);
 
   } catch (error) {
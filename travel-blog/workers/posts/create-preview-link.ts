@@ -0,0 +1,118 @@
+/**
+ * Create Post Preview Link Endpoint
+ * Feature: post-preview-links
+ * POST /api/posts/:postId/preview
+ *
+ * Mints a signed link (valid for 1 hour) that shows the post rendered with any
+ * template to whoever opens it, without changing the stored template
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withAuth } from '../lib/auth-middleware';
+import { generatePreviewToken } from '../lib/preview-token';
+import { buildContentPreservation } from '../lib/template-change';
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+  ServerError,
+  successResponse,
+  parseJsonBody
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+interface CreatePreviewRequest {
+  templateId?: string; // Defaults to the post's current template
+}
+
+export const createPreviewLink = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId } = routeParams;
+
+    if (!postId) {
+      throw new NotFoundError('Post not found');
+    }
+
+    const body = await parseJsonBody<CreatePreviewRequest>(request);
+
+    if (body.templateId !== undefined && typeof body.templateId !== 'string') {
+      throw new ValidationError('templateId must be a string');
+    }
+
+    const db = createDatabaseClient(env.DB);
+
+    // Check post ownership
+    const post = await db.queryOne(
+      'SELECT author_id, design_template_id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
+      [postId]
+    );
+
+    if (!post) {
+      throw new NotFoundError('Post not found');
+    }
+
+    if (post.author_id !== user.sub) {
+      throw new UnauthorizedError('You do not have permission to share this post');
+    }
+
+    const template = await db.queryOne(
+      'SELECT id, name, max_photos, max_videos, is_active FROM design_templates WHERE id = ?',
+      [body.templateId || post.design_template_id]
+    );
+
+    if (!template || !template.is_active) {
+      throw new ValidationError('Invalid or inactive template');
+    }
+
+    const counts = await db.queryOne(
+      `SELECT
+        (SELECT COUNT(*) FROM photo_content WHERE post_id = ?) as photo_count,
+        (SELECT COUNT(*) FROM video_content WHERE post_id = ?) as video_count,
+        (SELECT COUNT(*) FROM text_content WHERE post_id = ?) as text_count`,
+      [postId, postId, postId]
+    );
+
+    const { token, expiresAt } = generatePreviewToken(postId, template.id, user.sub, env.JWT_SECRET);
+
+    // The link points at the site the request came from
+    const origin = request.headers.get('Origin') || '';
+
+    // Return response
+    return successResponse({
+      postId,
+      templateId: template.id,
+      templateName: template.name,
+      previewToken: token,
+      previewUrl: `${origin}/blog?preview=${encodeURIComponent(token)}`,
+      expiresAt,
+      contentSummary: buildContentPreservation(
+        {
+          photos: counts?.photo_count ?? 0,
+          videos: counts?.video_count ?? 0,
+          textSections: counts?.text_count ?? 0,
+        },
+        {
+          name: template.name,
+          maxPhotos: template.max_photos,
+          maxVideos: template.max_videos,
+        }
+      ),
+    }, 201);
+
+  } catch (error) {
+    console.error('Create preview link error:', error);
+
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError ||
+        error instanceof ValidationError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to create preview link');
+  }
+});
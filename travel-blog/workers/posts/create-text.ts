@@ -9,11 +9,17 @@
 import { createDatabaseClient } from '../lib/db';
 import { generateUUID } from '../lib/uuid';
 import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { reindexPostQueries } from '../lib/post-search';
+import { refreshPostCountersQuery } from '../lib/post-counters';
+import { revisionQueries } from '../lib/post-revisions';
+import { getExpectedVersion, withVersionHeader, writeWithPostVersion } from '../lib/post-version';
 import type { SessionPayload } from '../lib/jwt';
 import { 
   NotFoundError,
   UnauthorizedError,
   ValidationError, 
+  ConflictError,
   ServerError,
   successResponse,
   parseJsonBody 
@@ -27,6 +33,7 @@ interface Env {
 interface CreateTextRequest {
   content: string;
   displayOrder?: number;
+  version?: number; // Expected post version (alternative to If-Match)
 }
 
 export const createText = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
@@ -54,7 +61,7 @@ export const createText = withAuth(async (request: Request & { params?: any }, u
 
     // Check post ownership
     const post = await db.queryOne(
-      'SELECT author_id FROM blog_posts WHERE id = ?',
+      'SELECT author_id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
       [postId]
     );
 
@@ -77,35 +84,43 @@ export const createText = withAuth(async (request: Request & { params?: any }, u
       displayOrder = (maxOrder?.max_order ?? -1) + 1;
     }
 
-    // Create text block
     const textId = generateUUID();
     const now = new Date().toISOString();
 
-    await db.execute(
-      `INSERT INTO text_content (id, post_id, content, display_order, section_name, created_at)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-      [textId, postId, body.content, displayOrder, 'main', now]
-    );
+    // Claim the next version and write in one batch (409 if someone else saved first)
+    const version = await writeWithPostVersion(db, postId, getExpectedVersion(request, body), async () => [
+      // Snapshot the current state before adding the block
+      ...await revisionQueries(db, postId, user.sub, 'create-text'),
 
-    // Update post's updated_at
-    await db.execute(
-      'UPDATE blog_posts SET updated_at = ? WHERE id = ?',
-      [now, postId]
-    );
+      // Create text block
+      {
+        query: `INSERT INTO text_content (id, post_id, content, display_order, section_name, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        params: [textId, postId, body.content, displayOrder, 'main', now],
+      },
+      refreshPostCountersQuery(postId),
+
+      // Keep the search index in sync
+      ...reindexPostQueries(postId),
+    ]);
+
+    // Retire cached public copies
+    await purgePostCache(db, [postId]);
 
     // Return response
-    return successResponse({
+    return withVersionHeader(successResponse({
       textId,
       content: body.content,
       displayOrder,
       createdAt: now,
-    }, 201);
+      version,
+    }, 201), version);
 
   } catch (error) {
     console.error('Create text block error:', error);
     
     if (error instanceof NotFoundError || error instanceof UnauthorizedError || 
-        error instanceof ValidationError) {
+        error instanceof ValidationError || error instanceof ConflictError) {
       throw error;
     }
     
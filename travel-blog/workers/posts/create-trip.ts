@@ -0,0 +1,108 @@
+/**
+ * Create Trip Endpoint
+ * Feature: trips
+ * POST /api/posts/trips
+ *
+ * Creates a trip, optionally with its posts in order
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { generateUUID } from '../lib/uuid';
+import { generateSlug, generateUniqueSlug } from '../lib/slug';
+import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import {
+  checkTripPosts,
+  parseTripDate,
+  parseTripPostIds,
+  parseTripTitle,
+  setTripPostsQueries,
+  toTripResponse,
+  validateTripDates
+} from '../lib/trips';
+import {
+  ValidationError,
+  ServerError,
+  successResponse,
+  parseJsonBody
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+interface CreateTripRequest {
+  title: string;
+  description?: string | null;
+  coverImage?: string | null;
+  startDate?: string | null; // YYYY-MM-DD
+  endDate?: string | null; // YYYY-MM-DD
+  postIds?: string[]; // Parts in order
+}
+
+export const createTrip = withAuth(async (request: Request, user, env: Env) => {
+  try {
+    const body = await parseJsonBody<CreateTripRequest>(request);
+
+    // Validate fields
+    const title = parseTripTitle(body.title);
+    const startDate = parseTripDate(body.startDate ?? null, 'startDate');
+    const endDate = parseTripDate(body.endDate ?? null, 'endDate');
+    validateTripDates(startDate, endDate);
+    const postIds = body.postIds !== undefined ? parseTripPostIds(body.postIds) : [];
+
+    const db = createDatabaseClient(env.DB);
+
+    await checkTripPosts(db, postIds, user.sub, null);
+
+    // Generate unique slug from title
+    const slug = await generateUniqueSlug(generateSlug(title) || 'trip', async (testSlug) => {
+      return await db.exists('trips', 'slug', testSlug);
+    });
+
+    const tripId = generateUUID();
+    const now = new Date().toISOString();
+
+    await db.batch([
+      {
+        query: `INSERT INTO trips (
+          id, slug, title, description, cover_image, start_date, end_date, author_id, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        params: [
+          tripId,
+          slug,
+          title,
+          body.description?.trim() || null,
+          body.coverImage || null,
+          startDate,
+          endDate,
+          user.sub,
+          now,
+          now,
+        ],
+      },
+      ...setTripPostsQueries(tripId, postIds),
+    ]);
+
+    const trip = await db.queryOne('SELECT * FROM trips WHERE id = ?', [tripId]);
+
+    // Retire cached public copies of the parts
+    await purgePostCache(db, postIds);
+
+    // Return response
+    return successResponse({
+      trip: toTripResponse({ ...trip, part_count: postIds.length }),
+      postIds,
+    }, 201);
+
+  } catch (error) {
+    console.error('Create trip error:', error);
+
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to create trip');
+  }
+});
@@ -3,15 +3,22 @@
  * Feature: 004-modular-blog-posts
  * DELETE /api/posts/:postId/photos/:photoId
  * 
- * Deletes a photo from a blog post
+ * Deletes a photo from a blog post and queues the image for deletion from
+ * Cloudflare Images (skipped if another photo still uses it)
  */
 
 import { createDatabaseClient } from '../lib/db';
 import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { getExpectedVersion, withVersionHeader, writeWithPostVersion } from '../lib/post-version';
+import { enqueueMediaCleanupQueries, photoCleanupTargets } from '../lib/media-cleanup';
+import { refreshPostCountersQuery } from '../lib/post-counters';
 import type { SessionPayload } from '../lib/jwt';
 import { 
   NotFoundError,
   UnauthorizedError,
+  ValidationError,
+  ConflictError,
   ServerError,
   successResponse 
 } from '../lib/errors';
@@ -21,9 +28,11 @@ interface Env {
   JWT_SECRET: string;
 }
 
-export const deletePhoto = withAuth(async (request: Request, user, env: Env, params: any) => {
+export const deletePhoto = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
   try {
-    const { postId, photoId } = params;
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId, photoId } = routeParams;
 
     if (!postId || !photoId) {
       throw new NotFoundError('Photo not found');
@@ -33,7 +42,7 @@ export const deletePhoto = withAuth(async (request: Request, user, env: Env, par
 
     // Check post ownership
     const post = await db.queryOne(
-      'SELECT author_id FROM blog_posts WHERE id = ?',
+      'SELECT author_id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
       [postId]
     );
 
@@ -47,7 +56,7 @@ export const deletePhoto = withAuth(async (request: Request, user, env: Env, par
 
     // Check photo exists and belongs to post
     const photo = await db.queryOne(
-      'SELECT id FROM photo_content WHERE id = ? AND post_id = ?',
+      'SELECT id, cloudflare_image_id FROM photo_content WHERE id = ? AND post_id = ?',
       [photoId, postId]
     );
 
@@ -55,30 +64,29 @@ export const deletePhoto = withAuth(async (request: Request, user, env: Env, par
       throw new NotFoundError('Photo not found');
     }
 
-    // Delete photo
-    await db.execute(
-      'DELETE FROM photo_content WHERE id = ?',
-      [photoId]
-    );
-
-    // Update post's updated_at
-    await db.execute(
-      'UPDATE blog_posts SET updated_at = ? WHERE id = ?',
-      [new Date().toISOString(), postId]
-    );
+    // Claim the next version and write in one batch (409 if someone else saved first)
+    const version = await writeWithPostVersion(db, postId, getExpectedVersion(request), async () => [
+      // Delete photo and queue the image cleanup together
+      { query: 'DELETE FROM photo_content WHERE id = ?', params: [photoId] },
+      ...enqueueMediaCleanupQueries(postId, photoCleanupTargets([photo])),
+      refreshPostCountersQuery(postId),
+    ]);
 
-    // Note: We're not deleting from Cloudflare Images since images may be reused
+    // Retire cached public copies
+    await purgePostCache(db, [postId]);
 
     // Return response
-    return successResponse({
+    return withVersionHeader(successResponse({
       message: 'Photo deleted successfully',
       photoId,
-    });
+      version,
+    }), version);
 
   } catch (error) {
     console.error('Delete photo error:', error);
     
-    if (error instanceof NotFoundError || error instanceof UnauthorizedError) {
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError ||
+        error instanceof ValidationError || error instanceof ConflictError) {
       throw error;
     }
     
@@ -8,10 +8,17 @@
 
 import { createDatabaseClient } from '../lib/db';
 import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { reindexPostQueries } from '../lib/post-search';
+import { refreshPostCountersQuery } from '../lib/post-counters';
+import { revisionQueries } from '../lib/post-revisions';
+import { getExpectedVersion, withVersionHeader, writeWithPostVersion } from '../lib/post-version';
 import type { SessionPayload } from '../lib/jwt';
 import { 
   NotFoundError,
   UnauthorizedError,
+  ValidationError,
+  ConflictError,
   ServerError,
   successResponse 
 } from '../lib/errors';
@@ -21,9 +28,11 @@ interface Env {
   JWT_SECRET: string;
 }
 
-export const deleteText = withAuth(async (request: Request, user, env: Env, params: any) => {
+export const deleteText = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
   try {
-    const { postId, textId } = params;
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId, textId } = routeParams;
 
     if (!postId || !textId) {
       throw new NotFoundError('Text block not found');
@@ -33,7 +42,7 @@ export const deleteText = withAuth(async (request: Request, user, env: Env, para
 
     // Check post ownership
     const post = await db.queryOne(
-      'SELECT author_id FROM blog_posts WHERE id = ?',
+      'SELECT author_id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
       [postId]
     );
 
@@ -55,28 +64,34 @@ export const deleteText = withAuth(async (request: Request, user, env: Env, para
       throw new NotFoundError('Text block not found');
     }
 
-    // Delete text
-    await db.execute(
-      'DELETE FROM text_content WHERE id = ?',
-      [textId]
-    );
+    // Claim the next version and write in one batch (409 if someone else saved first)
+    const version = await writeWithPostVersion(db, postId, getExpectedVersion(request), async () => [
+      // Snapshot the current state so the block can be restored
+      ...await revisionQueries(db, postId, user.sub, 'delete-text'),
 
-    // Update post's updated_at
-    await db.execute(
-      'UPDATE blog_posts SET updated_at = ? WHERE id = ?',
-      [new Date().toISOString(), postId]
-    );
+      // Delete text
+      { query: 'DELETE FROM text_content WHERE id = ?', params: [textId] },
+      refreshPostCountersQuery(postId),
+
+      // Keep the search index in sync
+      ...reindexPostQueries(postId),
+    ]);
+
+    // Retire cached public copies
+    await purgePostCache(db, [postId]);
 
     // Return response
-    return successResponse({
+    return withVersionHeader(successResponse({
       message: 'Text block deleted successfully',
       textId,
-    });
+      version,
+    }), version);
 
   } catch (error) {
     console.error('Delete text error:', error);
     
-    if (error instanceof NotFoundError || error instanceof UnauthorizedError) {
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError ||
+        error instanceof ValidationError || error instanceof ConflictError) {
       throw error;
     }
     
@@ -0,0 +1,73 @@
+/**
+ * Delete Trip Endpoint
+ * Feature: trips
+ * DELETE /api/posts/trips/:tripId
+ *
+ * Deletes a trip. Its posts are kept and become standalone again.
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { getTripPostIds } from '../lib/trips';
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+export const deleteTrip = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { tripId } = routeParams;
+
+    if (!tripId) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    const db = createDatabaseClient(env.DB);
+
+    // Check trip ownership
+    const trip = await db.queryOne('SELECT author_id FROM trips WHERE id = ?', [tripId]);
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    if (trip.author_id !== user.sub) {
+      throw new UnauthorizedError('You do not have permission to delete this trip');
+    }
+
+    const postIds = await getTripPostIds(db, tripId);
+
+    await db.batch([
+      { query: 'DELETE FROM trip_posts WHERE trip_id = ?', params: [tripId] },
+      { query: 'DELETE FROM trips WHERE id = ?', params: [tripId] },
+    ]);
+
+    // Retire cached public copies of the former parts (their trip navigation is gone)
+    await purgePostCache(db, postIds);
+
+    // Return response
+    return successResponse({
+      message: 'Trip deleted successfully',
+      tripId,
+    });
+
+  } catch (error) {
+    console.error('Delete trip error:', error);
+
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to delete trip');
+  }
+});
@@ -3,29 +3,36 @@
  * Feature: 004-modular-blog-posts
  * DELETE /api/posts/:postId/videos/:videoId
  * 
- * Deletes a video from a blog post and R2 storage
+ * Deletes a video from a blog post and queues it for deletion from
+ * Cloudflare Stream and R2 storage
  */
 
 import { createDatabaseClient } from '../lib/db';
-import { createR2Client } from '../lib/cloudflare-r2';
 import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { getExpectedVersion, withVersionHeader, writeWithPostVersion } from '../lib/post-version';
+import { enqueueMediaCleanupQueries, videoCleanupTargets } from '../lib/media-cleanup';
+import { refreshPostCountersQuery } from '../lib/post-counters';
 import type { SessionPayload } from '../lib/jwt';
 import { 
   NotFoundError,
   UnauthorizedError,
+  ValidationError,
+  ConflictError,
   ServerError,
   successResponse 
 } from '../lib/errors';
 
 interface Env {
   DB: D1Database;
-  MEDIA_BUCKET: R2Bucket;
   JWT_SECRET: string;
 }
 
-export const deleteVideo = withAuth(async (request: Request, user, env: Env, params: any) => {
+export const deleteVideo = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
   try {
-    const { postId, videoId } = params;
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId, videoId } = routeParams;
 
     if (!postId || !videoId) {
       throw new NotFoundError('Video not found');
@@ -35,7 +42,7 @@ export const deleteVideo = withAuth(async (request: Request, user, env: Env, par
 
     // Check post ownership
     const post = await db.queryOne(
-      'SELECT author_id FROM blog_posts WHERE id = ?',
+      'SELECT author_id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
       [postId]
     );
 
@@ -47,9 +54,9 @@ export const deleteVideo = withAuth(async (request: Request, user, env: Env, par
       throw new UnauthorizedError('You do not have permission to delete this video');
     }
 
-    // Get video metadata to delete from R2
+    // Get video metadata to delete from Stream and R2
     const video = await db.queryOne(
-      'SELECT id, r2_key FROM video_content WHERE id = ? AND post_id = ?',
+      'SELECT id, r2_key, stream_id FROM video_content WHERE id = ? AND post_id = ?',
       [videoId, postId]
     );
 
@@ -57,37 +64,29 @@ export const deleteVideo = withAuth(async (request: Request, user, env: Env, par
       throw new NotFoundError('Video not found');
     }
 
-    // Delete video from database
-    await db.execute(
-      'DELETE FROM video_content WHERE id = ?',
-      [videoId]
-    );
-
-    // Update post's updated_at
-    await db.execute(
-      'UPDATE blog_posts SET updated_at = ? WHERE id = ?',
-      [new Date().toISOString(), postId]
-    );
+    // Claim the next version and write in one batch (409 if someone else saved first)
+    const version = await writeWithPostVersion(db, postId, getExpectedVersion(request), async () => [
+      // Delete video from database and queue the file cleanup together
+      { query: 'DELETE FROM video_content WHERE id = ?', params: [videoId] },
+      ...enqueueMediaCleanupQueries(postId, videoCleanupTargets([video])),
+      refreshPostCountersQuery(postId),
+    ]);
 
-    // Delete from R2 (best effort)
-    try {
-      const r2Client = createR2Client(env.MEDIA_BUCKET);
-      await r2Client.delete(video.r2_key);
-    } catch (error) {
-      console.error(`Failed to delete video from R2: ${video.r2_key}`, error);
-      // Continue - video is already removed from database
-    }
+    // Retire cached public copies
+    await purgePostCache(db, [postId]);
 
     // Return response
-    return successResponse({
+    return withVersionHeader(successResponse({
       message: 'Video deleted successfully',
       videoId,
-    });
+      version,
+    }), version);
 
   } catch (error) {
     console.error('Delete video error:', error);
     
-    if (error instanceof NotFoundError || error instanceof UnauthorizedError) {
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError ||
+        error instanceof ValidationError || error instanceof ConflictError) {
       throw error;
     }
     
@@ -0,0 +1,33 @@
+/**
+ * Drain Media Cleanup Job
+ * Feature: media-cleanup
+ * Cron trigger (see posts/wrangler.toml)
+ *
+ * Deletes queued photos and videos from Cloudflare Images, Stream and R2,
+ * retrying failures with backoff
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { drainMediaCleanupJobs } from '../lib/media-cleanup';
+
+interface Env {
+  DB: D1Database;
+  MEDIA_BUCKET: R2Bucket;
+  CLOUDFLARE_ACCOUNT_ID: string;
+  CLOUDFLARE_IMAGES_API_TOKEN: string;
+  CLOUDFLARE_STREAM_API_TOKEN: string;
+}
+
+export async function drainMediaCleanup(env: Env, scheduledTime: number): Promise<void> {
+  try {
+    const db = createDatabaseClient(env.DB);
+    const result = await drainMediaCleanupJobs(db, env, new Date(scheduledTime));
+
+    if (result.done + result.retrying + result.dead > 0) {
+      console.log('[drainMediaCleanup] Processed media cleanup jobs:', result);
+    }
+  } catch (error) {
+    // Jobs stay in the outbox; the next run will pick them up
+    console.error('Drain media cleanup error:', error);
+  }
+}
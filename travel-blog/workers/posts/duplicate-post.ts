@@ -0,0 +1,148 @@
+/**
+ * Duplicate Blog Post Endpoint
+ * Feature: post-duplicate
+ * POST /api/posts/:postId/duplicate
+ *
+ * Creates a new draft from an existing post: title, description, template,
+ * taxonomy and text sections are copied, and with includeMedia the photos,
+ * videos and cover image too (as references to the same files). The copy gets
+ * a fresh unique slug and is not added to the original's trip.
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { generateUUID } from '../lib/uuid';
+import { generateSlug, generateUniqueSlug } from '../lib/slug';
+import { withAuth } from '../lib/auth-middleware';
+import { reindexPost } from '../lib/post-search';
+import { refreshPostCountersQuery } from '../lib/post-counters';
+import { isSlugTaken } from '../lib/slug-history';
+import { loadPostTaxonomy, setTaxonomyQueries } from '../lib/post-taxonomy';
+import { duplicateContentQueries, getDuplicateTitle } from '../lib/post-duplicate';
+import {
+  NotFoundError,
+  ValidationError,
+  ServerError,
+  successResponse,
+  parseJsonBody
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+interface DuplicatePostRequest {
+  title?: string; // Defaults to "<title> (copy)"
+  includeMedia?: boolean; // Copy photo and video references (default false)
+}
+
+export const duplicatePost = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId } = routeParams;
+
+    if (!postId) {
+      throw new NotFoundError('Post not found');
+    }
+
+    // The body is optional
+    const body = (request.headers.get('Content-Type') || '').includes('application/json')
+      ? await parseJsonBody<DuplicatePostRequest>(request)
+      : {};
+
+    if (body.title !== undefined && (typeof body.title !== 'string' || body.title.trim().length === 0)) {
+      throw new ValidationError('title must be a non-empty string');
+    }
+    if (body.includeMedia !== undefined && typeof body.includeMedia !== 'boolean') {
+      throw new ValidationError('includeMedia must be a boolean');
+    }
+
+    const db = createDatabaseClient(env.DB);
+
+    const source = await db.queryOne(
+      `SELECT id, title, description, cover_image, design_template_id, author_id, status
+      FROM blog_posts
+      WHERE id = ? AND deleted_at IS NULL`,
+      [postId]
+    );
+
+    // Anyone who can read the post can use it as a starting point
+    if (!source || (source.status !== 'published' && source.author_id !== user.sub)) {
+      throw new NotFoundError('Post not found');
+    }
+
+    const title = body.title?.trim() || getDuplicateTitle(source.title);
+    const includeMedia = body.includeMedia === true;
+
+    const slug = await generateUniqueSlug(generateSlug(title) || 'untitled', async (testSlug) => {
+      return await isSlugTaken(db, testSlug);
+    });
+
+    const textBlocks = await db.query<{ id: string }>(
+      'SELECT id FROM text_content WHERE post_id = ?',
+      [postId]
+    );
+    const photos = includeMedia
+      ? await db.query<{ id: string }>('SELECT id FROM photo_content WHERE post_id = ?', [postId])
+      : [];
+    const videos = includeMedia
+      ? await db.query<{ id: string }>('SELECT id FROM video_content WHERE post_id = ?', [postId])
+      : [];
+
+    const taxonomy = await loadPostTaxonomy(db, postId);
+
+    // Create the draft and its content together
+    const newPostId = generateUUID();
+    const now = new Date().toISOString();
+    const status = 'draft';
+
+    await db.batch([
+      {
+        query: `INSERT INTO blog_posts (
+          id, slug, title, description, cover_image, design_template_id, author_id, status, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        params: [
+          newPostId, slug, title, source.description, includeMedia ? source.cover_image : null,
+          source.design_template_id, user.sub, status, now, now,
+        ],
+      },
+      ...duplicateContentQueries(newPostId, {
+        textIds: textBlocks.map(row => row.id),
+        photoIds: photos.map(row => row.id),
+        videoIds: videos.map(row => row.id),
+      }, generateUUID, now),
+      ...setTaxonomyQueries(newPostId, taxonomy),
+      refreshPostCountersQuery(newPostId),
+    ]);
+
+    // Keep the search index in sync
+    await reindexPost(db, newPostId);
+
+    // Return response
+    return successResponse({
+      postId: newPostId,
+      title,
+      slug,
+      templateId: source.design_template_id,
+      status,
+      createdAt: now,
+      version: 1,
+      duplicatedFrom: postId,
+      copied: {
+        textBlocks: textBlocks.length,
+        photos: photos.length,
+        videos: videos.length,
+      },
+    }, 201);
+
+  } catch (error) {
+    console.error('Duplicate post error:', error);
+
+    if (error instanceof NotFoundError || error instanceof ValidationError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to duplicate blog post');
+  }
+});
@@ -0,0 +1,43 @@
+/**
+ * Get Post Archive Endpoint
+ * Feature: post-archive
+ * GET /api/posts/archive
+ *
+ * Public: counts of published posts by year and month and by country
+ * (?country= limits the year and month counts to one country). The posts of
+ * a period are listed with GET /api/posts?year=&month=.
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withEdgeCache, POST_LIST_SCOPE } from '../lib/edge-cache';
+import { loadPostArchive } from '../lib/post-archive';
+import {
+  ValidationError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+}
+
+export const getArchive = withEdgeCache(() => POST_LIST_SCOPE, async (request: Request, env: Env) => {
+  try {
+    const url = new URL(request.url);
+    const db = createDatabaseClient(env.DB);
+
+    const archive = await loadPostArchive(db, url.searchParams.get('country'));
+
+    // Return response
+    return successResponse(archive);
+
+  } catch (error) {
+    console.error('Get archive error:', error);
+
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to load post archive');
+  }
+});
@@ -3,11 +3,19 @@
  * Feature: 005-public-blog-viewing
  * GET /api/posts/slug/:slug
  * 
- * Retrieves a single blog post by slug with all its content
+ * Retrieves a single blog post by slug with all its content.
+ * A slug the post used to have returns { redirect: { slug, permanent } } instead,
+ * pointing at the current slug.
+ * The post includes its previous/next published posts as neighbors.
+ * Anonymous requests are served from the edge cache (see edge-cache.ts).
  */
 
 import { createDatabaseClient } from '../lib/db';
 import { withOptionalAuth } from '../lib/auth-middleware';
+import { withEdgeCache, postScope, POST_LIST_SCOPE } from '../lib/edge-cache';
+import { loadPostDetail } from '../lib/post-detail';
+import { loadPostNeighbors } from '../lib/post-neighbors';
+import { resolveRetiredSlug } from '../lib/slug-history';
 import type { SessionPayload } from '../lib/jwt';
 import { 
   NotFoundError, 
@@ -20,7 +28,7 @@ interface Env {
   JWT_SECRET: string;
 }
 
-export const getPostBySlug = withOptionalAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+export const getPostBySlug = withEdgeCache(request => [postScope((request as any).params?.slug ?? ''), POST_LIST_SCOPE], withOptionalAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
   try {
     // itty-router puts params on the request object
     const routeParams = (request as any).params || params;
@@ -36,61 +44,34 @@ export const getPostBySlug = withOptionalAuth(async (request: Request & { params
 
     const db = createDatabaseClient(env.DB);
 
-    // Get post with template info
-    const post = await db.queryOne(
-      `SELECT 
-        p.id, p.slug, p.title, p.description, p.cover_image,
-        p.design_template_id as template_id, t.name as template_name,
-        p.author_id, p.status, p.published_at, p.created_at, p.updated_at
-      FROM blog_posts p
-      JOIN design_templates t ON p.design_template_id = t.id
-      WHERE p.slug = ?`,
-      [slug]
-    );
+    // Post, content, taxonomy and trip navigation in one round trip
+    const detail = await loadPostDetail(db, { by: 'slug', value: slug }, user?.sub ?? null);
 
-    if (!post) {
+    if (!detail) {
+      // Old links: point to the post's current slug
+      const moved = await resolveRetiredSlug(db, slug);
+      if (moved && (moved.status === 'published' || user?.sub === moved.authorId)) {
+        return successResponse({
+          redirect: {
+            slug: moved.slug,
+            permanent: true,
+          },
+        });
+      }
       throw new NotFoundError('Post not found');
     }
 
+    const { post } = detail;
+
     // Check if user has access to draft posts
-    if (post.status === 'draft' && (!user || user.sub !== post.author_id)) {
+    if (post.status !== 'published' && (!user || user.sub !== post.author_id)) {
       throw new NotFoundError('Post not found');
     }
 
-    const postId = post.id;
-
-    // Get photos
-    const photos = await db.query(
-      `SELECT 
-        id, url, cloudflare_image_id, caption, alt_text,
-        display_order, width, height
-      FROM photo_content
-      WHERE post_id = ?
-      ORDER BY display_order ASC`,
-      [postId]
-    );
-
-    // Get videos
-    const videos = await db.query(
-      `SELECT 
-        id, url, r2_key, caption, display_order,
-        thumbnail_url, duration_seconds
-      FROM video_content
-      WHERE post_id = ?
-      ORDER BY display_order ASC`,
-      [postId]
-    );
-
-    // Get text blocks
-    const textBlocks = await db.query(
-      `SELECT id, content, display_order
-      FROM text_content
-      WHERE post_id = ?
-      ORDER BY display_order ASC`,
-      [postId]
-    );
+    // Previous/next published posts for the page's navigation
+    const neighbors = await loadPostNeighbors(db, post);
 
-    // Return response
+    // Return response (the version is in the body; the edge cache sets the ETag)
     return successResponse({
       post: {
         id: post.id,
@@ -102,12 +83,17 @@ export const getPostBySlug = withOptionalAuth(async (request: Request & { params
         templateName: post.template_name,
         authorId: post.author_id,
         status: post.status,
+        scheduledFor: post.scheduled_for,
         publishedAt: post.published_at,
         createdAt: post.created_at,
         updatedAt: post.updated_at,
+        version: post.version,
+        ...detail.taxonomy,
+        trip: detail.trip,
+        neighbors,
       },
       content: {
-        photos: photos.map((p: any) => ({
+        photos: detail.photos.map((p: any) => ({
           id: p.id,
           url: p.url,
           cloudflareImageId: p.cloudflare_image_id,
@@ -117,7 +103,7 @@ export const getPostBySlug = withOptionalAuth(async (request: Request & { params
           width: p.width,
           height: p.height,
         })),
-        videos: videos.map((v: any) => ({
+        videos: detail.videos.map((v: any) => ({
           id: v.id,
           url: v.url,
           r2ObjectKey: v.r2_key,
@@ -126,7 +112,7 @@ export const getPostBySlug = withOptionalAuth(async (request: Request & { params
           thumbnailUrl: v.thumbnail_url,
           durationSeconds: v.duration_seconds,
         })),
-        textBlocks: textBlocks.map((t: any) => ({
+        textBlocks: detail.textBlocks.map((t: any) => ({
           id: t.id,
           content: t.content,
           displayOrder: t.display_order,
@@ -143,4 +129,4 @@ export const getPostBySlug = withOptionalAuth(async (request: Request & { params
     
     throw new ServerError('Failed to retrieve blog post');
   }
-});
+}));
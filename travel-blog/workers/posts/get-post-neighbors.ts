@@ -0,0 +1,79 @@
+/**
+ * Get Post Neighbors Endpoint
+ * Feature: post-neighbors
+ * GET /api/posts/:postId/neighbors
+ *
+ * Returns the published posts just before and after a post by publish date
+ * (?scope=country keeps to the post's country, ?scope=tag&tag=<slug> to a tag).
+ * Anonymous requests are served from the edge cache (see edge-cache.ts).
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withOptionalAuth } from '../lib/auth-middleware';
+import { withEdgeCache, POST_LIST_SCOPE } from '../lib/edge-cache';
+import { postStatusSql } from '../lib/post-schedule';
+import { loadPostNeighbors, parseNeighborScope, type NeighborScope, type PostNeighbor } from '../lib/post-neighbors';
+import type { SessionPayload } from '../lib/jwt';
+import {
+  NotFoundError,
+  ValidationError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+interface GetPostNeighborsResponse {
+  postId: string;
+  scope: NeighborScope;
+  previous: PostNeighbor | null;
+  next: PostNeighbor | null;
+}
+
+export const getPostNeighbors = withEdgeCache(() => POST_LIST_SCOPE, withOptionalAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId } = routeParams;
+
+    if (!postId) {
+      throw new NotFoundError('Post not found');
+    }
+
+    const scope = parseNeighborScope(new URL(request.url).searchParams);
+    const db = createDatabaseClient(env.DB);
+
+    const post = await db.queryOne(
+      `SELECT id, author_id, ${postStatusSql()} as status, published_at, country_code
+      FROM blog_posts
+      WHERE id = ? AND deleted_at IS NULL`,
+      [postId]
+    );
+
+    // Unpublished posts are only visible to their author (and have no neighbors)
+    if (!post || (post.status !== 'published' && user?.sub !== post.author_id)) {
+      throw new NotFoundError('Post not found');
+    }
+
+    const neighbors = await loadPostNeighbors(db, post, scope);
+
+    // Return response
+    return successResponse({
+      postId,
+      scope,
+      ...neighbors,
+    });
+
+  } catch (error) {
+    console.error('Get post neighbors error:', error);
+
+    if (error instanceof NotFoundError || error instanceof ValidationError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to retrieve post neighbors');
+  }
+}));
@@ -8,6 +8,9 @@
 
 import { createDatabaseClient } from '../lib/db';
 import { withOptionalAuth } from '../lib/auth-middleware';
+import { withVersionHeader } from '../lib/post-version';
+import { loadPostDetail } from '../lib/post-detail';
+import type { TripNavigation } from '../lib/trips';
 import type { SessionPayload } from '../lib/jwt';
 import { 
   NotFoundError, 
@@ -31,9 +34,16 @@ interface GetPostResponse {
     templateName: string;
     authorId: string;
     status: string;
+    scheduledFor: string | null;
     publishedAt: string | null;
     createdAt: string;
     updatedAt: string;
+    version: number;
+    countryCode: string | null;
+    destination: string | null;
+    tags: Array<{ slug: string; name: string }>;
+    companions: string[];
+    trip: TripNavigation | null;
   };
   content: {
     photos: Array<{
@@ -63,9 +73,11 @@ interface GetPostResponse {
   };
 }
 
-export const getPost = withOptionalAuth(async (request: Request, user, env: Env, params: any) => {
+export const getPost = withOptionalAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
   try {
-    const { postId } = params;
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId } = routeParams;
 
     if (!postId) {
       throw new NotFoundError('Post not found');
@@ -73,60 +85,22 @@ export const getPost = withOptionalAuth(async (request: Request, user, env: Env,
 
     const db = createDatabaseClient(env.DB);
 
-    // Get post with template info
-    const post = await db.queryOne(
-      `SELECT 
-        p.id, p.slug, p.title, p.description, p.cover_image,
-        p.design_template_id as template_id, t.name as template_name,
-        p.author_id, p.status, p.published_at, p.created_at, p.updated_at
-      FROM blog_posts p
-      JOIN design_templates t ON p.design_template_id = t.id
-      WHERE p.id = ?`,
-      [postId]
-    );
+    // Post, content, taxonomy and trip navigation in one round trip
+    const detail = await loadPostDetail(db, { by: 'id', value: postId }, user?.sub ?? null);
 
-    if (!post) {
+    if (!detail) {
       throw new NotFoundError('Post not found');
     }
 
+    const { post } = detail;
+
     // Check if user has access to draft posts
-    if (post.status === 'draft' && (!user || user.sub !== post.author_id)) {
+    if (post.status !== 'published' && (!user || user.sub !== post.author_id)) {
       throw new NotFoundError('Post not found');
     }
 
-    // Get photos
-    const photos = await db.query(
-      `SELECT 
-        id, url, cloudflare_image_id, caption, alt_text,
-        display_order, width, height
-      FROM photo_content
-      WHERE post_id = ?
-      ORDER BY display_order ASC`,
-      [postId]
-    );
-
-    // Get videos
-    const videos = await db.query(
-      `SELECT 
-        id, url, r2_key, caption, display_order,
-        thumbnail_url, duration_seconds
-      FROM video_content
-      WHERE post_id = ?
-      ORDER BY display_order ASC`,
-      [postId]
-    );
-
-    // Get text blocks
-    const textBlocks = await db.query(
-      `SELECT id, content, display_order
-      FROM text_content
-      WHERE post_id = ?
-      ORDER BY display_order ASC`,
-      [postId]
-    );
-
     // Return response
-    return successResponse({
+    return withVersionHeader(successResponse({
       post: {
         id: post.id,
         slug: post.slug,
@@ -137,12 +111,16 @@ export const getPost = withOptionalAuth(async (request: Request, user, env: Env,
         templateName: post.template_name,
         authorId: post.author_id,
         status: post.status,
+        scheduledFor: post.scheduled_for,
         publishedAt: post.published_at,
         createdAt: post.created_at,
         updatedAt: post.updated_at,
+        version: post.version,
+        ...detail.taxonomy,
+        trip: detail.trip,
       },
       content: {
-        photos: photos.map((p: any) => ({
+        photos: detail.photos.map((p: any) => ({
           id: p.id,
           url: p.url,
           cloudflareImageId: p.cloudflare_image_id,
@@ -152,7 +130,7 @@ export const getPost = withOptionalAuth(async (request: Request, user, env: Env,
           width: p.width,
           height: p.height,
         })),
-        videos: videos.map((v: any) => ({
+        videos: detail.videos.map((v: any) => ({
           id: v.id,
           url: v.url,
           r2Key: v.r2_key,
@@ -161,13 +139,13 @@ export const getPost = withOptionalAuth(async (request: Request, user, env: Env,
           thumbnailUrl: v.thumbnail_url,
           durationSeconds: v.duration_seconds,
         })),
-        textBlocks: textBlocks.map((t: any) => ({
+        textBlocks: detail.textBlocks.map((t: any) => ({
           id: t.id,
           content: t.content,
           displayOrder: t.display_order,
         })),
       },
-    });
+    }), post.version);
 
   } catch (error) {
     console.error('Get post error:', error);
@@ -0,0 +1,140 @@
+/**
+ * Get Post Preview Endpoint
+ * Feature: post-preview-links
+ * GET /api/posts/preview/:token
+ *
+ * Public: returns a post (published or not) for a valid preview token,
+ * with templateId set to the template the link was created for
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { verifyPreviewToken } from '../lib/preview-token';
+import { postStatusSql } from '../lib/post-schedule';
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+export const getPreview = async (request: Request & { params?: any }, env: Env) => {
+  try {
+    const { token } = request.params || {};
+
+    const preview = token ? verifyPreviewToken(decodeURIComponent(token), env.JWT_SECRET) : null;
+    if (!preview) {
+      throw new UnauthorizedError('This preview link is invalid or has expired');
+    }
+
+    const db = createDatabaseClient(env.DB);
+
+    const post = await db.queryOne(
+      `SELECT 
+        p.id, p.slug, p.title, p.description, p.cover_image,
+        t.id as template_id, t.name as template_name,
+        p.author_id, ${postStatusSql()} as status, p.scheduled_for,
+        p.published_at, p.created_at, p.updated_at
+      FROM blog_posts p
+      JOIN design_templates t ON t.id = ?
+      WHERE p.id = ? AND p.deleted_at IS NULL`,
+      [preview.tid, preview.pid]
+    );
+
+    if (!post) {
+      throw new NotFoundError('Post not found');
+    }
+
+    const photos = await db.query(
+      `SELECT 
+        id, url, cloudflare_image_id, caption, alt_text,
+        display_order, width, height
+      FROM photo_content
+      WHERE post_id = ?
+      ORDER BY display_order ASC`,
+      [post.id]
+    );
+
+    const videos = await db.query(
+      `SELECT 
+        id, url, r2_key, caption, display_order,
+        thumbnail_url, duration_seconds
+      FROM video_content
+      WHERE post_id = ?
+      ORDER BY display_order ASC`,
+      [post.id]
+    );
+
+    const textBlocks = await db.query(
+      `SELECT id, content, display_order
+      FROM text_content
+      WHERE post_id = ?
+      ORDER BY display_order ASC`,
+      [post.id]
+    );
+
+    // Previews must never be cached by the browser or any edge cache
+    const response = successResponse({
+      post: {
+        id: post.id,
+        slug: post.slug,
+        title: post.title,
+        description: post.description,
+        coverImage: post.cover_image,
+        templateId: post.template_id,
+        templateName: post.template_name,
+        authorId: post.author_id,
+        status: post.status,
+        scheduledFor: post.scheduled_for,
+        publishedAt: post.published_at,
+        createdAt: post.created_at,
+        updatedAt: post.updated_at,
+      },
+      content: {
+        photos: photos.map((p: any) => ({
+          id: p.id,
+          url: p.url,
+          cloudflareImageId: p.cloudflare_image_id,
+          caption: p.caption,
+          altText: p.alt_text,
+          displayOrder: p.display_order,
+          width: p.width,
+          height: p.height,
+        })),
+        videos: videos.map((v: any) => ({
+          id: v.id,
+          url: v.url,
+          r2Key: v.r2_key,
+          caption: v.caption,
+          displayOrder: v.display_order,
+          thumbnailUrl: v.thumbnail_url,
+          durationSeconds: v.duration_seconds,
+        })),
+        textBlocks: textBlocks.map((t: any) => ({
+          id: t.id,
+          content: t.content,
+          displayOrder: t.display_order,
+        })),
+      },
+      preview: {
+        templateId: preview.tid,
+        expiresAt: new Date(preview.exp * 1000).toISOString(),
+      },
+    });
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+
+  } catch (error) {
+    console.error('Get preview error:', error);
+
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to load post preview');
+  }
+};
@@ -0,0 +1,117 @@
+/**
+ * Get Related Posts Endpoint
+ * Feature: related-posts
+ * GET /api/posts/:postId/related
+ *
+ * Returns published posts related to a post ("You might also like"), best
+ * first, as post cards (?limit=, default 3, at most 12). Rankings are cached
+ * per post (see related-posts.ts); anonymous responses are served from the
+ * edge cache (see edge-cache.ts).
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withOptionalAuth } from '../lib/auth-middleware';
+import { withEdgeCache, POST_LIST_SCOPE } from '../lib/edge-cache';
+import { postStatusSql } from '../lib/post-schedule';
+import { DEFAULT_RELATED_LIMIT, MAX_RELATED_POSTS, loadRelatedPosts } from '../lib/related-posts';
+import type { SessionPayload } from '../lib/jwt';
+import {
+  NotFoundError,
+  ValidationError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+export const getRelatedPosts = withEdgeCache(() => POST_LIST_SCOPE, withOptionalAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId } = routeParams;
+
+    if (!postId) {
+      throw new NotFoundError('Post not found');
+    }
+
+    const url = new URL(request.url);
+    const limit = parseInt(url.searchParams.get('limit') || String(DEFAULT_RELATED_LIMIT), 10);
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_RELATED_POSTS) {
+      throw new ValidationError(`limit must be between 1 and ${MAX_RELATED_POSTS}`);
+    }
+
+    const db = createDatabaseClient(env.DB);
+
+    const post = await db.queryOne(
+      `SELECT id, author_id, ${postStatusSql()} as status, version
+      FROM blog_posts
+      WHERE id = ? AND deleted_at IS NULL`,
+      [postId]
+    );
+
+    // Unpublished posts are only visible to their author
+    if (!post || (post.status !== 'published' && user?.sub !== post.author_id)) {
+      throw new NotFoundError('Post not found');
+    }
+
+    const ranking = await loadRelatedPosts(db, post);
+
+    // Cached rankings can name posts that are no longer published
+    const rows = ranking.length === 0 ? [] : await db.query(
+      `SELECT
+        p.id, p.slug, p.title, p.description, p.resolved_cover_image as cover_image,
+        p.design_template_id as template_id, t.name as template_name,
+        p.author_id, p.published_at, p.created_at,
+        p.photo_count, p.video_count, p.country_code, p.destination
+      FROM blog_posts p
+      JOIN design_templates t ON p.design_template_id = t.id
+      WHERE p.id IN (${ranking.map(() => '?').join(', ')})
+        AND p.deleted_at IS NULL AND p.status = 'published'`,
+      ranking.map(related => related.id)
+    );
+
+    const byId = new Map(rows.map((row: any) => [row.id, row]));
+    const posts = ranking
+      .filter(related => byId.has(related.id))
+      .slice(0, limit)
+      .map(related => {
+        const p = byId.get(related.id);
+        return {
+          id: p.id,
+          slug: p.slug,
+          title: p.title,
+          description: p.description,
+          coverImage: p.cover_image,
+          templateId: p.template_id,
+          templateName: p.template_name,
+          authorId: p.author_id,
+          publishedAt: p.published_at,
+          createdAt: p.created_at,
+          photoCount: p.photo_count,
+          videoCount: p.video_count,
+          countryCode: p.country_code,
+          destination: p.destination,
+          score: related.score,
+        };
+      });
+
+    // Return response
+    return successResponse({
+      postId,
+      posts,
+    });
+
+  } catch (error) {
+    console.error('Get related posts error:', error);
+
+    if (error instanceof NotFoundError || error instanceof ValidationError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to retrieve related posts');
+  }
+}));
@@ -0,0 +1,87 @@
+/**
+ * Get Post Revision Endpoint
+ * Feature: post-revision-history
+ * GET /api/posts/:postId/revisions/:revId
+ *
+ * Retrieves a revision snapshot with a field-level diff against the current post
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withAuth } from '../lib/auth-middleware';
+import {
+  diffSnapshots,
+  loadPostSnapshot,
+  toRevisionSummary,
+  type PostSnapshot
+} from '../lib/post-revisions';
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+export const getRevision = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId, revId } = routeParams;
+
+    if (!postId || !revId) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    const db = createDatabaseClient(env.DB);
+
+    // Check post ownership
+    const post = await db.queryOne(
+      'SELECT author_id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
+      [postId]
+    );
+
+    if (!post) {
+      throw new NotFoundError('Post not found');
+    }
+
+    if (post.author_id !== user.sub) {
+      throw new UnauthorizedError('You do not have permission to view revisions of this post');
+    }
+
+    const revision = await db.queryOne(
+      `SELECT id, post_id, revision_number, action, snapshot, created_at, created_by
+      FROM post_revisions
+      WHERE id = ? AND post_id = ?`,
+      [revId, postId]
+    );
+
+    if (!revision) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    const snapshot = JSON.parse(revision.snapshot) as PostSnapshot;
+    const current = await loadPostSnapshot(db, postId);
+
+    // Return response (diff describes what a restore would change)
+    return successResponse({
+      revision: {
+        ...toRevisionSummary(revision),
+        snapshot,
+      },
+      diff: current ? diffSnapshots(current, snapshot) : [],
+    });
+
+  } catch (error) {
+    console.error('Get revision error:', error);
+
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to retrieve post revision');
+  }
+});
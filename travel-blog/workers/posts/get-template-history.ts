@@ -0,0 +1,115 @@
+/**
+ * Get Post Template History Endpoint
+ * Feature: template-switching
+ * GET /api/posts/:postId/template-history
+ *
+ * Lists template changes of a blog post, newest first
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withAuth } from '../lib/auth-middleware';
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+export const getTemplateHistory = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId } = routeParams;
+
+    if (!postId) {
+      throw new NotFoundError('Post not found');
+    }
+
+    const url = new URL(request.url);
+    const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+    const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+
+    // Validate parameters
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      throw new ValidationError('limit must be between 1 and 100');
+    }
+    if (isNaN(offset) || offset < 0) {
+      throw new ValidationError('offset must be non-negative');
+    }
+
+    const db = createDatabaseClient(env.DB);
+
+    // Check post ownership
+    const post = await db.queryOne(
+      'SELECT author_id, design_template_id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
+      [postId]
+    );
+
+    if (!post) {
+      throw new NotFoundError('Post not found');
+    }
+
+    if (post.author_id !== user.sub) {
+      throw new UnauthorizedError('You do not have permission to view this post\'s template history');
+    }
+
+    const countResult = await db.queryOne(
+      'SELECT COUNT(*) as total FROM post_template_history WHERE post_id = ?',
+      [postId]
+    );
+    const total = countResult?.total || 0;
+
+    const history = await db.query(
+      `SELECT
+        h.id, h.post_id, h.template_id, t.name as template_name,
+        h.changed_at, h.changed_by, u.display_name as changed_by_name,
+        h.previous_template_id, h.reason
+      FROM post_template_history h
+      JOIN design_templates t ON h.template_id = t.id
+      LEFT JOIN users u ON u.username = h.changed_by
+      WHERE h.post_id = ?
+      ORDER BY h.changed_at DESC
+      LIMIT ? OFFSET ?`,
+      [postId, limit, offset]
+    );
+
+    // Return response
+    return successResponse({
+      postId,
+      currentTemplateId: post.design_template_id,
+      history: history.map((h: any) => ({
+        id: h.id,
+        postId: h.post_id,
+        templateId: h.template_id,
+        templateName: h.template_name,
+        changedAt: h.changed_at,
+        changedBy: h.changed_by,
+        changedByName: h.changed_by_name || undefined,
+        previousTemplateId: h.previous_template_id || undefined,
+        reason: h.reason || undefined,
+      })),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      },
+    });
+
+  } catch (error) {
+    console.error('Get template history error:', error);
+
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError ||
+        error instanceof ValidationError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to retrieve template history');
+  }
+});
@@ -0,0 +1,91 @@
+/**
+ * Get Trip Endpoint
+ * Feature: trips
+ * GET /api/posts/trips/:tripId
+ *
+ * Returns a trip and its parts in order. :tripId may also be the trip slug.
+ * Readers only see published parts; a trip without any is not found.
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withOptionalAuth } from '../lib/auth-middleware';
+import { postStatusSql } from '../lib/post-schedule';
+import { toTripResponse, visiblePartSql } from '../lib/trips';
+import {
+  NotFoundError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+export const getTrip = withOptionalAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { tripId } = routeParams;
+
+    if (!tripId) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    const db = createDatabaseClient(env.DB);
+
+    const trip = await db.queryOne(
+      'SELECT * FROM trips WHERE id = ? OR slug = ?',
+      [tripId, tripId]
+    );
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    const visible = visiblePartSql(user?.sub ?? null);
+    const parts = await db.query(
+      `SELECT
+        p.id, p.slug, p.title, p.description, p.resolved_cover_image as cover_image,
+        ${postStatusSql()} as status, p.published_at
+      FROM trip_posts tp
+      JOIN blog_posts p ON p.id = tp.post_id
+      WHERE tp.trip_id = ? AND ${visible.condition}
+      ORDER BY tp.position ASC`,
+      [trip.id, ...visible.params]
+    );
+
+    // Hide trips with nothing to read from everyone but their author
+    if (parts.length === 0 && trip.author_id !== user?.sub) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    // Return response
+    return successResponse({
+      trip: toTripResponse({
+        ...trip,
+        cover_image: trip.cover_image || parts.find((p: any) => p.status === 'published')?.cover_image || null,
+        part_count: parts.length,
+      }),
+      parts: parts.map((p: any, index: number) => ({
+        part: index + 1,
+        id: p.id,
+        slug: p.slug,
+        title: p.title,
+        description: p.description,
+        coverImage: p.cover_image,
+        status: p.status,
+        publishedAt: p.published_at,
+      })),
+    });
+
+  } catch (error) {
+    console.error('Get trip error:', error);
+
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to retrieve trip');
+  }
+});
@@ -4,9 +4,26 @@
  * 
  * Routes:
  * - POST /api/posts/create
+ * - GET /api/posts/search?q=
+ * - GET /api/posts/archive
+ * - POST /api/posts/trips
+ * - GET /api/posts/trips
+ * - GET /api/posts/trips/:tripId
+ * - PATCH /api/posts/trips/:tripId
+ * - PUT /api/posts/trips/:tripId/posts
+ * - DELETE /api/posts/trips/:tripId
+ * - GET /api/posts/trash
+ * - GET /api/posts/media-cleanup
+ * - POST /api/posts/media-reconcile
+ * - POST /api/posts/bulk
+ * - GET /api/posts/preview/:token
  * - GET /api/posts/:postId
+ * - GET /api/posts/:postId/neighbors
+ * - GET /api/posts/:postId/related
  * - GET /api/posts
  * - DELETE /api/posts/:postId
+ * - POST /api/posts/:postId/restore
+ * - POST /api/posts/:postId/duplicate
  * - PATCH /api/posts/:postId
  * - PUT /api/posts/:postId/photos/:photoId
  * - DELETE /api/posts/:postId/photos/:photoId
@@ -15,6 +32,19 @@
  * - PUT /api/posts/:postId/text/:textId
  * - DELETE /api/posts/:postId/text/:textId
  * - POST /api/posts/:postId/reorder
+ * - GET /api/posts/:postId/revisions
+ * - GET /api/posts/:postId/revisions/:revId
+ * - POST /api/posts/:postId/revisions/:revId/restore
+ * - POST /api/posts/:postId/template
+ * - GET /api/posts/:postId/template-history
+ * - POST /api/posts/:postId/preview
+ * - PUT /api/posts/:postId/taxonomy
+ *
+ * Cron:
+ * - Publish scheduled posts that are due
+ * - Purge posts that have been in the trash longer than TRASH_RETENTION_DAYS
+ * - Delete queued photos and videos from Cloudflare (media cleanup outbox)
+ * - Daily: report media that is out of sync with the database
  */
 
 import { Router } from 'itty-router';
@@ -22,7 +52,11 @@ import { handleCORSPreflight, addCORSHeaders } from '../lib/cors';
 import { createPost } from './create-post';
 import { getPost } from './get-post';
 import { getPostBySlug } from './get-post-by-slug';
+import { getPostNeighbors } from './get-post-neighbors';
+import { getRelatedPosts } from './get-related-posts';
 import { listPosts } from './list-posts';
+import { searchPosts } from './search-posts';
+import { getArchive } from './get-archive';
 import { deletePost } from './delete-post';
 import { updateMetadata } from './update-metadata';
 import { updatePhoto } from './update-photo';
@@ -33,6 +67,30 @@ import { createText } from './create-text';
 import { updateText } from './update-text';
 import { deleteText } from './delete-text';
 import { reorderContent } from './reorder';
+import { listRevisions } from './list-revisions';
+import { getRevision } from './get-revision';
+import { restoreRevision } from './restore-revision';
+import { changeTemplate } from './change-template';
+import { getTemplateHistory } from './get-template-history';
+import { createPreviewLink } from './create-preview-link';
+import { getPreview } from './get-preview';
+import { updateTaxonomy } from './update-taxonomy';
+import { createTrip } from './create-trip';
+import { listTrips } from './list-trips';
+import { getTrip } from './get-trip';
+import { updateTrip } from './update-trip';
+import { setTripPosts } from './set-trip-posts';
+import { deleteTrip } from './delete-trip';
+import { listTrash } from './list-trash';
+import { restorePost } from './restore-post';
+import { duplicatePost } from './duplicate-post';
+import { bulkPosts } from './bulk-posts';
+import { publishScheduledPosts } from './publish-scheduled';
+import { purgeTrash } from './purge-trash';
+import { listMediaCleanupJobs } from './list-media-cleanup-jobs';
+import { drainMediaCleanup } from './drain-media-cleanup';
+import { reconcileMedia } from './reconcile-media';
+import { reconcileMediaOnSchedule, MEDIA_RECONCILE_CRON } from './reconcile-media-scheduled';
 import { errorResponse, handleError } from '../lib/errors';
 
 interface Env {
@@ -40,7 +98,11 @@ interface Env {
   MEDIA_BUCKET: R2Bucket;
   CLOUDFLARE_ACCOUNT_ID: string;
   CLOUDFLARE_IMAGES_API_TOKEN: string;
-  JWT_SECRET: string;
+  CLOUDFLARE_STREAM_API_TOKEN: string;
+  CLOUDFLARE_API_BASE_URL?: string;
+  JWT_SECRET: string; // Signs preview links; session tokens too until JWT_PUBLIC_KEYS is set
+  JWT_PUBLIC_KEYS?: string; // JWKS JSON for verifying session tokens (see lib/jwt-keys.ts)
+  TRASH_RETENTION_DAYS?: string;
 }
 
 const router = Router();
@@ -58,17 +120,56 @@ router.post('/api/posts/create', createPost);
 // List blog posts
 router.get('/api/posts', listPosts);
 
+// Full-text search (before /:postId so "search" is not taken as an ID)
+router.get('/api/posts/search', searchPosts);
+
+// Post counts by year, month and country (before /:postId so "archive" is not taken as an ID)
+router.get('/api/posts/archive', getArchive);
+
+// Trips (before /:postId so "trips" is not taken as an ID)
+router.post('/api/posts/trips', createTrip);
+router.get('/api/posts/trips', listTrips);
+router.get('/api/posts/trips/:tripId', getTrip);
+router.patch('/api/posts/trips/:tripId', updateTrip);
+router.put('/api/posts/trips/:tripId/posts', setTripPosts);
+router.delete('/api/posts/trips/:tripId', deleteTrip);
+
+// Deleted posts waiting to be purged (before /:postId so "trash" is not taken as an ID)
+router.get('/api/posts/trash', listTrash);
+
+// Media deletions that are still being retried or have given up
+router.get('/api/posts/media-cleanup', listMediaCleanupJobs);
+
+// Compare stored media with the database (and optionally fix it)
+router.post('/api/posts/media-reconcile', reconcileMedia);
+
+// Apply one action to many posts from the manage page
+router.post('/api/posts/bulk', bulkPosts);
+
 // Get single blog post by slug
 router.get('/api/posts/slug/:slug', getPostBySlug);
 
+// View an unpublished post through a preview link
+router.get('/api/posts/preview/:token', getPreview);
+
 // Get single blog post by ID
 router.get('/api/posts/:postId', getPost);
 
+// Previous/next published posts
+router.get('/api/posts/:postId/neighbors', getPostNeighbors);
+
+// "You might also like" recommendations
+router.get('/api/posts/:postId/related', getRelatedPosts);
+
 // Update post metadata
 router.patch('/api/posts/:postId', updateMetadata);
 
-// Delete blog post
+// Move blog post to the trash, and back
 router.delete('/api/posts/:postId', deletePost);
+router.post('/api/posts/:postId/restore', restorePost);
+
+// Start a new draft from an existing post
+router.post('/api/posts/:postId/duplicate', duplicatePost);
 
 // Reorder content
 router.post('/api/posts/:postId/reorder', reorderContent);
@@ -86,6 +187,21 @@ router.post('/api/posts/:postId/text', createText);
 router.put('/api/posts/:postId/text/:textId', updateText);
 router.delete('/api/posts/:postId/text/:textId', deleteText);
 
+// Revision history
+router.get('/api/posts/:postId/revisions', listRevisions);
+router.get('/api/posts/:postId/revisions/:revId', getRevision);
+router.post('/api/posts/:postId/revisions/:revId/restore', restoreRevision);
+
+// Template switching
+router.post('/api/posts/:postId/template', changeTemplate);
+router.get('/api/posts/:postId/template-history', getTemplateHistory);
+
+// Preview links
+router.post('/api/posts/:postId/preview', createPreviewLink);
+
+// Country, destination, tags and companions
+router.put('/api/posts/:postId/taxonomy', updateTaxonomy);
+
 // Handle OPTIONS preflight requests for CORS
 router.options('*', (request) => handleCORSPreflight(request));
 
@@ -103,4 +219,15 @@ export default {
       return addCORSHeaders(errorResp, request);
     }
   },
+
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    if (controller.cron === MEDIA_RECONCILE_CRON) {
+      ctx.waitUntil(reconcileMediaOnSchedule(env, controller.scheduledTime));
+      return;
+    }
+
+    ctx.waitUntil(publishScheduledPosts(env, controller.scheduledTime));
+    ctx.waitUntil(purgeTrash(env, controller.scheduledTime));
+    ctx.waitUntil(drainMediaCleanup(env, controller.scheduledTime));
+  },
 };
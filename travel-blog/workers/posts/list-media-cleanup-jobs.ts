@@ -0,0 +1,91 @@
+/**
+ * List Media Cleanup Jobs Endpoint
+ * Feature: media-cleanup
+ * GET /api/posts/media-cleanup
+ *
+ * Shows media deletions that have not gone through yet, so stuck files can be
+ * looked into. ?status=dead lists only dead-lettered jobs, ?status=pending only
+ * those still being retried. Contributors only.
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withAuth } from '../lib/auth-middleware';
+import { toMediaCleanupJob, MAX_CLEANUP_ATTEMPTS } from '../lib/media-cleanup';
+import {
+  ValidationError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+export const listMediaCleanupJobs = withAuth(async (request: Request, user, env: Env) => {
+  try {
+    const url = new URL(request.url);
+    const status = url.searchParams.get('status');
+    const limit = parseInt(url.searchParams.get('limit') || '50', 10);
+    const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+
+    // Validate parameters
+    if (status && !['pending', 'dead'].includes(status)) {
+      throw new ValidationError('status must be "pending" or "dead"');
+    }
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      throw new ValidationError('limit must be between 1 and 100');
+    }
+    if (isNaN(offset) || offset < 0) {
+      throw new ValidationError('offset must be non-negative');
+    }
+
+    const db = createDatabaseClient(env.DB);
+
+    const whereClause = status ? 'WHERE status = ?' : '';
+    const whereParams = status ? [status] : [];
+
+    const counts = await db.query<{ status: string; count: number }>(
+      'SELECT status, COUNT(*) as count FROM media_cleanup_jobs GROUP BY status'
+    );
+    const total = status
+      ? counts.find(row => row.status === status)?.count ?? 0
+      : counts.reduce((sum, row) => sum + row.count, 0);
+
+    // Dead jobs first, then the ones that have failed most often
+    const jobs = await db.query(
+      `SELECT id, kind, resource_id, post_id, status, attempts, next_attempt_at,
+        last_error, created_at, updated_at
+      FROM media_cleanup_jobs
+      ${whereClause}
+      ORDER BY status = 'dead' DESC, attempts DESC, created_at ASC
+      LIMIT ? OFFSET ?`,
+      [...whereParams, limit, offset]
+    );
+
+    // Return response
+    return successResponse({
+      jobs: jobs.map(toMediaCleanupJob),
+      counts: {
+        pending: counts.find(row => row.status === 'pending')?.count ?? 0,
+        dead: counts.find(row => row.status === 'dead')?.count ?? 0,
+      },
+      maxAttempts: MAX_CLEANUP_ATTEMPTS,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      },
+    });
+
+  } catch (error) {
+    console.error('List media cleanup jobs error:', error);
+
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to list media cleanup jobs');
+  }
+});
@@ -4,10 +4,33 @@
  * GET /api/posts
  * 
  * Lists blog posts with pagination and filtering
+ * (?country=, ?tag= and ?with= filter by taxonomy; ?facets=true adds facet counts;
+ * ?year= and ?month= limit the list to posts published in that period;
+ * ?sort= and ?direction= set the order; ?cursor= pages from a nextCursor/prevCursor
+ * of an earlier response, ?offset= is still supported)
+ *
+ * Anonymous requests are served from the edge cache (see edge-cache.ts)
  */
 
 import { createDatabaseClient } from '../lib/db';
 import { withOptionalAuth } from '../lib/auth-middleware';
+import { withEdgeCache, POST_LIST_SCOPE } from '../lib/edge-cache';
+import { postStatusSql } from '../lib/post-schedule';
+import { archivePeriodSql, parseArchivePeriod } from '../lib/post-archive';
+import {
+  buildKeysetPage,
+  decodeCursor,
+  keysetSql,
+  parsePostSort,
+  type PostSortField,
+  type SortDirection
+} from '../lib/post-pagination';
+import {
+  facetFilterSql,
+  loadFacetCounts,
+  parseFacetFilters,
+  type PostFacets
+} from '../lib/post-taxonomy';
 import type { SessionPayload } from '../lib/jwt';
 import { 
   ValidationError,
@@ -21,10 +44,19 @@ interface Env {
 }
 
 interface ListPostsQuery {
-  status?: 'draft' | 'published';
+  status?: 'draft' | 'published' | 'scheduled';
   authorId?: string;
+  country?: string;
+  tag?: string | string[];
+  with?: string | string[];
+  facets?: boolean;
+  year?: number;
+  month?: number; // Requires year
+  sort?: PostSortField;
+  direction?: SortDirection;
+  cursor?: string; // Opaque token from nextCursor or prevCursor
   limit?: number;
-  offset?: number;
+  offset?: number; // Ignored when cursor is set
 }
 
 interface ListPostsResponse {
@@ -38,31 +70,48 @@ interface ListPostsResponse {
     templateName: string;
     authorId: string;
     status: string;
+    scheduledFor: string | null;
     publishedAt: string | null;
     createdAt: string;
     updatedAt: string;
     photoCount: number;
     videoCount: number;
+    countryCode: string | null;
+    destination: string | null;
+    tags: Array<{ slug: string; name: string }>;
+    companions: string[];
   }>;
   pagination: {
-    total: number;
+    total?: number; // Only counted for offset pages, not cursor pages
     limit: number;
-    offset: number;
+    offset?: number;
     hasMore: boolean;
+    hasPrevious: boolean;
+    nextCursor: string | null;
+    prevCursor: string | null;
+    sort: PostSortField;
+    direction: SortDirection;
   };
+  facets?: PostFacets;
 }
 
-export const listPosts = withOptionalAuth(async (request: Request, user, env: Env) => {
+export const listPosts = withEdgeCache(() => POST_LIST_SCOPE, withOptionalAuth(async (request: Request, user, env: Env) => {
   try {
     const url = new URL(request.url);
-    const status = url.searchParams.get('status') as 'draft' | 'published' | 'all' | null;
+    const status = url.searchParams.get('status') as 'draft' | 'published' | 'scheduled' | 'all' | null;
     const authorId = url.searchParams.get('authorId');
     const limit = Math.min(parseInt(url.searchParams.get('limit') || '20', 10), 100);
     const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+    const sort = parsePostSort(url.searchParams);
+    const cursorToken = url.searchParams.get('cursor');
+    const cursor = cursorToken ? decodeCursor(cursorToken, sort) : null;
+    const filters = parseFacetFilters(url.searchParams);
+    const period = parseArchivePeriod(url.searchParams);
+    const includeFacets = ['1', 'true'].includes(url.searchParams.get('facets') || '');
 
     // Validate parameters
-    if (status && !['draft', 'published', 'all'].includes(status)) {
-      throw new ValidationError('status must be either "draft", "published", or "all"');
+    if (status && !['draft', 'published', 'scheduled', 'all'].includes(status)) {
+      throw new ValidationError('status must be "draft", "published", "scheduled", or "all"');
     }
     if (limit < 1 || limit > 100) {
       throw new ValidationError('limit must be between 1 and 100');
@@ -73,8 +122,8 @@ export const listPosts = withOptionalAuth(async (request: Request, user, env: En
 
     const db = createDatabaseClient(env.DB);
 
-    // Build WHERE clause
-    const conditions: string[] = [];
+    // Build WHERE clause (posts in the trash are never listed)
+    const conditions: string[] = ['p.deleted_at IS NULL'];
     const params: any[] = [];
 
     // Only show published posts to non-authenticated users
@@ -87,7 +136,7 @@ export const listPosts = withOptionalAuth(async (request: Request, user, env: En
       conditions.push('p.author_id = ?');
       params.push(user.sub);
     } else if (status) {
-      conditions.push('p.status = ?');
+      conditions.push(`${postStatusSql()} = ?`);
       params.push(status);
     } else {
       // Authenticated users see their drafts + all published
@@ -100,43 +149,64 @@ export const listPosts = withOptionalAuth(async (request: Request, user, env: En
       params.push(authorId);
     }
 
-    const whereClause = conditions.length > 0 
-      ? `WHERE ${conditions.join(' AND ')}` 
-      : '';
+    if (period) {
+      const periodFilter = archivePeriodSql(period);
+      conditions.push(periodFilter.condition);
+      params.push(...periodFilter.params);
+    }
 
-    // Get total count
-    const countResult = await db.queryOne(
-      `SELECT COUNT(*) as total
-      FROM blog_posts p
-      ${whereClause}`,
-      params
-    );
-    const total = countResult?.total || 0;
+    // Facet counts are computed before the taxonomy filters are applied
+    const baseConditions = [...conditions];
+    const baseParams = [...params];
+
+    const facetFilter = facetFilterSql(filters);
+    conditions.push(...facetFilter.conditions);
+    params.push(...facetFilter.params);
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    // Cursor pages skip the count, which would scan every matching post
+    let total: number | undefined;
+    if (!cursor) {
+      const countResult = await db.queryOne(
+        `SELECT COUNT(*) as total
+        FROM blog_posts p
+        ${whereClause}`,
+        params
+      );
+      total = countResult?.total || 0;
+    }
+
+    // One extra row tells whether there is another page
+    const keyset = keysetSql(sort, cursor);
+    const pageConditions = keyset.condition ? [...conditions, keyset.condition] : conditions;
 
     // Get posts with content counts
     const posts = await db.query(
       `SELECT 
-        p.id, p.slug, p.title, p.description, 
-        COALESCE(
-          p.cover_image,
-          (SELECT url FROM photo_content WHERE post_id = p.id ORDER BY display_order ASC LIMIT 1)
-        ) as cover_image,
+        p.id, p.slug, p.title, p.description, p.resolved_cover_image as cover_image,
         p.design_template_id as template_id, t.name as template_name,
-        p.author_id, p.status, p.published_at, p.created_at, p.updated_at,
-        (SELECT COUNT(*) FROM photo_content WHERE post_id = p.id) as photo_count,
-        (SELECT COUNT(*) FROM video_content WHERE post_id = p.id) as video_count,
-        (SELECT COUNT(*) FROM text_content WHERE post_id = p.id) as text_count
+        p.author_id, ${postStatusSql()} as status, p.scheduled_for,
+        p.published_at, p.created_at, p.updated_at,
+        p.photo_count, p.video_count, p.text_count,
+        p.country_code, p.destination,
+        (SELECT json_group_array(json_object('slug', tg.slug, 'name', tg.name))
+          FROM post_tags pt JOIN tags tg ON tg.id = pt.tag_id
+          WHERE pt.post_id = p.id) as tags,
+        (SELECT group_concat(companion) FROM post_companions WHERE post_id = p.id) as companions
       FROM blog_posts p
       JOIN design_templates t ON p.design_template_id = t.id
-      ${whereClause}
-      ORDER BY p.created_at DESC
+      WHERE ${pageConditions.join(' AND ')}
+      ORDER BY ${keyset.orderBy}
       LIMIT ? OFFSET ?`,
-      [...params, limit, offset]
+      [...params, ...keyset.params, limit + 1, cursor ? 0 : offset]
     );
 
+    const page = buildKeysetPage(posts, limit, sort, cursor, offset > 0);
+
     // Return response
     return successResponse({
-      posts: posts.map((p: any) => ({
+      posts: page.rows.map((p: any) => ({
         id: p.id,
         slug: p.slug,
         title: p.title,
@@ -146,19 +216,31 @@ export const listPosts = withOptionalAuth(async (request: Request, user, env: En
         templateName: p.template_name,
         authorId: p.author_id,
         status: p.status,
+        scheduledFor: p.scheduled_for,
         publishedAt: p.published_at,
         createdAt: p.created_at,
         updatedAt: p.updated_at,
         photoCount: p.photo_count,
         videoCount: p.video_count,
         textCount: p.text_count,
+        countryCode: p.country_code,
+        destination: p.destination,
+        tags: p.tags ? JSON.parse(p.tags) : [],
+        companions: p.companions ? p.companions.split(',') : [],
       })),
       pagination: {
-        total,
+        ...(cursor ? {} : { total, offset }),
         limit,
-        offset,
-        hasMore: offset + limit < total,
+        hasMore: page.hasMore,
+        hasPrevious: page.hasPrevious,
+        nextCursor: page.nextCursor,
+        prevCursor: page.prevCursor,
+        sort: sort.field,
+        direction: sort.direction,
       },
+      ...(includeFacets && {
+        facets: await loadFacetCounts(db, baseConditions, baseParams, filters),
+      }),
     });
 
   } catch (error) {
@@ -170,4 +252,4 @@ export const listPosts = withOptionalAuth(async (request: Request, user, env: En
     
     throw new ServerError('Failed to list blog posts');
   }
-});
+}));
@@ -0,0 +1,73 @@
+/**
+ * List Post Revisions Endpoint
+ * Feature: post-revision-history
+ * GET /api/posts/:postId/revisions
+ *
+ * Lists saved revisions of a blog post, newest first
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withAuth } from '../lib/auth-middleware';
+import { toRevisionSummary } from '../lib/post-revisions';
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+export const listRevisions = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId } = routeParams;
+
+    if (!postId) {
+      throw new NotFoundError('Post not found');
+    }
+
+    const db = createDatabaseClient(env.DB);
+
+    // Check post ownership
+    const post = await db.queryOne(
+      'SELECT author_id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
+      [postId]
+    );
+
+    if (!post) {
+      throw new NotFoundError('Post not found');
+    }
+
+    if (post.author_id !== user.sub) {
+      throw new UnauthorizedError('You do not have permission to view revisions of this post');
+    }
+
+    const revisions = await db.query(
+      `SELECT id, post_id, revision_number, action, created_at, created_by
+      FROM post_revisions
+      WHERE post_id = ?
+      ORDER BY revision_number DESC`,
+      [postId]
+    );
+
+    // Return response
+    return successResponse({
+      postId,
+      revisions: revisions.map(toRevisionSummary),
+    });
+
+  } catch (error) {
+    console.error('List revisions error:', error);
+
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to list post revisions');
+  }
+});
@@ -0,0 +1,104 @@
+/**
+ * List Trash Endpoint
+ * Feature: post-trash
+ * GET /api/posts/trash
+ *
+ * Lists posts in the trash, most recently deleted first, with the time each
+ * one will be purged. Contributors see every trashed post (they can delete
+ * any post), other users only their own.
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withAuth } from '../lib/auth-middleware';
+import { postStatusSql } from '../lib/post-schedule';
+import { getPurgeAfter, getTrashRetentionDays } from '../lib/post-trash';
+import {
+  ValidationError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+  TRASH_RETENTION_DAYS?: string;
+}
+
+export const listTrash = withAuth(async (request: Request, user, env: Env) => {
+  try {
+    const url = new URL(request.url);
+    const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+    const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+
+    // Validate parameters
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      throw new ValidationError('limit must be between 1 and 100');
+    }
+    if (isNaN(offset) || offset < 0) {
+      throw new ValidationError('offset must be non-negative');
+    }
+
+    const db = createDatabaseClient(env.DB);
+    const retentionDays = getTrashRetentionDays(env.TRASH_RETENTION_DAYS);
+
+    const conditions = ['p.deleted_at IS NOT NULL'];
+    const params: any[] = [];
+
+    if (user.role !== 'contributor') {
+      conditions.push('p.author_id = ?');
+      params.push(user.sub);
+    }
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    const countResult = await db.queryOne(
+      `SELECT COUNT(*) as total FROM blog_posts p ${whereClause}`,
+      params
+    );
+    const total = countResult?.total || 0;
+
+    const posts = await db.query(
+      `SELECT
+        p.id, p.slug, p.title, p.author_id, ${postStatusSql()} as status,
+        p.deleted_at, p.deleted_by,
+        p.photo_count, p.video_count
+      FROM blog_posts p
+      ${whereClause}
+      ORDER BY p.deleted_at DESC
+      LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    // Return response
+    return successResponse({
+      posts: posts.map((p: any) => ({
+        id: p.id,
+        slug: p.slug,
+        title: p.title,
+        authorId: p.author_id,
+        status: p.status,
+        deletedAt: p.deleted_at,
+        deletedBy: p.deleted_by,
+        purgeAfter: getPurgeAfter(p.deleted_at, retentionDays),
+        photoCount: p.photo_count,
+        videoCount: p.video_count,
+      })),
+      retentionDays,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      },
+    });
+
+  } catch (error) {
+    console.error('List trash error:', error);
+
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to list trash');
+  }
+});
@@ -0,0 +1,99 @@
+/**
+ * List Trips Endpoint
+ * Feature: trips
+ * GET /api/posts/trips
+ *
+ * Lists trips that have at least one part visible to the viewer
+ * (?mine=true lists only the signed-in user's trips, including empty ones)
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withOptionalAuth } from '../lib/auth-middleware';
+import { toTripResponse, visiblePartSql } from '../lib/trips';
+import {
+  UnauthorizedError,
+  ValidationError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+export const listTrips = withOptionalAuth(async (request: Request, user, env: Env) => {
+  try {
+    const url = new URL(request.url);
+    const mine = url.searchParams.get('mine') === 'true';
+    const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+    const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+
+    // Validate parameters
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      throw new ValidationError('limit must be between 1 and 100');
+    }
+    if (isNaN(offset) || offset < 0) {
+      throw new ValidationError('offset must be non-negative');
+    }
+    if (mine && !user) {
+      throw new UnauthorizedError('Sign in to list your trips');
+    }
+
+    const db = createDatabaseClient(env.DB);
+    const visible = visiblePartSql(user?.sub ?? null);
+
+    // Count of parts the viewer can see, reused for filtering and the response
+    const partCountSql = `(SELECT COUNT(*) FROM trip_posts tp
+      JOIN blog_posts p ON p.id = tp.post_id
+      WHERE tp.trip_id = t.id AND ${visible.condition})`;
+
+    const whereClause = mine ? 't.author_id = ?' : `${partCountSql} > 0`;
+    const whereParams = mine ? [user!.sub] : visible.params;
+
+    const countResult = await db.queryOne(
+      `SELECT COUNT(*) as total FROM trips t WHERE ${whereClause}`,
+      whereParams
+    );
+    const total = countResult?.total || 0;
+
+    const trips = await db.query(
+      `SELECT
+        t.id, t.slug, t.title, t.description,
+        COALESCE(
+          t.cover_image,
+          (SELECT p.resolved_cover_image
+            FROM trip_posts tp JOIN blog_posts p ON p.id = tp.post_id
+            WHERE tp.trip_id = t.id AND p.status = 'published' AND p.deleted_at IS NULL
+            ORDER BY tp.position ASC LIMIT 1)
+        ) as cover_image,
+        t.start_date, t.end_date, t.author_id, t.created_at, t.updated_at,
+        ${partCountSql} as part_count
+      FROM trips t
+      WHERE ${whereClause}
+      ORDER BY COALESCE(t.start_date, t.created_at) DESC
+      LIMIT ? OFFSET ?`,
+      [...visible.params, ...whereParams, limit, offset]
+    );
+
+    // Return response
+    return successResponse({
+      trips: trips.map(toTripResponse),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      },
+    });
+
+  } catch (error) {
+    console.error('List trips error:', error);
+
+    if (error instanceof ValidationError || error instanceof UnauthorizedError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to list trips');
+  }
+});
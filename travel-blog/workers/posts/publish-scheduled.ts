@@ -0,0 +1,30 @@
+/**
+ * Publish Scheduled Posts Job
+ * Feature: scheduled-publishing
+ * Cron trigger (see posts/wrangler.toml)
+ *
+ * Flips scheduled posts whose publish time has passed to published
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { publishDuePosts } from '../lib/post-schedule';
+import { purgePostCache } from '../lib/edge-cache';
+
+interface Env {
+  DB: D1Database;
+}
+
+export async function publishScheduledPosts(env: Env, scheduledTime: number): Promise<void> {
+  try {
+    const db = createDatabaseClient(env.DB);
+    const published = await publishDuePosts(db, new Date(scheduledTime));
+
+    if (published.length > 0) {
+      console.log(`[publishScheduledPosts] Published ${published.length} post(s):`, published);
+      await purgePostCache(db, published);
+    }
+  } catch (error) {
+    // Nothing to report back to; the next run will pick up anything left over
+    console.error('Publish scheduled posts error:', error);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Purge Trash Job
+ * Feature: post-trash
+ * Cron trigger (see posts/wrangler.toml)
+ *
+ * Permanently deletes posts that have been in the trash longer than
+ * TRASH_RETENTION_DAYS. Their photos and videos go to the media cleanup outbox
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { getTrashRetentionDays, purgeExpiredPosts } from '../lib/post-trash';
+
+interface Env {
+  DB: D1Database;
+  TRASH_RETENTION_DAYS?: string;
+}
+
+export async function purgeTrash(env: Env, scheduledTime: number): Promise<void> {
+  try {
+    const db = createDatabaseClient(env.DB);
+    const purged = await purgeExpiredPosts(
+      db,
+      getTrashRetentionDays(env.TRASH_RETENTION_DAYS),
+      new Date(scheduledTime)
+    );
+
+    if (purged.length > 0) {
+      console.log(`[purgeTrash] Purged ${purged.length} post(s):`, purged);
+    }
+  } catch (error) {
+    // Nothing to report back to; the next run will pick up anything left over
+    console.error('Purge trash error:', error);
+  }
+}
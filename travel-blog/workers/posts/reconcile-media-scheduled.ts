@@ -0,0 +1,39 @@
+/**
+ * Scheduled Media Reconciliation Job
+ * Feature: media-reconcile
+ * Daily cron trigger (see posts/wrangler.toml)
+ *
+ * Logs orphaned files and dangling references without changing anything;
+ * fixes are applied through POST /api/posts/media-reconcile
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import {
+  createCloudflareMediaSources,
+  runMediaReconciliation,
+  type CloudflareMediaEnv
+} from '../lib/media-reconcile';
+
+interface Env extends CloudflareMediaEnv {
+  DB: D1Database;
+}
+
+// Must match the daily schedule in posts/wrangler.toml
+export const MEDIA_RECONCILE_CRON = '0 3 * * *';
+
+export async function reconcileMediaOnSchedule(env: Env, scheduledTime: number): Promise<void> {
+  try {
+    const db = createDatabaseClient(env.DB);
+    const report = await runMediaReconciliation(db, createCloudflareMediaSources(env), {}, new Date(scheduledTime));
+
+    if (report.orphans.length > 0 || report.dangling.length > 0) {
+      console.warn('[reconcileMediaOnSchedule] Media out of sync:', JSON.stringify(report));
+    }
+    for (const source of report.sources.filter(s => s.error)) {
+      console.error(`[reconcileMediaOnSchedule] Could not list ${source.kind}: ${source.error}`);
+    }
+  } catch (error) {
+    // Report only; tomorrow's run tries again
+    console.error('Scheduled media reconciliation error:', error);
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Reconcile Media Endpoint
+ * Feature: media-reconcile
+ * POST /api/posts/media-reconcile
+ *
+ * Lists Cloudflare Images, Stream and R2 and reports files no row references
+ * (orphans) and rows whose file is gone (dangling). Nothing changes unless the
+ * body asks for it: { deleteOrphans, relinkOrphans, pruneDangling }.
+ * Contributors only.
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import {
+  createCloudflareMediaSources,
+  runMediaReconciliation,
+  type CloudflareMediaEnv,
+  type ReconcileOptions
+} from '../lib/media-reconcile';
+import {
+  ValidationError,
+  ServerError,
+  successResponse,
+  parseJsonBody
+} from '../lib/errors';
+
+interface Env extends CloudflareMediaEnv {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+export const reconcileMedia = withAuth(async (request: Request, user, env: Env) => {
+  try {
+    // Without a JSON body this is a dry run
+    const body = (request.headers.get('Content-Type') || '').includes('application/json')
+      ? await parseJsonBody<ReconcileOptions>(request)
+      : {};
+
+    for (const option of ['deleteOrphans', 'relinkOrphans', 'pruneDangling'] as const) {
+      if (body[option] !== undefined && typeof body[option] !== 'boolean') {
+        throw new ValidationError(`${option} must be a boolean`);
+      }
+    }
+
+    const db = createDatabaseClient(env.DB);
+    const report = await runMediaReconciliation(db, createCloudflareMediaSources(env), body);
+
+    console.log(
+      `[MEDIA RECONCILE] ${user.sub}: ${report.orphans.length} orphan(s), ${report.dangling.length} dangling reference(s)`
+    );
+
+    // Retire cached public copies of posts whose media changed
+    await purgePostCache(db, [
+      ...report.orphans.filter(orphan => orphan.action === 'relinked').map(orphan => orphan.postId!),
+      ...report.dangling.filter(ref => ref.action === 'removed').map(ref => ref.postId),
+    ]);
+
+    // Return response
+    return successResponse(report);
+
+  } catch (error) {
+    console.error('Reconcile media error:', error);
+
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to reconcile media');
+  }
+});
@@ -8,11 +8,16 @@
 
 import { createDatabaseClient } from '../lib/db';
 import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { revisionQueries } from '../lib/post-revisions';
+import { getExpectedVersion, withVersionHeader, writeWithPostVersion } from '../lib/post-version';
+import { refreshPostCountersQuery } from '../lib/post-counters';
 import type { SessionPayload } from '../lib/jwt';
 import { 
   NotFoundError,
   UnauthorizedError,
   ValidationError, 
+  ConflictError,
   ServerError,
   successResponse,
   parseJsonBody 
@@ -26,6 +31,7 @@ interface Env {
 interface ReorderRequest {
   contentType: 'photo' | 'video' | 'text';
   contentIds: string[];
+  version?: number; // Expected post version (alternative to If-Match)
 }
 
 export const reorderContent = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
@@ -52,7 +58,7 @@ export const reorderContent = withAuth(async (request: Request & { params?: any
 
     // Check post ownership
     const post = await db.queryOne(
-      'SELECT author_id FROM blog_posts WHERE id = ?',
+      'SELECT author_id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
       [postId]
     );
 
@@ -90,26 +96,32 @@ export const reorderContent = withAuth(async (request: Request & { params?: any
       params: [index, id],
     }));
 
-    await db.batch(updateQueries);
+    // Claim the next version and write in one batch (409 if someone else saved first)
+    const version = await writeWithPostVersion(db, postId, getExpectedVersion(request, body), async () => [
+      // Snapshot the current state before overwriting it
+      ...await revisionQueries(db, postId, user.sub, 'reorder'),
 
-    // Update post's updated_at
-    await db.execute(
-      'UPDATE blog_posts SET updated_at = ? WHERE id = ?',
-      [new Date().toISOString(), postId]
-    );
+      // Moving a photo to the front changes the cover
+      ...updateQueries,
+      refreshPostCountersQuery(postId),
+    ]);
+
+    // Retire cached public copies
+    await purgePostCache(db, [postId]);
 
     // Return response
-    return successResponse({
+    return withVersionHeader(successResponse({
       message: 'Content reordered successfully',
       contentType: body.contentType,
       contentIds: body.contentIds,
-    });
+      version,
+    }), version);
 
   } catch (error) {
     console.error('Reorder content error:', error);
     
     if (error instanceof NotFoundError || error instanceof UnauthorizedError || 
-        error instanceof ValidationError) {
+        error instanceof ValidationError || error instanceof ConflictError) {
       throw error;
     }
     
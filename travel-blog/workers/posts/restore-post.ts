@@ -0,0 +1,86 @@
+/**
+ * Restore Post From Trash Endpoint
+ * Feature: post-trash
+ * POST /api/posts/:postId/restore
+ *
+ * Takes a post out of the trash. It comes back exactly as it was deleted,
+ * including its status, trip and slug (which stays reserved while trashed).
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { postStatusSql } from '../lib/post-schedule';
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+export const restorePost = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId } = routeParams;
+
+    if (!postId) {
+      throw new NotFoundError('Post not found');
+    }
+
+    const db = createDatabaseClient(env.DB);
+
+    const post = await db.queryOne(
+      'SELECT id, author_id FROM blog_posts WHERE id = ? AND deleted_at IS NOT NULL',
+      [postId]
+    );
+
+    if (!post) {
+      throw new NotFoundError('Post not found in trash');
+    }
+
+    // Same rule as deleting: the author or any contributor
+    if (post.author_id !== user.sub && user.role !== 'contributor') {
+      throw new UnauthorizedError('You do not have permission to restore this post');
+    }
+
+    const restored = await db.queryOne(
+      `UPDATE blog_posts SET deleted_at = NULL, deleted_by = NULL
+      WHERE id = ? AND deleted_at IS NOT NULL
+      RETURNING id, slug, title, ${postStatusSql('blog_posts')} as status`,
+      [postId]
+    );
+
+    if (!restored) {
+      throw new NotFoundError('Post not found in trash');
+    }
+
+    // Retire cached public copies
+    await purgePostCache(db, [postId]);
+
+    // Return response
+    return successResponse({
+      message: 'Post restored',
+      post: {
+        id: restored.id,
+        slug: restored.slug,
+        title: restored.title,
+        status: restored.status,
+      },
+    });
+
+  } catch (error) {
+    console.error('Restore post error:', error);
+
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to restore post');
+  }
+});
@@ -0,0 +1,241 @@
+/**
+ * Restore Post Revision Endpoint
+ * Feature: post-revision-history
+ * POST /api/posts/:postId/revisions/:revId/restore
+ *
+ * Rolls a post's metadata and content blocks back to a saved revision.
+ * The current state is recorded as a new revision first, so a restore can itself be undone.
+ * Publication status is left unchanged; photos and videos that were deleted since the
+ * revision cannot be brought back and are reported as skipped. Taxonomy is only restored
+ * for revisions that recorded it.
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { generateUUID } from '../lib/uuid';
+import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { reindexPostQueries } from '../lib/post-search';
+import { refreshPostCountersQuery } from '../lib/post-counters';
+import { isSlugTaken, retireSlugQueries } from '../lib/slug-history';
+import { parseTags, parseCompanions, setTaxonomyQueries } from '../lib/post-taxonomy';
+import {
+  loadPostSnapshot,
+  revisionQueries,
+  type PostSnapshot
+} from '../lib/post-revisions';
+import { getExpectedVersion, withVersionHeader, writeWithPostVersion } from '../lib/post-version';
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+  ConflictError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+export const restoreRevision = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId, revId } = routeParams;
+
+    if (!postId || !revId) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    const db = createDatabaseClient(env.DB);
+
+    // Check post ownership
+    const post = await db.queryOne(
+      'SELECT author_id, slug, design_template_id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
+      [postId]
+    );
+
+    if (!post) {
+      throw new NotFoundError('Post not found');
+    }
+
+    if (post.author_id !== user.sub) {
+      throw new UnauthorizedError('You do not have permission to restore this post');
+    }
+
+    const revision = await db.queryOne(
+      'SELECT id, revision_number, snapshot FROM post_revisions WHERE id = ? AND post_id = ?',
+      [revId, postId]
+    );
+
+    if (!revision) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    const snapshot = JSON.parse(revision.snapshot) as PostSnapshot;
+    const warnings: string[] = [];
+
+    // Keep the current slug if the old one has since been taken by another post
+    let slug = snapshot.post.slug;
+    if (slug !== post.slug) {
+      const taken = await isSlugTaken(db, slug, postId);
+      if (taken) {
+        warnings.push(`Slug "${slug}" is now used by another post; kept "${post.slug}"`);
+        slug = post.slug;
+      }
+    }
+
+    const now = new Date().toISOString();
+    const queries: { query: string; params: any[] }[] = [
+      {
+        query: `UPDATE blog_posts
+          SET title = ?, slug = ?, description = ?, cover_image = ?, design_template_id = ?
+          WHERE id = ?`,
+        params: [
+          snapshot.post.title,
+          slug,
+          snapshot.post.description,
+          snapshot.post.coverImage,
+          snapshot.post.templateId,
+          postId,
+        ],
+      },
+    ];
+
+    // Keep the current slug so shared links redirect to the restored one
+    if (slug !== post.slug) {
+      queries.push(...retireSlugQueries(postId, post.slug, slug));
+    }
+
+    // Keep the template audit trail complete when the restore switches templates
+    if (snapshot.post.templateId !== post.design_template_id) {
+      queries.push({
+        query: `INSERT INTO post_template_history
+          (id, post_id, template_id, changed_at, changed_by, previous_template_id, reason)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        params: [
+          generateUUID(),
+          postId,
+          snapshot.post.templateId,
+          now,
+          user.sub,
+          post.design_template_id,
+          `Restored revision #${revision.revision_number}`,
+        ],
+      });
+    }
+
+    const skippedPhotos: string[] = [];
+    const skippedVideos: string[] = [];
+
+    // Claim the next version and write in one batch (409 if someone else saved first)
+    const version = await writeWithPostVersion(db, postId, getExpectedVersion(request), async () => {
+      // Diff against the state the version check guards, not an earlier read
+      const current = await loadPostSnapshot(db, postId);
+
+      // Text blocks are fully owned by the post, so they are restored exactly
+      const snapshotTextIds = new Set(snapshot.textBlocks.map(t => t.id));
+      const currentTextIds = new Set((current?.textBlocks ?? []).map(t => t.id));
+
+      for (const text of current?.textBlocks ?? []) {
+        if (!snapshotTextIds.has(text.id)) {
+          queries.push({ query: 'DELETE FROM text_content WHERE id = ?', params: [text.id] });
+        }
+      }
+
+      for (const text of snapshot.textBlocks) {
+        if (currentTextIds.has(text.id)) {
+          queries.push({
+            query: 'UPDATE text_content SET content = ?, display_order = ?, updated_at = ? WHERE id = ?',
+            params: [text.content, text.displayOrder, now, text.id],
+          });
+        } else {
+          queries.push({
+            query: `INSERT INTO text_content (id, post_id, content, display_order, section_name, created_at, updated_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            params: [text.id, postId, text.content, text.displayOrder, text.sectionName, now, now],
+          });
+        }
+      }
+
+      // Photos and videos only have their captions and ordering restored
+      const currentPhotoIds = new Set((current?.photos ?? []).map(p => p.id));
+
+      for (const photo of snapshot.photos) {
+        if (!currentPhotoIds.has(photo.id)) {
+          skippedPhotos.push(photo.id);
+          continue;
+        }
+        queries.push({
+          query: 'UPDATE photo_content SET caption = ?, alt_text = ?, display_order = ? WHERE id = ?',
+          params: [photo.caption, photo.altText, photo.displayOrder, photo.id],
+        });
+      }
+
+      const currentVideoIds = new Set((current?.videos ?? []).map(v => v.id));
+
+      for (const video of snapshot.videos) {
+        if (!currentVideoIds.has(video.id)) {
+          skippedVideos.push(video.id);
+          continue;
+        }
+        queries.push({
+          query: `UPDATE video_content
+            SET caption = ?, display_order = ?, thumbnail_url = ?, duration_seconds = ?
+            WHERE id = ?`,
+          params: [video.caption, video.displayOrder, video.thumbnailUrl, video.durationSeconds, video.id],
+        });
+      }
+
+      if (snapshot.taxonomy) {
+        queries.push(...setTaxonomyQueries(postId, {
+          countryCode: snapshot.taxonomy.countryCode,
+          destination: snapshot.taxonomy.destination,
+          tags: parseTags(snapshot.taxonomy.tags),
+          companions: parseCompanions(snapshot.taxonomy.companions),
+        }));
+      }
+
+      // Keep the search index in sync (runs after the writes above)
+      queries.push(...reindexPostQueries(postId), refreshPostCountersQuery(postId));
+
+      // Save the current state before overwriting it
+      return [...await revisionQueries(db, postId, user.sub, 'restore'), ...queries];
+    });
+
+    if (skippedPhotos.length > 0) {
+      warnings.push(`${skippedPhotos.length} photo(s) from this revision were deleted and could not be restored`);
+    }
+    if (skippedVideos.length > 0) {
+      warnings.push(`${skippedVideos.length} video(s) from this revision were deleted and could not be restored`);
+    }
+
+    // Retire cached public copies
+    await purgePostCache(db, [postId]);
+
+    // Return response
+    return withVersionHeader(successResponse({
+      message: 'Revision restored successfully',
+      postId,
+      revisionId: revId,
+      restoredAt: now,
+      skipped: {
+        photos: skippedPhotos,
+        videos: skippedVideos,
+      },
+      version,
+      ...(warnings.length > 0 && { warnings }),
+    }), version);
+
+  } catch (error) {
+    console.error('Restore revision error:', error);
+
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError ||
+        error instanceof ValidationError || error instanceof ConflictError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to restore post revision');
+  }
+});
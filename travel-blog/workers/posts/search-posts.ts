@@ -0,0 +1,128 @@
+/**
+ * Search Blog Posts Endpoint
+ * Feature: post-search
+ * GET /api/posts/search?q=
+ *
+ * Full-text search over post titles, descriptions and text blocks, ranked by
+ * relevance with highlighted snippets. Draft visibility matches listPosts.
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withOptionalAuth } from '../lib/auth-middleware';
+import { postStatusSql } from '../lib/post-schedule';
+import { buildMatchQuery, HIGHLIGHT_START, HIGHLIGHT_END } from '../lib/post-search';
+import {
+  ValidationError,
+  ServerError,
+  successResponse
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+const MAX_QUERY_LENGTH = 200;
+
+export const searchPosts = withOptionalAuth(async (request: Request, user, env: Env) => {
+  try {
+    const url = new URL(request.url);
+    const q = (url.searchParams.get('q') || '').trim();
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '20', 10), 50);
+    const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+
+    // Validate parameters
+    if (q.length > MAX_QUERY_LENGTH) {
+      throw new ValidationError(`q must be at most ${MAX_QUERY_LENGTH} characters`);
+    }
+    if (isNaN(limit) || limit < 1) {
+      throw new ValidationError('limit must be between 1 and 50');
+    }
+    if (isNaN(offset) || offset < 0) {
+      throw new ValidationError('offset must be non-negative');
+    }
+
+    const match = buildMatchQuery(q);
+    if (!match) {
+      throw new ValidationError('q must contain at least one word to search for');
+    }
+
+    const db = createDatabaseClient(env.DB);
+
+    // Same visibility as listPosts: published posts, plus the user's own drafts
+    const conditions = ['post_search MATCH ?', 'p.deleted_at IS NULL'];
+    const params: any[] = [match];
+
+    if (!user) {
+      conditions.push('p.status = ?');
+      params.push('published');
+    } else {
+      conditions.push('(p.status = ? OR p.author_id = ?)');
+      params.push('published', user.sub);
+    }
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    const countResult = await db.queryOne(
+      `SELECT COUNT(*) as total
+      FROM post_search
+      JOIN blog_posts p ON p.id = post_search.post_id
+      ${whereClause}`,
+      params
+    );
+    const total = countResult?.total || 0;
+
+    // Title matches weigh most, then description, then body text
+    const results = await db.query(
+      `SELECT
+        p.id, p.slug, p.title, p.description, p.resolved_cover_image as cover_image,
+        ${postStatusSql()} as status, p.published_at, p.created_at,
+        highlight(post_search, 1, ?, ?) as title_highlight,
+        snippet(post_search, 3, ?, ?, '…', 16) as snippet,
+        bm25(post_search, 0, 10.0, 4.0, 1.0) as rank
+      FROM post_search
+      JOIN blog_posts p ON p.id = post_search.post_id
+      ${whereClause}
+      ORDER BY rank
+      LIMIT ? OFFSET ?`,
+      [HIGHLIGHT_START, HIGHLIGHT_END, HIGHLIGHT_START, HIGHLIGHT_END, ...params, limit, offset]
+    );
+
+    // Return response
+    return successResponse({
+      query: q,
+      results: results.map((r: any) => ({
+        id: r.id,
+        slug: r.slug,
+        title: r.title,
+        titleHighlight: r.title_highlight,
+        description: r.description,
+        coverImage: r.cover_image,
+        status: r.status,
+        publishedAt: r.published_at,
+        createdAt: r.created_at,
+        snippet: r.snippet,
+        rank: r.rank,
+      })),
+      highlight: {
+        start: HIGHLIGHT_START,
+        end: HIGHLIGHT_END,
+      },
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      },
+    });
+
+  } catch (error) {
+    console.error('Search posts error:', error);
+
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to search blog posts');
+  }
+});
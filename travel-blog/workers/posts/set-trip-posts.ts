@@ -0,0 +1,89 @@
+/**
+ * Set Trip Posts Endpoint
+ * Feature: trips
+ * PUT /api/posts/trips/:tripId/posts
+ *
+ * Replaces a trip's parts with the given posts, in order.
+ * Posts left out are removed from the trip but not deleted.
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { checkTripPosts, getTripPostIds, parseTripPostIds, setTripPostsQueries } from '../lib/trips';
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+  ServerError,
+  successResponse,
+  parseJsonBody
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+interface SetTripPostsRequest {
+  postIds: string[];
+}
+
+export const setTripPosts = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { tripId } = routeParams;
+
+    if (!tripId) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    const body = await parseJsonBody<SetTripPostsRequest>(request);
+    const postIds = parseTripPostIds(body.postIds);
+
+    const db = createDatabaseClient(env.DB);
+
+    // Check trip ownership
+    const trip = await db.queryOne('SELECT author_id FROM trips WHERE id = ?', [tripId]);
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    if (trip.author_id !== user.sub) {
+      throw new UnauthorizedError('You do not have permission to update this trip');
+    }
+
+    await checkTripPosts(db, postIds, user.sub, tripId);
+
+    const previousPostIds = await getTripPostIds(db, tripId);
+
+    await db.batch([
+      ...setTripPostsQueries(tripId, postIds),
+      {
+        query: 'UPDATE trips SET updated_at = ? WHERE id = ?',
+        params: [new Date().toISOString(), tripId],
+      },
+    ]);
+
+    // Retire cached public copies of the parts that were, and now are, in the trip
+    await purgePostCache(db, [...previousPostIds, ...postIds]);
+
+    // Return response
+    return successResponse({
+      tripId,
+      postIds,
+    });
+
+  } catch (error) {
+    console.error('Set trip posts error:', error);
+
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError ||
+        error instanceof ValidationError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to update trip posts');
+  }
+});
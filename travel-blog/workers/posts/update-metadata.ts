@@ -4,16 +4,24 @@
  * PATCH /api/posts/:postId
  * 
  * Updates blog post title, description, cover image, and status
+ * (status "scheduled" with scheduledFor publishes the post later via the cron trigger)
  */
 
 import { createDatabaseClient } from '../lib/db';
 import { generateSlug, generateUniqueSlug, isValidSlug } from '../lib/slug';
 import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { reindexPostQueries } from '../lib/post-search';
+import { isSlugTaken, retireSlugQueries } from '../lib/slug-history';
+import { revisionQueries } from '../lib/post-revisions';
+import { getExpectedVersion, withVersionHeader, writeWithPostVersion } from '../lib/post-version';
+import { parseScheduledFor, postStatusSql } from '../lib/post-schedule';
 import type { SessionPayload } from '../lib/jwt';
 import { 
   NotFoundError,
   UnauthorizedError,
   ValidationError, 
+  ConflictError,
   ServerError,
   successResponse,
   parseJsonBody 
@@ -28,8 +36,10 @@ interface UpdateMetadataRequest {
   title?: string;
   description?: string;
   coverImage?: string;
-  status?: 'draft' | 'published';
+  status?: 'draft' | 'published' | 'scheduled';
+  scheduledFor?: string; // ISO 8601, required when status is 'scheduled'
   slug?: string;
+  version?: number; // Expected post version (alternative to If-Match)
 }
 
 export const updateMetadata = withAuth(async (request: Request, user, env: Env, ctx: any) => {
@@ -50,7 +60,7 @@ export const updateMetadata = withAuth(async (request: Request, user, env: Env,
     const body = await parseJsonBody<UpdateMetadataRequest>(request);
 
     // Validate at least one field is being updated
-    if (!body.title && !body.status && !body.slug) {
+    if (!body.title && !body.status && !body.slug && !body.scheduledFor) {
       throw new ValidationError('No fields to update');
     }
 
@@ -58,7 +68,7 @@ export const updateMetadata = withAuth(async (request: Request, user, env: Env,
 
     // Get post to check ownership
     const post = await db.queryOne(
-      'SELECT id, author_id, slug, status FROM blog_posts WHERE id = ?',
+      'SELECT id, author_id, slug, status, scheduled_for FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
       [postId]
     );
 
@@ -84,26 +94,46 @@ export const updateMetadata = withAuth(async (request: Request, user, env: Env,
     }
 
     if (body.status !== undefined) {
-      if (!['draft', 'published'].includes(body.status)) {
-        throw new ValidationError('status must be either "draft" or "published"');
+      if (!['draft', 'published', 'scheduled'].includes(body.status)) {
+        throw new ValidationError('status must be "draft", "published", or "scheduled"');
+      }
+
+      if (body.status === 'scheduled') {
+        if (post.status === 'published') {
+          throw new ValidationError('Published posts cannot be scheduled');
+        }
+        // Scheduled posts stay drafts until the cron trigger publishes them
+        updates.push('status = ?', 'scheduled_for = ?');
+        updateParams.push('draft', parseScheduledFor(body.scheduledFor));
+      } else {
+        if (body.scheduledFor !== undefined) {
+          throw new ValidationError('scheduledFor can only be set when status is "scheduled"');
+        }
+        updates.push('status = ?', 'scheduled_for = NULL');
+        updateParams.push(body.status);
       }
-      updates.push('status = ?');
-      updateParams.push(body.status);
       
       // Set published_at when transitioning to published
       if (body.status === 'published' && post.status !== 'published') {
         updates.push('published_at = ?');
         updateParams.push(new Date().toISOString());
       }
+    } else if (body.scheduledFor !== undefined) {
+      // Reschedule an already scheduled post
+      if (!post.scheduled_for || post.status !== 'draft') {
+        throw new ValidationError('scheduledFor can only be set when status is "scheduled"');
+      }
+      updates.push('scheduled_for = ?');
+      updateParams.push(parseScheduledFor(body.scheduledFor));
     }
 
     if (body.slug !== undefined) {
       if (!isValidSlug(body.slug)) {
         throw new ValidationError('Invalid slug format');
       }
-      // Check if slug is different and available
+      // Check if slug is different and available (retired slugs stay reserved for their post)
       if (body.slug !== post.slug) {
-        const existing = await db.exists('blog_posts', 'slug', body.slug);
+        const existing = await isSlugTaken(db, body.slug, postId);
         if (existing) {
           throw new ValidationError('Slug already in use');
         }
@@ -116,25 +146,40 @@ export const updateMetadata = withAuth(async (request: Request, user, env: Env,
     updates.push('updated_at = ?');
     updateParams.push(new Date().toISOString());
 
-    // Execute update
     updateParams.push(postId);
-    await db.execute(
-      `UPDATE blog_posts SET ${updates.join(', ')} WHERE id = ?`,
-      updateParams
-    );
+    const queries = [{ query: `UPDATE blog_posts SET ${updates.join(', ')} WHERE id = ?`, params: updateParams }];
+
+    // Keep the old slug so shared links redirect to the new one
+    if (body.slug !== undefined && body.slug !== post.slug) {
+      queries.push(...retireSlugQueries(postId, post.slug, body.slug));
+    }
+
+    // Keep the search index in sync
+    queries.push(...reindexPostQueries(postId));
+
+    // Claim the next version and write in one batch (409 if someone else saved first)
+    const version = await writeWithPostVersion(db, postId, getExpectedVersion(request, body), async () => [
+      // Snapshot the current state before overwriting it
+      ...await revisionQueries(db, postId, user.sub, 'update-metadata'),
+      ...queries,
+    ]);
 
     // Fetch updated post
     const updatedPost = await db.queryOne(
       `SELECT 
         id, slug, title, design_template_id as template_id,
-        author_id, status, published_at, created_at, updated_at
+        author_id, ${postStatusSql('blog_posts')} as status, scheduled_for,
+        published_at, created_at, updated_at, version
       FROM blog_posts
       WHERE id = ?`,
       [postId]
     );
 
+    // Retire cached public copies
+    await purgePostCache(db, [postId]);
+
     // Return response
-    return successResponse({
+    return withVersionHeader(successResponse({
       post: {
         id: updatedPost.id,
         slug: updatedPost.slug,
@@ -142,17 +187,20 @@ export const updateMetadata = withAuth(async (request: Request, user, env: Env,
         templateId: updatedPost.template_id,
         authorId: updatedPost.author_id,
         status: updatedPost.status,
+        scheduledFor: updatedPost.scheduled_for,
         publishedAt: updatedPost.published_at,
         createdAt: updatedPost.created_at,
         updatedAt: updatedPost.updated_at,
+        version: updatedPost.version,
       },
-    });
+      version,
+    }), version);
 
   } catch (error) {
     console.error('Update metadata error:', error);
     
     if (error instanceof NotFoundError || error instanceof UnauthorizedError || 
-        error instanceof ValidationError) {
+        error instanceof ValidationError || error instanceof ConflictError) {
       throw error;
     }
     
@@ -8,11 +8,16 @@
 
 import { createDatabaseClient } from '../lib/db';
 import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { revisionQueries } from '../lib/post-revisions';
+import { getExpectedVersion, withVersionHeader, writeWithPostVersion } from '../lib/post-version';
+import { refreshPostCountersQuery } from '../lib/post-counters';
 import type { SessionPayload } from '../lib/jwt';
 import { 
   NotFoundError,
   UnauthorizedError,
   ValidationError, 
+  ConflictError,
   ServerError,
   successResponse,
   parseJsonBody 
@@ -27,11 +32,14 @@ interface UpdatePhotoRequest {
   caption?: string;
   altText?: string;
   displayOrder?: number;
+  version?: number; // Expected post version (alternative to If-Match)
 }
 
-export const updatePhoto = withAuth(async (request: Request, user, env: Env, params: any) => {
+export const updatePhoto = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
   try {
-    const { postId, photoId } = params;
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId, photoId } = routeParams;
 
     if (!postId || !photoId) {
       throw new NotFoundError('Photo not found');
@@ -48,7 +56,7 @@ export const updatePhoto = withAuth(async (request: Request, user, env: Env, par
 
     // Check post ownership
     const post = await db.queryOne(
-      'SELECT author_id FROM blog_posts WHERE id = ?',
+      'SELECT author_id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
       [postId]
     );
 
@@ -95,18 +103,17 @@ export const updatePhoto = withAuth(async (request: Request, user, env: Env, par
       updateParams.push(body.displayOrder);
     }
 
-    // Execute update
+    // Claim the next version and write in one batch (409 if someone else saved first)
     updateParams.push(photoId);
-    await db.execute(
-      `UPDATE photo_content SET ${updates.join(', ')} WHERE id = ?`,
-      updateParams
-    );
+    const version = await writeWithPostVersion(db, postId, getExpectedVersion(request, body), async () => [
+      // Snapshot the current state before overwriting it
+      ...await revisionQueries(db, postId, user.sub, 'update-photo'),
 
-    // Update post's updated_at
-    await db.execute(
-      'UPDATE blog_posts SET updated_at = ? WHERE id = ?',
-      [new Date().toISOString(), postId]
-    );
+      // Execute update
+      // A new display order can change which photo is the cover
+      { query: `UPDATE photo_content SET ${updates.join(', ')} WHERE id = ?`, params: updateParams },
+      refreshPostCountersQuery(postId),
+    ]);
 
     // Fetch updated photo
     const updatedPhoto = await db.queryOne(
@@ -118,8 +125,11 @@ export const updatePhoto = withAuth(async (request: Request, user, env: Env, par
       [photoId]
     );
 
+    // Retire cached public copies
+    await purgePostCache(db, [postId]);
+
     // Return response
-    return successResponse({
+    return withVersionHeader(successResponse({
       photo: {
         id: updatedPhoto.id,
         postId: updatedPhoto.post_id,
@@ -133,13 +143,14 @@ export const updatePhoto = withAuth(async (request: Request, user, env: Env, par
         height: updatedPhoto.height,
         uploadedAt: updatedPhoto.uploaded_at,
       },
-    });
+      version,
+    }), version);
 
   } catch (error) {
     console.error('Update photo error:', error);
     
     if (error instanceof NotFoundError || error instanceof UnauthorizedError || 
-        error instanceof ValidationError) {
+        error instanceof ValidationError || error instanceof ConflictError) {
       throw error;
     }
     
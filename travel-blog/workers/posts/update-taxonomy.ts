@@ -0,0 +1,103 @@
+/**
+ * Update Post Taxonomy Endpoint
+ * Feature: post-taxonomy
+ * PUT /api/posts/:postId/taxonomy
+ *
+ * Sets a post's country, destination, tags and travel companions.
+ * Fields that are left out keep their current value; null clears them.
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { revisionQueries } from '../lib/post-revisions';
+import { getExpectedVersion, withVersionHeader, writeWithPostVersion } from '../lib/post-version';
+import {
+  loadPostTaxonomy,
+  mergeTaxonomy,
+  setTaxonomyQueries,
+  type TaxonomyInput
+} from '../lib/post-taxonomy';
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+  ConflictError,
+  ServerError,
+  successResponse,
+  parseJsonBody
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+interface UpdateTaxonomyRequest extends TaxonomyInput {
+  version?: number; // Expected post version (alternative to If-Match)
+}
+
+export const updateTaxonomy = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId } = routeParams;
+
+    if (!postId) {
+      throw new NotFoundError('Post not found');
+    }
+
+    const body = await parseJsonBody<UpdateTaxonomyRequest>(request);
+
+    if (body.countryCode === undefined && body.destination === undefined &&
+        body.tags === undefined && body.companions === undefined) {
+      throw new ValidationError('No fields to update');
+    }
+
+    const db = createDatabaseClient(env.DB);
+
+    // Check post ownership
+    const post = await db.queryOne(
+      'SELECT author_id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
+      [postId]
+    );
+
+    if (!post) {
+      throw new NotFoundError('Post not found');
+    }
+
+    if (post.author_id !== user.sub) {
+      throw new UnauthorizedError('You do not have permission to update this post');
+    }
+
+    const taxonomy = mergeTaxonomy(await loadPostTaxonomy(db, postId), body);
+
+    // Claim the next version and write in one batch (409 if someone else saved first)
+    const version = await writeWithPostVersion(db, postId, getExpectedVersion(request, body), async () => [
+      // Snapshot the current state before overwriting it
+      ...await revisionQueries(db, postId, user.sub, 'update-taxonomy'),
+
+      ...setTaxonomyQueries(postId, taxonomy),
+    ]);
+
+    // Retire cached public copies
+    await purgePostCache(db, [postId]);
+
+    // Return response
+    return withVersionHeader(successResponse({
+      postId,
+      ...taxonomy,
+      version,
+    }), version);
+
+  } catch (error) {
+    console.error('Update taxonomy error:', error);
+
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError ||
+        error instanceof ValidationError || error instanceof ConflictError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to update post taxonomy');
+  }
+});
@@ -8,11 +8,16 @@
 
 import { createDatabaseClient } from '../lib/db';
 import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { reindexPostQueries } from '../lib/post-search';
+import { revisionQueries } from '../lib/post-revisions';
+import { getExpectedVersion, withVersionHeader, writeWithPostVersion } from '../lib/post-version';
 import type { SessionPayload } from '../lib/jwt';
 import { 
   NotFoundError,
   UnauthorizedError,
   ValidationError, 
+  ConflictError,
   ServerError,
   successResponse,
   parseJsonBody 
@@ -26,11 +31,14 @@ interface Env {
 interface UpdateTextRequest {
   content?: string;
   displayOrder?: number;
+  version?: number; // Expected post version (alternative to If-Match)
 }
 
-export const updateText = withAuth(async (request: Request, user, env: Env, params: any) => {
+export const updateText = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
   try {
-    const { postId, textId } = params;
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId, textId } = routeParams;
 
     if (!postId || !textId) {
       throw new NotFoundError('Text block not found');
@@ -47,7 +55,7 @@ export const updateText = withAuth(async (request: Request, user, env: Env, para
 
     // Check post ownership
     const post = await db.queryOne(
-      'SELECT author_id FROM blog_posts WHERE id = ?',
+      'SELECT author_id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
       [postId]
     );
 
@@ -89,18 +97,18 @@ export const updateText = withAuth(async (request: Request, user, env: Env, para
       updateParams.push(body.displayOrder);
     }
 
-    // Execute update
+    // Claim the next version and write in one batch (409 if someone else saved first)
     updateParams.push(textId);
-    await db.execute(
-      `UPDATE text_content SET ${updates.join(', ')} WHERE id = ?`,
-      updateParams
-    );
+    const version = await writeWithPostVersion(db, postId, getExpectedVersion(request, body), async () => [
+      // Snapshot the current state before overwriting it
+      ...await revisionQueries(db, postId, user.sub, 'update-text'),
 
-    // Update post's updated_at
-    await db.execute(
-      'UPDATE blog_posts SET updated_at = ? WHERE id = ?',
-      [new Date().toISOString(), postId]
-    );
+      // Execute update
+      { query: `UPDATE text_content SET ${updates.join(', ')} WHERE id = ?`, params: updateParams },
+
+      // Keep the search index in sync
+      ...reindexPostQueries(postId),
+    ]);
 
     // Fetch updated text
     const updatedText = await db.queryOne(
@@ -108,21 +116,25 @@ export const updateText = withAuth(async (request: Request, user, env: Env, para
       [textId]
     );
 
+    // Retire cached public copies
+    await purgePostCache(db, [postId]);
+
     // Return response
-    return successResponse({
+    return withVersionHeader(successResponse({
       text: {
         id: updatedText.id,
         postId: updatedText.post_id,
         content: updatedText.content,
         displayOrder: updatedText.display_order,
       },
-    });
+      version,
+    }), version);
 
   } catch (error) {
     console.error('Update text error:', error);
     
     if (error instanceof NotFoundError || error instanceof UnauthorizedError || 
-        error instanceof ValidationError) {
+        error instanceof ValidationError || error instanceof ConflictError) {
       throw error;
     }
     
@@ -0,0 +1,131 @@
+/**
+ * Update Trip Endpoint
+ * Feature: trips
+ * PATCH /api/posts/trips/:tripId
+ *
+ * Updates a trip's title, description, cover image and dates.
+ * Fields that are left out keep their current value; null clears optional ones.
+ * The slug is kept so existing links keep working.
+ */
+
+import { createDatabaseClient } from '../lib/db';
+import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { getTripPostIds, parseTripDate, parseTripTitle, toTripResponse, validateTripDates } from '../lib/trips';
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+  ServerError,
+  successResponse,
+  parseJsonBody
+} from '../lib/errors';
+
+interface Env {
+  DB: D1Database;
+  JWT_SECRET: string;
+}
+
+interface UpdateTripRequest {
+  title?: string;
+  description?: string | null;
+  coverImage?: string | null;
+  startDate?: string | null; // YYYY-MM-DD
+  endDate?: string | null; // YYYY-MM-DD
+}
+
+export const updateTrip = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
+  try {
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { tripId } = routeParams;
+
+    if (!tripId) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    const body = await parseJsonBody<UpdateTripRequest>(request);
+
+    const db = createDatabaseClient(env.DB);
+
+    // Check trip ownership
+    const trip = await db.queryOne('SELECT * FROM trips WHERE id = ?', [tripId]);
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    if (trip.author_id !== user.sub) {
+      throw new UnauthorizedError('You do not have permission to update this trip');
+    }
+
+    // Build update query dynamically
+    const updates: string[] = [];
+    const updateParams: any[] = [];
+
+    if (body.title !== undefined) {
+      updates.push('title = ?');
+      updateParams.push(parseTripTitle(body.title));
+    }
+
+    if (body.description !== undefined) {
+      updates.push('description = ?');
+      updateParams.push(body.description?.trim() || null);
+    }
+
+    if (body.coverImage !== undefined) {
+      updates.push('cover_image = ?');
+      updateParams.push(body.coverImage || null);
+    }
+
+    const startDate = body.startDate !== undefined ? parseTripDate(body.startDate, 'startDate') : trip.start_date;
+    const endDate = body.endDate !== undefined ? parseTripDate(body.endDate, 'endDate') : trip.end_date;
+    validateTripDates(startDate, endDate);
+
+    if (body.startDate !== undefined) {
+      updates.push('start_date = ?');
+      updateParams.push(startDate);
+    }
+
+    if (body.endDate !== undefined) {
+      updates.push('end_date = ?');
+      updateParams.push(endDate);
+    }
+
+    if (updates.length === 0) {
+      throw new ValidationError('No fields to update');
+    }
+
+    updates.push('updated_at = ?');
+    updateParams.push(new Date().toISOString());
+
+    await db.execute(
+      `UPDATE trips SET ${updates.join(', ')} WHERE id = ?`,
+      [...updateParams, tripId]
+    );
+
+    const updated = await db.queryOne(
+      `SELECT t.*, (SELECT COUNT(*) FROM trip_posts WHERE trip_id = t.id) as part_count
+      FROM trips t WHERE t.id = ?`,
+      [tripId]
+    );
+
+    // Retire cached public copies of the parts (their trip navigation shows the title)
+    await purgePostCache(db, await getTripPostIds(db, tripId));
+
+    // Return response
+    return successResponse({
+      trip: toTripResponse(updated),
+    });
+
+  } catch (error) {
+    console.error('Update trip error:', error);
+
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError ||
+        error instanceof ValidationError) {
+      throw error;
+    }
+
+    throw new ServerError('Failed to update trip');
+  }
+});
@@ -8,11 +8,15 @@
 
 import { createDatabaseClient } from '../lib/db';
 import { withAuth } from '../lib/auth-middleware';
+import { purgePostCache } from '../lib/edge-cache';
+import { revisionQueries } from '../lib/post-revisions';
+import { getExpectedVersion, withVersionHeader, writeWithPostVersion } from '../lib/post-version';
 import type { SessionPayload } from '../lib/jwt';
 import { 
   NotFoundError,
   UnauthorizedError,
   ValidationError, 
+  ConflictError,
   ServerError,
   successResponse,
   parseJsonBody 
@@ -28,11 +32,14 @@ interface UpdateVideoRequest {
   displayOrder?: number;
   thumbnailUrl?: string;
   durationSeconds?: number;
+  version?: number; // Expected post version (alternative to If-Match)
 }
 
-export const updateVideo = withAuth(async (request: Request, user, env: Env, params: any) => {
+export const updateVideo = withAuth(async (request: Request & { params?: any }, user, env: Env, params: any) => {
   try {
-    const { postId, videoId } = params;
+    // itty-router puts params on the request object
+    const routeParams = (request as any).params || params;
+    const { postId, videoId } = routeParams;
 
     if (!postId || !videoId) {
       throw new NotFoundError('Video not found');
@@ -50,7 +57,7 @@ export const updateVideo = withAuth(async (request: Request, user, env: Env, par
 
     // Check post ownership
     const post = await db.queryOne(
-      'SELECT author_id FROM blog_posts WHERE id = ?',
+      'SELECT author_id FROM blog_posts WHERE id = ? AND deleted_at IS NULL',
       [postId]
     );
 
@@ -102,18 +109,15 @@ export const updateVideo = withAuth(async (request: Request, user, env: Env, par
       updateParams.push(body.durationSeconds);
     }
 
-    // Execute update
+    // Claim the next version and write in one batch (409 if someone else saved first)
     updateParams.push(videoId);
-    await db.execute(
-      `UPDATE video_content SET ${updates.join(', ')} WHERE id = ?`,
-      updateParams
-    );
+    const version = await writeWithPostVersion(db, postId, getExpectedVersion(request, body), async () => [
+      // Snapshot the current state before overwriting it
+      ...await revisionQueries(db, postId, user.sub, 'update-video'),
 
-    // Update post's updated_at
-    await db.execute(
-      'UPDATE blog_posts SET updated_at = ? WHERE id = ?',
-      [new Date().toISOString(), postId]
-    );
+      // Execute update
+      { query: `UPDATE video_content SET ${updates.join(', ')} WHERE id = ?`, params: updateParams },
+    ]);
 
     // Fetch updated video
     const updatedVideo = await db.queryOne(
@@ -125,8 +129,11 @@ export const updateVideo = withAuth(async (request: Request, user, env: Env, par
       [videoId]
     );
 
+    // Retire cached public copies
+    await purgePostCache(db, [postId]);
+
     // Return response
-    return successResponse({
+    return withVersionHeader(successResponse({
       video: {
         id: updatedVideo.id,
         postId: updatedVideo.post_id,
@@ -139,13 +146,14 @@ export const updateVideo = withAuth(async (request: Request, user, env: Env, par
         durationSeconds: updatedVideo.duration_seconds,
         uploadedAt: updatedVideo.uploaded_at,
       },
-    });
+      version,
+    }), version);
 
   } catch (error) {
     console.error('Update video error:', error);
     
     if (error instanceof NotFoundError || error instanceof UnauthorizedError || 
-        error instanceof ValidationError) {
+        error instanceof ValidationError || error instanceof ConflictError) {
       throw error;
     }
     
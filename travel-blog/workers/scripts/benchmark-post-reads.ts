@@ -0,0 +1,203 @@
+/**
+ * Benchmark for post list and post detail reads
+ * Feature: post-counters
+ *
+ * Compares the old query shapes (correlated COUNT(*) and cover subqueries per
+ * listed post; nine sequential queries per post page) with the new ones
+ * (counters stored on blog_posts; one db.batch per post page).
+ *
+ * Run against a local D1 database with the migrations applied:
+ *   npx wrangler d1 migrations apply travel-blog-users --local --config workers/posts/wrangler.toml
+ *   npx wrangler dev workers/scripts/benchmark-post-reads.ts --config workers/posts/wrangler.toml --local
+ *   curl "http://localhost:8787/seed?posts=500"
+ *   curl "http://localhost:8787/run?runs=50"
+ *   curl "http://localhost:8787/cleanup"
+ *
+ * Against the local database this mostly shows the query cost; each saved
+ * round trip is worth more against a remote D1 (run with --remote on a copy).
+ */
+
+import { createDatabaseClient, type DatabaseClient } from '../lib/db';
+import { generateUUID } from '../lib/uuid';
+import { refreshPostCountersQuery } from '../lib/post-counters';
+import { loadPostDetail } from '../lib/post-detail';
+import { loadPostTaxonomy } from '../lib/post-taxonomy';
+import { loadTripNavigation } from '../lib/trips';
+import { purgePostQueries } from '../lib/post-trash';
+
+interface Env {
+  DB: D1Database;
+}
+
+const BENCH_AUTHOR = 'benchmark-author';
+const LIST_LIMIT = 20;
+
+const OLD_LIST_SQL = `SELECT
+    p.id, p.slug, p.title, p.description,
+    COALESCE(
+      p.cover_image,
+      (SELECT url FROM photo_content WHERE post_id = p.id ORDER BY display_order ASC LIMIT 1)
+    ) as cover_image,
+    (SELECT COUNT(*) FROM photo_content WHERE post_id = p.id) as photo_count,
+    (SELECT COUNT(*) FROM video_content WHERE post_id = p.id) as video_count,
+    (SELECT COUNT(*) FROM text_content WHERE post_id = p.id) as text_count
+  FROM blog_posts p
+  JOIN design_templates t ON p.design_template_id = t.id
+  WHERE p.deleted_at IS NULL AND p.status = 'published'
+  ORDER BY p.created_at DESC
+  LIMIT ?`;
+
+const NEW_LIST_SQL = `SELECT
+    p.id, p.slug, p.title, p.description, p.resolved_cover_image as cover_image,
+    p.photo_count, p.video_count, p.text_count
+  FROM blog_posts p
+  JOIN design_templates t ON p.design_template_id = t.id
+  WHERE p.deleted_at IS NULL AND p.status = 'published'
+  ORDER BY p.created_at DESC
+  LIMIT ?`;
+
+/**
+ * Post page reads as they were before they were batched
+ */
+async function loadPostDetailSequentially(db: DatabaseClient, slug: string): Promise<void> {
+  const post = await db.queryOne(
+    `SELECT p.*, t.name as template_name
+    FROM blog_posts p
+    JOIN design_templates t ON p.design_template_id = t.id
+    WHERE p.slug = ? AND p.deleted_at IS NULL`,
+    [slug]
+  );
+  if (!post) return;
+
+  await db.query('SELECT * FROM photo_content WHERE post_id = ? ORDER BY display_order ASC', [post.id]);
+  await db.query('SELECT * FROM video_content WHERE post_id = ? ORDER BY display_order ASC', [post.id]);
+  await db.query('SELECT * FROM text_content WHERE post_id = ? ORDER BY display_order ASC', [post.id]);
+  await loadPostTaxonomy(db, post.id);
+  await loadTripNavigation(db, post.id, null);
+}
+
+async function time(runs: number, fn: (run: number) => Promise<unknown>) {
+  const samples: number[] = [];
+
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now();
+    await fn(i);
+    samples.push(performance.now() - start);
+  }
+
+  samples.sort((a, b) => a - b);
+  const round = (ms: number) => Math.round(ms * 100) / 100;
+
+  return {
+    runs,
+    meanMs: round(samples.reduce((sum, ms) => sum + ms, 0) / runs),
+    p50Ms: round(samples[Math.floor(runs * 0.5)]),
+    p95Ms: round(samples[Math.min(runs - 1, Math.floor(runs * 0.95))]),
+  };
+}
+
+async function seed(db: DatabaseClient, count: number) {
+  const template = await db.queryOne<{ id: string }>(
+    'SELECT id FROM design_templates WHERE is_active = 1 LIMIT 1'
+  );
+  if (!template) {
+    throw new Error('Apply the migrations first: no active design template found');
+  }
+
+  for (let i = 0; i < count; i++) {
+    const postId = generateUUID();
+    const now = new Date(Date.UTC(2024, 0, 1) + i * 60_000).toISOString();
+    const queries: { query: string; params: any[] }[] = [{
+      query: `INSERT INTO blog_posts (
+          id, slug, title, description, design_template_id, author_id, status, created_at, updated_at, published_at
+        ) VALUES (?, ?, ?, ?, ?, ?, 'published', ?, ?, ?)`,
+      params: [postId, `benchmark-${postId}`, `Benchmark post ${i}`, 'Seeded for benchmarking', template.id, BENCH_AUTHOR, now, now, now],
+    }];
+
+    for (let n = 0; n < 8; n++) {
+      queries.push({
+        query: `INSERT INTO photo_content (id, post_id, url, cloudflare_image_id, alt_text, display_order, source, uploaded_at)
+          VALUES (?, ?, ?, ?, 'Benchmark photo', ?, 'upload', ?)`,
+        params: [generateUUID(), postId, `https://example.com/${postId}/${n}.jpg`, `benchmark-${postId}-${n}`, n, now],
+      });
+    }
+    for (let n = 0; n < 2; n++) {
+      queries.push({
+        query: `INSERT INTO video_content (id, post_id, url, r2_key, display_order, source, uploaded_at)
+          VALUES (?, ?, ?, ?, ?, 'upload', ?)`,
+        params: [generateUUID(), postId, `https://example.com/${postId}/${n}.mp4`, `benchmark/${postId}/${n}.mp4`, n, now],
+      });
+    }
+    for (let n = 0; n < 5; n++) {
+      queries.push({
+        query: `INSERT INTO text_content (id, post_id, content, display_order, section_name, created_at)
+          VALUES (?, ?, ?, ?, 'main', ?)`,
+        params: [generateUUID(), postId, `<p>Benchmark paragraph ${n}</p>`, n, now],
+      });
+    }
+
+    queries.push(refreshPostCountersQuery(postId));
+    await db.batch(queries);
+  }
+
+  return { seeded: count };
+}
+
+async function run(db: DatabaseClient, runs: number) {
+  const slugs = (await db.query<{ slug: string }>(
+    'SELECT slug FROM blog_posts WHERE author_id = ? AND deleted_at IS NULL LIMIT 100',
+    [BENCH_AUTHOR]
+  )).map(row => row.slug);
+
+  if (slugs.length === 0) {
+    throw new Error('Seed the database first (GET /seed)');
+  }
+
+  return {
+    list: {
+      before: await time(runs, () => db.query(OLD_LIST_SQL, [LIST_LIMIT])),
+      after: await time(runs, () => db.query(NEW_LIST_SQL, [LIST_LIMIT])),
+    },
+    detail: {
+      before: await time(runs, i => loadPostDetailSequentially(db, slugs[i % slugs.length])),
+      after: await time(runs, i => loadPostDetail(db, { by: 'slug', value: slugs[i % slugs.length] }, null)),
+    },
+  };
+}
+
+async function cleanup(db: DatabaseClient) {
+  const posts = await db.query<{ id: string }>('SELECT id FROM blog_posts WHERE author_id = ?', [BENCH_AUTHOR]);
+
+  for (const post of posts) {
+    await db.batch(purgePostQueries(post.id));
+  }
+
+  return { removed: posts.length };
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const db = createDatabaseClient(env.DB);
+
+    try {
+      let result: unknown;
+
+      if (url.pathname === '/seed') {
+        result = await seed(db, Math.min(parseInt(url.searchParams.get('posts') || '200', 10), 5000));
+      } else if (url.pathname === '/run') {
+        result = await run(db, Math.min(parseInt(url.searchParams.get('runs') || '20', 10), 1000));
+      } else if (url.pathname === '/cleanup') {
+        result = await cleanup(db);
+      } else {
+        return new Response('Use /seed?posts=, /run?runs= or /cleanup', { status: 404 });
+      }
+
+      return new Response(JSON.stringify(result, null, 2), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      return new Response(error instanceof Error ? error.message : 'Benchmark failed', { status: 500 });
+    }
+  },
+};
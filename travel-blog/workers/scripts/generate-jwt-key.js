@@ -0,0 +1,26 @@
+/**
+ * Script to generate an RS256 key pair for signing session tokens
+ * Usage: node workers/scripts/generate-jwt-key.js [kid]
+ * If no kid provided, one is made from today's date
+ */
+
+const { generateKeyPairSync } = require('crypto');
+
+function main() {
+  const kid = process.argv[2] || `key-${new Date().toISOString().slice(0, 10)}`;
+
+  console.log('\nGenerating 2048-bit RSA key pair...');
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' };
+
+  console.log(`\n✅ Key ID (JWT_KEY_ID): ${kid}`);
+  console.log('\nPrivate key (JWT_PRIVATE_KEY, auth worker only):');
+  console.log(privateKey.export({ type: 'pkcs8', format: 'pem' }));
+  console.log('Public key (add to the "keys" array of JWT_PUBLIC_KEYS on every worker):');
+  console.log(JSON.stringify(jwk));
+  console.log('\nSee docs/user-management.md ("Signing keys") for the rotation steps');
+  console.log('⚠️  Never commit the private key to git!\n');
+}
+
+main();
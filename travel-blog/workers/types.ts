@@ -35,8 +35,8 @@ export interface LoginSuccessResponse {
     role: 'reader' | 'contributor';
     displayName?: string;
   };
-  expiresAt: string; // ISO 8601 timestamp
-  token?: string; // JWT token for cross-domain authentication (optional for backward compatibility)
+  expiresAt: string; // ISO 8601 timestamp, end of the session
+  token?: string; // JWT access token for cross-domain authentication (optional for backward compatibility)
 }
 
 // Logout response
@@ -71,10 +71,17 @@ export type VerifyResponse = VerifySessionResponse | ErrorResponse;
 // Cloudflare Workers environment bindings
 // Using 'any' for KVNamespace and D1Database to avoid build issues with Next.js
 export interface Env {
-  JWT_SECRET: string;
+  JWT_SECRET?: string; // HS256 fallback when no key pair is configured
+  JWT_PRIVATE_KEY?: string; // RS256 signing key, PKCS#8 PEM (see lib/jwt-keys.ts)
+  JWT_KEY_ID?: string; // kid of JWT_PRIVATE_KEY
+  JWT_PUBLIC_KEYS?: string; // JWKS JSON of the keys tokens may be signed with
   RATE_LIMIT_KV?: any; // Optional KV for rate limiting
   DB: any; // D1 database for user storage
   NODE_ENV?: string;
+  APP_URL?: string; // Site URL for links in messages (required for password resets)
+  NOTIFIER_TRANSPORT?: string; // console (default in development), file or webhook (see lib/notifier.ts)
+  NOTIFIER_FILE_PATH?: string;
+  NOTIFIER_WEBHOOK_URL?: string;
 }
 
 // Login attempt entity for rate limiting